@@ -1,14 +1,19 @@
 import { describe, it, expect, vi, beforeEach, afterEach, type MockInstance } from 'vitest';
 import fs from 'node:fs';
 import * as cli from '../src/cli.js';
-import { buildPdfToPngOptions, executeConversion, getVersion, HELP_TEXT, parseBoolean, parseNumberList, run } from '../src/cli.js';
+import { buildPdfToPngOptions, buildPdfToTiffOptions, executeConversion, getVersion, HELP_TEXT, parseBoolean, run } from '../src/cli.js';
 import { pdfToPngCore } from '../src/pdfToPngCore.js';
+import { pdfToTiffCore } from '../src/pdfToTiff.js';
 import { normalizePdfToPngOptions } from '../src/normalizePdfToPngOptions.js';
 
 vi.mock('../src/pdfToPngCore.js', () => ({
     pdfToPngCore: vi.fn().mockResolvedValue([]),
 }));
 
+vi.mock('../src/pdfToTiff.js', () => ({
+    pdfToTiffCore: vi.fn().mockResolvedValue({ path: '/out/test.tiff', compression: 'lzw', pages: [] }),
+}));
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Helper to set process.argv for each test
 // ─────────────────────────────────────────────────────────────────────────────
@@ -47,29 +52,23 @@ describe('parseBoolean', () => {
     });
 });
 
-describe('parseNumberList', () => {
-    it('returns undefined for undefined input', () => {
-        expect(parseNumberList(undefined)).toBeUndefined();
-    });
-
-    it('parses a comma-separated list of integers', () => {
-        expect(parseNumberList('1,2,3')).toEqual([1, 2, 3]);
-    });
-
-    it('trims whitespace around tokens', () => {
-        expect(parseNumberList(' 4 , 5 , 6 ')).toEqual([4, 5, 6]);
-    });
-
-    it('throws when a token is not a valid integer', () => {
-        expect(() => parseNumberList('1,abc,3')).toThrow('Invalid integer in list: "abc"');
-    });
+describe('--pages-to-process', () => {
+    it('passes the value on as a page range expression', () => {
+        const built = buildPdfToPngOptions({ 'output-folder': '/out', 'pages-to-process': '1-3, last' }, ['test.pdf']);
 
-    it('throws when a token is a float (not an integer)', () => {
-        expect(() => parseNumberList('1,1.5,3')).toThrow('Invalid integer in list: "1.5"');
+        expect(built.options.pagesToProcess).toEqual({
+            expression: '1-3, last',
+            terms: [
+                { kind: 'range', from: 1, to: 3 },
+                { kind: 'page', page: -1 },
+            ],
+        });
     });
 
-    it('throws when a token is empty', () => {
-        expect(() => parseNumberList('1,,3')).toThrow('Invalid integer in list: empty value.');
+    it('rejects an invalid term, naming it and its position', () => {
+        expect(() => buildPdfToPngOptions({ 'output-folder': '/out', 'pages-to-process': '1,,3' }, ['test.pdf'])).toThrow(
+            'pagesToProcess term "" at character 3 of "1,,3" is empty',
+        );
     });
 });
 
@@ -102,7 +101,7 @@ describe('buildPdfToPngOptions', () => {
                 disableFontFace: false,
                 enableXfa: true,
                 pdfFilePassword: undefined,
-                pagesToProcess: [1, 2, 3],
+                pagesToProcess: '1,2,3',
                 verbosityLevel: 1,
                 processPagesInParallel: true,
                 concurrencyLimit: 2,
@@ -114,6 +113,169 @@ describe('buildPdfToPngOptions', () => {
         expect(built.options.renderInWorkerThreads).toBe(true);
     });
 
+    it('maps --output-format and the per-format quality flags', () => {
+        const built = buildPdfToPngOptions(
+            { 'output-folder': '/out', 'output-format': 'jpeg', 'jpeg-quality': '75', 'webp-quality': '40' },
+            ['test.pdf'],
+        );
+        expect(built.options.outputFormat).toBe('jpeg');
+        expect(built.options.jpegQuality).toBe(75);
+        expect(built.options.webpQuality).toBe(40);
+    });
+
+    it('maps --range-loading to rangeLoading', () => {
+        expect(buildPdfToPngOptions({ 'output-folder': '/out', 'range-loading': true }, ['test.pdf']).options.rangeLoading).toBe(true);
+        expect(() => buildPdfToPngOptions({ 'output-folder': '/out', 'range-loading': true, 'page-box': 'TrimBox' }, ['test.pdf'])).toThrow(
+            "rangeLoading requires pageBox 'CropBox', received: TrimBox",
+        );
+    });
+
+    it('maps --page-box to pageBox and rejects unknown boxes', () => {
+        expect(buildPdfToPngOptions({ 'output-folder': '/out', 'page-box': 'TrimBox' }, ['test.pdf']).options.pageBox).toBe('TrimBox');
+        expect(() => buildPdfToPngOptions({ 'output-folder': '/out', 'page-box': 'Trim' }, ['test.pdf'])).toThrow(
+            'pageBox must be one of MediaBox, CropBox, BleedBox, TrimBox, ArtBox, received: Trim',
+        );
+    });
+
+    it('maps --clip and --clip-units to clip', () => {
+        expect(buildPdfToPngOptions({ 'output-folder': '/out', clip: '10, 20,300,150.5' }, ['test.pdf']).options.clip).toEqual({
+            x: 10,
+            y: 20,
+            width: 300,
+            height: 150.5,
+            units: 'points',
+        });
+        expect(
+            buildPdfToPngOptions({ 'output-folder': '/out', clip: '0,0.5,1,0.5', 'clip-units': 'fraction' }, ['test.pdf']).options.clip
+                ?.units,
+        ).toBe('fraction');
+        expect(() => buildPdfToPngOptions({ 'output-folder': '/out', clip: '10,20,300' }, ['test.pdf'])).toThrow(
+            '--clip must be four comma-separated numbers: x,y,width,height.',
+        );
+        expect(() => buildPdfToPngOptions({ 'output-folder': '/out', clip: '10,,300,20' }, ['test.pdf'])).toThrow(
+            '--clip must be four comma-separated numbers: x,y,width,height.',
+        );
+        expect(() => buildPdfToPngOptions({ 'output-folder': '/out', 'clip-units': 'fraction' }, ['test.pdf'])).toThrow(
+            '--clip-units requires --clip.',
+        );
+    });
+
+    it('maps --background to background', () => {
+        expect(buildPdfToPngOptions({ 'output-folder': '/out', background: 'transparent' }, ['test.pdf']).options.background).toBe(
+            'transparent',
+        );
+        expect(() => buildPdfToPngOptions({ 'output-folder': '/out', background: 'nope' }, ['test.pdf'])).toThrow(
+            "background must be 'white', 'transparent' or a CSS colour, received: nope",
+        );
+    });
+
+    it('maps --annotations and --form-values to annotations', () => {
+        expect(buildPdfToPngOptions({ 'output-folder': '/out', annotations: 'disable' }, ['test.pdf']).options).toMatchObject({
+            annotationMode: 'disable',
+            formValues: undefined,
+        });
+        expect(
+            buildPdfToPngOptions({ 'output-folder': '/out', 'form-values': '{"name":"Ada","agree":true}' }, ['test.pdf']).options,
+        ).toMatchObject({ annotationMode: 'enable-storage', formValues: { name: 'Ada', agree: true } });
+        expect(() => buildPdfToPngOptions({ 'output-folder': '/out', 'form-values': '{name: Ada}' }, ['test.pdf'])).toThrow(
+            '--form-values must be a JSON object of field names and values.',
+        );
+        expect(() => buildPdfToPngOptions({ 'output-folder': '/out', annotations: 'print' }, ['test.pdf'])).toThrow(
+            'annotations.mode must be one of disable, enable, enable-forms, enable-storage, received: print',
+        );
+    });
+
+    it('maps --show-layers and --hide-layers to optionalContent', () => {
+        expect(
+            buildPdfToPngOptions({ 'output-folder': '/out', 'show-layers': 'Notes', 'hide-layers': 'Dimensions, 12R' }, ['test.pdf'])
+                .options.optionalContent,
+        ).toEqual({ Notes: 'visible', Dimensions: 'hidden', '12R': 'hidden' });
+        expect(() => buildPdfToPngOptions({ 'output-folder': '/out', 'hide-layers': 'Dimensions,' }, ['test.pdf'])).toThrow(
+            '--hide-layers must be a comma-separated list of layer names or ids.',
+        );
+        expect(() =>
+            buildPdfToPngOptions({ 'output-folder': '/out', 'show-layers': 'Notes', 'hide-layers': 'Notes' }, ['test.pdf']),
+        ).toThrow('Layer "Notes" cannot be both shown and hidden.');
+    });
+
+    it('maps --render-intent to renderIntent', () => {
+        expect(buildPdfToPngOptions({ 'output-folder': '/out', 'render-intent': 'print' }, ['test.pdf']).options.renderIntent).toBe(
+            'print',
+        );
+        expect(() => buildPdfToPngOptions({ 'output-folder': '/out', 'render-intent': 'screen' }, ['test.pdf'])).toThrow(
+            "renderIntent must be 'display' or 'print', received: screen",
+        );
+    });
+
+    it('maps --color-mode, --bilevel-threshold and --dither to the colour options', () => {
+        const { options } = buildPdfToPngOptions(
+            { 'output-folder': '/out', 'color-mode': 'bilevel', 'bilevel-threshold': '100', dither: true },
+            ['test.pdf'],
+        );
+
+        expect(options).toMatchObject({ colorMode: 'bilevel', bilevelThreshold: 100, dither: true });
+        expect(() => buildPdfToPngOptions({ 'output-folder': '/out', 'color-mode': 'cmyk' }, ['test.pdf'])).toThrow(
+            'colorMode must be one of rgba, rgb, gray, bilevel, received: cmyk',
+        );
+        expect(() =>
+            buildPdfToPngOptions({ 'output-folder': '/out', 'color-mode': 'bilevel', 'bilevel-threshold': 'mid' }, ['test.pdf']),
+        ).toThrow('--bilevel-threshold must be a valid integer.');
+    });
+
+    it('maps --png-compression-level and --png-filter to pngCompression', () => {
+        expect(
+            buildPdfToPngOptions({ 'output-folder': '/out', 'png-compression-level': '1' }, ['test.pdf']).options.pngCompression,
+        ).toEqual({
+            level: 1,
+            filter: 'adaptive',
+        });
+        expect(buildPdfToPngOptions({ 'output-folder': '/out', 'png-filter': 'paeth' }, ['test.pdf']).options.pngCompression).toEqual({
+            level: 6,
+            filter: 'paeth',
+        });
+        expect(buildPdfToPngOptions({ 'output-folder': '/out' }, ['test.pdf']).options.pngCompression).toBeUndefined();
+        expect(() => buildPdfToPngOptions({ 'output-folder': '/out', 'png-compression-level': 'max' }, ['test.pdf'])).toThrow(
+            '--png-compression-level must be a valid integer.',
+        );
+    });
+
+    it('maps --png-resolution, --png-provenance and --png-text to pngMetadata', () => {
+        expect(
+            buildPdfToPngOptions(
+                { 'output-folder': '/out', 'png-resolution': 'false', 'png-provenance': true, 'png-text': '{"Author":"Ada"}' },
+                ['test.pdf'],
+            ).options.pngMetadata,
+        ).toEqual({ resolution: false, provenance: true, text: { Author: 'Ada' } });
+        expect(buildPdfToPngOptions({ 'output-folder': '/out' }, ['test.pdf']).options.pngMetadata).toBeUndefined();
+        expect(() => buildPdfToPngOptions({ 'output-folder': '/out', 'png-text': 'Author=Ada' }, ['test.pdf'])).toThrow(
+            '--png-text must be a JSON object of keywords and values.',
+        );
+    });
+
+    it('maps --tile-size to tileSize and rejects non-integers', () => {
+        expect(buildPdfToPngOptions({ 'output-folder': '/out', 'tile-size': '2048' }, ['test.pdf']).options.tileSize).toBe(2048);
+        expect(() => buildPdfToPngOptions({ 'output-folder': '/out', 'tile-size': '512px' }, ['test.pdf'])).toThrow(
+            '--tile-size must be a valid integer.',
+        );
+    });
+
+    it('maps --dpi to the derived viewport scale and rejects it alongside --viewport-scale', () => {
+        expect(buildPdfToPngOptions({ 'output-folder': '/out', dpi: '144' }, ['test.pdf']).options.viewportScale).toBe(2);
+        expect(() => buildPdfToPngOptions({ 'output-folder': '/out', dpi: 'high' }, ['test.pdf'])).toThrow('--dpi must be a valid number.');
+        expect(() => buildPdfToPngOptions({ 'output-folder': '/out', dpi: '300', 'viewport-scale': '2' }, ['test.pdf'])).toThrow(
+            'dpi and viewportScale cannot both be set; use one or the other',
+        );
+    });
+
+    it('rejects an unknown --output-format and a non-integer --jpeg-quality', () => {
+        expect(() => buildPdfToPngOptions({ 'output-folder': '/out', 'output-format': 'bmp' }, ['test.pdf'])).toThrow(
+            'outputFormat must be one of png, jpeg, webp, received: bmp',
+        );
+        expect(() => buildPdfToPngOptions({ 'output-folder': '/out', 'jpeg-quality': 'high' }, ['test.pdf'])).toThrow(
+            '--jpeg-quality must be a valid integer.',
+        );
+    });
+
     it('defaults renderInWorkerThreads to false when the flag is absent', () => {
         const built = buildPdfToPngOptions({ 'return-metadata-only': true }, ['test.pdf']);
         expect(built.options.renderInWorkerThreads).toBe(false);
@@ -148,6 +310,41 @@ describe('buildPdfToPngOptions', () => {
     });
 });
 
+describe('buildPdfToTiffOptions', () => {
+    it('maps the render flags and --tiff-compression', () => {
+        const { pdfFilePath, options } = buildPdfToTiffOptions(
+            { 'output-folder': '/out', 'output-format': 'tiff', 'color-mode': 'bilevel', dpi: '200', 'tiff-compression': 'lzw' },
+            ['test.pdf'],
+        );
+
+        expect(pdfFilePath).toBe('test.pdf');
+        expect(options).toMatchObject({
+            outputFolder: '/out',
+            outputFileName: undefined,
+            compression: 'lzw',
+            pageOptions: { colorMode: 'bilevel', viewportScale: 200 / 72, returnRawPixels: true },
+        });
+        expect(buildPdfToTiffOptions({ 'output-folder': '/out', 'color-mode': 'bilevel' }, ['test.pdf']).options.compression).toBe('g4');
+        expect(() => buildPdfToTiffOptions({ 'output-folder': '/out', 'tiff-compression': 'zip' }, ['test.pdf'])).toThrow(
+            'tiffCompression must be one of none, lzw, deflate, g4, received: zip',
+        );
+    });
+
+    it('rejects image-only flags, a missing --output-folder, and --tiff-compression without tiff', () => {
+        expect(() => buildPdfToTiffOptions({ 'output-folder': '/out', 'png-filter': 'up' }, ['test.pdf'])).toThrow(
+            '--png-filter does not apply to --output-format tiff.',
+        );
+        expect(() => buildPdfToTiffOptions({ 'return-metadata-only': true }, ['test.pdf'])).toThrow(
+            '--return-metadata-only does not apply to --output-format tiff.',
+        );
+        expect(() => buildPdfToTiffOptions({}, ['test.pdf'])).toThrow('The CLI requires --output-folder for --output-format tiff.');
+        expect(() => buildPdfToTiffOptions({ 'output-folder': '/out' }, [])).toThrow('<pdf-file-path> is required.');
+        expect(() => buildPdfToPngOptions({ 'output-folder': '/out', 'tiff-compression': 'g4' }, ['test.pdf'])).toThrow(
+            '--tiff-compression requires --output-format tiff.',
+        );
+    });
+});
+
 describe('executeConversion', () => {
     it('logs success output without using process.exit', async () => {
         const log = vi.fn();
@@ -159,7 +356,18 @@ describe('executeConversion', () => {
 
     it('writes metadata JSON without an informational banner', async () => {
         vi.mocked(pdfToPngCore).mockResolvedValueOnce([
-            { kind: 'metadata', pageNumber: 1, name: 'page_1.png', width: 595, height: 842, rotation: 0, content: undefined, path: '' },
+            {
+                kind: 'metadata',
+                pageNumber: 1,
+                name: 'page_1.png',
+                width: 595,
+                height: 842,
+                rotation: 0,
+                viewportScale: 1,
+                renderedRect: [0, 0, 612, 792],
+                content: undefined,
+                path: '',
+            },
         ]);
         const logInfo = vi.fn();
         const writeOutput = vi.fn();
@@ -357,10 +565,10 @@ describe('CLI run()', () => {
         expect(pdfToPngCore).not.toHaveBeenCalled();
     });
 
-    it('exits 1 when --pages-to-process contains an invalid integer', async () => {
+    it('exits 1 when --pages-to-process contains an invalid term', async () => {
         setArgv('test.pdf', '--output-folder', '/out', '--pages-to-process', '1,abc,3');
         await run();
-        expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('Invalid integer in list: "abc"'));
+        expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('pagesToProcess term "abc" at character 3 of "1,abc,3"'));
         expect(exitSpy).toHaveBeenCalledWith(1);
         expect(pdfToPngCore).not.toHaveBeenCalled();
     });
@@ -400,7 +608,7 @@ describe('CLI run()', () => {
                 disableFontFace: false,
                 enableXfa: true,
                 pdfFilePassword: undefined,
-                pagesToProcess: [1, 2, 3],
+                pagesToProcess: '1,2,3',
                 verbosityLevel: 1,
                 processPagesInParallel: true,
                 concurrencyLimit: 2,
@@ -456,11 +664,41 @@ describe('CLI run()', () => {
         expect(logSpy).not.toHaveBeenCalled();
     });
 
+    // ── --pages-to-process ────────────────────────────────────────────────────
+
+    it('accepts a page range counted from the end after --pages-to-process', async () => {
+        for (const args of [['--pages-to-process', '-3--1'], ['--pages-to-process=-3--1']]) {
+            setArgv('test.pdf', '--return-metadata-only', ...args);
+            await run();
+        }
+        setArgv('test.pdf', '--pages-to-process', '-1', '--return-metadata-only');
+        await run();
+
+        expect(errorSpy).not.toHaveBeenCalled();
+        expect(exitSpy).not.toHaveBeenCalled();
+        expect(vi.mocked(pdfToPngCore).mock.calls.map(([, options]) => options.pagesToProcess)).toEqual([
+            { expression: '-3--1', terms: [{ kind: 'range', from: -3, to: -1 }] },
+            { expression: '-3--1', terms: [{ kind: 'range', from: -3, to: -1 }] },
+            { expression: '-1', terms: [{ kind: 'page', page: -1 }] },
+        ]);
+    });
+
     // ── --return-metadata-only ─────────────────────────────────────────────────
 
     it('accepts --return-metadata-only without --output-folder', async () => {
         vi.mocked(pdfToPngCore).mockResolvedValueOnce([
-            { kind: 'metadata', pageNumber: 1, name: 'page_1.png', width: 595, height: 842, rotation: 0, content: undefined, path: '' },
+            {
+                kind: 'metadata',
+                pageNumber: 1,
+                name: 'page_1.png',
+                width: 595,
+                height: 842,
+                rotation: 0,
+                viewportScale: 1,
+                renderedRect: [0, 0, 612, 792],
+                content: undefined,
+                path: '',
+            },
         ]);
 
         setArgv('test.pdf', '--return-metadata-only');
@@ -478,7 +716,18 @@ describe('CLI run()', () => {
 
     it('prints metadata JSON in --silent --return-metadata-only mode', async () => {
         vi.mocked(pdfToPngCore).mockResolvedValueOnce([
-            { kind: 'metadata', pageNumber: 1, name: 'page_1.png', width: 595, height: 842, rotation: 0, content: undefined, path: '' },
+            {
+                kind: 'metadata',
+                pageNumber: 1,
+                name: 'page_1.png',
+                width: 595,
+                height: 842,
+                rotation: 0,
+                viewportScale: 1,
+                renderedRect: [0, 0, 612, 792],
+                content: undefined,
+                path: '',
+            },
         ]);
 
         setArgv('test.pdf', '--return-metadata-only', '--silent');
@@ -490,7 +739,18 @@ describe('CLI run()', () => {
 
     it('does not log output-folder chatter in metadata-only mode because no files are written', async () => {
         vi.mocked(pdfToPngCore).mockResolvedValueOnce([
-            { kind: 'metadata', pageNumber: 1, name: 'page_1.png', width: 595, height: 842, rotation: 0, content: undefined, path: '' },
+            {
+                kind: 'metadata',
+                pageNumber: 1,
+                name: 'page_1.png',
+                width: 595,
+                height: 842,
+                rotation: 0,
+                viewportScale: 1,
+                renderedRect: [0, 0, 612, 792],
+                content: undefined,
+                path: '',
+            },
         ]);
 
         setArgv('test.pdf', '--return-metadata-only', '--output-folder', '/out');
@@ -502,6 +762,28 @@ describe('CLI run()', () => {
         expect(exitSpy).not.toHaveBeenCalled();
     });
 
+    // ── --output-format tiff ──────────────────────────────────────────────────
+
+    it('writes one multi-page TIFF through pdfToTiffCore for --output-format tiff', async () => {
+        setArgv('test.pdf', '--output-folder', '/out', '--output-format', 'tiff', '--color-mode', 'bilevel');
+        await run();
+
+        expect(pdfToTiffCore).toHaveBeenCalledWith('test.pdf', expect.objectContaining({ outputFolder: '/out', compression: 'g4' }));
+        expect(pdfToPngCore).not.toHaveBeenCalled();
+        expect(logSpy).toHaveBeenCalledWith('Successfully wrote 0 page(s) to /out/test.tiff.');
+        expect(exitSpy).not.toHaveBeenCalled();
+    });
+
+    it('exits 1 and prints the error when pdfToTiffCore throws', async () => {
+        vi.mocked(pdfToTiffCore).mockRejectedValueOnce(new Error('EEXIST: file already exists'));
+
+        setArgv('test.pdf', '--output-folder', '/out', '--output-format', 'tiff');
+        await run();
+
+        expect(errorSpy).toHaveBeenCalledWith('EEXIST: file already exists');
+        expect(exitSpy).toHaveBeenCalledWith(1);
+    });
+
     // ── Error from pdfToPngCore ───────────────────────────────────────────────
 
     it('exits 1 and prints the error when pdfToPngCore throws', async () => {
@@ -531,13 +813,14 @@ describe('CLI run()', () => {
 // ─────────────────────────────────────────────────────────────────────────────
 
 describe('module exports', () => {
-    it('exports run, HELP_TEXT, parseBoolean, parseNumberList, buildPdfToPngOptions, and executeConversion', () => {
+    it('exports run, HELP_TEXT, parseBoolean, buildPdfToPngOptions, and executeConversion', () => {
         expect(typeof cli.run).toBe('function');
         expect(typeof cli.HELP_TEXT).toBe('string');
         expect(typeof cli.parseBoolean).toBe('function');
-        expect(typeof cli.parseNumberList).toBe('function');
         expect(typeof cli.buildPdfToPngOptions).toBe('function');
         expect(typeof cli.executeConversion).toBe('function');
+        expect(typeof cli.buildPdfToTiffOptions).toBe('function');
+        expect(typeof cli.executeTiffConversion).toBe('function');
         expect(typeof cli.getVersion).toBe('function');
     });
 });
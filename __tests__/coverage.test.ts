@@ -136,6 +136,7 @@ describe('pdfToPng', () => {
         const mockPage = {
             getViewport: vi.fn().mockReturnValue({ width: 20_000, height: 20_000 }), // 400 MP > 100 MP limit
             rotate: 0,
+            view: [0, 0, 20_000, 20_000],
             cleanup: vi.fn(),
         };
         const mockDocument = {
@@ -160,6 +161,7 @@ describe('pdfToPng', () => {
         const mockPage = {
             getViewport: vi.fn().mockReturnValue({ width: 10, height: 10 }),
             rotate: 0,
+            view: [0, 0, 10, 10],
             cleanup: vi.fn(),
         };
         const mockDocument = {
@@ -190,6 +192,7 @@ describe('pdfToPng', () => {
             getViewport: vi.fn().mockReturnValue({ width: 10, height: 10 }),
             render: vi.fn().mockReturnValue({ promise: Promise.resolve() }),
             rotate: 0,
+            view: [0, 0, 10, 10],
             cleanup: vi.fn(),
         };
         const mockDocument = {
@@ -226,6 +229,7 @@ describe('pdfToPng', () => {
             getViewport: vi.fn().mockReturnValue({ width: 10, height: 10 }),
             render: vi.fn().mockReturnValue({ promise: Promise.resolve() }),
             rotate: 0,
+            view: [0, 0, 10, 10],
             cleanup: vi.fn(),
         };
         const mockDocument = {
@@ -248,6 +252,7 @@ describe('pdfToPng', () => {
     it('should throw when content is undefined at write time (defensive guard)', async () => {
         // Simulates canvas.encode() resolving to undefined (e.g. broken canvas implementation).
         // Guards L463: the savePNGfile defensive check that content must not be undefined.
+        // No pngMetadata is set, so no chunks are spliced into the missing PNG.
         const mockCanvas = { encode: vi.fn().mockResolvedValue(undefined) };
         const mockCanvasFactory = {
             create: vi.fn().mockReturnValue({ canvas: mockCanvas, context: {} }),
@@ -257,6 +262,7 @@ describe('pdfToPng', () => {
             getViewport: vi.fn().mockReturnValue({ width: 10, height: 10 }),
             render: vi.fn().mockReturnValue({ promise: Promise.resolve() }),
             rotate: 0,
+            view: [0, 0, 10, 10],
             cleanup: vi.fn(),
         };
         const mockDocument = {
@@ -292,6 +298,7 @@ describe('pdfToPng', () => {
             getViewport: vi.fn().mockReturnValue({ width: 10, height: 10 }),
             render: vi.fn().mockReturnValue({ promise: Promise.resolve() }),
             rotate: 0,
+            view: [0, 0, 10, 10],
             cleanup: vi.fn(),
         };
         const mockDocument = {
@@ -326,6 +333,7 @@ describe('pdfToPng', () => {
             getViewport: vi.fn().mockReturnValue({ width: 10, height: 10 }),
             render: vi.fn().mockReturnValue({ promise: Promise.reject(new Error('render failed')) }),
             rotate: 0,
+            view: [0, 0, 10, 10],
             cleanup: vi.fn(),
         };
         const mockDocument = {
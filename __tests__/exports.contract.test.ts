@@ -1,7 +1,11 @@
 import { expect, test } from 'vitest';
-import { pdfToPng, VerbosityLevel } from '../src/index.js';
+import { openPdf, PdfRenderPool, pdfToPng, pdfToPngIterator, pdfToTiff, VerbosityLevel } from '../src/index.js';
 
 test('should expose the documented root exports from src/index.js', () => {
     expect(pdfToPng).toBeDefined();
+    expect(pdfToPngIterator).toBeDefined();
+    expect(pdfToTiff).toBeDefined();
+    expect(openPdf).toBeDefined();
+    expect(PdfRenderPool).toBeDefined();
     expect(VerbosityLevel).toBeDefined();
 });
@@ -0,0 +1,103 @@
+import { createReadStream, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { Readable } from 'node:stream';
+import { ReadableStream } from 'node:stream/web';
+import { expect, test } from 'vitest';
+import { openPdf, pdfToPng, pdfToPngIterator } from '../src';
+import { MAX_INPUT_BYTES } from '../src/const';
+import { getPdfFileBuffer } from '../src/pdfInput';
+
+const SAMPLE_PDF = resolve('./test-data/sample.pdf');
+
+test('reads a Node Readable, a web ReadableStream and an async iterable to the same bytes', async () => {
+    const expected = readFileSync(SAMPLE_PDF);
+    async function* chunked(): AsyncGenerator<Uint8Array> {
+        for (let offset = 0; offset < expected.length; offset += 1000) {
+            yield expected.subarray(offset, offset + 1000);
+        }
+    }
+
+    for (const source of [createReadStream(SAMPLE_PDF, { highWaterMark: 4096 }), Readable.toWeb(createReadStream(SAMPLE_PDF)), chunked()]) {
+        const result = await getPdfFileBuffer(source, MAX_INPUT_BYTES);
+        expect(Buffer.from(result).equals(expected)).toBe(true);
+        expect(result.byteLength).toBe(result.buffer.byteLength);
+    }
+});
+
+test('copies the chunks once, into bytes that share no memory with them', async () => {
+    const source = Buffer.from(readFileSync(SAMPLE_PDF));
+    async function* viewsOfOneBuffer(): AsyncGenerator<Uint8Array> {
+        for (let offset = 0; offset < source.length; offset += 512) {
+            yield source.subarray(offset, offset + 512);
+        }
+    }
+
+    const result = await getPdfFileBuffer(viewsOfOneBuffer(), MAX_INPUT_BYTES);
+    expect(result.buffer).not.toBe(source.buffer);
+    source.fill(0);
+    expect(Buffer.from(result).equals(readFileSync(SAMPLE_PDF))).toBe(true);
+});
+
+test('converts a streamed PDF as it converts the file', async () => {
+    const [fromFile] = await pdfToPng(SAMPLE_PDF, { pagesToProcess: [1] });
+    const [fromStream] = await pdfToPng(createReadStream(SAMPLE_PDF), { pagesToProcess: [1] });
+    const streamed = [];
+    for await (const page of pdfToPngIterator(Readable.toWeb(createReadStream(SAMPLE_PDF)), { returnMetadataOnly: true })) {
+        streamed.push(page.pageNumber);
+    }
+    const handle = await openPdf(createReadStream(SAMPLE_PDF));
+    try {
+        expect(handle.numPages).toBe(2);
+    } finally {
+        await handle.close();
+    }
+
+    expect(fromStream.content?.equals(fromFile.content as Buffer)).toBe(true);
+    expect(fromStream.name).toBe('buffer_page_1.png');
+    expect(streamed).toEqual([1, 2]);
+});
+
+test('stops reading once the stream exceeds maxInputBytes, and releases the source', async () => {
+    let chunksPulled = 0;
+    let finished = false;
+    async function* endless(): AsyncGenerator<Uint8Array> {
+        try {
+            for (;;) {
+                chunksPulled += 1;
+                yield new Uint8Array(100);
+            }
+        } finally {
+            finished = true;
+        }
+    }
+    const readable = Readable.from(endless(), { objectMode: false });
+    let cancelled = false;
+    const webStream = new ReadableStream<Uint8Array>({
+        pull: (controller): void => controller.enqueue(new Uint8Array(100)),
+        cancel: (): void => {
+            cancelled = true;
+        },
+    });
+
+    await expect(pdfToPng(endless(), { maxInputBytes: 250 })).rejects.toThrow('Input PDF exceeds maxInputBytes (300 > 250 bytes)');
+    expect(chunksPulled).toBe(3);
+    expect(finished).toBe(true);
+    await expect(getPdfFileBuffer(readable, 1000)).rejects.toThrow(/exceeds maxInputBytes/);
+    expect(readable.destroyed).toBe(true);
+    await expect(getPdfFileBuffer(webStream, 1000)).rejects.toThrow(/exceeds maxInputBytes/);
+    expect(cancelled).toBe(true);
+});
+
+test('rejects a stream of text chunks and destroys it', async () => {
+    const readable = createReadStream(SAMPLE_PDF, { encoding: 'latin1' });
+
+    await expect(getPdfFileBuffer(readable, MAX_INPUT_BYTES)).rejects.toThrow('Unsupported stream chunk type: [object String]');
+    expect(readable.destroyed).toBe(true);
+});
+
+test('passes on the error of a failing stream', async () => {
+    const readable = createReadStream(resolve('./test-data/does-not-exist.pdf'));
+
+    await expect(pdfToPng(readable)).rejects.toThrow(/ENOENT/);
+    expect(readable.destroyed).toBe(true);
+});
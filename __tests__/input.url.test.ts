@@ -0,0 +1,170 @@
+import { readFileSync } from 'node:fs';
+import { createServer, type IncomingHttpHeaders, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { resolve } from 'node:path';
+import { setTimeout } from 'node:timers';
+import { pathToFileURL, URL } from 'node:url';
+import { afterAll, beforeAll, expect, test } from 'vitest';
+import { openPdf, pdfToPng } from '../src';
+
+const SAMPLE_PDF = resolve('./test-data/sample.pdf');
+const sampleBytes = readFileSync(SAMPLE_PDF);
+
+/** Headers of every request the servers received, by path. */
+const received = new Map<string, IncomingHttpHeaders>();
+/** Responses the servers never finish, ended after each test file. */
+const stalled: ServerResponse[] = [];
+
+function servePdf(response: ServerResponse, contentType = 'application/pdf'): void {
+    response.writeHead(200, { 'content-type': contentType, 'content-length': sampleBytes.length });
+    response.end(sampleBytes);
+}
+
+let origin: string;
+let otherOrigin: string;
+let main: Server;
+let other: Server;
+
+async function listen(server: Server): Promise<string> {
+    await new Promise<void>((resolvePromise) => server.listen(0, '127.0.0.1', resolvePromise));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+beforeAll(async () => {
+    main = createServer((request, response) => {
+        const url = new URL(request.url ?? '/', 'http://localhost');
+        received.set(url.pathname, request.headers);
+        switch (url.pathname) {
+            case '/sample.pdf':
+                return servePdf(response);
+            case '/sample.bin':
+                return servePdf(response, 'Application/Octet-Stream; charset=binary');
+            case '/login.html':
+                response.writeHead(200, { 'content-type': 'text/html' });
+                return response.end('<html></html>');
+            case '/redirect':
+                response.writeHead(302, { location: `/${url.searchParams.get('to') ?? 'sample.pdf'}` });
+                return response.end();
+            case '/cross-origin':
+                response.writeHead(307, { location: `${otherOrigin}/sample.pdf` });
+                return response.end();
+            case '/loop':
+                response.writeHead(301, { location: '/loop' });
+                return response.end();
+            case '/to-file':
+                response.writeHead(302, { location: pathToFileURL(SAMPLE_PDF).href });
+                return response.end();
+            case '/endless':
+                // No content-length: only the bytes read can exceed the limit.
+                response.writeHead(200, { 'content-type': 'application/pdf' });
+                response.write(sampleBytes);
+                stalled.push(response);
+                return;
+            case '/stall':
+                stalled.push(response);
+                return;
+            default:
+                response.writeHead(404);
+                return response.end();
+        }
+    });
+    other = createServer((request, response) => {
+        received.set(`other${request.url}`, request.headers);
+        servePdf(response);
+    });
+    origin = await listen(main);
+    otherOrigin = await listen(other);
+});
+
+afterAll(async () => {
+    for (const response of stalled) {
+        response.destroy();
+    }
+    await Promise.all([main, other].map((server) => new Promise((resolvePromise) => server.close(resolvePromise))));
+});
+
+test('converts a downloaded PDF as it converts the file', async () => {
+    const [fromFile] = await pdfToPng(SAMPLE_PDF, { pagesToProcess: [1] });
+    const [downloaded] = await pdfToPng(new URL(`${origin}/sample.pdf`), { pagesToProcess: [1] });
+
+    expect(downloaded.content?.equals(fromFile.content as Buffer)).toBe(true);
+    expect(downloaded.name).toBe('buffer_page_1.png');
+});
+
+test('reads a file: URL as the path it names', async () => {
+    const [page] = await pdfToPng(pathToFileURL(SAMPLE_PDF), { pagesToProcess: [1], returnMetadataOnly: true });
+    const handle = await openPdf(pathToFileURL(SAMPLE_PDF), { rangeLoading: true });
+    try {
+        expect(handle.numPages).toBe(2);
+    } finally {
+        await handle.close();
+    }
+
+    expect(page.name).toBe('sample_page_1.png');
+});
+
+test('follows redirects up to maxRedirects, sending headers to the original origin only', async () => {
+    const headers = { authorization: 'Bearer secret' };
+
+    await expect(pdfToPng(new URL(`${origin}/redirect`), { returnMetadataOnly: true, download: { headers } })).resolves.toHaveLength(2);
+    expect(received.get('/sample.pdf')?.authorization).toBe('Bearer secret');
+
+    await expect(pdfToPng(new URL(`${origin}/cross-origin`), { returnMetadataOnly: true, download: { headers } })).resolves.toHaveLength(2);
+    expect(received.get('other/sample.pdf')?.authorization).toBeUndefined();
+
+    await expect(pdfToPng(new URL(`${origin}/redirect`), { download: { maxRedirects: 0 } })).rejects.toThrow(
+        `PDF download from ${origin}/redirect exceeded 0 redirects`,
+    );
+    await expect(pdfToPng(new URL(`${origin}/loop`))).rejects.toThrow(`PDF download from ${origin}/loop exceeded 5 redirects`);
+    await expect(pdfToPng(new URL(`${origin}/to-file`))).rejects.toThrow('redirected to an unsupported protocol: file:');
+});
+
+test('rejects a response that is not a PDF unless its content type is allowed', async () => {
+    await expect(pdfToPng(new URL(`${origin}/login.html`))).rejects.toThrow(
+        `PDF download from ${origin}/login.html has content type "text/html", expected one of: application/pdf`,
+    );
+    await expect(pdfToPng(new URL(`${origin}/sample.bin`), { returnMetadataOnly: true })).rejects.toThrow(
+        'has content type "application/octet-stream"',
+    );
+    await expect(
+        pdfToPng(new URL(`${origin}/sample.bin`), {
+            returnMetadataOnly: true,
+            download: { allowedContentTypes: ['application/pdf', 'application/octet-stream'] },
+        }),
+    ).resolves.toHaveLength(2);
+});
+
+test('names the URL without its query string when the server refuses it', async () => {
+    await expect(pdfToPng(new URL(`${origin}/missing.pdf?X-Amz-Signature=secret`))).rejects.toThrow(
+        new RegExp(`^PDF download from ${origin}/missing\\.pdf failed with HTTP 404$`),
+    );
+});
+
+test('enforces maxInputBytes on the declared length and on the bytes received', async () => {
+    await expect(pdfToPng(new URL(`${origin}/sample.pdf`), { maxInputBytes: 1000 })).rejects.toThrow(
+        `Input PDF exceeds maxInputBytes (${sampleBytes.length} > 1000 bytes)`,
+    );
+    await expect(pdfToPng(new URL(`${origin}/endless`), { maxInputBytes: 1000 })).rejects.toThrow(/^Input PDF exceeds maxInputBytes/);
+});
+
+test('gives up after timeoutMs, and stops when the signal aborts', async () => {
+    await expect(pdfToPng(new URL(`${origin}/stall`), { download: { timeoutMs: 100 } })).rejects.toThrow(
+        `PDF download from ${origin}/stall timed out after 100 ms`,
+    );
+    // The headers arrive, then the body never ends.
+    await expect(pdfToPng(new URL(`${origin}/endless`), { download: { timeoutMs: 200 } })).rejects.toThrow('timed out after 200 ms');
+
+    const controller = new AbortController();
+    const conversion = pdfToPng(new URL(`${origin}/stall`), { signal: controller.signal });
+    setTimeout(() => controller.abort(), 50);
+    await expect(conversion).rejects.toMatchObject({ name: 'AbortError' });
+});
+
+test('rejects URL schemes it cannot read, and rangeLoading of a download', async () => {
+    await expect(pdfToPng(new URL('ftp://127.0.0.1/sample.pdf'))).rejects.toThrow(
+        'Unsupported PDF URL protocol: ftp: (expected http:, https: or file:)',
+    );
+    await expect(pdfToPng(new URL(`${origin}/sample.pdf`), { rangeLoading: true })).rejects.toThrow(
+        'rangeLoading requires a file path input',
+    );
+});
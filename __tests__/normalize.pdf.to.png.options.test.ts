@@ -1,11 +1,23 @@
 import { expect, test } from 'vitest';
-import { MAX_CONCURRENCY_LIMIT, MAX_INPUT_BYTES } from '../src/const';
+import { MAX_CONCURRENCY_LIMIT, MAX_INPUT_BYTES, PDF_DOWNLOAD_DEFAULTS } from '../src/const';
 import type { PdfToPngOptions } from '../src/interfaces/pdf.to.png.options.js';
-import { normalizePdfToPngOptions } from '../src/normalizePdfToPngOptions';
+import { normalizePdfToPngBatchOptions, normalizePdfToPngOptions, normalizePdfToTiffOptions } from '../src/normalizePdfToPngOptions';
+import { PdfRenderPool } from '../src/pdfRenderPool';
 
 test('should apply defaults when options are undefined', () => {
     expect(normalizePdfToPngOptions(undefined)).toEqual({
         viewportScale: 1,
+        targetWidth: undefined,
+        targetHeight: undefined,
+        maxDimension: undefined,
+        pageBox: 'CropBox',
+        clip: undefined,
+        background: 'white',
+        annotationMode: 'enable',
+        formValues: undefined,
+        optionalContent: undefined,
+        renderIntent: 'display',
+        tileSize: undefined,
         disableFontFace: true,
         useSystemFonts: false,
         enableXfa: true,
@@ -16,19 +28,40 @@ test('should apply defaults when options are undefined', () => {
         verbosityLevel: 0,
         returnPageContent: true,
         returnMetadataOnly: false,
+        returnRawPixels: false,
         processPagesInParallel: false,
         renderInWorkerThreads: false,
+        renderPool: undefined,
         concurrencyLimit: 4,
         maxInputBytes: MAX_INPUT_BYTES,
+        rangeLoading: false,
+        download: PDF_DOWNLOAD_DEFAULTS,
+        outputFormat: 'png',
+        jpegQuality: 92,
+        webpQuality: 80,
+        colorMode: 'rgba',
+        bilevelThreshold: 128,
+        dither: false,
+        pngCompression: undefined,
+        pngMetadata: undefined,
+        signal: undefined,
+        onProgress: undefined,
     });
 });
 
 test('should preserve explicitly provided happy-path values', () => {
     const outputFileMaskFunc = (pageNumber: number): string => `page-${pageNumber}.png`;
+    const { signal } = new AbortController();
+    const onProgress = (): void => undefined;
 
     expect(
         normalizePdfToPngOptions({
             viewportScale: 2,
+            pageBox: 'ArtBox',
+            background: '#f8f5ee',
+            annotations: { formValues: { name: 'Ada' } },
+            optionalContent: { Dimensions: 'hidden' },
+            renderIntent: 'print',
             disableFontFace: false,
             useSystemFonts: true,
             enableXfa: false,
@@ -39,13 +72,26 @@ test('should preserve explicitly provided happy-path values', () => {
             verbosityLevel: 5,
             returnPageContent: false,
             returnMetadataOnly: true,
+            returnRawPixels: false,
             processPagesInParallel: true,
             renderInWorkerThreads: true,
             concurrencyLimit: 2,
             maxInputBytes: 1024,
+            outputFormat: 'webp',
+            jpegQuality: 70,
+            webpQuality: 60,
+            colorMode: 'rgba',
+            signal,
+            onProgress,
         }),
     ).toEqual({
         viewportScale: 2,
+        pageBox: 'ArtBox',
+        background: '#f8f5ee',
+        annotationMode: 'enable-storage',
+        formValues: { name: 'Ada' },
+        optionalContent: { Dimensions: 'hidden' },
+        renderIntent: 'print',
         disableFontFace: false,
         useSystemFonts: true,
         enableXfa: false,
@@ -56,10 +102,23 @@ test('should preserve explicitly provided happy-path values', () => {
         verbosityLevel: 5,
         returnPageContent: false,
         returnMetadataOnly: true,
+        returnRawPixels: false,
         processPagesInParallel: true,
         renderInWorkerThreads: true,
         concurrencyLimit: 2,
         maxInputBytes: 1024,
+        rangeLoading: false,
+        download: PDF_DOWNLOAD_DEFAULTS,
+        outputFormat: 'webp',
+        jpegQuality: 70,
+        webpQuality: 60,
+        colorMode: 'rgba',
+        bilevelThreshold: 128,
+        dither: false,
+        pngCompression: undefined,
+        pngMetadata: undefined,
+        signal,
+        onProgress,
     });
 });
 
@@ -97,6 +156,68 @@ test('should reject non-positive or non-integer maxInputBytes', () => {
     expect(() => normalizePdfToPngOptions({ maxInputBytes: Number.NaN })).toThrow('maxInputBytes must be a positive integer');
 });
 
+test('should reject rangeLoading with worker threads or a box read from the whole document', () => {
+    expect(normalizePdfToPngOptions({ rangeLoading: true, maxInputBytes: 1024 })).toMatchObject({
+        rangeLoading: true,
+        maxInputBytes: 1024,
+    });
+    expect(() => normalizePdfToPngOptions({ rangeLoading: true, renderInWorkerThreads: true })).toThrow(
+        'rangeLoading cannot be combined with renderInWorkerThreads or renderPool',
+    );
+    expect(() => normalizePdfToPngOptions({ rangeLoading: true, pageBox: 'MediaBox' })).toThrow(
+        "rangeLoading requires pageBox 'CropBox', received: MediaBox",
+    );
+});
+
+test('should fill in and validate the download options', () => {
+    expect(
+        normalizePdfToPngOptions({ download: { maxRedirects: 0, allowedContentTypes: [' Application/Octet-Stream '] } }).download,
+    ).toEqual({
+        timeoutMs: 30_000,
+        maxRedirects: 0,
+        headers: {},
+        allowedContentTypes: ['application/octet-stream'],
+    });
+    expect(() => normalizePdfToPngOptions({ download: { timeoutMs: 0 } })).toThrow('download.timeoutMs must be a positive integer');
+    expect(() => normalizePdfToPngOptions({ download: { maxRedirects: -1 } })).toThrow(
+        'download.maxRedirects must be a non-negative integer, received: -1',
+    );
+    expect(() => normalizePdfToPngOptions({ download: { headers: { authorization: 1 as unknown as string } } })).toThrow(
+        'download.headers["authorization"] must be a string',
+    );
+    expect(() => normalizePdfToPngOptions({ download: { allowedContentTypes: [] } })).toThrow(
+        'download.allowedContentTypes must be a non-empty array of media types',
+    );
+});
+
+test('should default and validate the batch limits', async () => {
+    expect(normalizePdfToPngBatchOptions({ viewportScale: 2 })).toMatchObject({
+        documentOptions: { viewportScale: 2 },
+        documentConcurrency: 2,
+        pageConcurrency: 4,
+        outputLayout: 'subfolders',
+    });
+    expect(() => normalizePdfToPngBatchOptions({ documentConcurrency: 0 })).toThrow(
+        `documentConcurrency must be an integer between 1 and ${MAX_CONCURRENCY_LIMIT}, received: 0`,
+    );
+    expect(() => normalizePdfToPngBatchOptions({ outputLayout: 'flat' as 'prefixed' })).toThrow(
+        'outputLayout must be one of subfolders, prefixed, received: flat',
+    );
+    expect(() => normalizePdfToPngBatchOptions({ renderInWorkerThreads: true } as PdfToPngOptions)).toThrow(
+        'pdfToPngBatch does not take renderInWorkerThreads or onProgress',
+    );
+
+    const renderPool = new PdfRenderPool({ size: 1 });
+    try {
+        expect(normalizePdfToPngBatchOptions({ renderPool }).pageConcurrency).toBeUndefined();
+        expect(() => normalizePdfToPngBatchOptions({ renderPool, pageConcurrency: 2 })).toThrow(
+            'pageConcurrency cannot be combined with renderPool',
+        );
+    } finally {
+        await renderPool.destroy();
+    }
+});
+
 test('should reject an empty outputFolder before any I/O', () => {
     expect(() => normalizePdfToPngOptions({ outputFolder: '' })).toThrow('outputFolder must not be empty');
     expect(() => normalizePdfToPngOptions({ outputFolder: '   ' })).toThrow('outputFolder must not be empty');
@@ -122,3 +243,321 @@ test('should reject non-positive pagesToProcess values', () => {
 test('should reject non-integer pagesToProcess values', () => {
     expect(() => normalizePdfToPngOptions({ pagesToProcess: [1.5] })).toThrow('pagesToProcess contains invalid page number: 1.5');
 });
+
+test('should reject an unknown outputFormat', () => {
+    const invalidOptions = { outputFormat: 'gif' } as unknown as PdfToPngOptions;
+
+    expect(() => normalizePdfToPngOptions(invalidOptions)).toThrow('outputFormat must be one of png, jpeg, webp, received: gif');
+});
+
+test('should reject jpegQuality and webpQuality outside 0..100 or non-integer', () => {
+    expect(() => normalizePdfToPngOptions({ jpegQuality: -1 })).toThrow('jpegQuality must be an integer between 0 and 100, received: -1');
+    expect(() => normalizePdfToPngOptions({ jpegQuality: 101 })).toThrow('jpegQuality must be an integer between 0 and 100');
+    expect(() => normalizePdfToPngOptions({ webpQuality: 50.5 })).toThrow('webpQuality must be an integer between 0 and 100');
+    expect(() => normalizePdfToPngOptions({ webpQuality: Number.NaN })).toThrow('webpQuality must be an integer between 0 and 100');
+    expect(() => normalizePdfToPngOptions({ jpegQuality: 0, webpQuality: 100 })).not.toThrow();
+});
+
+test('should reject a signal that is not an AbortSignal', () => {
+    const notASignal = { aborted: false } as unknown as AbortSignal;
+    expect(() => normalizePdfToPngOptions({ signal: notASignal })).toThrow('signal must be an AbortSignal');
+    expect(() => normalizePdfToPngOptions({ signal: AbortSignal.abort() })).not.toThrow();
+});
+
+test('should reject an onProgress that is not a function', () => {
+    const notAFunction = 'progress' as unknown as () => void;
+    expect(() => normalizePdfToPngOptions({ onProgress: notAFunction })).toThrow('onProgress must be a function');
+});
+
+test('should accept a PdfRenderPool and validate concurrencyLimit for it (it caps the conversion in the pool)', () => {
+    const notAPool = { destroy: () => Promise.resolve() } as unknown as PdfRenderPool;
+    expect(() => normalizePdfToPngOptions({ renderPool: notAPool })).toThrow('renderPool must be a PdfRenderPool');
+
+    const renderPool = new PdfRenderPool();
+    expect(() => normalizePdfToPngOptions({ renderPool, concurrencyLimit: 0 })).toThrow(
+        'concurrencyLimit must be a positive integer >= 1, received: 0',
+    );
+    expect(normalizePdfToPngOptions({ renderPool }).renderPool).toBe(renderPool);
+});
+
+test('should derive viewportScale from dpi and bound it like an explicit viewportScale', () => {
+    expect(normalizePdfToPngOptions({ dpi: 72 }).viewportScale).toBe(1);
+    expect(normalizePdfToPngOptions({ dpi: 300 }).viewportScale).toBeCloseTo(4.1667, 4);
+    expect(normalizePdfToPngOptions({ dpi: 7200 }).viewportScale).toBe(100);
+    expect(() => normalizePdfToPngOptions({ dpi: 7201 })).toThrow(
+        'dpi must be a finite number greater than 0 and at most 7200 (viewportScale 100), received: 7201',
+    );
+    expect(() => normalizePdfToPngOptions({ dpi: 0 })).toThrow('dpi must be a finite number greater than 0');
+    expect(() => normalizePdfToPngOptions({ dpi: Number.NaN })).toThrow('dpi must be a finite number greater than 0');
+    expect(() => normalizePdfToPngOptions({ dpi: 150, viewportScale: 2 })).toThrow(
+        'dpi and viewportScale cannot both be set; use one or the other',
+    );
+});
+
+test('should validate the fit-to-box limits and reject them alongside viewportScale or dpi', () => {
+    expect(normalizePdfToPngOptions({ targetWidth: 300, targetHeight: 200, maxDimension: 250 })).toMatchObject({
+        targetWidth: 300,
+        targetHeight: 200,
+        maxDimension: 250,
+    });
+    expect(() => normalizePdfToPngOptions({ targetWidth: 0 })).toThrow('targetWidth must be a positive integer, received: 0');
+    expect(() => normalizePdfToPngOptions({ targetHeight: 10.5 })).toThrow('targetHeight must be a positive integer, received: 10.5');
+    expect(() => normalizePdfToPngOptions({ maxDimension: Number.POSITIVE_INFINITY })).toThrow(
+        'maxDimension must be a positive integer, received: Infinity',
+    );
+    expect(() => normalizePdfToPngOptions({ maxDimension: 200, viewportScale: 2 })).toThrow(
+        'targetWidth, targetHeight and maxDimension cannot be combined with viewportScale or dpi',
+    );
+    expect(() => normalizePdfToPngOptions({ targetWidth: 200, dpi: 300 })).toThrow(
+        'targetWidth, targetHeight and maxDimension cannot be combined with viewportScale or dpi',
+    );
+});
+
+test('should validate pageBox', () => {
+    expect(normalizePdfToPngOptions({ pageBox: 'TrimBox' }).pageBox).toBe('TrimBox');
+    expect(() => normalizePdfToPngOptions({ pageBox: 'trimbox' as PdfToPngOptions['pageBox'] })).toThrow(
+        'pageBox must be one of MediaBox, CropBox, BleedBox, TrimBox, ArtBox, received: trimbox',
+    );
+});
+
+test('should validate clip and default its units to points', () => {
+    expect(normalizePdfToPngOptions({ clip: { x: 0, y: 10, width: 100, height: 50 } }).clip).toEqual({
+        x: 0,
+        y: 10,
+        width: 100,
+        height: 50,
+        units: 'points',
+    });
+    expect(normalizePdfToPngOptions({ clip: { x: 0.5, y: 0, width: 0.5, height: 1, units: 'fraction' } }).clip?.units).toBe('fraction');
+    expect(() => normalizePdfToPngOptions({ clip: { x: 0, y: 0, width: Number.NaN, height: 10 } })).toThrow(
+        'clip.width must be a finite number, received: NaN',
+    );
+    expect(() => normalizePdfToPngOptions({ clip: { x: -1, y: 0, width: 10, height: 10 } })).toThrow(
+        'clip must have x and y of at least 0 and a positive width and height, received: -1, 0, 10, 10',
+    );
+    expect(() => normalizePdfToPngOptions({ clip: { x: 0, y: 0, width: 10, height: 0 } })).toThrow(
+        'clip must have x and y of at least 0 and a positive width and height, received: 0, 0, 10, 0',
+    );
+    expect(() => normalizePdfToPngOptions({ clip: { x: 0.6, y: 0, width: 0.5, height: 1, units: 'fraction' } })).toThrow(
+        'A fraction clip must lie within 0..1 of the page, received: 0.6, 0, 0.5, 1',
+    );
+    expect(() => normalizePdfToPngOptions({ clip: { x: 0, y: 0, width: 1, height: 1, units: 'px' as 'points' } })).toThrow(
+        "clip.units must be 'points' or 'fraction', received: px",
+    );
+});
+
+test('should validate background as a CSS colour and reject transparency for JPEG', () => {
+    expect(normalizePdfToPngOptions({ background: 'transparent' }).background).toBe('transparent');
+    expect(normalizePdfToPngOptions({ background: 'rgb(248 245 238)', outputFormat: 'jpeg' }).background).toBe('rgb(248 245 238)');
+    expect(() => normalizePdfToPngOptions({ background: 'paper' })).toThrow(
+        "background must be 'white', 'transparent' or a CSS colour, received: paper",
+    );
+    expect(() => normalizePdfToPngOptions({ background: '' })).toThrow("background must be 'white', 'transparent' or a CSS colour");
+    expect(() => normalizePdfToPngOptions({ background: 'transparent', outputFormat: 'jpeg' })).toThrow(
+        "background 'transparent' cannot be combined with outputFormat 'jpeg', which has no alpha channel",
+    );
+    for (const background of ['TRANSPARENT', 'rgba(255,255,255,0)', '#0000', 'hsl(0 0% 100% / 0.5)']) {
+        expect(() => normalizePdfToPngOptions({ background, outputFormat: 'jpeg' })).toThrow(
+            `background '${background}' cannot be combined with outputFormat 'jpeg', which has no alpha channel`,
+        );
+    }
+    expect(normalizePdfToPngOptions({ background: '#ffffffff', outputFormat: 'jpeg' }).background).toBe('#ffffffff');
+});
+
+test('should validate the annotation mode and form-field values', () => {
+    expect(normalizePdfToPngOptions({ annotations: { mode: 'enable-forms' } })).toMatchObject({
+        annotationMode: 'enable-forms',
+        formValues: undefined,
+    });
+    expect(normalizePdfToPngOptions({ annotations: { formValues: { agree: true, choices: ['a', 'b'] } } })).toMatchObject({
+        annotationMode: 'enable-storage',
+        formValues: { agree: true, choices: ['a', 'b'] },
+    });
+    expect(() => normalizePdfToPngOptions({ annotations: { mode: 'print' as 'enable' } })).toThrow(
+        'annotations.mode must be one of disable, enable, enable-forms, enable-storage, received: print',
+    );
+    expect(() => normalizePdfToPngOptions({ annotations: { formValues: [] as unknown as Record<string, string> } })).toThrow(
+        'annotations.formValues must be an object mapping field names to values',
+    );
+    expect(() => normalizePdfToPngOptions({ annotations: { formValues: { age: 42 as unknown as string } } })).toThrow(
+        'annotations.formValues["age"] must be a string, a boolean or an array of strings',
+    );
+    expect(() => normalizePdfToPngOptions({ annotations: { mode: 'enable', formValues: { name: 'Ada' } } })).toThrow(
+        "annotations.formValues are only rendered in the 'enable-storage' mode, received mode: enable",
+    );
+});
+
+test('should validate optionalContent layer visibility', () => {
+    expect(normalizePdfToPngOptions({ optionalContent: { Notes: 'visible', '12R': 'hidden' } }).optionalContent).toEqual({
+        Notes: 'visible',
+        '12R': 'hidden',
+    });
+    expect(() => normalizePdfToPngOptions({ optionalContent: ['Notes'] as unknown as Record<string, 'visible'> })).toThrow(
+        'optionalContent must be an object mapping layer names or ids to visibility',
+    );
+    expect(() => normalizePdfToPngOptions({ optionalContent: { Notes: true as unknown as 'visible' } })).toThrow(
+        `optionalContent["Notes"] must be 'visible' or 'hidden', received: true`,
+    );
+});
+
+test('should validate renderIntent', () => {
+    expect(normalizePdfToPngOptions({ renderIntent: 'print' }).renderIntent).toBe('print');
+    expect(() => normalizePdfToPngOptions({ renderIntent: 'any' as 'print' })).toThrow(
+        "renderIntent must be 'display' or 'print', received: any",
+    );
+});
+
+test('should validate colorMode and the bilevel options', () => {
+    expect(normalizePdfToPngOptions({ colorMode: 'bilevel', bilevelThreshold: 0, dither: true })).toMatchObject({
+        colorMode: 'bilevel',
+        bilevelThreshold: 0,
+        dither: true,
+    });
+    expect(() => normalizePdfToPngOptions({ colorMode: 'palette' as 'gray' })).toThrow(
+        'colorMode must be one of rgba, rgb, gray, bilevel, received: palette',
+    );
+    expect(() => normalizePdfToPngOptions({ colorMode: 'gray', outputFormat: 'jpeg' })).toThrow(
+        "colorMode 'gray' requires outputFormat 'png', received: jpeg",
+    );
+    expect(() => normalizePdfToPngOptions({ colorMode: 'rgb', background: 'transparent' })).toThrow(
+        "background 'transparent' cannot be combined with colorMode 'rgb', which has no alpha channel",
+    );
+    expect(() => normalizePdfToPngOptions({ colorMode: 'rgb', background: 'rgba(0,0,0,0)' })).toThrow(
+        "background 'rgba(0,0,0,0)' cannot be combined with colorMode 'rgb', which has no alpha channel",
+    );
+    expect(() => normalizePdfToPngOptions({ colorMode: 'gray', background: 'TRANSPARENT' })).toThrow("background 'TRANSPARENT'");
+    expect(() => normalizePdfToPngOptions({ colorMode: 'bilevel', background: 'rgba(248,245,238,0.5)' })).toThrow(
+        "background 'rgba(248,245,238,0.5)' cannot be combined with colorMode 'bilevel'",
+    );
+    expect(normalizePdfToPngOptions({ colorMode: 'gray', background: '#f8f5ee' }).background).toBe('#f8f5ee');
+    expect(() => normalizePdfToPngOptions({ colorMode: 'gray', dither: true })).toThrow(
+        "bilevelThreshold and dither only apply to colorMode 'bilevel'",
+    );
+    expect(() => normalizePdfToPngOptions({ bilevelThreshold: 100 })).toThrow(
+        "bilevelThreshold and dither only apply to colorMode 'bilevel'",
+    );
+    for (const bilevelThreshold of [-1, 256, 12.5]) {
+        expect(() => normalizePdfToPngOptions({ colorMode: 'bilevel', bilevelThreshold })).toThrow(
+            `bilevelThreshold must be an integer between 0 and 255, received: ${bilevelThreshold}`,
+        );
+    }
+});
+
+test('should validate pngCompression', () => {
+    expect(normalizePdfToPngOptions({ pngCompression: {} }).pngCompression).toEqual({ level: 6, filter: 'adaptive' });
+    expect(normalizePdfToPngOptions({ pngCompression: { level: 0, filter: 'none' } }).pngCompression).toEqual({ level: 0, filter: 'none' });
+    expect(() => normalizePdfToPngOptions({ pngCompression: 9 as never })).toThrow(
+        'pngCompression must be an object with optional level and filter fields',
+    );
+    for (const level of [-1, 10, 4.5]) {
+        expect(() => normalizePdfToPngOptions({ pngCompression: { level } })).toThrow(
+            `pngCompression.level must be an integer between 0 and 9, received: ${level}`,
+        );
+    }
+    expect(() => normalizePdfToPngOptions({ pngCompression: { filter: 'mixed' as 'none' } })).toThrow(
+        'pngCompression.filter must be one of none, sub, up, average, paeth, adaptive, received: mixed',
+    );
+    expect(() => normalizePdfToPngOptions({ pngCompression: { level: 1 }, outputFormat: 'webp' })).toThrow(
+        "pngCompression requires outputFormat 'png', received: webp",
+    );
+});
+
+test('should validate pngMetadata', () => {
+    expect(
+        normalizePdfToPngOptions({ pngMetadata: { provenance: true, text: { 'Creation Time': '2026', Auteur: 'Zoë' } } }).pngMetadata,
+    ).toEqual({
+        resolution: false,
+        provenance: true,
+        text: { 'Creation Time': '2026', Auteur: 'Zoë' },
+    });
+    expect(normalizePdfToPngOptions({ outputFormat: 'jpeg' }).pngMetadata).toBeUndefined();
+    expect(() => normalizePdfToPngOptions({ pngMetadata: true as never })).toThrow(
+        'pngMetadata must be an object with optional resolution, provenance and text fields',
+    );
+    expect(() => normalizePdfToPngOptions({ pngMetadata: { resolution: 'yes' as never } })).toThrow(
+        'pngMetadata.resolution and pngMetadata.provenance must be booleans',
+    );
+    expect(() => normalizePdfToPngOptions({ pngMetadata: { text: ['Author'] as never } })).toThrow(
+        'pngMetadata.text must be an object mapping keywords to strings',
+    );
+    for (const keyword of ['', ' Author', 'Author ', 'Creation  Time', 'Autor\u0000', '作者', 'K'.repeat(80)]) {
+        expect(() => normalizePdfToPngOptions({ pngMetadata: { text: { [keyword]: 'Ada' } } })).toThrow(
+            `pngMetadata.text keyword "${keyword}" must be 1 to 79 Latin-1 characters without leading, trailing or repeated spaces`,
+        );
+    }
+    expect(() => normalizePdfToPngOptions({ pngMetadata: { text: { Pages: 3 as never } } })).toThrow(
+        'pngMetadata.text["Pages"] must be a string',
+    );
+    expect(() => normalizePdfToPngOptions({ pngMetadata: { resolution: false }, outputFormat: 'webp' })).toThrow(
+        "pngMetadata requires outputFormat 'png', received: webp",
+    );
+});
+
+test('should validate returnRawPixels against the options it cannot be combined with', () => {
+    expect(normalizePdfToPngOptions({ returnRawPixels: true, colorMode: 'gray', outputFormat: 'png' })).toMatchObject({
+        returnRawPixels: true,
+        colorMode: 'gray',
+        pngMetadata: undefined,
+    });
+    for (const options of [{ returnMetadataOnly: true }, { returnPageContent: false }, { outputFolder: 'out' }, { tileSize: 512 }]) {
+        expect(() => normalizePdfToPngOptions({ returnRawPixels: true, ...options })).toThrow(
+            'returnRawPixels cannot be combined with returnMetadataOnly, returnPageContent: false, outputFolder or tileSize',
+        );
+    }
+    for (const options of [{ outputFormat: 'jpeg' }, { pngCompression: { level: 9 } }, { pngMetadata: { resolution: false } }] as const) {
+        expect(() => normalizePdfToPngOptions({ returnRawPixels: true, ...options })).toThrow(
+            "returnRawPixels returns unencoded pixels, so it cannot be combined with pngCompression, pngMetadata or an outputFormat other than 'png'",
+        );
+    }
+    expect(normalizePdfToPngOptions({ returnRawPixels: true, colorMode: 'bilevel', dither: true })).toMatchObject({
+        returnRawPixels: true,
+        colorMode: 'bilevel',
+        dither: true,
+    });
+});
+
+test('should validate tileSize and reject it in worker-thread modes', () => {
+    expect(normalizePdfToPngOptions({ tileSize: 4096 }).tileSize).toBe(4096);
+    expect(normalizePdfToPngOptions({ tileSize: 10_000 }).tileSize).toBe(10_000);
+    expect(() => normalizePdfToPngOptions({ tileSize: 0 })).toThrow('tileSize must be an integer between 1 and 10000, received: 0');
+    expect(() => normalizePdfToPngOptions({ tileSize: 10_001 })).toThrow(
+        'tileSize must be an integer between 1 and 10000, received: 10001',
+    );
+    expect(() => normalizePdfToPngOptions({ tileSize: 256.5 })).toThrow('tileSize must be an integer between 1 and 10000, received: 256.5');
+    expect(() => normalizePdfToPngOptions({ tileSize: 256, renderInWorkerThreads: true })).toThrow(
+        'tileSize cannot be combined with renderInWorkerThreads or renderPool',
+    );
+    expect(() => normalizePdfToPngOptions({ tileSize: 256, renderPool: new PdfRenderPool() })).toThrow(
+        'tileSize cannot be combined with renderInWorkerThreads or renderPool',
+    );
+});
+
+test('should validate pdfToTiff options and pick the compression by colour mode', () => {
+    expect(normalizePdfToTiffOptions({ outputFolder: 'out', colorMode: 'gray' })).toMatchObject({
+        pageOptions: { returnRawPixels: true, colorMode: 'gray', outputFolder: undefined },
+        outputFolder: 'out',
+        outputFileName: undefined,
+        compression: 'lzw',
+    });
+    expect(normalizePdfToTiffOptions({ outputFolder: 'out', outputFileName: 'fax.tif', colorMode: 'bilevel' })).toMatchObject({
+        outputFileName: 'fax.tif',
+        compression: 'g4',
+    });
+    expect(normalizePdfToTiffOptions({ outputFolder: 'out', colorMode: 'bilevel', tiffCompression: 'deflate' }).compression).toBe(
+        'deflate',
+    );
+    expect(() => normalizePdfToTiffOptions({ outputFolder: ' ' })).toThrow('outputFolder is required and must not be empty');
+    expect(() => normalizePdfToTiffOptions({} as never)).toThrow('outputFolder is required and must not be empty');
+    expect(() => normalizePdfToTiffOptions({ outputFolder: 'out', outputFileName: '' })).toThrow(
+        'outputFileName must be a non-empty string',
+    );
+    expect(() => normalizePdfToTiffOptions({ outputFolder: 'out', outputFileName: 'a/b.tiff' })).toThrow(
+        'outputFileName must be a flat filename without',
+    );
+    expect(() => normalizePdfToTiffOptions({ outputFolder: 'out', tiffCompression: 'jpeg' as never })).toThrow(
+        'tiffCompression must be one of none, lzw, deflate, g4, received: jpeg',
+    );
+    expect(() => normalizePdfToTiffOptions({ outputFolder: 'out', tiffCompression: 'g4' })).toThrow(
+        "tiffCompression 'g4' requires colorMode 'bilevel', received: rgba",
+    );
+});
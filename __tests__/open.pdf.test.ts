@@ -0,0 +1,115 @@
+import { promises as fsPromises } from 'node:fs';
+import { resolve } from 'node:path';
+import { afterEach, expect, test, vi } from 'vitest';
+import { openPdf, pdfToPng } from '../src';
+import { trackLoadedDocuments } from './testHelpers';
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+const samplePdf = resolve('./test-data/sample.pdf');
+const tenPagePdf = resolve('./test-data/10-page-sample.pdf');
+
+test('renders pages at several scales from one load, byte-identical to pdfToPng', async () => {
+    const documents = trackLoadedDocuments();
+    const handle = await openPdf(tenPagePdf);
+    try {
+        expect(handle.numPages).toBe(10);
+
+        const thumbnail = await handle.renderPage(3, { viewportScale: 0.2 });
+        const full = await handle.renderPage(3, { viewportScale: 2 });
+        expect(documents).toHaveLength(1);
+
+        const [expectedThumbnail] = await pdfToPng(tenPagePdf, { pagesToProcess: [3], viewportScale: 0.2 });
+        const [expectedFull] = await pdfToPng(tenPagePdf, { pagesToProcess: [3], viewportScale: 2 });
+        expect(thumbnail).toMatchObject({ kind: 'content', pageNumber: 3, name: '10-page-sample_page_3.png', format: 'png' });
+        expect(Buffer.compare(thumbnail.content as Buffer, expectedThumbnail.content as Buffer)).toBe(0);
+        expect(Buffer.compare(full.content as Buffer, expectedFull.content as Buffer)).toBe(0);
+        expect(full.width).toBeGreaterThan(thumbnail.width);
+    } finally {
+        await handle.close();
+    }
+});
+
+test('applies the handle defaults when a call does not override them', async () => {
+    const handle = await openPdf(await fsPromises.readFile(samplePdf), { viewportScale: 0.5, outputFormat: 'jpeg', jpegQuality: 60 });
+    try {
+        const page = await handle.renderPage(1);
+        const [expected] = await pdfToPng(samplePdf, { pagesToProcess: [1], viewportScale: 0.5, outputFormat: 'jpeg', jpegQuality: 60 });
+
+        expect(page.name).toBe('buffer_page_1.jpg');
+        expect(page.format).toBe('jpeg');
+        expect(Buffer.compare(page.content as Buffer, expected.content as Buffer)).toBe(0);
+    } finally {
+        await handle.close();
+    }
+});
+
+test('sizes pages by dpi or by fitting, as pdfToPng does, a call replacing the handle sizing', async () => {
+    const [atDpi] = await pdfToPng(samplePdf, { pagesToProcess: [1], dpi: 144 });
+    const [fitted] = await pdfToPng(samplePdf, { pagesToProcess: [2], targetWidth: 200, targetHeight: 200, returnMetadataOnly: true });
+    const [thumbnail] = await pdfToPng(samplePdf, { pagesToProcess: [2], maxDimension: 100, returnMetadataOnly: true });
+    await using byDpi = await openPdf(samplePdf, { dpi: 144 });
+    await using byFit = await openPdf(samplePdf, { maxDimension: 100 });
+
+    expect(Buffer.compare((await byDpi.renderPage(1)).content as Buffer, atDpi.content as Buffer)).toBe(0);
+    expect(await byDpi.getPageMetadata(2, { targetWidth: 200, targetHeight: 200 })).toEqual(fitted);
+    expect(await byFit.getPageMetadata(2)).toEqual(thumbnail);
+    expect((await byFit.getPageMetadata(2, { viewportScale: 0.5 })).viewportScale).toBe(0.5);
+    await expect(byDpi.getPageMetadata(1, { dpi: 72, viewportScale: 1 })).rejects.toThrow('dpi and viewportScale cannot both be set');
+});
+
+test('getPageMetadata matches the returnMetadataOnly result of pdfToPng', async () => {
+    const handle = await openPdf(samplePdf);
+    try {
+        const metadata = await handle.getPageMetadata(2, { viewportScale: 1.5 });
+        const [expected] = await pdfToPng(samplePdf, { pagesToProcess: [2], viewportScale: 1.5, returnMetadataOnly: true });
+
+        expect(metadata).toEqual(expected);
+    } finally {
+        await handle.close();
+    }
+});
+
+test('rejects page numbers outside the document and invalid scales', async () => {
+    const handle = await openPdf(samplePdf);
+    try {
+        await expect(handle.renderPage(0)).rejects.toThrow('pageNumber must be an integer between 1 and 2, received: 0');
+        await expect(handle.renderPage(3)).rejects.toThrow('pageNumber must be an integer between 1 and 2, received: 3');
+        await expect(handle.getPageMetadata(1.5)).rejects.toThrow('pageNumber must be an integer between 1 and 2, received: 1.5');
+        await expect(handle.renderPage(1, { viewportScale: 0 })).rejects.toThrow('viewportScale must be a finite number greater than 0');
+    } finally {
+        await handle.close();
+    }
+});
+
+test('validates options before reading the input', async () => {
+    await expect(openPdf(resolve('./test-data/does-not-exist.pdf'), { viewportScale: -1 })).rejects.toThrow(
+        'viewportScale must be a finite number greater than 0',
+    );
+});
+
+test('close() waits for in-flight renders, destroys the document once and rejects later calls', async () => {
+    const documents = trackLoadedDocuments();
+    const handle = await openPdf(samplePdf);
+
+    const rendering = handle.renderPage(1);
+    const closing = handle.close();
+    expect(handle.close()).toBe(closing);
+
+    const page = await rendering;
+    expect(page.content?.byteLength).toBeGreaterThan(0);
+    await closing;
+    expect(documents[0].loadingTask.destroyed).toBe(true);
+    await expect(handle.renderPage(1)).rejects.toThrow('The PDF document handle is closed.');
+});
+
+test('await using closes the handle on scope exit', async () => {
+    const documents = trackLoadedDocuments();
+    {
+        await using handle = await openPdf(samplePdf);
+        expect(handle.numPages).toBe(2);
+    }
+    expect(documents[0].loadingTask.destroyed).toBe(true);
+});
@@ -0,0 +1,82 @@
+import { promises as fsPromises } from 'node:fs';
+import { resolve } from 'node:path';
+import { expect, test } from 'vitest';
+import { pdfToPng } from '../src';
+import { resolvePageName } from '../src/pageOrchestrator';
+
+const samplePdf = resolve('./test-data/sample.pdf');
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const JPEG_SOI = Buffer.from([0xff, 0xd8, 0xff]);
+
+function isWebp(content: Buffer): boolean {
+    return content.subarray(0, 4).toString('ascii') === 'RIFF' && content.subarray(8, 12).toString('ascii') === 'WEBP';
+}
+
+test('should encode PNG by default and report the format', async () => {
+    const [page] = await pdfToPng(samplePdf, { pagesToProcess: [1] });
+
+    expect(page.kind).toBe('content');
+    if (page.kind === 'content') {
+        expect(page.format).toBe('png');
+        expect(page.name).toBe('sample_page_1.png');
+        expect(page.content?.subarray(0, 8).equals(PNG_SIGNATURE)).toBe(true);
+    }
+});
+
+test('should encode JPEG with the .jpg extension and honour jpegQuality', async () => {
+    const [high] = await pdfToPng(samplePdf, { pagesToProcess: [1], outputFormat: 'jpeg', jpegQuality: 95 });
+    const [low] = await pdfToPng(samplePdf, { pagesToProcess: [1], outputFormat: 'jpeg', jpegQuality: 10 });
+
+    expect(high.kind).toBe('content');
+    expect(low.kind).toBe('content');
+    if (high.kind === 'content' && low.kind === 'content') {
+        expect(high.format).toBe('jpeg');
+        expect(high.name).toBe('sample_page_1.jpg');
+        expect(high.content?.subarray(0, 3).equals(JPEG_SOI)).toBe(true);
+        expect(low.content?.subarray(0, 3).equals(JPEG_SOI)).toBe(true);
+        expect((low.content as Buffer).byteLength).toBeLessThan((high.content as Buffer).byteLength);
+    }
+});
+
+test('should encode WebP with the .webp extension', async () => {
+    const [page] = await pdfToPng(samplePdf, { pagesToProcess: [1], outputFormat: 'webp', webpQuality: 50 });
+
+    expect(page.kind).toBe('content');
+    if (page.kind === 'content') {
+        expect(page.format).toBe('webp');
+        expect(page.name).toBe('sample_page_1.webp');
+        expect(isWebp(page.content as Buffer)).toBe(true);
+    }
+});
+
+test('should write lossy pages to disk under the matching default extension', async () => {
+    const outputFolder = resolve('./test-results/output.format');
+    await fsPromises.rm(outputFolder, { recursive: true, force: true });
+
+    const pages = await pdfToPng(samplePdf, { outputFolder, outputFormat: 'jpeg', returnPageContent: false });
+
+    expect(pages.map((page) => page.name)).toEqual(['sample_page_1.jpg', 'sample_page_2.jpg']);
+    for (const page of pages) {
+        expect(page.kind).toBe('file');
+        if (page.kind === 'file') {
+            expect(page.format).toBe('jpeg');
+            expect(page.content).toBeUndefined();
+            const written = await fsPromises.readFile(page.path);
+            expect(written.subarray(0, 3).equals(JPEG_SOI)).toBe(true);
+        }
+    }
+});
+
+test('metadata-only results are unaffected by outputFormat', async () => {
+    const [page] = await pdfToPng(samplePdf, { pagesToProcess: [1], outputFormat: 'webp', returnMetadataOnly: true });
+
+    expect(page.kind).toBe('metadata');
+    expect(page.name).toBe('sample_page_1.webp');
+    expect('format' in page).toBe(false);
+});
+
+test('resolvePageName should mention the format extension when a mask returns an empty name', () => {
+    expect(resolvePageName(1, 'sample', undefined, 'webp')).toBe('sample_page_1.webp');
+    expect(() => resolvePageName(1, 'sample', () => '', 'jpeg')).toThrow('including the .jpg extension');
+});
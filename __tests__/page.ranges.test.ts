@@ -0,0 +1,78 @@
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { expect, test } from 'vitest';
+import { pdfToPng } from '../src';
+import { parsePageRanges, resolvePagesToProcess } from '../src/pageRanges';
+
+const tenPagePdf = resolve('./test-data/10-page-sample.pdf');
+
+function pagesOf(expression: string, numPages = 10): number[] {
+    return resolvePagesToProcess(parsePageRanges(expression), numPages);
+}
+
+test('resolves pages, ranges, pages counted from the end, odd and even', () => {
+    expect(pagesOf('1-5,8,10-')).toEqual([1, 2, 3, 4, 5, 8, 10]);
+    expect(pagesOf('last')).toEqual([10]);
+    expect(pagesOf('-3--1')).toEqual([8, 9, 10]);
+    expect(pagesOf('1--3')).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(pagesOf('odd')).toEqual([1, 3, 5, 7, 9]);
+    expect(pagesOf(' EVEN , 1 ', 5)).toEqual([2, 4, 1]);
+    expect(pagesOf('last -, 3 - 5')).toEqual([10, 3, 4, 5]);
+});
+
+test('leaves out pages the document does not have, and cuts ranges to it', () => {
+    expect(pagesOf('12,3', 5)).toEqual([3]);
+    expect(pagesOf('4-100', 5)).toEqual([4, 5]);
+    expect(pagesOf('-8--4', 5)).toEqual([1, 2]);
+    expect(pagesOf('7-', 5)).toEqual([]);
+    expect(pagesOf('4--3', 5)).toEqual([]);
+    expect(pagesOf('-9', 5)).toEqual([]);
+});
+
+test('selects each page once, where an earlier term selected it', () => {
+    expect(pagesOf('1,last,odd')).toEqual([1, 10, 3, 5, 7, 9]);
+    expect(pagesOf('1-3,last', 3)).toEqual([1, 2, 3]);
+    expect(pagesOf('even,2-4,-1')).toEqual([2, 4, 6, 8, 10, 3]);
+});
+
+test('rejects an invalid term, naming it and its position', () => {
+    expect(() => parsePageRanges('1-5,x-2')).toThrow(
+        'pagesToProcess term "x-2" at character 5 of "1-5,x-2" is not a page, a range, odd or even (e.g. 3, -2, last, 1-5, 10-, -3--1)',
+    );
+    expect(() => parsePageRanges('1,  0')).toThrow(
+        'pagesToProcess term "0" at character 5 of "1,  0" refers to page 0; pages count from 1, or from -1 back from the last',
+    );
+    expect(() => parsePageRanges('2,9-3')).toThrow('pagesToProcess term "9-3" at character 3 of "2,9-3" ends before it starts');
+    expect(() => parsePageRanges('-1--3')).toThrow('ends before it starts');
+    expect(() => parsePageRanges('last-1')).toThrow(
+        'pagesToProcess term "last-1" at character 1 of "last-1" starts at a page counted from the end and ends at one counted from the start; ranges run forward (e.g. 1-last, or -2--1 for the last two pages)',
+    );
+    expect(() => parsePageRanges('1, -3 - 2')).toThrow(
+        'pagesToProcess term "-3 - 2" at character 4 of "1, -3 - 2" starts at a page counted from the end',
+    );
+    expect(() => parsePageRanges('1,')).toThrow('pagesToProcess term "" at character 3 of "1," is empty');
+    expect(() => parsePageRanges('1.5')).toThrow('pagesToProcess term "1.5" at character 1');
+    expect(() => parsePageRanges('99999999999999999999')).toThrow('refers to page 99999999999999999999, which is too large');
+});
+
+test('converts the pages an expression selects, rejecting a bad one before reading the input', async () => {
+    const pages = await pdfToPng(tenPagePdf, { pagesToProcess: 'last,1--8', returnMetadataOnly: true });
+
+    expect(pages.map((page) => page.pageNumber)).toEqual([10, 1, 2, 3]);
+    await expect(pdfToPng('./does-not-exist.pdf', { pagesToProcess: 'first' })).rejects.toThrow('pagesToProcess term "first"');
+});
+
+test('writes each page of overlapping terms to a file once', async () => {
+    const outputFolder = mkdtempSync(join(tmpdir(), 'pdf-to-png-page-ranges-'));
+    try {
+        const pages = await pdfToPng(tenPagePdf, { outputFolder, pagesToProcess: '1,last,odd', viewportScale: 0.2 });
+
+        expect(pages.map((page) => page.pageNumber)).toEqual([1, 10, 3, 5, 7, 9]);
+        expect(readdirSync(outputFolder).sort()).toEqual(
+            [1, 3, 5, 7, 9, 10].map((pageNumber) => `10-page-sample_page_${pageNumber}.png`).sort(),
+        );
+    } finally {
+        rmSync(outputFolder, { recursive: true, force: true });
+    }
+});
@@ -69,4 +69,9 @@ describe('optionsToPageMode', () => {
         const opts = normalizePdfToPngOptions({ returnMetadataOnly: true });
         expect(optionsToPageMode(opts, stubSink)).toEqual({ kind: 'metadata' });
     });
+
+    test('returnRawPixels → in-memory pixels', () => {
+        const opts = normalizePdfToPngOptions({ returnRawPixels: true });
+        expect(optionsToPageMode(opts, undefined)).toEqual({ kind: 'pixels' });
+    });
 });
@@ -0,0 +1,136 @@
+import { deflateSync } from 'node:zlib';
+import { expect, test } from 'vitest';
+import { openPdf } from '../src';
+import { PdfObjectReader, type PdfFileSource } from '../src/pdfObjectReader.js';
+import { readPageBoxes } from '../src/pdfPageBoxes.js';
+
+const CATALOG = '<< /Type /Catalog /Pages 2 0 R >>';
+const PAGES = '<< /Type /Pages /Kids [3 0 R] /Count 1 /MediaBox [0 0 300 400] >>';
+
+function page(trimBox: string, extra = ''): string {
+    return `<< /Type /Page /Parent 2 0 R /CropBox [10 10 290 390] /TrimBox ${trimBox} ${extra} >>`;
+}
+
+/** Appends `objects` — object number to body — to `prefix` and returns the file and the offset of each object. */
+function appendObjects(prefix: string, objects: Record<number, string>): { file: string; offsets: Map<number, number> } {
+    let file = prefix;
+    const offsets = new Map<number, number>();
+    for (const [num, body] of Object.entries(objects)) {
+        offsets.set(Number(num), file.length);
+        file += `${num} 0 obj\n${body}\nendobj\n`;
+    }
+    return { file, offsets };
+}
+
+/** A cross-reference table of one subsection per object, then `trailer` and `startxref`. */
+function xrefTable(file: string, offsets: Map<number, number>, trailer: string): string {
+    let table = 'xref\n0 1\n0000000000 65535 f \n';
+    for (const [num, offset] of offsets) {
+        table += `${num} 1\n${String(offset).padStart(10, '0')} 00000 n \n`;
+    }
+    return `${file}${table}trailer\n${trailer}\nstartxref\n${file.length}\n%%EOF\n`;
+}
+
+/** A file indexed by a cross-reference stream whose rows are encoded by `predict`, under `decodeParms`. */
+function xrefStreamFile(predict: (rows: number[][]) => number[], decodeParms: string): Buffer {
+    const { file, offsets } = appendObjects('%PDF-1.5\n', { 1: CATALOG, 2: PAGES, 3: page('[30 30 270 370]') });
+    const xrefOffset = file.length;
+    const rows = [
+        [0, 0, 0, 255],
+        ...[1, 2, 3].map((num) => [1, (offsets.get(num) ?? 0) >> 8, (offsets.get(num) ?? 0) & 0xff, 0]),
+        [1, xrefOffset >> 8, xrefOffset & 0xff, 0],
+    ];
+    const data = deflateSync(Buffer.from(predict(rows)));
+    const dict = `<< /Type /XRef /Size 5 /W [1 2 1] /Root 1 0 R /Length ${data.length} /Filter /FlateDecode /DecodeParms ${decodeParms} >>`;
+    return Buffer.concat([
+        Buffer.from(`${file}4 0 obj\n${dict}\nstream\n`, 'latin1'),
+        data,
+        Buffer.from(`\nendstream\nendobj\nstartxref\n${xrefOffset}\n%%EOF\n`, 'latin1'),
+    ]);
+}
+
+/** The PNG row filters (ISO/IEC 15948 §9) of a one-byte-per-pixel image, with filter type `rowIndex % 5`. */
+function pngPredict(rows: number[][]): number[] {
+    const output: number[] = [];
+    rows.forEach((row, rowIndex) => {
+        const filter = rowIndex % 5;
+        output.push(filter);
+        row.forEach((byte, index) => {
+            const left = index > 0 ? row[index - 1] : 0;
+            const up = rowIndex > 0 ? rows[rowIndex - 1][index] : 0;
+            const upLeft = rowIndex > 0 && index > 0 ? rows[rowIndex - 1][index - 1] : 0;
+            const estimate = left + up - upLeft;
+            const paeth =
+                Math.abs(estimate - left) <= Math.abs(estimate - up) && Math.abs(estimate - left) <= Math.abs(estimate - upLeft)
+                    ? left
+                    : Math.abs(estimate - up) <= Math.abs(estimate - upLeft)
+                      ? up
+                      : upLeft;
+            output.push((byte - [0, left, up, (left + up) >> 1, paeth][filter]) & 0xff);
+        });
+    });
+    return output;
+}
+
+function memorySource(bytes: Uint8Array, reads: [number, number][] = []): PdfFileSource {
+    return {
+        length: bytes.length,
+        read: (begin, end) => {
+            reads.push([begin, end]);
+            return Promise.resolve(bytes.subarray(begin, end));
+        },
+    };
+}
+
+async function trimBoxes(bytes: Uint8Array): Promise<number[][]> {
+    const boxes = await readPageBoxes(await PdfObjectReader.open(memorySource(bytes), ''));
+    return [...boxes.values()].map(({ TrimBox }) => TrimBox);
+}
+
+test('follows /Prev so that an incremental update overrides the objects it redefines', async () => {
+    const original = appendObjects('%PDF-1.4\n', { 1: CATALOG, 2: PAGES, 3: page('[30 30 270 370]') });
+    const base = xrefTable(original.file, original.offsets, '<< /Size 4 /Root 1 0 R >>');
+    const update = appendObjects(base, { 3: page('[40 40 260 360]', '/Title (a \\(nested\\) \\101\\n\\\nstring) /Id <4a 4B 5>') });
+    const updated = xrefTable(update.file, update.offsets, `<< /Size 4 /Root 1 0 R /Prev ${base.lastIndexOf('\nxref\n') + 1} >>`);
+
+    expect(await trimBoxes(Buffer.from(base, 'latin1'))).toEqual([[30, 30, 270, 370]]);
+    expect(await trimBoxes(Buffer.from(updated, 'latin1'))).toEqual([[40, 40, 260, 360]]);
+});
+
+test.each([
+    ['every PNG row filter', pngPredict, '<< /Predictor 15 /Columns 4 >>'],
+    [
+        'the TIFF predictor',
+        (rows: number[][]) => rows.flatMap((row) => row.map((byte, index) => (index > 0 ? byte - row[index - 1] : byte) & 0xff)),
+        '<< /Predictor 2 /Columns 4 >>',
+    ],
+])('decodes a cross-reference stream encoded with %s, as pdf.js does', async (_, predict, decodeParms) => {
+    const bytes = xrefStreamFile(predict, decodeParms);
+    await using handle = await openPdf(new Uint8Array(bytes), { pageBox: 'TrimBox' });
+
+    expect(await trimBoxes(bytes)).toEqual([[30, 30, 270, 370]]);
+    expect((await handle.getPageMetadata(1)).renderedRect).toEqual([30, 30, 270, 370]);
+});
+
+test('reads past its first window when an object is longer', async () => {
+    const padding = `/Padding [${' 0'.repeat(5000)} ]`;
+    const { file, offsets } = appendObjects('%PDF-1.4\n', { 1: CATALOG, 2: PAGES, 3: page('[30 30 270 370]', padding) });
+    const bytes = Buffer.from(xrefTable(file, offsets, '<< /Size 4 /Root 1 0 R >>'), 'latin1');
+    const reads: [number, number][] = [];
+    const boxes = await readPageBoxes(await PdfObjectReader.open(memorySource(bytes, reads), ''));
+
+    expect([...boxes.values()].map(({ TrimBox }) => TrimBox)).toEqual([[30, 30, 270, 370]]);
+    expect(reads.filter(([begin]) => begin === offsets.get(3)).length).toBeGreaterThan(1);
+});
+
+test('rejects what it cannot read instead of guessing', async () => {
+    const { file, offsets } = appendObjects('%PDF-1.4\n', { 1: CATALOG, 2: PAGES, 3: page('[30 30 270 370]') });
+    const swapped = new Map([...offsets, [1, offsets.get(2) ?? 0], [2, offsets.get(1) ?? 0]]);
+    const misindexed = xrefTable(file, swapped, '<< /Size 4 /Root 1 0 R >>');
+
+    await expect(PdfObjectReader.open(memorySource(Buffer.from('%PDF-1.4\n', 'latin1')), '')).rejects.toThrow('startxref not found');
+    await expect(trimBoxes(Buffer.from(misindexed, 'latin1'))).rejects.toThrow('object 1 is not at its cross-reference offset');
+    await expect(trimBoxes(xrefStreamFile(pngPredict, '<< /Predictor 15 /Columns 4 /BitsPerComponent 0 >>'))).rejects.toThrow(
+        '/BitsPerComponent 0 is not a positive integer',
+    );
+});
@@ -0,0 +1,249 @@
+import { afterEach, expect, test, vi } from 'vitest';
+import type { RenderPageRequest, WorkerRequest, WorkerResponse } from '../src/interfaces/worker.protocol';
+import { PdfRenderPool } from '../src/pdfRenderPool';
+import type { WorkerPageTask } from '../src/workerPool';
+
+/**
+ * Unit tests for PdfRenderPool's cross-conversion scheduling, document caching and failure
+ * isolation with FAKE workers — no threads. A real shared pool is exercised in
+ * pdf.to.png.worker.threads.test.ts.
+ */
+
+const harness = vi.hoisted(() => {
+    type Handler = (...args: unknown[]) => void;
+
+    class FakeWorker {
+        public posted: unknown[] = [];
+        public terminated = false;
+        private readonly handlers = new Map<string, Handler[]>();
+
+        constructor(
+            public entryPath: string,
+            public options: unknown,
+        ) {
+            harness.instances.push(this);
+        }
+
+        public on(event: string, handler: Handler): this {
+            const list = this.handlers.get(event) ?? [];
+            list.push(handler);
+            this.handlers.set(event, list);
+            return this;
+        }
+
+        public postMessage(message: unknown): void {
+            this.posted.push(message);
+        }
+
+        public ref(): void {}
+
+        public unref(): void {}
+
+        public terminate(): Promise<number> {
+            this.terminated = true;
+            return Promise.resolve(0);
+        }
+
+        public emit(event: string, ...args: unknown[]): void {
+            for (const handler of this.handlers.get(event) ?? []) {
+                handler(...args);
+            }
+        }
+
+        /** The render requests this worker received, in order. */
+        public renders(): RenderPageRequest[] {
+            return (this.posted as WorkerRequest[]).filter((request): request is RenderPageRequest => request.type === 'render');
+        }
+
+        public lastRender(): RenderPageRequest {
+            const renders = this.renders();
+            return renders[renders.length - 1];
+        }
+    }
+
+    const harness = { FakeWorker, instances: [] as InstanceType<typeof FakeWorker>[] };
+    return harness;
+});
+
+vi.mock('node:worker_threads', () => ({ Worker: harness.FakeWorker }));
+
+afterEach(() => {
+    harness.instances.length = 0;
+});
+
+function makeTasks(count: number): WorkerPageTask[] {
+    return Array.from({ length: count }, (_, index) => ({
+        index,
+        pageNumber: index + 1,
+        pageName: `page_${index + 1}.png`,
+    }));
+}
+
+/** Answers the worker's current render request with a result. */
+function completeRender(worker: InstanceType<typeof harness.FakeWorker>): void {
+    const request = worker.lastRender();
+    worker.emit('message', {
+        type: 'result',
+        documentId: request.documentId,
+        index: request.index,
+        pageNumber: request.pageNumber,
+        name: request.pageName,
+        width: 10,
+        height: 10,
+        rotation: 0,
+        viewportScale: 1,
+        renderedRect: [0, 0, 612, 792],
+        format: 'png',
+        bitDepth: 8,
+        colorType: 'rgba',
+        content: undefined,
+    } satisfies WorkerResponse);
+}
+
+async function flushAsync(): Promise<void> {
+    for (let i = 0; i < 10; i += 1) {
+        await Promise.resolve();
+    }
+}
+
+function render(pool: PdfRenderPool, taskCount: number, concurrency = 4, signal?: AbortSignal): Promise<void> {
+    return pool.renderDocument(new Uint8Array([1]), {}, true, makeTasks(taskCount), concurrency, async () => undefined, { signal });
+}
+
+test('validates its options', () => {
+    expect(() => new PdfRenderPool({ size: 0 })).toThrow('size must be an integer between 1 and 16, received: 0');
+    expect(() => new PdfRenderPool({ size: 17 })).toThrow('size must be an integer between 1 and 16, received: 17');
+    expect(() => new PdfRenderPool({ maxCachedDocuments: 1.5 })).toThrow('maxCachedDocuments must be a positive integer, received: 1.5');
+    expect(harness.instances).toHaveLength(0);
+});
+
+test('reuses its workers across conversions, sending each document once per worker and releasing it afterwards', async () => {
+    const pool = new PdfRenderPool({ size: 1 });
+
+    const first = render(pool, 2);
+    await flushAsync();
+    const [worker] = harness.instances;
+    expect(worker.lastRender().document).toBeDefined();
+    completeRender(worker);
+    await flushAsync();
+    // Second page of the same document: the worker already holds it.
+    expect(worker.lastRender()).toMatchObject({ index: 1, document: undefined });
+    completeRender(worker);
+    await first;
+    expect(worker.posted[worker.posted.length - 1]).toEqual({ type: 'release', documentId: 0 });
+
+    const second = render(pool, 1);
+    await flushAsync();
+    expect(harness.instances).toHaveLength(1);
+    expect(worker.lastRender()).toMatchObject({ documentId: 1, index: 0 });
+    expect(worker.lastRender().document).toBeDefined();
+    completeRender(worker);
+    await second;
+
+    await pool.destroy();
+    expect(worker.terminated).toBe(true);
+});
+
+test('shares workers between concurrent conversions, each capped at its own concurrency', async () => {
+    const pool = new PdfRenderPool({ size: 3 });
+
+    const capped = render(pool, 3, 1);
+    const other = render(pool, 2);
+    await flushAsync();
+
+    // The capped conversion holds one worker; the other conversion fills the rest.
+    expect(harness.instances).toHaveLength(3);
+    const documentIds = harness.instances.map((worker) => worker.lastRender().documentId);
+    expect(documentIds).toEqual([0, 1, 1]);
+
+    for (const worker of harness.instances) {
+        completeRender(worker);
+    }
+    await flushAsync();
+    await other;
+    // Only the capped conversion is left; it still gets one page at a time.
+    const busy = harness.instances.filter((worker) => worker.renders().length === 2);
+    expect(busy).toHaveLength(1);
+    completeRender(busy[0]);
+    await flushAsync();
+    completeRender(busy[0]);
+    await capped;
+    await pool.destroy();
+});
+
+test('a crashed worker fails only the conversion it was rendering and is replaced on demand', async () => {
+    const pool = new PdfRenderPool({ size: 2 });
+
+    const doomed = render(pool, 1);
+    const survivor = render(pool, 2, 1);
+    await flushAsync();
+    const [workerA, workerB] = harness.instances;
+
+    workerA.emit('error', new Error('segfault-ish'));
+    await expect(doomed).rejects.toThrow('segfault-ish');
+
+    completeRender(workerB);
+    await flushAsync();
+    completeRender(workerB);
+    await survivor;
+
+    const next = render(pool, 2);
+    await flushAsync();
+    // Worker B is reused; a fresh worker takes the crashed one's place.
+    expect(harness.instances).toHaveLength(3);
+    for (const worker of [workerB, harness.instances[2]]) {
+        completeRender(worker);
+    }
+    await next;
+    await pool.destroy();
+});
+
+test('a fatal document error fails only its own conversion and leaves the worker in service', async () => {
+    const pool = new PdfRenderPool({ size: 1 });
+
+    const broken = render(pool, 2);
+    await flushAsync();
+    const [worker] = harness.instances;
+    worker.emit('message', { type: 'fatal', documentId: 0, error: new Error('No password given') } satisfies WorkerResponse);
+    await expect(broken).rejects.toThrow('No password given');
+    expect(worker.terminated).toBe(false);
+
+    const healthy = render(pool, 1);
+    await flushAsync();
+    completeRender(worker);
+    await healthy;
+    await pool.destroy();
+});
+
+test('aborting one conversion terminates only the workers rendering its pages', async () => {
+    const pool = new PdfRenderPool({ size: 2 });
+    const controller = new AbortController();
+
+    const aborted = render(pool, 3, 1, controller.signal);
+    const other = render(pool, 1);
+    await flushAsync();
+    const [workerA, workerB] = harness.instances;
+
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+    expect(workerA.terminated).toBe(true);
+    expect(workerB.terminated).toBe(false);
+
+    completeRender(workerB);
+    await other;
+    await pool.destroy();
+});
+
+test('destroy() rejects running conversions, terminates every worker and refuses further work', async () => {
+    const pool = new PdfRenderPool({ size: 2 });
+
+    const running = render(pool, 4);
+    await flushAsync();
+    const destroying = pool.destroy();
+    expect(pool.destroy()).toBe(destroying);
+    await destroying;
+
+    await expect(running).rejects.toThrow('The PDF render pool has been destroyed.');
+    expect(harness.instances.every((worker) => worker.terminated)).toBe(true);
+    await expect(render(pool, 1)).rejects.toThrow('The PDF render pool has been destroyed.');
+});
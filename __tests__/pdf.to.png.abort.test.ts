@@ -0,0 +1,116 @@
+import { promises as fsPromises } from 'node:fs';
+import { resolve } from 'node:path';
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { RenderTask } from 'pdfjs-dist/types/src/display/api';
+import { afterEach, expect, test, vi } from 'vitest';
+import { pdfToPng, pdfToPngIterator } from '../src';
+import * as pageRenderer from '../src/pageRenderer.js';
+import * as pdfjsLoader from '../src/pdfjsLoader.js';
+import { trackLoadedDocuments } from './testHelpers';
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+const tenPagePdf = resolve('./test-data/10-page-sample.pdf');
+
+test('rejects with an AbortError before reading the input when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('user cancelled'));
+
+    // The path does not exist: an ENOENT here would mean the input was read despite the abort.
+    const conversion = pdfToPng(resolve('./test-data/does-not-exist.pdf'), { signal: controller.signal });
+
+    await expect(conversion).rejects.toMatchObject({ name: 'AbortError', cause: new Error('user cancelled') });
+});
+
+test.each([
+    ['sequential', {}],
+    ['parallel', { processPagesInParallel: true, concurrencyLimit: 2 }],
+])('stops dispatching pages and destroys the document on abort (%s)', async (_mode, options) => {
+    const controller = new AbortController();
+    const documents = trackLoadedDocuments();
+    const original = pageRenderer.renderPdfPage;
+    const renderSpy = vi.spyOn(pageRenderer, 'renderPdfPage').mockImplementation(async (...args) => {
+        const page = await original(...args);
+        if (page.pageNumber === 2) {
+            controller.abort();
+        }
+        return page;
+    });
+
+    await expect(pdfToPng(tenPagePdf, { ...options, signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+
+    expect(renderSpy.mock.calls.length).toBeLessThan(10);
+    expect(documents).toHaveLength(1);
+    expect(documents[0].loadingTask.destroyed).toBe(true);
+});
+
+test('cancels the in-flight pdf.js render task', async () => {
+    const controller = new AbortController();
+    const cancelledTasks: RenderTask[] = [];
+    const originalLoad = pdfjsLoader.getPdfDocument;
+    vi.spyOn(pdfjsLoader, 'getPdfDocument').mockImplementation(async (buffer, opts) => {
+        const document = await originalLoad(buffer, opts);
+        const originalGetPage = document.getPage.bind(document);
+        vi.spyOn(document, 'getPage').mockImplementation(async (pageNumber: number): Promise<PDFPageProxy> => {
+            const page = await originalGetPage(pageNumber);
+            const originalRender = page.render.bind(page);
+            vi.spyOn(page, 'render').mockImplementation((params) => {
+                const task = originalRender(params);
+                const originalCancel = task.cancel.bind(task);
+                task.cancel = (extraDelay?: number): void => {
+                    cancelledTasks.push(task);
+                    originalCancel(extraDelay);
+                };
+                // Abort once the renderer has subscribed, while this render is still running.
+                queueMicrotask(() => controller.abort());
+                return task;
+            });
+            return page;
+        });
+        return document;
+    });
+
+    await expect(pdfToPng(tenPagePdf, { pagesToProcess: [1], signal: controller.signal })).rejects.toMatchObject({
+        name: 'AbortError',
+    });
+    expect(cancelledTasks).toHaveLength(1);
+});
+
+test('leaves no files beyond the pages finished before the abort', async () => {
+    const controller = new AbortController();
+    const outputFolder = resolve('./test-results/pdf.to.png.abort');
+    await fsPromises.rm(outputFolder, { recursive: true, force: true });
+    const original = pageRenderer.renderPdfPage;
+    vi.spyOn(pageRenderer, 'renderPdfPage').mockImplementation(async (...args) => {
+        const page = await original(...args);
+        if (page.pageNumber === 1) {
+            controller.abort();
+        }
+        return page;
+    });
+
+    await expect(pdfToPng(tenPagePdf, { outputFolder, signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+
+    expect((await fsPromises.readdir(outputFolder)).length).toBeLessThan(10);
+});
+
+test('ends pdfToPngIterator with an AbortError at the next page', async () => {
+    const controller = new AbortController();
+    const documents = trackLoadedDocuments();
+    const seen: number[] = [];
+
+    const iterate = async (): Promise<void> => {
+        for await (const page of pdfToPngIterator(tenPagePdf, { signal: controller.signal })) {
+            seen.push(page.pageNumber);
+            if (page.pageNumber === 2) {
+                controller.abort();
+            }
+        }
+    };
+
+    await expect(iterate()).rejects.toMatchObject({ name: 'AbortError' });
+    expect(seen).toEqual([1, 2]);
+    expect(documents[0].loadingTask.destroyed).toBe(true);
+});
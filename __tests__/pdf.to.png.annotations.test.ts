@@ -0,0 +1,77 @@
+import { resolve } from 'node:path';
+import { expect, test } from 'vitest';
+import { pdfToPng } from '../src';
+import type { PngPageOutput } from '../src';
+import { decodeImage, expectSameRenderOnEveryPath } from './testHelpers';
+
+// A 300×200 pt form: a text field "name" (its saved appearance a grey box) across the top; below
+// it the checkboxes "agree" (off) and "subscribed" (on), a red Square annotation and the radio
+// group "colour" with the buttons "red" and "blue", none selected. A set button is a black square.
+const formPdf = resolve('./test-data/form.pdf');
+
+const SAMPLE_POINTS = { name: [150, 40], agree: [40, 100], subscribed: [100, 100], square: [160, 100], red: [220, 100], blue: [270, 100] };
+
+const WHITE = [255, 255, 255, 255];
+const BLACK = [0, 0, 0, 255];
+const GREY = [128, 128, 128, 255];
+const RED = [255, 0, 0, 255];
+
+async function colours(page: PngPageOutput): Promise<Record<string, number[]>> {
+    const context = await decodeImage(page.content as Buffer, page.width, page.height);
+    return Object.fromEntries(Object.entries(SAMPLE_POINTS).map(([name, [x, y]]) => [name, [...context.getImageData(x, y, 1, 1).data]]));
+}
+
+/** How many pixels of the "name" field are darker than its grey appearance, i.e. belong to text. */
+async function textPixelsInNameField(page: PngPageOutput): Promise<number> {
+    const context = await decodeImage(page.content as Buffer, page.width, page.height);
+    return context.getImageData(20, 20, 260, 40).data.filter((value, index) => index % 4 === 0 && value < 100).length;
+}
+
+test('draws annotations and form fields as saved in the PDF by default', async () => {
+    const [byDefault] = await pdfToPng(formPdf);
+    const [enabled] = await pdfToPng(formPdf, { annotations: { mode: 'enable' } });
+
+    expect(await colours(byDefault)).toEqual({ name: GREY, agree: WHITE, subscribed: BLACK, square: RED, red: WHITE, blue: WHITE });
+    expect(byDefault.content?.equals(enabled.content as Buffer)).toBe(true);
+});
+
+test('draws no annotations at all when disabled', async () => {
+    const [page] = await pdfToPng(formPdf, { annotations: { mode: 'disable' } });
+
+    expect(Object.values(await colours(page)).every((colour) => colour.join() === WHITE.join())).toBe(true);
+});
+
+test('leaves text fields to an interactive form layer in enable-forms mode', async () => {
+    const [page] = await pdfToPng(formPdf, { annotations: { mode: 'enable-forms' } });
+
+    expect(await colours(page)).toMatchObject({ name: WHITE, square: RED });
+});
+
+test('draws the supplied form-field values', async () => {
+    const [page] = await pdfToPng(formPdf, {
+        annotations: { formValues: { name: 'Hello', agree: true, subscribed: false, colour: 'blue' } },
+    });
+
+    expect(await colours(page)).toMatchObject({ agree: BLACK, subscribed: WHITE, square: RED, red: WHITE, blue: BLACK });
+    expect(await textPixelsInNameField(page)).toBeGreaterThan(0);
+});
+
+test('rejects form values for fields the PDF does not have or cannot hold', async () => {
+    await expect(pdfToPng(formPdf, { annotations: { formValues: { nmae: 'Hello' } } })).rejects.toThrow(
+        'Form field "nmae" does not exist in this PDF.',
+    );
+    await expect(pdfToPng(formPdf, { annotations: { formValues: { name: true } } })).rejects.toThrow(
+        'Form field "name" (text) cannot take the value true.',
+    );
+    await expect(pdfToPng(formPdf, { annotations: { formValues: { colour: ['red'] } } })).rejects.toThrow(
+        'Form field "colour" (radiobutton) cannot take the value ["red"].',
+    );
+});
+
+test('fills the form identically in worker threads and through openPdf', async () => {
+    const { mainThread } = await expectSameRenderOnEveryPath(formPdf, {
+        annotations: { formValues: { name: 'Hello', agree: true, colour: 'red' } },
+    });
+
+    expect(await colours(mainThread)).toMatchObject({ agree: BLACK, red: BLACK, blue: WHITE });
+});
@@ -0,0 +1,52 @@
+import { resolve } from 'node:path';
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import { expect, test } from 'vitest';
+import { pdfToPng } from '../src';
+import type { PngPageOutput } from '../src';
+
+// sample.pdf paints no background of its own, so its margins show the canvas background.
+const samplePdf = resolve('./test-data/sample.pdf');
+
+async function cornerPixel(page: PngPageOutput): Promise<number[]> {
+    const canvas = createCanvas(page.width, page.height);
+    const context = canvas.getContext('2d');
+    context.drawImage(await loadImage(page.content as Buffer), 0, 0);
+    return [...context.getImageData(1, 1, 1, 1).data];
+}
+
+test('paints pages on white by default', async () => {
+    const [byDefault] = await pdfToPng(samplePdf, { pagesToProcess: [1] });
+    const [white] = await pdfToPng(samplePdf, { pagesToProcess: [1], background: 'white' });
+
+    expect(await cornerPixel(byDefault)).toEqual([255, 255, 255, 255]);
+    expect(byDefault.content?.equals(white.content as Buffer)).toBe(true);
+});
+
+test('leaves the background transparent, keeping the content opaque', async () => {
+    const [page] = await pdfToPng(samplePdf, { pagesToProcess: [1], background: 'transparent' });
+
+    expect(await cornerPixel(page)).toEqual([0, 0, 0, 0]);
+    const canvas = createCanvas(page.width, page.height);
+    const context = canvas.getContext('2d');
+    context.drawImage(await loadImage(page.content as Buffer), 0, 0);
+    const hasOpaqueContent = context
+        .getImageData(0, 0, page.width, page.height)
+        .data.filter((_value, index) => index % 4 === 3)
+        .some((alpha) => alpha === 255);
+    expect(hasOpaqueContent).toBe(true);
+});
+
+test('paints pages in a custom CSS colour, in worker threads too', async () => {
+    const options = { pagesToProcess: [1], background: '#f8f5ee' };
+    const [mainThread] = await pdfToPng(samplePdf, options);
+    const [worker] = await pdfToPng(samplePdf, { ...options, renderInWorkerThreads: true });
+
+    expect(await cornerPixel(mainThread)).toEqual([248, 245, 238, 255]);
+    expect(worker.content?.equals(mainThread.content as Buffer)).toBe(true);
+});
+
+test('keeps the background transparent in WebP output', async () => {
+    const [page] = await pdfToPng(samplePdf, { pagesToProcess: [1], background: 'transparent', outputFormat: 'webp', webpQuality: 100 });
+
+    expect((await cornerPixel(page))[3]).toBe(0);
+});
@@ -0,0 +1,107 @@
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { afterEach, beforeEach, expect, test, vi } from 'vitest';
+import { pdfToPng, pdfToPngBatch } from '../src';
+import { ConcurrencyGate } from '../src/concurrencyGate';
+
+const samplePdf = resolve('./test-data/sample.pdf');
+const tenPagePdf = resolve('./test-data/10-page-sample.pdf');
+
+let outputFolder: string;
+
+beforeEach(() => {
+    outputFolder = mkdtempSync(join(tmpdir(), 'pdf-to-png-batch-'));
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(outputFolder, { recursive: true, force: true });
+});
+
+test('converts every input into its own subfolder and reports the one that fails', async () => {
+    const results = await pdfToPngBatch(
+        [samplePdf, readFileSync(samplePdf), resolve('./test-data/missing.pdf'), { pdfFile: tenPagePdf, name: 'ten' }],
+        {
+            outputFolder,
+            pagesToProcess: [1],
+            returnPageContent: false,
+        },
+    );
+
+    expect(results.map(({ kind, name }) => [kind, name])).toEqual([
+        ['converted', 'sample'],
+        ['converted', 'buffer_2'],
+        ['failed', 'missing'],
+        ['converted', 'ten'],
+    ]);
+    expect(results[1]).toMatchObject({ outputFolder: join(outputFolder, 'buffer_2'), pages: [{ name: 'buffer_2_page_1.png' }] });
+    expect(results[2]).toMatchObject({ kind: 'failed', error: { message: expect.stringMatching(/ENOENT/) } });
+    expect(readdirSync(outputFolder).sort()).toEqual(['buffer_2', 'sample', 'ten']);
+    expect(existsSync(join(outputFolder, 'ten', 'ten_page_1.png'))).toBe(true);
+});
+
+test('writes the prefixed layout into one folder, prefixing mask names with the input name', async () => {
+    const results = await pdfToPngBatch(
+        [
+            { pdfFile: samplePdf, name: 'a' },
+            { pdfFile: samplePdf, name: 'b' },
+        ],
+        { outputFolder, outputLayout: 'prefixed', outputFileMaskFunc: (page) => `p${page}.png` },
+    );
+
+    expect(results.every((result) => result.kind === 'converted' && result.outputFolder === outputFolder)).toBe(true);
+    expect(readdirSync(outputFolder).sort()).toEqual(['a_p1.png', 'a_p2.png', 'b_p1.png', 'b_p2.png']);
+});
+
+test('renders the same pages as pdfToPng, never more than pageConcurrency at once', async () => {
+    let running = 0;
+    let mostRunning = 0;
+    const run = ConcurrencyGate.prototype.run;
+    vi.spyOn(ConcurrencyGate.prototype, 'run').mockImplementation(function <T>(this: ConcurrencyGate, task: () => Promise<T>) {
+        return run.call(this, async () => {
+            running += 1;
+            mostRunning = Math.max(mostRunning, running);
+            try {
+                return await task();
+            } finally {
+                running -= 1;
+            }
+        }) as Promise<T>;
+    });
+
+    const options = { viewportScale: 0.5, processPagesInParallel: true, concurrencyLimit: 4 } as const;
+    const results = await pdfToPngBatch([tenPagePdf, samplePdf, readFileSync(tenPagePdf)], {
+        ...options,
+        documentConcurrency: 3,
+        pageConcurrency: 2,
+    });
+    const expected = await pdfToPng(tenPagePdf, options);
+
+    expect(mostRunning).toBe(2);
+    expect(results.map((result) => (result.kind === 'converted' ? result.pages.length : result.error.message))).toEqual([10, 2, 10]);
+    const pages = results[2].kind === 'converted' ? results[2].pages : [];
+    expect(pages.every((page, index) => page.content?.equals(expected[index].content as Buffer))).toBe(true);
+});
+
+test('rejects unusable input names before reading any input', async () => {
+    await expect(pdfToPngBatch([samplePdf, { pdfFile: readFileSync(samplePdf), name: 'Sample' }], { outputFolder })).rejects.toThrow(
+        'Batch inputs 1 and 2 are both named "Sample"; give each input a distinct name',
+    );
+    await expect(pdfToPngBatch([{ pdfFile: samplePdf, name: '..' }])).rejects.toThrow('The name of batch input 1 must be a flat file name');
+    expect(readdirSync(outputFolder)).toEqual([]);
+});
+
+test('rejects with the AbortError when the signal aborts', async () => {
+    const controller = new AbortController();
+    const batch = pdfToPngBatch(
+        [tenPagePdf, tenPagePdf, tenPagePdf].map((pdfFile, index) => ({ pdfFile, name: `copy${index}` })),
+        {
+            signal: controller.signal,
+            documentConcurrency: 1,
+        },
+    );
+    controller.abort();
+
+    await expect(batch).rejects.toMatchObject({ name: 'AbortError' });
+});
@@ -0,0 +1,97 @@
+import { resolve } from 'node:path';
+import { expect, test } from 'vitest';
+import { openPdf, pdfToPng } from '../src';
+import type { PdfToPngOptions, PngPageOutput } from '../src';
+import { pixelsOf } from './testHelpers';
+
+const samplePdf = resolve('./test-data/sample.pdf');
+// Page 1: a 280×380 pt CropBox at [10 10 290 390]; a black ArtBox fills [50 60 250 340].
+// Page 2 is the same page rotated 90°.
+const pageBoxesPdf = resolve('./test-data/page-boxes.pdf');
+
+test('renders only the clip, measured in points from the top-left corner of the page', async () => {
+    const clip = { x: 40, y: 50, width: 100, height: 80 };
+    const [page] = await pdfToPng(pageBoxesPdf, { pagesToProcess: [1], viewportScale: 2, clip });
+
+    expect(page).toMatchObject({ width: 200, height: 160, viewportScale: 2, renderedRect: [50, 260, 150, 340] });
+    expect(new Set(await pixelsOf(page))).toEqual(new Set([0, 255]));
+});
+
+test('accepts the clip as fractions of the page', async () => {
+    const [page] = await pdfToPng(pageBoxesPdf, {
+        pagesToProcess: [1],
+        clip: { x: 0, y: 0, width: 0.5, height: 0.5, units: 'fraction' },
+    });
+
+    expect(page).toMatchObject({ width: 140, height: 190, renderedRect: [10, 200, 150, 390] });
+    expect([...(await pixelsOf(page, 2, 2, 1, 1))]).toEqual([0, 0, 255, 255]);
+});
+
+// As in the tile test, anti-aliasing may round a few edge pixels differently under the offset.
+test('matches the same rectangle of the page rendered whole', async () => {
+    const [whole] = await pdfToPng(samplePdf, { pagesToProcess: [1] });
+    const [clipped] = await pdfToPng(samplePdf, { pagesToProcess: [1], clip: { x: 100, y: 120, width: 300, height: 200 } });
+
+    expect({ width: clipped.width, height: clipped.height }).toEqual({ width: 300, height: 200 });
+    const expected = await pixelsOf(whole, 100, 120, 300, 200);
+    const actual = await pixelsOf(clipped);
+    const deltas = actual.map((value, index) => Math.abs(value - expected[index])).filter((delta) => delta > 0);
+    expect(deltas.length).toBeLessThan(expected.length / 1000);
+    expect(Math.max(0, ...deltas)).toBeLessThanOrEqual(16);
+});
+
+test('holds the canvas pixel limit to the clip rather than the page', async () => {
+    const options: PdfToPngOptions = { pagesToProcess: [1], viewportScale: 15 };
+
+    await expect(pdfToPng(samplePdf, options)).rejects.toThrow('exceeds the 100,000,000 pixel limit');
+    const [page] = await pdfToPng(samplePdf, { ...options, clip: { x: 50, y: 50, width: 200, height: 100 } });
+    expect(page).toMatchObject({ width: 3000, height: 1500 });
+});
+
+test('measures the clip on the rotated page as displayed', async () => {
+    const [page] = await pdfToPng(pageBoxesPdf, { pagesToProcess: [2], pageBox: 'MediaBox', clip: { x: 0, y: 0, width: 10, height: 300 } });
+
+    expect(page).toMatchObject({ width: 10, height: 300, rotation: 90 });
+    expect([...(await pixelsOf(page, 2, 150, 1, 1))]).toEqual([255, 0, 0, 255]);
+});
+
+test('cuts a clip that extends past the page and rejects one entirely outside it', async () => {
+    const [page] = await pdfToPng(pageBoxesPdf, { pagesToProcess: [1], clip: { x: 200, y: 300, width: 500, height: 500 } });
+    expect(page).toMatchObject({ width: 80, height: 80, renderedRect: [210, 10, 290, 90] });
+
+    await expect(pdfToPng(pageBoxesPdf, { pagesToProcess: [1], clip: { x: 280, y: 0, width: 10, height: 10 } })).rejects.toThrow(
+        'The clip lies outside page 1, which measures 280×380 pt.',
+    );
+});
+
+test('reports the clipped size in metadata mode, renders it identically in workers and fits it to a target size', async () => {
+    const options: PdfToPngOptions = { pagesToProcess: [1, 2], clip: { x: 10, y: 20, width: 120, height: 60 } };
+    const mainThread = await pdfToPng(pageBoxesPdf, options);
+    const metadata = await pdfToPng(pageBoxesPdf, { ...options, returnMetadataOnly: true });
+    const workers = await pdfToPng(pageBoxesPdf, { ...options, renderInWorkerThreads: true });
+    const [fitted] = await pdfToPng(pageBoxesPdf, { ...options, pagesToProcess: [1], targetWidth: 240 });
+
+    const dimensions = (pages: PngPageOutput[]): unknown[] =>
+        pages.map(({ width, height, renderedRect }) => ({ width, height, renderedRect }));
+    expect(mainThread.map(({ width, height }) => [width, height])).toEqual([
+        [120, 60],
+        [120, 60],
+    ]);
+    expect(dimensions(metadata)).toEqual(dimensions(mainThread));
+    expect(dimensions(workers)).toEqual(dimensions(mainThread));
+    expect(workers.every((page, index) => page.content?.equals(mainThread[index].content as Buffer))).toBe(true);
+    expect(fitted).toMatchObject({ width: 240, height: 120, viewportScale: 2 });
+});
+
+test('openPdf renders a different clip per call', async () => {
+    const handle = await openPdf(pageBoxesPdf, { clip: { x: 0, y: 0, width: 0.5, height: 0.5, units: 'fraction' } });
+    try {
+        const byDefault = await handle.renderPage(1);
+        const signature = await handle.renderPage(1, { clip: { x: 40, y: 50, width: 100, height: 80 } });
+
+        expect(byDefault).toMatchObject({ width: 140, height: 190 });
+        expect(signature).toMatchObject({ width: 100, height: 80, renderedRect: [50, 260, 150, 340] });
+    } finally {
+        await handle.close();
+    }
+});
@@ -0,0 +1,76 @@
+import { resolve } from 'node:path';
+import { expect, test } from 'vitest';
+import { pdfToPng } from '../src';
+import { expectSameRenderOnEveryPath, pixelsOf } from './testHelpers';
+
+const samplePdf = resolve('./test-data/sample.pdf');
+
+/** The bit depth and colour type written in a PNG's IHDR chunk. */
+function ihdrOf(png: Buffer): { bitDepth: number; colorType: number } {
+    expect(png.subarray(12, 16).toString('latin1')).toBe('IHDR');
+    return { bitDepth: png[24], colorType: png[25] };
+}
+
+test('writes and reports the pixel format of each colour mode', async () => {
+    const expected = [
+        { colorMode: 'rgba', bitDepth: 8, colorType: 'rgba', ihdr: { bitDepth: 8, colorType: 6 } },
+        { colorMode: 'rgb', bitDepth: 8, colorType: 'rgb', ihdr: { bitDepth: 8, colorType: 2 } },
+        { colorMode: 'gray', bitDepth: 8, colorType: 'gray', ihdr: { bitDepth: 8, colorType: 0 } },
+        { colorMode: 'bilevel', bitDepth: 1, colorType: 'gray', ihdr: { bitDepth: 1, colorType: 0 } },
+    ] as const;
+
+    for (const { colorMode, bitDepth, colorType, ihdr } of expected) {
+        const [page] = await pdfToPng(samplePdf, { pagesToProcess: [1], colorMode });
+
+        expect(page).toMatchObject({ width: 612, height: 792, bitDepth, colorType });
+        expect(ihdrOf(page.content as Buffer)).toEqual(ihdr);
+    }
+});
+
+test('keeps the page looking the same in rgb and gray, at a fraction of the size', async () => {
+    const [rgba] = await pdfToPng(samplePdf, { pagesToProcess: [1] });
+    const [rgb] = await pdfToPng(samplePdf, { pagesToProcess: [1], colorMode: 'rgb' });
+    const [gray] = await pdfToPng(samplePdf, { pagesToProcess: [1], colorMode: 'gray' });
+    const [rgbaPixels, rgbPixels, grayPixels] = [await pixelsOf(rgba), await pixelsOf(rgb), await pixelsOf(gray)];
+
+    expect(rgbPixels.equals(rgbaPixels)).toBe(true);
+    expect(
+        grayPixels.every((value, index) => index % 4 !== 1 || (value === grayPixels[index - 1] && value === grayPixels[index + 1])),
+    ).toBe(true);
+    expect(gray.content?.length).toBeLessThan((rgba.content?.length as number) / 2);
+});
+
+test('turns every pixel black or white in bilevel mode, by threshold or by dithering', async () => {
+    const [thresholded] = await pdfToPng(samplePdf, { pagesToProcess: [1], colorMode: 'bilevel' });
+    const [lowThreshold] = await pdfToPng(samplePdf, { pagesToProcess: [1], colorMode: 'bilevel', bilevelThreshold: 1 });
+    const [dithered] = await pdfToPng(samplePdf, { pagesToProcess: [1], colorMode: 'bilevel', dither: true });
+    const blackPixels = (pixels: Buffer): number => pixels.filter((value, index) => index % 4 === 0 && value === 0).length;
+    const [thresholdedPixels, lowThresholdPixels, ditheredPixels] = [
+        await pixelsOf(thresholded),
+        await pixelsOf(lowThreshold),
+        await pixelsOf(dithered),
+    ];
+
+    expect(thresholdedPixels.every((value) => value === 0 || value === 255)).toBe(true);
+    expect(ditheredPixels.every((value) => value === 0 || value === 255)).toBe(true);
+    expect(blackPixels(thresholdedPixels)).toBeGreaterThan(0);
+    expect(blackPixels(lowThresholdPixels)).toBeLessThan(blackPixels(thresholdedPixels));
+    expect(dithered.content?.equals(thresholded.content as Buffer)).toBe(false);
+});
+
+test('reports the pixel format of jpeg and webp output and of tiles', async () => {
+    const [jpeg] = await pdfToPng(samplePdf, { pagesToProcess: [1], outputFormat: 'jpeg' });
+    const [webp] = await pdfToPng(samplePdf, { pagesToProcess: [1], outputFormat: 'webp' });
+    const [tiled] = await pdfToPng(samplePdf, { pagesToProcess: [1], colorMode: 'gray', tileSize: 400 });
+
+    expect(jpeg).toMatchObject({ bitDepth: 8, colorType: 'rgb' });
+    expect(webp).toMatchObject({ bitDepth: 8, colorType: 'rgba' });
+    expect(tiled).toMatchObject({ kind: 'tiles', bitDepth: 8, colorType: 'gray' });
+    expect(tiled.kind === 'tiles' && tiled.tiles.every(({ content }) => ihdrOf(content as Buffer).colorType === 0)).toBe(true);
+});
+
+test('encodes the same images in worker threads and through openPdf', async () => {
+    const { worker } = await expectSameRenderOnEveryPath(samplePdf, { colorMode: 'bilevel', bilevelThreshold: 200, dither: true });
+
+    expect(worker).toMatchObject({ bitDepth: 1, colorType: 'gray' });
+});
@@ -0,0 +1,31 @@
+import { resolve } from 'node:path';
+import { expect, test } from 'vitest';
+import { pdfToPng } from '../src';
+
+const samplePdf = resolve('./test-data/sample.pdf');
+
+test('renders at dpi / 72 and is byte-identical to the equivalent viewportScale', async () => {
+    const [byDpi, byScale] = await Promise.all([
+        pdfToPng(samplePdf, { pagesToProcess: [1], dpi: 144 }),
+        pdfToPng(samplePdf, { pagesToProcess: [1], viewportScale: 2 }),
+    ]);
+
+    expect(byDpi[0].width).toBe(byScale[0].width);
+    expect(byDpi[0].height).toBe(byScale[0].height);
+    expect(Buffer.compare(byDpi[0].content as Buffer, byScale[0].content as Buffer)).toBe(0);
+});
+
+test('reports page dimensions for the requested dpi in metadata mode', async () => {
+    const [points] = await pdfToPng(samplePdf, { pagesToProcess: [1], returnMetadataOnly: true, dpi: 72 });
+    const [print] = await pdfToPng(samplePdf, { pagesToProcess: [1], returnMetadataOnly: true, dpi: 300 });
+    const [reference] = await pdfToPng(samplePdf, { pagesToProcess: [1], returnMetadataOnly: true, viewportScale: 300 / 72 });
+
+    expect(print).toEqual(reference);
+    expect(print.width).toBeGreaterThanOrEqual(Math.floor((points.width * 300) / 72));
+});
+
+test('rejects dpi combined with viewportScale before reading the input', async () => {
+    await expect(pdfToPng(resolve('./test-data/does-not-exist.pdf'), { dpi: 300, viewportScale: 1 })).rejects.toThrow(
+        'dpi and viewportScale cannot both be set; use one or the other',
+    );
+});
@@ -0,0 +1,70 @@
+import { resolve } from 'node:path';
+import { expect, test } from 'vitest';
+import { pdfToPng } from '../src';
+
+// Pages 1 and 3 are portrait A4; pages 2 and 4 are rotated to landscape.
+const mixedPdf = resolve('./test-data/rotated-pages.pdf');
+const samplePdf = resolve('./test-data/sample.pdf');
+
+test('targetWidth scales every page to the same width, each at its own scale', async () => {
+    const pages = await pdfToPng(mixedPdf, { targetWidth: 300 });
+
+    expect(pages.map((page) => page.width)).toEqual([300, 300, 300, 300]);
+    expect(pages.map((page) => page.height)).toEqual([424, 211, 424, 211]);
+    expect(pages[0].viewportScale).toBeCloseTo(300 / 595, 10);
+    expect(pages[1].viewportScale).toBeCloseTo(300 / 842, 10);
+});
+
+test('maxDimension bounds the longer edge of portrait and landscape pages alike', async () => {
+    const pages = await pdfToPng(mixedPdf, { maxDimension: 200 });
+
+    for (const page of pages) {
+        expect(Math.max(page.width, page.height)).toBe(200);
+    }
+    expect(pages[0].viewportScale).toBe(pages[1].viewportScale);
+});
+
+test('targetWidth and targetHeight together fit each page inside the box', async () => {
+    const pages = await pdfToPng(mixedPdf, { targetWidth: 300, targetHeight: 300 });
+
+    expect(pages.map((page) => [page.width, page.height])).toEqual([
+        [211, 300],
+        [300, 211],
+        [211, 300],
+        [300, 211],
+    ]);
+});
+
+test('metadata mode reports the fitted dimensions and scale a render produces', async () => {
+    const options = { targetHeight: 500 };
+    const [metadata, rendered] = await Promise.all([
+        pdfToPng(mixedPdf, { ...options, returnMetadataOnly: true }),
+        pdfToPng(mixedPdf, options),
+    ]);
+
+    expect(metadata.map(({ width, height, viewportScale }) => ({ width, height, viewportScale }))).toEqual(
+        rendered.map(({ width, height, viewportScale }) => ({ width, height, viewportScale })),
+    );
+});
+
+test('a fitted render is byte-identical to rendering at the reported scale', async () => {
+    const [fitted] = await pdfToPng(samplePdf, { pagesToProcess: [1], targetWidth: 306 });
+    const [explicit] = await pdfToPng(samplePdf, { pagesToProcess: [1], viewportScale: fitted.viewportScale });
+
+    expect(fitted.viewportScale).toBe(0.5);
+    expect(Buffer.compare(fitted.content as Buffer, explicit.content as Buffer)).toBe(0);
+});
+
+test('fixed-scale conversions report their viewportScale, including one derived from dpi', async () => {
+    const [byScale] = await pdfToPng(samplePdf, { pagesToProcess: [1], returnMetadataOnly: true, viewportScale: 1.5 });
+    const [byDpi] = await pdfToPng(samplePdf, { pagesToProcess: [1], returnMetadataOnly: true, dpi: 144 });
+
+    expect(byScale.viewportScale).toBe(1.5);
+    expect(byDpi.viewportScale).toBe(2);
+});
+
+test('rejects a page whose fitted scale would exceed the viewportScale maximum', async () => {
+    await expect(pdfToPng(samplePdf, { pagesToProcess: [1], targetWidth: 100_000, returnMetadataOnly: true })).rejects.toThrow(
+        /^Page 1 needs viewportScale 163\.\d+ to fit the requested size, above the maximum of 100\.$/,
+    );
+});
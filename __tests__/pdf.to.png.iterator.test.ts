@@ -0,0 +1,157 @@
+import { resolve } from 'node:path';
+import { setTimeout as delay } from 'node:timers/promises';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { afterEach, expect, test, vi } from 'vitest';
+import type { PngPageOutput } from '../src';
+import { pdfToPng, pdfToPngIterator } from '../src';
+import * as pageRenderer from '../src/pageRenderer.js';
+import * as pdfjsLoader from '../src/pdfjsLoader.js';
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+const tenPagePdf = resolve('./test-data/10-page-sample.pdf');
+
+async function collect(iterable: AsyncIterable<PngPageOutput>): Promise<PngPageOutput[]> {
+    const pages: PngPageOutput[] = [];
+    for await (const page of iterable) {
+        pages.push(page);
+    }
+    return pages;
+}
+
+function createDeferred(): { promise: Promise<void>; resolve: () => void } {
+    let resolveDeferred!: () => void;
+    const promise = new Promise<void>((res) => {
+        resolveDeferred = res;
+    });
+    return { promise, resolve: resolveDeferred };
+}
+
+function mockDocument(numPages: number): { destroy: ReturnType<typeof vi.fn> } {
+    const destroy = vi.fn().mockResolvedValue(undefined);
+    const document = { numPages, loadingTask: { destroy } } as unknown as PDFDocumentProxy;
+    vi.spyOn(pdfjsLoader, 'getPdfDocument').mockResolvedValue(document);
+    return { destroy };
+}
+
+function renderedPage(pageName: string, pageNumber: number): Awaited<ReturnType<typeof pageRenderer.renderPdfPage>> {
+    return {
+        kind: 'content',
+        pageNumber,
+        name: pageName,
+        format: 'png',
+        bitDepth: 8,
+        colorType: 'rgba',
+        content: Buffer.from(String(pageNumber)),
+        path: '',
+        width: 100,
+        height: 100,
+        rotation: 0,
+        viewportScale: 1,
+        renderedRect: [0, 0, 612, 792],
+    };
+}
+
+test.each([
+    ['sequential', {}],
+    ['parallel', { processPagesInParallel: true, concurrencyLimit: 3 }],
+])('yields the same pages as pdfToPng, in page order (%s)', async (_mode, options) => {
+    const expected = await pdfToPng(tenPagePdf, { pagesToProcess: [2, 4, 6, 8], ...options });
+    const streamed = await collect(pdfToPngIterator(tenPagePdf, { pagesToProcess: [2, 4, 6, 8], ...options }));
+
+    expect(streamed.map((page) => page.pageNumber)).toEqual([2, 4, 6, 8]);
+    for (const [index, page] of streamed.entries()) {
+        expect(page.name).toBe(expected[index].name);
+        expect(Buffer.compare(page.content as Buffer, expected[index].content as Buffer)).toBe(0);
+    }
+});
+
+test('validates options synchronously, before iteration starts', () => {
+    expect(() => pdfToPngIterator(tenPagePdf, { viewportScale: -1 })).toThrow('viewportScale must be a finite number');
+});
+
+test('yields each page as soon as it and every earlier page are done, without waiting for the rest', async () => {
+    mockDocument(4);
+    const deferredRenders = new Map([1, 2, 3, 4].map((pageNumber) => [pageNumber, createDeferred()]));
+    vi.spyOn(pageRenderer, 'renderPdfPage').mockImplementation(async (_pdf, pageName, pageNumber) => {
+        await deferredRenders.get(pageNumber)?.promise;
+        return renderedPage(pageName, pageNumber);
+    });
+
+    const iterator = pdfToPngIterator(new Uint8Array([1]), { processPagesInParallel: true, concurrencyLimit: 4 })[Symbol.asyncIterator]();
+    const first = iterator.next();
+
+    // Page 2 finishing first must not release anything: order is preserved.
+    deferredRenders.get(2)?.resolve();
+    deferredRenders.get(1)?.resolve();
+    expect((await first).value?.pageNumber).toBe(1);
+    expect((await iterator.next()).value?.pageNumber).toBe(2);
+
+    deferredRenders.get(3)?.resolve();
+    deferredRenders.get(4)?.resolve();
+    expect((await iterator.next()).value?.pageNumber).toBe(3);
+    expect((await iterator.next()).value?.pageNumber).toBe(4);
+    expect((await iterator.next()).done).toBe(true);
+});
+
+test('does not start pages more than one window ahead of a slow consumer', async () => {
+    mockDocument(6);
+    const startedPages: number[] = [];
+    vi.spyOn(pageRenderer, 'renderPdfPage').mockImplementation(async (_pdf, pageName, pageNumber) => {
+        startedPages.push(pageNumber);
+        return renderedPage(pageName, pageNumber);
+    });
+
+    const iterator = pdfToPngIterator(new Uint8Array([1]), { processPagesInParallel: true, concurrencyLimit: 2 })[Symbol.asyncIterator]();
+    expect((await iterator.next()).value?.pageNumber).toBe(1);
+    await delay(20);
+
+    // Page 1 has been taken; pages 2 and 3 fill the window of two. Page 4 waits for the consumer.
+    expect(startedPages).toEqual([1, 2, 3]);
+
+    expect((await iterator.next()).value?.pageNumber).toBe(2);
+    await vi.waitFor(() => {
+        expect(startedPages).toEqual([1, 2, 3, 4]);
+    });
+    await iterator.return?.();
+});
+
+test('breaking out early stops dispatching and destroys the document before the loop exits', async () => {
+    const { destroy } = mockDocument(10);
+    const startedPages: number[] = [];
+    vi.spyOn(pageRenderer, 'renderPdfPage').mockImplementation(async (_pdf, pageName, pageNumber) => {
+        startedPages.push(pageNumber);
+        return renderedPage(pageName, pageNumber);
+    });
+
+    for await (const page of pdfToPngIterator(new Uint8Array([1]), { processPagesInParallel: true, concurrencyLimit: 2 })) {
+        if (page.pageNumber === 2) {
+            break;
+        }
+    }
+
+    expect(destroy).toHaveBeenCalledTimes(1);
+    expect(Math.max(...startedPages)).toBeLessThanOrEqual(4);
+});
+
+test('yields the pages before a failing page, then throws that page error and destroys the document', async () => {
+    const { destroy } = mockDocument(5);
+    vi.spyOn(pageRenderer, 'renderPdfPage').mockImplementation(async (_pdf, pageName, pageNumber) => {
+        if (pageNumber === 3) {
+            throw new Error('page 3 exploded');
+        }
+        return renderedPage(pageName, pageNumber);
+    });
+
+    const yielded: number[] = [];
+    await expect(async () => {
+        for await (const page of pdfToPngIterator(new Uint8Array([1]))) {
+            yielded.push(page.pageNumber);
+        }
+    }).rejects.toThrow('page 3 exploded');
+
+    expect(yielded).toEqual([1, 2]);
+    expect(destroy).toHaveBeenCalledTimes(1);
+});
@@ -0,0 +1,75 @@
+import { resolve } from 'node:path';
+import { expect, test } from 'vitest';
+import { openPdf, pdfToPng } from '../src';
+import type { PngPageOutput } from '../src';
+import { expectSameRenderOnEveryPath, pixelsOf } from './testHelpers';
+
+// One page of drawings, each on its own layer; "Radio Layer 1".."Radio Layer 3" form a radio-button
+// set, with only "Radio Layer 3" shown by default.
+const layersPdf = resolve('./test-data/layers.pdf');
+
+/** The bounding box `[left, top, right, bottom]` of the pixels that differ between two renders of a page. */
+async function changedArea(before: PngPageOutput, after: PngPageOutput): Promise<number[] | undefined> {
+    const [a, b] = [await pixelsOf(before), await pixelsOf(after)];
+    let area: number[] | undefined;
+    for (let index = 0; index < a.length; index += 4) {
+        if (a[index] !== b[index] || a[index + 1] !== b[index + 1] || a[index + 2] !== b[index + 2]) {
+            const [x, y] = [(index / 4) % before.width, Math.floor(index / 4 / before.width)];
+            area =
+                area === undefined
+                    ? [x, y, x, y]
+                    : [Math.min(area[0], x), Math.min(area[1], y), Math.max(area[2], x), Math.max(area[3], y)];
+        }
+    }
+    return area;
+}
+
+test('lists the layers of a document with their default visibility', async () => {
+    const handle = await openPdf(layersPdf);
+    const sample = await openPdf(resolve('./test-data/sample.pdf'));
+    try {
+        const layers = await handle.listLayers();
+
+        expect(layers).toHaveLength(13);
+        expect(layers[0]).toEqual({ id: '1R', name: 'PDF Filler Layer', defaultVisibility: 'visible' });
+        expect(layers.filter(({ defaultVisibility }) => defaultVisibility === 'hidden').map(({ name }) => name)).toEqual([
+            'Radio Layer 1',
+            'Radio Layer 2',
+        ]);
+        expect(await sample.listLayers()).toEqual([]);
+    } finally {
+        await handle.close();
+        await sample.close();
+    }
+});
+
+test('hides a layer by name or by id, leaving the rest of the page as it was', async () => {
+    const [byDefault] = await pdfToPng(layersPdf);
+    const [byName] = await pdfToPng(layersPdf, { optionalContent: { Rectangle: 'hidden' } });
+    const [byId] = await pdfToPng(layersPdf, { optionalContent: { '7R': 'hidden' } });
+
+    expect(await changedArea(byDefault, byName)).toEqual([87, 302, 296, 356]);
+    expect(byId.content?.equals(byName.content as Buffer)).toBe(true);
+});
+
+test('shows a hidden layer, hiding the other layers of its radio-button set', async () => {
+    const [shown] = await pdfToPng(layersPdf, { optionalContent: { 'Radio Layer 1': 'visible' } });
+    const [explicit] = await pdfToPng(layersPdf, { optionalContent: { 'Radio Layer 1': 'visible', 'Radio Layer 3': 'hidden' } });
+    const [byDefault] = await pdfToPng(layersPdf);
+
+    expect(shown.content?.equals(byDefault.content as Buffer)).toBe(false);
+    expect(shown.content?.equals(explicit.content as Buffer)).toBe(true);
+});
+
+test('rejects a layer the document does not have', async () => {
+    await expect(pdfToPng(layersPdf, { optionalContent: { Dimensions: 'hidden' } })).rejects.toThrow(
+        'Layer "Dimensions" does not exist in this PDF.',
+    );
+    await expect(openPdf(layersPdf, { optionalContent: { Dimensions: 'hidden' } })).rejects.toThrow(
+        'Layer "Dimensions" does not exist in this PDF.',
+    );
+});
+
+test('renders the same layers in worker threads and through openPdf', async () => {
+    await expectSameRenderOnEveryPath(layersPdf, { optionalContent: { 'PDF Filler Layer': 'hidden', Curve: 'hidden' } });
+});
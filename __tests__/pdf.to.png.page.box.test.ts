@@ -0,0 +1,145 @@
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import { expect, test } from 'vitest';
+import { openPdf, pdfToPng } from '../src';
+import type { PageBox, PdfRectangle, PdfToPngOptions, PngPageOutput } from '../src';
+import { PdfObjectReader } from '../src/pdfObjectReader.js';
+import { readPageBoxes } from '../src/pdfPageBoxes.js';
+
+// Page 1 sets every box itself (a reversed MediaBox, the TrimBox as an indirect object); page 2 is
+// rotated 90° and inherits its MediaBox and CropBox from the page tree. Each box is filled with its
+// own colour over the next larger one: MediaBox red, CropBox blue, BleedBox green, TrimBox white,
+// ArtBox black.
+const pageBoxesPdf = resolve('./test-data/page-boxes.pdf');
+
+// The same two pages, with page 2 given its own CropBox, stored in an encrypted object stream and
+// indexed by a cross-reference stream with the PNG Up predictor: RC4 and AES-128 with an owner
+// password only, AES-256 (revision 6) with the user password 'user'; the owner password is 'owner'.
+const encryptedPageBoxesPdfs: [string, string][] = [
+    ['page-boxes-rc4.pdf', ''],
+    ['page-boxes-aes128.pdf', ''],
+    ['page-boxes-aes256.pdf', 'user'],
+];
+
+const RED = [255, 0, 0, 255];
+const BLUE = [0, 0, 255, 255];
+const GREEN = [0, 255, 0, 255];
+const WHITE = [255, 255, 255, 255];
+const BLACK = [0, 0, 0, 255];
+
+/** The colours just inside the top-left and bottom-right corners of a rendered page. */
+async function cornerColours(page: PngPageOutput): Promise<number[][]> {
+    const canvas = createCanvas(page.width, page.height);
+    const context = canvas.getContext('2d');
+    context.drawImage(await loadImage(page.content as Buffer), 0, 0);
+    return [[...context.getImageData(2, 2, 1, 1).data], [...context.getImageData(page.width - 3, page.height - 3, 1, 1).data]];
+}
+
+test.each<[PageBox, number, number, number[], number[]]>([
+    ['MediaBox', 300, 400, [0, 0, 300, 400], RED],
+    ['CropBox', 280, 380, [10, 10, 290, 390], BLUE],
+    ['BleedBox', 260, 360, [20, 20, 280, 380], GREEN],
+    ['TrimBox', 240, 340, [30, 30, 270, 370], WHITE],
+    ['ArtBox', 200, 280, [50, 60, 250, 340], BLACK],
+])('renders the %s', async (pageBox, width, height, renderedRect, colour) => {
+    const [page] = await pdfToPng(pageBoxesPdf, { pagesToProcess: [1], pageBox });
+
+    expect(page).toMatchObject({ width, height, renderedRect });
+    expect(await cornerColours(page)).toEqual([colour, colour]);
+});
+
+test('defaults to the CropBox', async () => {
+    const [byDefault] = await pdfToPng(pageBoxesPdf, { pagesToProcess: [1] });
+    const [cropBox] = await pdfToPng(pageBoxesPdf, { pagesToProcess: [1], pageBox: 'CropBox' });
+
+    expect(byDefault.renderedRect).toEqual([10, 10, 290, 390]);
+    expect(byDefault.content?.equals(cropBox.content as Buffer)).toBe(true);
+});
+
+test('applies the page rotation and inherited boxes, and falls back to the CropBox for a missing box', async () => {
+    const pages = await Promise.all(
+        (['MediaBox', 'TrimBox', 'ArtBox'] as const).map(async (pageBox) => {
+            const [page] = await pdfToPng(pageBoxesPdf, { pagesToProcess: [2], pageBox });
+            return page;
+        }),
+    );
+
+    expect(pages.map(({ width, height, rotation, renderedRect }) => ({ width, height, rotation, renderedRect }))).toEqual([
+        { width: 400, height: 300, rotation: 90, renderedRect: [0, 0, 300, 400] },
+        { width: 340, height: 240, rotation: 90, renderedRect: [30, 30, 270, 370] },
+        { width: 380, height: 280, rotation: 90, renderedRect: [10, 10, 290, 390] },
+    ]);
+    expect(await cornerColours(pages[0])).toEqual([RED, RED]);
+    expect(await cornerColours(pages[1])).toEqual([WHITE, WHITE]);
+    expect(await cornerColours(pages[2])).toEqual([BLUE, BLUE]);
+});
+
+test('scales the box to fit a target size and reports the same size in metadata mode', async () => {
+    const options = { pageBox: 'ArtBox', targetWidth: 100 } as const;
+    const [rendered] = await pdfToPng(pageBoxesPdf, { ...options, pagesToProcess: [1] });
+    const [metadata] = await pdfToPng(pageBoxesPdf, { ...options, pagesToProcess: [1], returnMetadataOnly: true });
+
+    expect(rendered).toMatchObject({ width: 100, height: 140, viewportScale: 0.5 });
+    expect(metadata).toMatchObject({ kind: 'metadata', width: 100, height: 140, renderedRect: [50, 60, 250, 340] });
+});
+
+test('renders the same page box in worker threads', async () => {
+    const options: PdfToPngOptions = { pageBox: 'BleedBox', pagesToProcess: [1, 2] };
+    const mainThread = await pdfToPng(pageBoxesPdf, options);
+    const workers = await pdfToPng(pageBoxesPdf, { ...options, renderInWorkerThreads: true });
+
+    expect(workers.map(({ width, height, renderedRect }) => ({ width, height, renderedRect }))).toEqual(
+        mainThread.map(({ width, height, renderedRect }) => ({ width, height, renderedRect })),
+    );
+    expect(workers.every((page, index) => page.content?.equals(mainThread[index].content as Buffer))).toBe(true);
+});
+
+test('reads the boxes of pages stored in compressed object streams', async () => {
+    const rotatedPagesPdf = resolve('./test-data/rotated-pages.pdf');
+    const cropBoxPages = await pdfToPng(rotatedPagesPdf, { returnMetadataOnly: true });
+    const mediaBoxPages = await pdfToPng(rotatedPagesPdf, { returnMetadataOnly: true, pageBox: 'MediaBox' });
+
+    expect(mediaBoxPages.map(({ width, height, renderedRect }) => ({ width, height, renderedRect }))).toEqual(
+        cropBoxPages.map(({ width, height, renderedRect }) => ({ width, height, renderedRect })),
+    );
+});
+
+/** The boxes of every page of `pdfFile`, in page order, read without pdf.js. */
+async function readBoxesInPageOrder(pdfFile: string, password: string): Promise<Record<PageBox, PdfRectangle>[]> {
+    const bytes = await readFile(pdfFile);
+    const reader = await PdfObjectReader.open(
+        { length: bytes.length, read: (begin, end) => Promise.resolve(bytes.subarray(begin, end)) },
+        password,
+    );
+    return [...(await readPageBoxes(reader)).values()];
+}
+
+test.each([
+    ['10-page-sample.pdf', ''],
+    ['TAMReview.pdf', ''],
+    ['layers.pdf', ''],
+    ['rotated-pages.pdf', ''],
+    ...encryptedPageBoxesPdfs,
+    ['page-boxes-aes256.pdf', 'owner'],
+])('finds the CropBox pdf.js renders on every page of %s (password %j)', async (fileName, password) => {
+    const pdfFile = resolve('./test-data', fileName);
+    const boxes = await readBoxesInPageOrder(pdfFile, password);
+    await using handle = await openPdf(pdfFile, { pdfFilePassword: password });
+
+    expect(boxes).toHaveLength(handle.numPages);
+    for (const [index, { CropBox }] of boxes.entries()) {
+        expect(CropBox).toEqual((await handle.getPageMetadata(index + 1)).renderedRect);
+    }
+});
+
+test.each(encryptedPageBoxesPdfs)('renders the boxes of %s, read from its encrypted object stream', async (fileName, password) => {
+    const pdfFile = resolve('./test-data', fileName);
+    const [trimBox] = await pdfToPng(pdfFile, { pdfFilePassword: password, pagesToProcess: [1], pageBox: 'TrimBox' });
+    const [inheritedMediaBox] = await pdfToPng(pdfFile, { pdfFilePassword: password, pagesToProcess: [2], pageBox: 'MediaBox' });
+
+    expect(trimBox).toMatchObject({ width: 240, height: 340, renderedRect: [30, 30, 270, 370] });
+    expect(await cornerColours(trimBox)).toEqual([WHITE, WHITE]);
+    expect(inheritedMediaBox).toMatchObject({ width: 400, height: 300, rotation: 90, renderedRect: [0, 0, 300, 400] });
+    expect(await cornerColours(inheritedMediaBox)).toEqual([RED, RED]);
+});
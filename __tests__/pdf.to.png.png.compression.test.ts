@@ -0,0 +1,79 @@
+import { resolve } from 'node:path';
+import { clearInterval, setInterval } from 'node:timers';
+import { inflateSync } from 'node:zlib';
+import { expect, test } from 'vitest';
+import { pdfToPng } from '../src';
+import type { PdfToPngOptions, PngFilter } from '../src';
+import { encodePng, encodePngSync, type PngEncodeOptions } from '../src/pngEncoder.js';
+import { expectSameRenderOnEveryPath, pixelsOf } from './testHelpers';
+
+const samplePdf = resolve('./test-data/sample.pdf');
+
+/** The filter-type byte in front of each scanline of a single-IDAT PNG. */
+function scanlineFilters(png: Buffer, height: number): number[] {
+    const idat = png.indexOf('IDAT', 0, 'latin1');
+    const scanlines = inflateSync(png.subarray(idat + 4, idat + 4 + png.readUInt32BE(idat - 4)));
+    const stride = scanlines.length / height;
+    return Array.from({ length: height }, (_, row) => scanlines[row * stride]);
+}
+
+test('trades encoding effort for size without changing a pixel', async () => {
+    const [byDefault] = await pdfToPng(samplePdf, { pagesToProcess: [1] });
+    const [stored] = await pdfToPng(samplePdf, { pagesToProcess: [1], pngCompression: { level: 0 } });
+    const [fast] = await pdfToPng(samplePdf, { pagesToProcess: [1], pngCompression: { level: 1 } });
+    const [smallest] = await pdfToPng(samplePdf, { pagesToProcess: [1], pngCompression: { level: 9 } });
+    const expected = await pixelsOf(byDefault);
+
+    for (const page of [stored, fast, smallest]) {
+        expect((await pixelsOf(page)).equals(expected)).toBe(true);
+        expect(page).toMatchObject({ bitDepth: 8, colorType: 'rgba' });
+    }
+    expect(stored.content?.length).toBeGreaterThan(612 * 792 * 4);
+    expect(smallest.content?.length).toBeLessThan(fast.content?.length as number);
+});
+
+test('writes every scanline filter so that it decodes to the same image, alpha included', async () => {
+    const options: PdfToPngOptions = { pagesToProcess: [1], background: 'transparent' };
+    const [byDefault] = await pdfToPng(samplePdf, options);
+    const expected = await pixelsOf(byDefault);
+    const filterTypes = { none: 0, sub: 1, up: 2, average: 3, paeth: 4 };
+
+    for (const [filter, type] of Object.entries(filterTypes)) {
+        const [page] = await pdfToPng(samplePdf, { ...options, pngCompression: { filter: filter as PngFilter } });
+
+        expect((await pixelsOf(page)).equals(expected)).toBe(true);
+        expect(new Set(scanlineFilters(page.content as Buffer, page.height))).toEqual(new Set([type]));
+    }
+    const [adaptive] = await pdfToPng(samplePdf, { ...options, pngCompression: { filter: 'adaptive' } });
+    expect((await pixelsOf(adaptive)).equals(expected)).toBe(true);
+    expect(new Set(scanlineFilters(adaptive.content as Buffer, adaptive.height)).size).toBeGreaterThan(1);
+});
+
+test('compresses the reduced colour modes with the same settings', async () => {
+    const [gray] = await pdfToPng(samplePdf, { pagesToProcess: [1], colorMode: 'gray' });
+    const [grayUp] = await pdfToPng(samplePdf, { pagesToProcess: [1], colorMode: 'gray', pngCompression: { level: 9, filter: 'up' } });
+
+    expect((await pixelsOf(grayUp)).equals(await pixelsOf(gray))).toBe(true);
+    expect(new Set(scanlineFilters(grayUp.content as Buffer, grayUp.height))).toEqual(new Set([2]));
+});
+
+test('encodes the same images in worker threads and through openPdf', async () => {
+    await expectSameRenderOnEveryPath(samplePdf, { pngCompression: { level: 1, filter: 'paeth' } });
+});
+
+test('leaves the main thread free while a PNG is filtered and deflated', async () => {
+    const width = 2000;
+    const height = 2000;
+    const data = new Uint8ClampedArray(width * height * 4).map((_, index) => (index * 7) % 251);
+    const options: PngEncodeOptions = { bilevel: { threshold: 128, dither: false }, compression: { level: 9, filter: 'adaptive' } };
+    let turns = 0;
+    const ticker = setInterval(() => (turns += 1), 1);
+    try {
+        const encoded = await encodePng({ data, width, height }, 'rgba', options);
+
+        expect(encoded.equals(encodePngSync({ data, width, height }, 'rgba', options))).toBe(true);
+    } finally {
+        clearInterval(ticker);
+    }
+    expect(turns).toBeGreaterThan(0);
+});
@@ -0,0 +1,118 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { loadImage } from '@napi-rs/canvas';
+import { expect, test } from 'vitest';
+import { pdfToPng } from '../src';
+import type { PdfToPngOptions } from '../src';
+import { expectSameRenderOnEveryPath } from './testHelpers';
+
+const samplePdf = resolve('./test-data/sample.pdf');
+// Document information: Title "10 page PDF sample", Producer "Skia/PDF m130 Google Docs Renderer".
+const tenPagePdf = resolve('./test-data/10-page-sample.pdf');
+
+/** The chunks of a PNG, in order, as `[type, data]`. */
+function chunksOf(png: Buffer): [string, Buffer][] {
+    const chunks: [string, Buffer][] = [];
+    for (let offset = 8; offset < png.length;) {
+        const length = png.readUInt32BE(offset);
+        chunks.push([png.toString('latin1', offset + 4, offset + 8), png.subarray(offset + 8, offset + 8 + length)]);
+        offset += length + 12;
+    }
+    return chunks;
+}
+
+/** The resolution of a PNG's `pHYs` chunk in pixels per metre, `undefined` without one. */
+function pixelsPerMetre(png: Buffer): number | undefined {
+    const phys = chunksOf(png).find(([type]) => type === 'pHYs')?.[1];
+    return phys === undefined ? undefined : phys.readUInt32BE(0);
+}
+
+/** The text chunks of a PNG as `[type, keyword, value]`. */
+function textOf(png: Buffer): [string, string, string][] {
+    return chunksOf(png)
+        .filter(([type]) => type === 'tEXt' || type === 'iTXt')
+        .map(([type, data]) => {
+            const keywordEnd = data.indexOf(0);
+            const keyword = data.toString('latin1', 0, keywordEnd);
+            // iTXt: after the keyword, the compression flag and method, and the (empty) language tag and translated keyword.
+            return type === 'tEXt'
+                ? [type, keyword, data.toString('latin1', keywordEnd + 1)]
+                : [type, keyword, data.toString('utf8', keywordEnd + 5)];
+        });
+}
+
+test('records the render DPI in a pHYs chunk right after the header', async () => {
+    const pngMetadata = { resolution: true };
+    const [at72Dpi] = await pdfToPng(samplePdf, { pagesToProcess: [1], pngMetadata });
+    const [at300Dpi] = await pdfToPng(samplePdf, { pagesToProcess: [1], dpi: 300, pngMetadata });
+    const [fitted] = await pdfToPng(samplePdf, { pagesToProcess: [1], targetWidth: 306, pngMetadata });
+
+    // 72 DPI: 2835 pixels per metre (0x0b13) on both axes.
+    expect(chunksOf(at72Dpi.content as Buffer)[1]).toEqual(['pHYs', Buffer.from([0, 0, 0x0b, 0x13, 0, 0, 0x0b, 0x13, 1])]);
+    expect(chunksOf(at72Dpi.content as Buffer).filter(([type]) => type === 'pHYs')).toHaveLength(1);
+    expect(pixelsPerMetre(at300Dpi.content as Buffer)).toBe(11811);
+    expect(pixelsPerMetre(fitted.content as Buffer)).toBe(1417);
+    expect((await loadImage(at300Dpi.content as Buffer)).width).toBe(at300Dpi.width);
+});
+
+test('writes no metadata unless asked and adds no chunks to jpeg and webp', async () => {
+    const [byDefault] = await pdfToPng(samplePdf, { pagesToProcess: [1] });
+    const [textOnly] = await pdfToPng(samplePdf, { pagesToProcess: [1], pngMetadata: { provenance: true } });
+    const [jpeg] = await pdfToPng(samplePdf, { pagesToProcess: [1], outputFormat: 'jpeg' });
+
+    expect(chunksOf(byDefault.content as Buffer).filter(([type]) => ['pHYs', 'tEXt', 'iTXt'].includes(type))).toEqual([]);
+    expect(chunksOf(textOnly.content as Buffer).map(([type]) => type)).not.toContain('pHYs');
+    expect(jpeg.content?.subarray(0, 2)).toEqual(Buffer.from([0xff, 0xd8]));
+});
+
+test('records the provenance and custom text of every page', async () => {
+    const [, second] = await pdfToPng(tenPagePdf, {
+        pagesToProcess: [1, 2],
+        pngMetadata: { provenance: true, text: { Author: 'Ada Lovelace', Description: 'Zoë’s scan' } },
+    });
+    const [fromBuffer] = await pdfToPng(readFileSync(samplePdf), { pagesToProcess: [1], pngMetadata: { provenance: true } });
+
+    expect(textOf(second.content as Buffer)).toEqual([
+        ['tEXt', 'Source', '10-page-sample.pdf'],
+        ['tEXt', 'Title', '10 page PDF sample'],
+        ['tEXt', 'Producer', 'Skia/PDF m130 Google Docs Renderer'],
+        ['tEXt', 'Page', '2'],
+        ['tEXt', 'Author', 'Ada Lovelace'],
+        ['iTXt', 'Description', 'Zoë’s scan'],
+    ]);
+    expect(textOf(fromBuffer.content as Buffer)).toEqual([
+        ['tEXt', 'Producer', 'Nevrona Designs'],
+        ['tEXt', 'Page', '1'],
+    ]);
+});
+
+test('writes the same bytes to disk as it returns, tiles included', async () => {
+    const outputFolder = mkdtempSync(join(tmpdir(), 'png-metadata-'));
+    try {
+        const options: PdfToPngOptions = { pagesToProcess: [1], outputFolder, pngMetadata: { resolution: true, provenance: true } };
+        const [page] = await pdfToPng(samplePdf, options);
+        const [tiled] = await pdfToPng(samplePdf, { ...options, tileSize: 400, outputFileMaskFunc: () => 'tiled.png' });
+
+        expect(readFileSync(page.path).equals(page.content as Buffer)).toBe(true);
+        expect(tiled.kind).toBe('tiles');
+        for (const tile of tiled.kind === 'tiles' ? tiled.tiles : []) {
+            expect(readFileSync(tile.path).equals(tile.content as Buffer)).toBe(true);
+            expect(pixelsPerMetre(tile.content as Buffer)).toBe(2835);
+            expect(textOf(tile.content as Buffer)).toContainEqual(['tEXt', 'Page', '1']);
+        }
+    } finally {
+        rmSync(outputFolder, { recursive: true, force: true });
+    }
+});
+
+test('writes the same chunks in worker threads and through openPdf', async () => {
+    const { mainThread } = await expectSameRenderOnEveryPath(
+        samplePdf,
+        { viewportScale: 2, pngMetadata: { resolution: true, provenance: true, text: { Author: 'Ada' } } },
+        2,
+    );
+
+    expect(textOf(mainThread.content as Buffer)).toContainEqual(['tEXt', 'Source', 'sample.pdf']);
+    expect(pixelsPerMetre(mainThread.content as Buffer)).toBe(5669);
+});
@@ -0,0 +1,83 @@
+import { promises as fsPromises } from 'node:fs';
+import { resolve } from 'node:path';
+import { expect, test } from 'vitest';
+import type { PdfToPngProgress } from '../src';
+import { pdfToPng, pdfToPngIterator } from '../src';
+
+const tenPagePdf = resolve('./test-data/10-page-sample.pdf');
+
+function stagesOf(events: PdfToPngProgress[], pageNumber: number): string[] {
+    return events.filter((event) => event.pageNumber === pageNumber).map((event) => event.stage);
+}
+
+test.each([
+    ['sequential', {}],
+    ['parallel', { processPagesInParallel: true, concurrencyLimit: 3 }],
+])('reports rendered and encoded for every selected page, counting up to the total (%s)', async (_mode, options) => {
+    const events: PdfToPngProgress[] = [];
+
+    await pdfToPng(tenPagePdf, { ...options, pagesToProcess: [2, 4, 6, 8, 99], onProgress: (event) => events.push(event) });
+
+    expect(events).toHaveLength(8);
+    for (const pageNumber of [2, 4, 6, 8]) {
+        expect(stagesOf(events, pageNumber)).toEqual(['rendered', 'encoded']);
+    }
+    expect(events.every((event) => event.total === 4)).toBe(true);
+    expect(events.filter((event) => event.stage === 'encoded').map((event) => event.completed)).toEqual([1, 2, 3, 4]);
+    expect(events.at(-1)?.completed).toBe(4);
+    for (let index = 1; index < events.length; index += 1) {
+        expect(events[index].elapsedMs).toBeGreaterThanOrEqual(events[index - 1].elapsedMs);
+    }
+});
+
+test('reports written after encoded in file mode, where a page completes once it is on disk', async () => {
+    const outputFolder = resolve('./test-results/pdf.to.png.progress');
+    await fsPromises.rm(outputFolder, { recursive: true, force: true });
+    const events: PdfToPngProgress[] = [];
+
+    await pdfToPng(tenPagePdf, { outputFolder, pagesToProcess: [1, 2], onProgress: (event) => events.push(event) });
+
+    expect(stagesOf(events, 1)).toEqual(['rendered', 'encoded', 'written']);
+    expect(stagesOf(events, 2)).toEqual(['rendered', 'encoded', 'written']);
+    expect(events.filter((event) => event.stage === 'written').map((event) => event.completed)).toEqual([1, 2]);
+    expect(events.filter((event) => event.stage !== 'written').every((event) => event.completed < 2)).toBe(true);
+});
+
+test('completes a page at rendered when its encoded bytes are not needed', async () => {
+    const events: PdfToPngProgress[] = [];
+
+    await pdfToPng(tenPagePdf, { pagesToProcess: [1, 2, 3], returnPageContent: false, onProgress: (event) => events.push(event) });
+
+    expect(events.map((event) => [event.stage, event.completed])).toEqual([
+        ['rendered', 1],
+        ['rendered', 2],
+        ['rendered', 3],
+    ]);
+});
+
+test('reports nothing for metadata-only conversions', async () => {
+    const events: PdfToPngProgress[] = [];
+
+    await pdfToPng(tenPagePdf, { returnMetadataOnly: true, onProgress: (event) => events.push(event) });
+
+    expect(events).toEqual([]);
+});
+
+test('reports progress from pdfToPngIterator as pages are produced', async () => {
+    const events: PdfToPngProgress[] = [];
+
+    for await (const page of pdfToPngIterator(tenPagePdf, { pagesToProcess: [1, 2], onProgress: (event) => events.push(event) })) {
+        expect(events.some((event) => event.pageNumber === page.pageNumber && event.stage === 'encoded')).toBe(true);
+    }
+    expect(events.at(-1)).toMatchObject({ completed: 2, total: 2 });
+});
+
+test('an exception thrown by onProgress fails the conversion', async () => {
+    const onProgress = (event: PdfToPngProgress): void => {
+        if (event.pageNumber === 2) {
+            throw new Error('progress bar exploded');
+        }
+    };
+
+    await expect(pdfToPng(tenPagePdf, { pagesToProcess: [1, 2, 3], onProgress })).rejects.toThrow('progress bar exploded');
+});
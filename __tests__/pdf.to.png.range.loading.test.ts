@@ -0,0 +1,66 @@
+import { readFileSync, statSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { afterEach, expect, test, vi } from 'vitest';
+import { openPdf, pdfToPng } from '../src';
+import { PdfRangeReader } from '../src/pdfRangeReader';
+
+// 23 pages, 674 629 bytes.
+const largePdf = resolve('./test-data/TAMReview.pdf');
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+/** Counts the bytes pdf.js asks `PdfRangeReader` for. */
+function countRangeReads(): { bytes: number } {
+    const requested = { bytes: 0 };
+    const read = PdfRangeReader.prototype.read;
+    vi.spyOn(PdfRangeReader.prototype, 'read').mockImplementation(function (this: PdfRangeReader, begin: number, end: number) {
+        requested.bytes += end - begin;
+        return read.call(this, begin, end);
+    });
+    return requested;
+}
+
+test('renders a page as the whole-file load does, reading only part of the file', async () => {
+    const [loaded] = await pdfToPng(largePdf, { pagesToProcess: [23] });
+    const requested = countRangeReads();
+    const [ranged] = await pdfToPng(largePdf, { pagesToProcess: [23], rangeLoading: true });
+
+    expect(ranged.content?.equals(loaded.content as Buffer)).toBe(true);
+    expect(ranged.name).toBe('TAMReview_page_23.png');
+    expect(requested.bytes).toBeGreaterThan(0);
+    expect(requested.bytes).toBeLessThan(statSync(largePdf).size);
+});
+
+test('applies maxInputBytes to each read rather than to the file', async () => {
+    await expect(pdfToPng(largePdf, { returnMetadataOnly: true, maxInputBytes: 200_000 })).rejects.toThrow(/exceeds maxInputBytes/);
+    await expect(pdfToPng(largePdf, { returnMetadataOnly: true, maxInputBytes: 200_000, rangeLoading: true })).resolves.toHaveLength(23);
+
+    // Loading reads single 64 KiB chunks; rendering page 1 asks for two at once.
+    await expect(pdfToPng(largePdf, { returnMetadataOnly: true, maxInputBytes: 1000, rangeLoading: true })).rejects.toThrow(
+        'Input PDF range read exceeds maxInputBytes (65536 > 1000 bytes)',
+    );
+    await expect(pdfToPng(largePdf, { pagesToProcess: [1], maxInputBytes: 65536, rangeLoading: true })).rejects.toThrow(
+        'Input PDF range read exceeds maxInputBytes (131072 > 65536 bytes)',
+    );
+});
+
+test('serves openPdf handles from the file until they are closed', async () => {
+    const close = vi.spyOn(PdfRangeReader.prototype, 'close');
+    const handle = await openPdf(largePdf, { rangeLoading: true });
+    try {
+        const page = await handle.renderPage(2, { viewportScale: 0.25 });
+
+        expect(handle.numPages).toBe(23);
+        expect(page.width).toBe(148);
+        expect(close).not.toHaveBeenCalled();
+    } finally {
+        await handle.close();
+    }
+    expect(close).toHaveBeenCalled();
+});
+
+test('requires a file path input', async () => {
+    await expect(pdfToPng(readFileSync(largePdf), { rangeLoading: true })).rejects.toThrow('rangeLoading requires a file path input');
+});
@@ -0,0 +1,90 @@
+import { resolve } from 'node:path';
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import { expect, test } from 'vitest';
+import { pdfToPng, pdfToPngIterator } from '../src';
+import type { PdfToPngOptions, PdfToPngProgressStage, PngPageOutput } from '../src';
+
+const samplePdf = resolve('./test-data/sample.pdf');
+
+/** The decoded RGBA pixels of an encoded page, as a `Buffer` so that comparing is a byte comparison. */
+async function decodedPixelsOf(page: PngPageOutput): Promise<Buffer> {
+    const canvas = createCanvas(page.width, page.height);
+    const context = canvas.getContext('2d');
+    context.drawImage(await loadImage(page.content as Buffer), 0, 0);
+    return Buffer.from(context.getImageData(0, 0, page.width, page.height).data.buffer);
+}
+
+/** The first `channels` bytes of each four-byte RGBA pixel. */
+function keepChannels(rgba: Buffer, channels: number): Buffer {
+    const kept = Buffer.alloc((rgba.length / 4) * channels);
+    for (let pixel = 0; pixel < rgba.length / 4; pixel += 1) {
+        rgba.copy(kept, pixel * channels, pixel * 4, pixel * 4 + channels);
+    }
+    return kept;
+}
+
+test('returns the pixels of the PNG it would have encoded, unencoded', async () => {
+    const [encoded] = await pdfToPng(samplePdf, { pagesToProcess: [1], background: 'transparent' });
+    const [page] = await pdfToPng(samplePdf, { pagesToProcess: [1], background: 'transparent', returnRawPixels: true });
+
+    expect(page).toMatchObject({
+        kind: 'pixels',
+        width: 612,
+        height: 792,
+        bitDepth: 8,
+        colorType: 'rgba',
+        stride: 612 * 4,
+        content: undefined,
+        path: '',
+    });
+    expect(page.kind === 'pixels' && page.pixels.equals(await decodedPixelsOf(encoded))).toBe(true);
+});
+
+test('lays the pixels out by colour mode', async () => {
+    for (const [colorMode, channels] of [
+        ['rgb', 3],
+        ['gray', 1],
+    ] as const) {
+        const [encoded] = await pdfToPng(samplePdf, { pagesToProcess: [1], colorMode });
+        const [page] = await pdfToPng(samplePdf, { pagesToProcess: [1], colorMode, returnRawPixels: true });
+
+        expect(page).toMatchObject({ kind: 'pixels', colorType: colorMode, stride: 612 * channels });
+        expect(page.kind === 'pixels' && page.pixels.equals(keepChannels(await decodedPixelsOf(encoded), channels))).toBe(true);
+    }
+});
+
+test('packs bilevel pixels eight to a byte, white as 1', async () => {
+    const [encoded] = await pdfToPng(samplePdf, { pagesToProcess: [1], colorMode: 'bilevel', dither: true });
+    const [page] = await pdfToPng(samplePdf, { pagesToProcess: [1], colorMode: 'bilevel', dither: true, returnRawPixels: true });
+    const gray = keepChannels(await decodedPixelsOf(encoded), 1);
+    const packed = Buffer.alloc(77 * 792);
+    for (let y = 0; y < 792; y += 1) {
+        for (let x = 0; x < 612; x += 1) {
+            packed[y * 77 + (x >> 3)] |= (gray[y * 612 + x] >> 7) << (7 - (x & 7));
+        }
+    }
+
+    expect(page).toMatchObject({ kind: 'pixels', bitDepth: 1, colorType: 'gray', stride: 77 });
+    expect(page.kind === 'pixels' && page.pixels.equals(packed)).toBe(true);
+});
+
+test('reports only the render stage, with nothing to encode', async () => {
+    const stages: PdfToPngProgressStage[] = [];
+    await pdfToPng(samplePdf, { returnRawPixels: true, onProgress: ({ stage }) => stages.push(stage) });
+
+    expect(stages).toEqual(['rendered', 'rendered']);
+});
+
+test('returns the same pixels from worker threads, in a buffer of their own, and from the iterator', async () => {
+    const options: PdfToPngOptions = { pagesToProcess: [2], colorMode: 'rgb', returnRawPixels: true };
+    const [mainThread] = await pdfToPng(samplePdf, options);
+    const [worker] = await pdfToPng(samplePdf, { ...options, renderInWorkerThreads: true });
+    const streamed: PngPageOutput[] = [];
+    for await (const page of pdfToPngIterator(samplePdf, options)) {
+        streamed.push(page);
+    }
+
+    expect(worker).toEqual(mainThread);
+    expect(streamed).toEqual([mainThread]);
+    expect(worker.kind === 'pixels' && worker.pixels.buffer.byteLength).toBe(612 * 792 * 3);
+});
@@ -0,0 +1,48 @@
+import { resolve } from 'node:path';
+import { expect, test } from 'vitest';
+import { pdfToPng } from '../src';
+import type { PngPageOutput } from '../src';
+import { decodeImage, expectSameRenderOnEveryPath } from './testHelpers';
+
+// A 200×100 pt page with three annotations — red printed and shown, blue shown only, green printed
+// only — and a black "Watermark" layer whose usage hides it on screen and shows it in print.
+const printIntentPdf = resolve('./test-data/print-intent.pdf');
+
+const RED = [255, 0, 0, 255];
+const BLUE = [0, 0, 255, 255];
+const GREEN = [0, 255, 0, 255];
+const BLACK = [0, 0, 0, 255];
+const WHITE = [255, 255, 255, 255];
+
+async function colours(page: PngPageOutput): Promise<number[][]> {
+    const context = await decodeImage(page.content as Buffer, page.width, page.height);
+    return [30, 80, 130, 175].map((x) => [...context.getImageData(x, 50, 1, 1).data]);
+}
+
+test('renders for display by default', async () => {
+    const [byDefault] = await pdfToPng(printIntentPdf);
+    const [display] = await pdfToPng(printIntentPdf, { renderIntent: 'display' });
+
+    expect(await colours(byDefault)).toEqual([RED, BLUE, WHITE, WHITE]);
+    expect(byDefault.content?.equals(display.content as Buffer)).toBe(true);
+});
+
+test('renders print-only annotations and layers, and drops screen-only annotations, for print', async () => {
+    const [page] = await pdfToPng(printIntentPdf, { renderIntent: 'print' });
+
+    expect(await colours(page)).toEqual([RED, WHITE, GREEN, BLACK]);
+});
+
+test('switches layers in the print configuration', async () => {
+    const [page] = await pdfToPng(printIntentPdf, { renderIntent: 'print', optionalContent: { Watermark: 'hidden' } });
+
+    expect(await colours(page)).toEqual([RED, WHITE, GREEN, WHITE]);
+});
+
+test('reports the same dimensions in metadata mode and renders the same pages in workers and through openPdf', async () => {
+    const [display] = await pdfToPng(printIntentPdf, { returnMetadataOnly: true });
+    const [print] = await pdfToPng(printIntentPdf, { returnMetadataOnly: true, renderIntent: 'print' });
+
+    expect(print).toEqual(display);
+    await expectSameRenderOnEveryPath(printIntentPdf, { renderIntent: 'print' });
+});
@@ -40,6 +40,11 @@ test('should start the next page as soon as a parallel slot frees up', async ()
             width: 100,
             height: 100,
             rotation: 0,
+            viewportScale: 1,
+            renderedRect: [0, 0, 612, 792],
+            format: 'png',
+            bitDepth: 8,
+            colorType: 'rgba',
         };
     });
 
@@ -102,6 +107,11 @@ test('sequential mode pipelines with a window of 3 while preserving output order
             width: 100,
             height: 100,
             rotation: 0,
+            viewportScale: 1,
+            renderedRect: [0, 0, 612, 792],
+            format: 'png',
+            bitDepth: 8,
+            colorType: 'rgba',
         };
     });
 
@@ -159,6 +169,11 @@ test('sequential mode: a failure stops new pages after the in-flight ones and th
             width: 100,
             height: 100,
             rotation: 0,
+            viewportScale: 1,
+            renderedRect: [0, 0, 612, 792],
+            format: 'png',
+            bitDepth: 8,
+            colorType: 'rgba',
         };
     });
 
@@ -0,0 +1,111 @@
+import { existsSync, rmSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import { expect, test } from 'vitest';
+import { pdfToPng } from '../src';
+import type { PdfToPngProgress, PngPageOutput } from '../src';
+import { pixelsOf } from './testHelpers';
+
+const samplePdf = resolve('./test-data/sample.pdf');
+
+function assertTiled(page: PngPageOutput): asserts page is Extract<PngPageOutput, { kind: 'tiles' }> {
+    expect(page.kind).toBe('tiles');
+}
+
+test('splits a page into a row-major grid of tiles cut to the page edges', async () => {
+    const [page] = await pdfToPng(samplePdf, { pagesToProcess: [1], tileSize: 256 });
+    assertTiled(page);
+
+    expect({ width: page.width, height: page.height, rows: page.rows, columns: page.columns }).toEqual({
+        width: 612,
+        height: 792,
+        rows: 4,
+        columns: 3,
+    });
+    expect(page.tiles).toHaveLength(12);
+    expect(page.tiles.slice(0, 3).map(({ row, column, x, y, width, height }) => ({ row, column, x, y, width, height }))).toEqual([
+        { row: 0, column: 0, x: 0, y: 0, width: 256, height: 256 },
+        { row: 0, column: 1, x: 256, y: 0, width: 256, height: 256 },
+        { row: 0, column: 2, x: 512, y: 0, width: 100, height: 256 },
+    ]);
+    expect(page.tiles[11]).toMatchObject({ row: 3, column: 2, x: 512, y: 768, width: 100, height: 24 });
+    expect(page.tiles[4].name).toBe('sample_page_1_r1_c1.png');
+    expect(page.tiles.every((tile) => tile.path === '' && Buffer.isBuffer(tile.content))).toBe(true);
+});
+
+// Glyph anti-aliasing can round a few edge pixels differently under the tile offset, so the
+// comparison allows a handful of slightly different channel values.
+test('the tiles put together match the page rendered whole', async () => {
+    const [whole] = await pdfToPng(samplePdf, { pagesToProcess: [1] });
+    const [tiled] = await pdfToPng(samplePdf, { pagesToProcess: [1], tileSize: 300 });
+    assertTiled(tiled);
+
+    const stitched = createCanvas(tiled.width, tiled.height);
+    const context = stitched.getContext('2d');
+    for (const tile of tiled.tiles) {
+        context.drawImage(await loadImage(tile.content as Buffer), tile.x, tile.y);
+    }
+
+    const expected = await pixelsOf(whole);
+    const actual = context.getImageData(0, 0, tiled.width, tiled.height).data;
+    const deltas = actual.map((value, index) => Math.abs(value - expected[index])).filter((delta) => delta > 0);
+    expect(deltas.length).toBeLessThan(expected.length / 10_000);
+    expect(Math.max(0, ...deltas)).toBeLessThanOrEqual(16);
+});
+
+test('writes each tile to the output folder and reports the page written once', async () => {
+    const outputFolder = resolve('./test-results/pdf.to.png.tiles');
+    rmSync(outputFolder, { recursive: true, force: true });
+    const events: PdfToPngProgress[] = [];
+
+    const [page] = await pdfToPng(samplePdf, {
+        pagesToProcess: [2],
+        outputFolder,
+        outputFormat: 'jpeg',
+        tileSize: 400,
+        returnPageContent: false,
+        onProgress: (progress) => events.push(progress),
+    });
+    assertTiled(page);
+
+    expect(page.format).toBe('jpeg');
+    expect(page.tiles.map((tile) => tile.name)).toEqual([
+        'sample_page_2_r0_c0.jpg',
+        'sample_page_2_r0_c1.jpg',
+        'sample_page_2_r1_c0.jpg',
+        'sample_page_2_r1_c1.jpg',
+    ]);
+    for (const tile of page.tiles) {
+        expect(tile.path).toBe(resolve(outputFolder, tile.name));
+        expect(tile.content).toBeUndefined();
+        expect(existsSync(tile.path)).toBe(true);
+    }
+    expect(events.map(({ stage, completed }) => [stage, completed])).toEqual([
+        ['rendered', 0],
+        ['encoded', 0],
+        ['written', 1],
+    ]);
+});
+
+test('metadata mode skips the whole-page canvas limit for tiled pages', async () => {
+    const options = { pagesToProcess: [1], viewportScale: 15, returnMetadataOnly: true };
+
+    await expect(pdfToPng(samplePdf, options)).rejects.toThrow('exceeds the 100,000,000 pixel limit');
+    const [page] = await pdfToPng(samplePdf, { ...options, tileSize: 4096 });
+    expect(page).toMatchObject({ kind: 'metadata', width: 9180, height: 11880 });
+});
+
+test('rejects pages whose tiles would share a filename before writing anything', async () => {
+    const outputFolder = resolve('./test-results/pdf.to.png.tiles.duplicate');
+    rmSync(outputFolder, { recursive: true, force: true });
+
+    await expect(
+        pdfToPng(samplePdf, {
+            pagesToProcess: [1, 2],
+            outputFolder,
+            tileSize: 512,
+            outputFileMaskFunc: (pageNumber) => (pageNumber === 1 ? 'drawing.png' : 'drawing'),
+        }),
+    ).rejects.toThrow('Duplicate output filename "drawing_r0_c0.png" for pages 1, 2.');
+    expect(existsSync(outputFolder)).toBe(false);
+});
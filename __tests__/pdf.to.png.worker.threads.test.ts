@@ -1,15 +1,19 @@
 import { execSync } from 'node:child_process';
 import { promises as fsPromises } from 'node:fs';
 import { join, resolve } from 'node:path';
+import { isMainThread } from 'node:worker_threads';
 import { beforeAll, expect, test } from 'vitest';
+import type { PdfToPngOptions } from '../src';
+import { PdfRenderPool } from '../src/pdfRenderPool';
 import { pdfToPng } from '../src/pdfToPng';
+import { pdfToPngIterator } from '../src/pdfToPngIterator';
 
 /**
  * Integration tests for renderInWorkerThreads mode with REAL worker threads.
  *
  * Workers can only execute compiled JavaScript, so the pool loads `out/pageRenderWorker.js`
  * even when the main-thread code under test runs from `src/` (see resolveWorkerEntryPath in
- * src/workerPool.ts). Build `out/` first so the worker artifact matches the current sources —
+ * src/pdfRenderPool.ts). Build `out/` first so the worker artifact matches the current sources —
  * `tsc` directly, NOT `npm run build`, whose clean step would delete `test-results/` while
  * other vitest workers are writing into it.
  */
@@ -25,6 +29,7 @@ beforeAll(() => {
 }, 120_000);
 
 const samplePdf = resolve('./test-data/sample.pdf');
+const tenPagePdf = resolve('./test-data/10-page-sample.pdf');
 const largePdf = resolve('./test-data/large_pdf.pdf');
 const protectedPdf = resolve('./test-data/large_pdf-protected.pdf');
 
@@ -158,3 +163,124 @@ test('worker mode is ignored for metadata-only conversions', async () => {
         expect(page.width).toBeGreaterThan(0);
     }
 });
+
+test('worker mode encodes the requested outputFormat byte-identically to main-thread mode', async () => {
+    const options: PdfToPngOptions = { pagesToProcess: [1], outputFormat: 'jpeg', jpegQuality: 70 };
+    const [mainThread] = await pdfToPng(samplePdf, options);
+    const [worker] = await pdfToPng(samplePdf, { ...options, renderInWorkerThreads: true });
+
+    expect(worker.kind).toBe('content');
+    if (worker.kind === 'content' && mainThread.kind === 'content') {
+        expect(worker.format).toBe('jpeg');
+        expect(worker.name).toBe('sample_page_1.jpg');
+        expect(Buffer.compare(worker.content as Buffer, mainThread.content as Buffer)).toBe(0);
+    }
+});
+
+test('pdfToPngIterator streams worker-rendered pages in page order and stops the pool on early break', async () => {
+    const expected = await pdfToPng(samplePdf, { pagesToProcess: [1, 2] });
+
+    const streamed = [];
+    for await (const page of pdfToPngIterator(samplePdf, { pagesToProcess: [1, 2], renderInWorkerThreads: true, concurrencyLimit: 2 })) {
+        streamed.push(page);
+    }
+    expect(streamed.map((page) => page.pageNumber)).toEqual([1, 2]);
+    for (const [index, page] of streamed.entries()) {
+        expect(Buffer.compare(page.content as Buffer, expected[index].content as Buffer)).toBe(0);
+    }
+
+    for await (const page of pdfToPngIterator(samplePdf, { renderInWorkerThreads: true, concurrencyLimit: 1 })) {
+        expect(page.pageNumber).toBe(1);
+        break;
+    }
+});
+
+test('worker mode rejects with an AbortError and tears the pool down when the signal aborts', async () => {
+    const controller = new AbortController();
+    const seen: number[] = [];
+    const iterate = async (): Promise<void> => {
+        for await (const page of pdfToPngIterator(tenPagePdf, {
+            renderInWorkerThreads: true,
+            concurrencyLimit: 2,
+            signal: controller.signal,
+        })) {
+            seen.push(page.pageNumber);
+            controller.abort();
+        }
+    };
+
+    await expect(iterate()).rejects.toMatchObject({ name: 'AbortError' });
+    expect(seen).toEqual([1]);
+
+    const aborted = AbortSignal.abort();
+    await expect(pdfToPng(tenPagePdf, { renderInWorkerThreads: true, signal: aborted })).rejects.toMatchObject({ name: 'AbortError' });
+});
+
+test('worker mode reports every page stage on the main thread', async () => {
+    const outputFolder = resolve('./test-results/pdf.to.png.worker.threads/progress');
+    await fsPromises.rm(outputFolder, { recursive: true, force: true });
+    const events: Array<{ pageNumber: number; stage: string; completed: number; onMainThread: boolean }> = [];
+
+    await pdfToPng(samplePdf, {
+        outputFolder,
+        renderInWorkerThreads: true,
+        concurrencyLimit: 2,
+        onProgress: ({ pageNumber, stage, completed }) => events.push({ pageNumber, stage, completed, onMainThread: isMainThread }),
+    });
+
+    expect(events.every((event) => event.onMainThread)).toBe(true);
+    for (const pageNumber of [1, 2]) {
+        expect(events.filter((event) => event.pageNumber === pageNumber).map((event) => event.stage)).toEqual([
+            'rendered',
+            'encoded',
+            'written',
+        ]);
+    }
+    expect(events.filter((event) => event.stage === 'written').map((event) => event.completed)).toEqual([1, 2]);
+});
+
+test('a shared PdfRenderPool serves concurrent and sequential conversions byte-identically', async () => {
+    const expectedSample = await pdfToPng(samplePdf);
+    const expectedTenPage = await pdfToPng(tenPagePdf, { pagesToProcess: [1, 5, 10] });
+
+    const pool = new PdfRenderPool({ size: 2, maxCachedDocuments: 2 });
+    try {
+        // Concurrent conversions share the pool's workers.
+        const [sample, tenPage] = await Promise.all([
+            pdfToPng(samplePdf, { renderPool: pool }),
+            pdfToPng(tenPagePdf, { renderPool: pool, pagesToProcess: [1, 5, 10], concurrencyLimit: 1 }),
+        ]);
+        // Sequential conversions reuse the already-started workers.
+        const streamed = [];
+        for await (const page of pdfToPngIterator(samplePdf, { renderPool: pool })) {
+            streamed.push(page);
+        }
+
+        for (const [actual, expected] of [
+            [sample, expectedSample],
+            [tenPage, expectedTenPage],
+            [streamed, expectedSample],
+        ]) {
+            expect(actual.map((page) => page.pageNumber)).toEqual(expected.map((page) => page.pageNumber));
+            for (const [index, page] of actual.entries()) {
+                expect(Buffer.compare(page.content as Buffer, expected[index].content as Buffer)).toBe(0);
+            }
+        }
+    } finally {
+        await pool.destroy();
+    }
+    await expect(pdfToPng(samplePdf, { renderPool: pool })).rejects.toThrow('The PDF render pool has been destroyed.');
+});
+
+test('worker mode fits pages to a box per page, byte-identically to main-thread mode', async () => {
+    const rotatedPdf = resolve('./test-data/rotated-pages.pdf');
+    const mainThread = await pdfToPng(rotatedPdf, { maxDimension: 150 });
+    const workers = await pdfToPng(rotatedPdf, { maxDimension: 150, renderInWorkerThreads: true, concurrencyLimit: 2 });
+
+    expect(workers.map(({ width, height, viewportScale }) => ({ width, height, viewportScale }))).toEqual(
+        mainThread.map(({ width, height, viewportScale }) => ({ width, height, viewportScale })),
+    );
+    for (const [index, page] of workers.entries()) {
+        expect(Buffer.compare(page.content as Buffer, mainThread[index].content as Buffer)).toBe(0);
+    }
+});
@@ -0,0 +1,203 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { clearInterval, setInterval } from 'node:timers';
+import UTIF from 'utif';
+import { afterEach, beforeEach, expect, test } from 'vitest';
+import { pdfToPng, pdfToTiff } from '../src';
+import type { PdfToPngOptions } from '../src';
+import { compressTiffStrip, compressTiffStripSync } from '../src/tiffEncoder';
+
+const samplePdf = resolve('./test-data/sample.pdf');
+const tenPagePdf = resolve('./test-data/10-page-sample.pdf');
+
+/** One page of a TIFF as UTIF decodes it: its tags by number, its strip decompressed, and as RGBA. */
+interface TiffImage {
+    tags: Map<number, unknown>;
+    pixels: Buffer;
+    rgba: Buffer;
+}
+
+/** Reads every image of a TIFF with UTIF, a decoder independent of the one under test. */
+function readTiff(file: Buffer): TiffImage[] {
+    return UTIF.decode(file).map((ifd) => {
+        UTIF.decodeImage(file, ifd);
+        const tags = new Map(
+            Object.entries(ifd)
+                .filter(([key]) => /^t\d+$/.test(key))
+                .map(([key, value]) => [Number(key.slice(1)), value]),
+        );
+        return { tags, pixels: Buffer.from(ifd.data), rgba: Buffer.from(UTIF.toRGBA8(ifd)) };
+    });
+}
+
+/** Reads codes of a given width, most significant bit first. */
+function bitReader(data: Buffer): { read: (bits: number) => number } {
+    let position = 0;
+    return {
+        read: (bits) => {
+            let value = 0;
+            for (let index = 0; index < bits; index += 1) {
+                value = (value << 1) | ((data[position >> 3] >> (7 - (position & 7))) & 1);
+                position += 1;
+            }
+            return value;
+        },
+    };
+}
+
+let outputFolder: string;
+
+beforeEach(() => {
+    outputFolder = mkdtempSync(join(tmpdir(), 'pdf-to-tiff-'));
+});
+
+afterEach(() => {
+    rmSync(outputFolder, { recursive: true, force: true });
+});
+
+/** The raw pixels `pdfToPng` returns for the same pages. */
+async function rawPixelsOf(pdfFile: string, options: PdfToPngOptions): Promise<Buffer[]> {
+    const pages = await pdfToPng(pdfFile, { ...options, returnRawPixels: true });
+    return pages.map((page) => (page.kind === 'pixels' ? page.pixels : Buffer.alloc(0)));
+}
+
+test('writes the selected pages into one file, in order, one image each', async () => {
+    const output = await pdfToTiff(tenPagePdf, { outputFolder, pagesToProcess: [3, 1, 2], colorMode: 'gray', dpi: 150 });
+    const images = readTiff(readFileSync(output.path));
+
+    expect(output.path).toBe(join(outputFolder, '10-page-sample.tiff'));
+    expect(output.compression).toBe('lzw');
+    expect(output.pages.map(({ pageNumber }) => pageNumber)).toEqual([3, 1, 2]);
+    expect(output.pages[0]).toMatchObject({ width: 1275, height: 1650, bitDepth: 8, colorType: 'gray', viewportScale: 150 / 72 });
+    expect(images).toHaveLength(3);
+    expect(Object.fromEntries(images[0].tags)).toMatchObject({
+        254: [2],
+        256: [1275],
+        257: [1650],
+        258: [8],
+        259: [5],
+        262: [1],
+        277: [1],
+        278: [1650],
+        282: [150],
+        283: [150],
+        284: [1],
+        296: [2],
+    });
+    const expected = await rawPixelsOf(tenPagePdf, { pagesToProcess: [3, 1, 2], colorMode: 'gray', dpi: 150 });
+    images.forEach((image, index) => expect(image.pixels.equals(expected[index])).toBe(true));
+});
+
+test('compresses every page losslessly with each method', async () => {
+    const [rgb] = await rawPixelsOf(samplePdf, { pagesToProcess: [1], colorMode: 'rgb' });
+    for (const tiffCompression of ['none', 'lzw', 'deflate'] as const) {
+        const output = await pdfToTiff(samplePdf, {
+            outputFolder,
+            outputFileName: `${tiffCompression}.tif`,
+            pagesToProcess: [1],
+            colorMode: 'rgb',
+            tiffCompression,
+        });
+        const [image] = readTiff(readFileSync(output.path));
+
+        expect(image.tags.get(258)).toEqual([8, 8, 8]);
+        expect(image.tags.get(262)).toEqual([2]);
+        expect(image.pixels.equals(rgb)).toBe(true);
+    }
+
+    const [rgba] = await rawPixelsOf(samplePdf, { pagesToProcess: [2], background: 'transparent' });
+    const output = await pdfToTiff(samplePdf, { outputFolder, pagesToProcess: [2], background: 'transparent' });
+    const [image] = readTiff(readFileSync(output.path));
+
+    expect(image.tags.get(338)).toEqual([2]);
+    expect(image.pixels.equals(rgba)).toBe(true);
+});
+
+test('codes bilevel pages as Group 4 fax by default', async () => {
+    const options: PdfToPngOptions = { colorMode: 'bilevel', dither: true };
+    const expected = await rawPixelsOf(samplePdf, options);
+    const output = await pdfToTiff(samplePdf, { outputFolder, ...options });
+    const images = readTiff(readFileSync(output.path));
+    const uncompressed = await pdfToTiff(samplePdf, { outputFolder, outputFileName: 'none.tiff', ...options, tiffCompression: 'none' });
+    const uncompressedImages = readTiff(readFileSync(uncompressed.path));
+
+    expect(output.compression).toBe('g4');
+    expect(Object.fromEntries(images[0].tags)).toMatchObject({ 258: [1], 259: [4], 262: [0], 293: [0] });
+    // Uncompressed bilevel pages keep the raw pixels' 1 for white.
+    expect(uncompressedImages[0].tags.get(262)).toEqual([1]);
+    uncompressedImages.forEach((image, index) => expect(image.pixels.equals(expected[index])).toBe(true));
+    // Group 4 pages are WhiteIsZero, so they are compared by what they show.
+    expect(images).toHaveLength(uncompressedImages.length);
+    images.forEach((image, index) => expect(image.rgba.equals(uncompressedImages[index].rgba)).toBe(true));
+});
+
+test('codes a blank row and the TIFF 6.0 LZW example as specified', async () => {
+    const page = { height: 1, bitDepth: 1, colorType: 'gray', viewportScale: 1 } as const;
+    // Vertical mode V0 for the whole row, then the end of facsimile block.
+    expect(await compressTiffStrip({ ...page, width: 8, pixels: Buffer.from([0xff]), stride: 1 }, 'g4')).toEqual(
+        Buffer.from([0x80, 0x08, 0x00, 0x80]),
+    );
+
+    const lzw = bitReader(
+        await compressTiffStrip({ ...page, width: 9, bitDepth: 8, pixels: Buffer.from([7, 7, 7, 8, 8, 7, 7, 6, 6]), stride: 9 }, 'lzw'),
+    );
+    expect(Array.from({ length: 9 }, () => lzw.read(9))).toEqual([256, 7, 258, 8, 8, 258, 6, 6, 257]);
+});
+
+test('leaves the main thread free while an LZW or Group 4 strip is coded', async () => {
+    const width = 2000;
+    const height = 2000;
+    const pixels = Buffer.from(new Uint8Array((width / 8) * height).map((_, index) => (index * 7) % 251));
+    const image = { width, height, bitDepth: 1, colorType: 'gray', pixels, stride: width / 8, viewportScale: 1 } as const;
+    for (const compression of ['lzw', 'g4'] as const) {
+        let turns = 0;
+        const ticker = setInterval(() => (turns += 1), 1);
+        try {
+            const strip = await compressTiffStrip(image, compression);
+
+            expect(strip.equals(compressTiffStripSync(image, compression))).toBe(true);
+        } finally {
+            clearInterval(ticker);
+        }
+        expect(turns).toBeGreaterThan(0);
+    }
+});
+
+test('streams from worker threads into the same file', async () => {
+    const options: PdfToPngOptions = { pagesToProcess: [1, 2, 3, 4], colorMode: 'bilevel', concurrencyLimit: 2 };
+    const sequential = await pdfToTiff(tenPagePdf, { outputFolder, outputFileName: 'sequential.tiff', ...options });
+    const workers = await pdfToTiff(tenPagePdf, { outputFolder, outputFileName: 'workers.tiff', ...options, renderInWorkerThreads: true });
+
+    expect(workers.pages).toEqual(sequential.pages);
+    expect(readFileSync(workers.path).equals(readFileSync(sequential.path))).toBe(true);
+});
+
+test('never overwrites a file and leaves none behind when the conversion fails', async () => {
+    const options = { outputFolder, outputFileName: 'out.tiff', colorMode: 'gray' } as const;
+    await pdfToTiff(samplePdf, options);
+    await expect(pdfToTiff(samplePdf, options)).rejects.toThrow('EEXIST');
+
+    const failing = pdfToTiff(samplePdf, {
+        ...options,
+        outputFileName: 'failing.tiff',
+        onProgress: ({ pageNumber }) => {
+            if (pageNumber === 2) {
+                throw new Error('page 2 failed');
+            }
+        },
+    });
+    await expect(failing).rejects.toThrow('page 2 failed');
+    expect(existsSync(join(outputFolder, 'failing.tiff'))).toBe(false);
+
+    await expect(pdfToTiff(samplePdf, { ...options, outputFileName: 'none.tiff', pagesToProcess: [5] })).rejects.toThrow(
+        'No pages to write: pagesToProcess selects none of the pages of the document',
+    );
+    expect(existsSync(join(outputFolder, 'none.tiff'))).toBe(false);
+});
+
+test('names buffer inputs buffer.tiff', async () => {
+    const output = await pdfToTiff(readFileSync(samplePdf), { outputFolder, pagesToProcess: [1], tiffCompression: 'deflate' });
+
+    expect(output.path).toBe(join(outputFolder, 'buffer.tiff'));
+});
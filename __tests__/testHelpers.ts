@@ -0,0 +1,66 @@
+import { createCanvas, loadImage, type SKRSContext2D } from '@napi-rs/canvas';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { expect, vi } from 'vitest';
+import { openPdf, pdfToPng } from '../src';
+import type { PdfToPngOptions, PngPageOutput } from '../src';
+import * as pdfjsLoader from '../src/pdfjsLoader.js';
+
+/**
+ * Decodes an encoded image onto a canvas of its size, so that tests can read its pixels back.
+ * @param image - The PNG, JPEG or WebP bytes.
+ * @param width - The image width in pixels.
+ * @param height - The image height in pixels.
+ * @returns The 2D context holding the decoded image.
+ */
+export async function decodeImage(image: Buffer, width: number, height: number): Promise<SKRSContext2D> {
+    const context = createCanvas(width, height).getContext('2d');
+    context.drawImage(await loadImage(image), 0, 0);
+    return context;
+}
+
+/**
+ * The decoded RGBA pixels of a rectangle of a rendered page — the whole page by default — as a
+ * `Buffer`, so that comparing two renders is a byte comparison.
+ */
+export async function pixelsOf(page: PngPageOutput, x = 0, y = 0, width = page.width, height = page.height): Promise<Buffer> {
+    const context = await decodeImage(page.content as Buffer, page.width, page.height);
+    const { data } = context.getImageData(x, y, width, height);
+    return Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+}
+
+/** Captures every document pdf.js loads, so that tests can assert how often it loads and that it is torn down. */
+export function trackLoadedDocuments(): PDFDocumentProxy[] {
+    const documents: PDFDocumentProxy[] = [];
+    const original = pdfjsLoader.getPdfDocument;
+    vi.spyOn(pdfjsLoader, 'getPdfDocument').mockImplementation(async (buffer, opts) => {
+        const document = await original(buffer, opts);
+        documents.push(document);
+        return document;
+    });
+    return documents;
+}
+
+/**
+ * Renders one page with `options` on the main thread, in worker threads and through `openPdf`, and
+ * expects the three to be byte-identical — the check every rendering option owes the other paths.
+ * @returns The three renders, for the caller's own assertions on the option's effect.
+ */
+export async function expectSameRenderOnEveryPath(
+    pdfFile: string,
+    options: PdfToPngOptions,
+    pageNumber = 1,
+): Promise<{ mainThread: PngPageOutput; worker: PngPageOutput; opened: PngPageOutput }> {
+    const pageOptions = { ...options, pagesToProcess: [pageNumber] };
+    const [mainThread] = await pdfToPng(pdfFile, pageOptions);
+    const [worker] = await pdfToPng(pdfFile, { ...pageOptions, renderInWorkerThreads: true });
+    const handle = await openPdf(pdfFile, options);
+    try {
+        const opened = await handle.renderPage(pageNumber);
+
+        expect(worker.content?.equals(mainThread.content as Buffer)).toBe(true);
+        expect(opened.content?.equals(mainThread.content as Buffer)).toBe(true);
+        return { mainThread, worker, opened };
+    } finally {
+        await handle.close();
+    }
+}
@@ -1,9 +1,9 @@
 import { beforeEach, expect, test, vi } from 'vitest';
-import type { RenderPageRequest, WorkerResponse } from '../src/interfaces/worker.protocol';
+import type { RenderPageRequest, WorkerDocument, WorkerRequest, WorkerResponse } from '../src/interfaces/worker.protocol';
 
 /**
  * Unit tests for src/pageRenderWorker.ts's message classification (result / render-error /
- * fatal) with a mocked worker context — the file is excluded from V8 coverage because it
+ * fatal) and document cache with a mocked worker context — the file is excluded from V8 coverage because it
  * normally executes inside worker threads, so this exercises its logic in-process.
  */
 
@@ -20,18 +20,17 @@ const context = vi.hoisted(() => {
                 state.posted.push(message);
             },
         },
-        workerData: {
-            pdfBuffer: new Uint8Array([1, 2, 3]),
-            documentOptions: { viewportScale: 1 },
-            materializeContent: true,
-        },
+        workerData: { maxCachedDocuments: 2 },
     };
     return state;
 });
 
 vi.mock('node:worker_threads', () => ({ parentPort: context.parentPort, workerData: context.workerData }));
 vi.mock('../src/pdfjsLoader', () => ({ getPdfDocument: vi.fn() }));
-vi.mock('../src/pageRenderer', () => ({ renderPdfPage: vi.fn() }));
+vi.mock('../src/pageRenderer', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../src/pageRenderer')>()),
+    renderPdfPage: vi.fn(),
+}));
 
 import { getPdfDocument } from '../src/pdfjsLoader';
 import { renderPdfPage } from '../src/pageRenderer';
@@ -40,8 +39,8 @@ const getPdfDocumentMock = vi.mocked(getPdfDocument);
 const renderPdfPageMock = vi.mocked(renderPdfPage);
 
 beforeEach(async () => {
-    // Fresh module instance per test: pageRenderWorker caches its document promise at module
-    // level, so each test re-imports it to start from a clean slate.
+    // Fresh module instance per test: pageRenderWorker caches its documents at module level, so
+    // each test re-imports it to start from a clean slate.
     vi.resetModules();
     context.handlers.length = 0;
     context.posted.length = 0;
@@ -50,14 +49,42 @@ beforeEach(async () => {
     await import('../src/pageRenderWorker.js');
 });
 
-function send(request: RenderPageRequest): void {
+function send(request: WorkerRequest): void {
     for (const handler of context.handlers) {
         handler(request);
     }
 }
 
-function renderRequest(index: number): RenderPageRequest {
-    return { type: 'render', index, pageNumber: index + 1, pageName: `page_${index + 1}.png` };
+function workerDocument(reportProgress = false): WorkerDocument {
+    return { pdfBuffer: new Uint8Array([1, 2, 3]), documentOptions: { viewportScale: 1 }, materializeContent: true, reportProgress };
+}
+
+/** A render request for document 0; the first request for a document carries its bytes. */
+function renderRequest(index: number, document?: WorkerDocument, documentId = 0): RenderPageRequest {
+    return { type: 'render', documentId, document, index, pageNumber: index + 1, pageName: `page_${index + 1}.png` };
+}
+
+/** A stand-in pdf.js document whose teardown the tests can observe. */
+function fakeDocument(): { loadingTask: { destroy: ReturnType<typeof vi.fn> } } {
+    return { loadingTask: { destroy: vi.fn() } };
+}
+
+function contentPage(pageNumber: number): Awaited<ReturnType<typeof renderPdfPage>> {
+    return {
+        kind: 'content',
+        pageNumber,
+        name: `page_${pageNumber}.png`,
+        content: undefined,
+        path: '',
+        width: 10,
+        height: 10,
+        rotation: 0,
+        viewportScale: 1,
+        renderedRect: [0, 0, 612, 792],
+        format: 'png',
+        bitDepth: 8,
+        colorType: 'rgba',
+    };
 }
 
 test('renders a page and posts a result, loading the document exactly once across pages', async () => {
@@ -72,9 +99,14 @@ test('renders a page and posts a result, loading the document exactly once acros
         width: 10,
         height: 10,
         rotation: 0,
+        viewportScale: 1,
+        renderedRect: [0, 0, 612, 792],
+        format: 'png',
+        bitDepth: 8,
+        colorType: 'rgba',
     }));
 
-    send(renderRequest(0));
+    send(renderRequest(0, workerDocument()));
     send(renderRequest(1));
     await vi.waitFor(() => {
         expect(context.posted).toHaveLength(2);
@@ -103,13 +135,18 @@ test('posts a render-error carrying the original error when one page fails, then
         width: 10,
         height: 10,
         rotation: 0,
+        viewportScale: 1,
+        renderedRect: [0, 0, 612, 792],
+        format: 'png',
+        bitDepth: 8,
+        colorType: 'rgba',
     });
 
-    send(renderRequest(3));
+    send(renderRequest(3, workerDocument()));
     await vi.waitFor(() => {
         expect(context.posted).toHaveLength(1);
     });
-    expect(context.posted[0]).toEqual({ type: 'render-error', index: 3, error: renderError });
+    expect(context.posted[0]).toEqual({ type: 'render-error', documentId: 0, index: 3, error: renderError });
 
     // The worker stays usable for other pages after a per-page failure.
     send(renderRequest(4));
@@ -123,18 +160,95 @@ test('posts fatal when the document cannot be loaded, and keeps failing fatal (c
     const loadError = new Error('No password given');
     getPdfDocumentMock.mockRejectedValue(loadError);
 
-    send(renderRequest(0));
+    send(renderRequest(0, workerDocument()));
     await vi.waitFor(() => {
         expect(context.posted).toHaveLength(1);
     });
-    expect(context.posted[0]).toEqual({ type: 'fatal', error: loadError });
+    expect(context.posted[0]).toEqual({ type: 'fatal', documentId: 0, error: loadError });
 
-    // The failed load is cached (the pool terminates the worker after a fatal anyway) — a
-    // straggler request posts fatal again rather than retrying the load.
+    // The failed load is cached until the pool releases the document — a straggler request
+    // posts fatal again rather than retrying the load.
     send(renderRequest(1));
     await vi.waitFor(() => {
         expect(context.posted).toHaveLength(2);
     });
-    expect(context.posted[1]).toEqual({ type: 'fatal', error: loadError });
+    expect(context.posted[1]).toEqual({ type: 'fatal', documentId: 0, error: loadError });
     expect(getPdfDocumentMock).toHaveBeenCalledTimes(1);
 });
+
+test('relays render and encode stages as progress messages ahead of the result when asked to', async () => {
+    getPdfDocumentMock.mockResolvedValue({} as never);
+    renderPdfPageMock.mockImplementation(async (_pdf, _pageName, pageNumber, _returnContent, options) => {
+        options.onPageStage?.(pageNumber, 'rendered');
+        options.onPageStage?.(pageNumber, 'encoded');
+        return contentPage(pageNumber);
+    });
+
+    send(renderRequest(2, workerDocument(true)));
+    await vi.waitFor(() => {
+        expect(context.posted).toHaveLength(3);
+    });
+    expect(context.posted.slice(0, 2)).toEqual([
+        { type: 'progress', documentId: 0, index: 2, pageNumber: 3, stage: 'rendered' },
+        { type: 'progress', documentId: 0, index: 2, pageNumber: 3, stage: 'encoded' },
+    ]);
+    expect(context.posted[2].type).toBe('result');
+});
+
+test('caches up to maxCachedDocuments documents, destroying the least recently used on overflow', async () => {
+    const loaded = [fakeDocument(), fakeDocument(), fakeDocument()];
+    for (const document of loaded) {
+        getPdfDocumentMock.mockResolvedValueOnce(document as never);
+    }
+    renderPdfPageMock.mockImplementation(async (_pdf, _pageName, pageNumber) => contentPage(pageNumber));
+
+    send(renderRequest(0, workerDocument(), 0));
+    send(renderRequest(0, workerDocument(), 1));
+    // Touch document 0 so document 1 becomes the least recently used.
+    send(renderRequest(1, undefined, 0));
+    send(renderRequest(0, workerDocument(), 2));
+    await vi.waitFor(() => {
+        expect(context.posted).toHaveLength(4);
+    });
+
+    expect(context.posted.every((response) => response.type === 'result')).toBe(true);
+    expect(loaded.map((document) => document.loadingTask.destroy.mock.calls.length)).toEqual([0, 1, 0]);
+
+    // An evicted document must be sent again; without its bytes the page cannot be rendered.
+    send(renderRequest(1, undefined, 1));
+    await vi.waitFor(() => {
+        expect(context.posted).toHaveLength(5);
+    });
+    expect(context.posted[4]).toMatchObject({
+        type: 'render-error',
+        documentId: 1,
+        index: 1,
+        error: new Error('Document 1 is not loaded in this render worker.'),
+    });
+});
+
+test('a released document is destroyed once its in-flight renders finish', async () => {
+    const document = fakeDocument();
+    getPdfDocumentMock.mockResolvedValue(document as never);
+    let finishRender: () => void = () => undefined;
+    renderPdfPageMock.mockImplementation(
+        (_pdf, _pageName, pageNumber) =>
+            new Promise((resolve) => {
+                finishRender = () => resolve(contentPage(pageNumber));
+            }),
+    );
+
+    send(renderRequest(0, workerDocument()));
+    await vi.waitFor(() => {
+        expect(renderPdfPageMock).toHaveBeenCalledTimes(1);
+    });
+    send({ type: 'release', documentId: 0 });
+    await Promise.resolve();
+    expect(document.loadingTask.destroy).not.toHaveBeenCalled();
+
+    finishRender();
+    await vi.waitFor(() => {
+        expect(document.loadingTask.destroy).toHaveBeenCalledTimes(1);
+    });
+    expect(context.posted[0].type).toBe('result');
+});
@@ -1,5 +1,5 @@
 import { afterEach, expect, test, vi } from 'vitest';
-import type { RenderPageRequest, WorkerResponse } from '../src/interfaces/worker.protocol';
+import type { RenderPageRequest, WorkerRequest, WorkerResponse } from '../src/interfaces/worker.protocol';
 import { renderPagesInWorkerPool } from '../src/workerPool';
 import type { WorkerPageTask, WorkerRenderedPage } from '../src/workerPool';
 
@@ -34,6 +34,10 @@ const harness = vi.hoisted(() => {
             this.posted.push(message);
         }
 
+        public ref(): void {}
+
+        public unref(): void {}
+
         public terminate(): Promise<number> {
             this.terminated = true;
             return Promise.resolve(0);
@@ -67,12 +71,18 @@ function makeTasks(count: number): WorkerPageTask[] {
 function resultMessage(index: number, content?: Uint8Array): WorkerResponse {
     return {
         type: 'result',
+        documentId: 0,
         index,
         pageNumber: index + 1,
         name: `page_${index + 1}.png`,
         width: 10,
         height: 10,
         rotation: 0,
+        viewportScale: 1,
+        renderedRect: [0, 0, 612, 792],
+        format: 'png',
+        bitDepth: 8,
+        colorType: 'rgba',
         content,
     };
 }
@@ -120,13 +130,25 @@ test('throws the LOWEST-index error when multiple in-flight pages fail, and stop
     const [workerA, workerB] = harness.instances;
 
     // Higher index fails FIRST, lower index fails second — the lower index must win.
-    workerB.emit('message', { type: 'render-error', index: 1, error: new Error('page 2 exploded') } satisfies WorkerResponse);
-    workerA.emit('message', { type: 'render-error', index: 0, error: new Error('page 1 exploded') } satisfies WorkerResponse);
+    workerB.emit('message', {
+        type: 'render-error',
+        documentId: 0,
+        index: 1,
+        error: new Error('page 2 exploded'),
+    } satisfies WorkerResponse);
+    workerA.emit('message', {
+        type: 'render-error',
+        documentId: 0,
+        index: 0,
+        error: new Error('page 1 exploded'),
+    } satisfies WorkerResponse);
     await flushAsync();
 
     await expect(poolPromise).rejects.toThrow('page 1 exploded');
     // No further tasks were dispatched after the first error (tasks 2 and 3 never started).
-    const dispatched = harness.instances.flatMap((worker) => worker.posted as RenderPageRequest[]).map((request) => request.index);
+    const dispatched = harness.instances
+        .flatMap((worker) => worker.posted as WorkerRequest[])
+        .flatMap((request) => (request.type === 'render' ? [request.index] : []));
     expect(dispatched.sort()).toEqual([0, 1]);
 });
 
@@ -151,14 +173,39 @@ test('a fatal worker error (document load failure) wins over page errors and sto
     await flushAsync();
     const [workerA, workerB] = harness.instances;
 
-    workerB.emit('message', { type: 'render-error', index: 1, error: new Error('page render failed') } satisfies WorkerResponse);
-    workerA.emit('message', { type: 'fatal', error: new Error('No password given') } satisfies WorkerResponse);
+    workerB.emit('message', {
+        type: 'render-error',
+        documentId: 0,
+        index: 1,
+        error: new Error('page render failed'),
+    } satisfies WorkerResponse);
+    workerA.emit('message', { type: 'fatal', documentId: 0, error: new Error('No password given') } satisfies WorkerResponse);
     await flushAsync();
 
     await expect(poolPromise).rejects.toThrow('No password given');
     expect(harness.instances.every((worker) => worker.terminated)).toBe(true);
 });
 
+test('reports every recorded failure to onError before the pool settles', async () => {
+    const reported: unknown[] = [];
+    const poolPromise = renderPagesInWorkerPool(new Uint8Array([1]), {}, true, makeTasks(3), 2, async () => undefined, {
+        onError: (error) => reported.push(error),
+    });
+    await flushAsync();
+    const [workerA, workerB] = harness.instances;
+
+    const pageError = new Error('page 2 exploded');
+    const fatalError = new Error('segfault-ish');
+    workerB.emit('message', { type: 'render-error', documentId: 0, index: 1, error: pageError } satisfies WorkerResponse);
+    await flushAsync();
+    expect(reported).toEqual([pageError]);
+
+    workerA.emit('error', fatalError);
+    await flushAsync();
+    await expect(poolPromise).rejects.toThrow('segfault-ish');
+    expect(reported).toEqual([pageError, fatalError]);
+});
+
 test('a worker crash is fatal and wins over a LOWER-index page error (no page attribution)', async () => {
     const poolPromise = renderPagesInWorkerPool(new Uint8Array([1]), {}, true, makeTasks(3), 2, async () => undefined);
     await flushAsync();
@@ -166,7 +213,12 @@ test('a worker crash is fatal and wins over a LOWER-index page error (no page at
 
     // Ordinary page error on the LOWEST index first, then a crash on another worker: the crash
     // must surface (worker-level failures beat per-page errors), not the page-1 error.
-    workerA.emit('message', { type: 'render-error', index: 0, error: new Error('page 1 render failed') } satisfies WorkerResponse);
+    workerA.emit('message', {
+        type: 'render-error',
+        documentId: 0,
+        index: 0,
+        error: new Error('page 1 render failed'),
+    } satisfies WorkerResponse);
     workerB.emit('error', new Error('segfault-ish'));
     await flushAsync();
 
@@ -197,7 +249,7 @@ test('a message arriving after the worker settled is ignored', async () => {
     await flushAsync();
     await poolPromise;
 
-    // Late duplicate after finish() — must not re-run finalization.
+    // Late duplicate after the pool was torn down — must not re-run finalization.
     workerA.emit('message', resultMessage(0));
     await flushAsync();
     expect(rendered).toEqual([0]);
@@ -218,3 +270,90 @@ test('resolves immediately for an empty task list without spawning workers', asy
     await renderPagesInWorkerPool(new Uint8Array([1]), {}, true, [], 4, async () => undefined);
     expect(harness.instances).toHaveLength(0);
 });
+
+test('an abort terminates every busy worker mid-render and rejects with an AbortError', async () => {
+    const controller = new AbortController();
+    const rendered: number[] = [];
+    const poolPromise = renderPagesInWorkerPool(
+        new Uint8Array([1]),
+        {},
+        true,
+        makeTasks(4),
+        2,
+        async (index) => {
+            rendered.push(index);
+        },
+        { signal: controller.signal },
+    );
+    await flushAsync();
+    const [workerA, workerB] = harness.instances;
+    workerA.emit('message', resultMessage(0));
+    await flushAsync();
+
+    controller.abort();
+    await expect(poolPromise).rejects.toMatchObject({ name: 'AbortError' });
+    expect(harness.instances.every((worker) => worker.terminated)).toBe(true);
+    // Worker A had picked up task 2 and worker B was still on task 1; neither completes.
+    workerB.emit('message', resultMessage(1));
+    await flushAsync();
+    expect(rendered).toEqual([0]);
+    expect(workerA.posted).toHaveLength(2);
+});
+
+test('rejects without spawning workers when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+        renderPagesInWorkerPool(new Uint8Array([1]), {}, true, makeTasks(2), 2, async () => undefined, { signal: controller.signal }),
+    ).rejects.toMatchObject({ name: 'AbortError' });
+    expect(harness.instances).toHaveLength(0);
+});
+
+test('relays progress messages to onPageStage and tells workers to send them', async () => {
+    const stages: Array<[number, string]> = [];
+    const poolPromise = renderPagesInWorkerPool(new Uint8Array([1]), {}, true, makeTasks(1), 1, async () => undefined, {
+        onPageStage: (pageNumber, stage) => stages.push([pageNumber, stage]),
+    });
+    await flushAsync();
+    const [workerA] = harness.instances;
+    expect((workerA.posted[0] as RenderPageRequest).document?.reportProgress).toBe(true);
+
+    workerA.emit('message', { type: 'progress', documentId: 0, index: 0, pageNumber: 1, stage: 'rendered' } satisfies WorkerResponse);
+    workerA.emit('message', { type: 'progress', documentId: 0, index: 0, pageNumber: 1, stage: 'encoded' } satisfies WorkerResponse);
+    workerA.emit('message', resultMessage(0));
+    await flushAsync();
+    await poolPromise;
+
+    expect(stages).toEqual([
+        [1, 'rendered'],
+        [1, 'encoded'],
+    ]);
+});
+
+test('a throwing onPageStage fails that page and its output is never finalized', async () => {
+    const rendered: number[] = [];
+    const poolPromise = renderPagesInWorkerPool(
+        new Uint8Array([1]),
+        {},
+        true,
+        makeTasks(1),
+        1,
+        async (index) => {
+            rendered.push(index);
+        },
+        {
+            onPageStage: () => {
+                throw new Error('progress bar exploded');
+            },
+        },
+    );
+    await flushAsync();
+    const [workerA] = harness.instances;
+
+    workerA.emit('message', { type: 'progress', documentId: 0, index: 0, pageNumber: 1, stage: 'rendered' } satisfies WorkerResponse);
+    workerA.emit('message', resultMessage(0));
+    await flushAsync();
+
+    await expect(poolPromise).rejects.toThrow('progress bar exploded');
+    expect(rendered).toEqual([]);
+});
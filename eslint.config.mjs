@@ -24,6 +24,8 @@ export default [
                 process: 'readonly',
                 global: 'readonly',
                 console: 'readonly',
+                AbortController: 'readonly',
+                AbortSignal: 'readonly',
             },
         },
         plugins: {
@@ -93,6 +95,9 @@ export default [
                 process: 'readonly',
                 global: 'readonly',
                 console: 'readonly',
+                AbortController: 'readonly',
+                AbortSignal: 'readonly',
+                queueMicrotask: 'readonly',
             },
         },
         plugins: {
@@ -0,0 +1,19 @@
+/**
+ * Builds the error a conversion rejects with once its `signal` has been aborted.
+ *
+ * Follows the Node.js core convention (`fs`, `stream`, `timers/promises`): an `Error` whose
+ * `name` is `'AbortError'`, with the abort reason attached as `cause`, so callers can branch on
+ * `error.name === 'AbortError'` regardless of what they passed to `AbortController.abort()`.
+ */
+export function createAbortError(signal: AbortSignal): Error {
+    const error = new Error('The PDF conversion was aborted.', { cause: signal.reason });
+    error.name = 'AbortError';
+    return error;
+}
+
+/** Throws {@link createAbortError} when `signal` is defined and already aborted. */
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+    if (signal?.aborted === true) {
+        throw createAbortError(signal);
+    }
+}
@@ -4,8 +4,22 @@ import { parseArgs } from 'node:util';
 import path from 'node:path';
 import fs from 'node:fs';
 import { pdfToPngCore } from './pdfToPngCore.js';
-import type { PdfToPngOptions } from './interfaces/pdf.to.png.options.js';
-import { normalizePdfToPngOptions, type NormalizedPdfToPngOptions } from './normalizePdfToPngOptions.js';
+import { pdfToTiffCore } from './pdfToTiff.js';
+import type {
+    AnnotationRenderOptions,
+    LayerVisibility,
+    PageClip,
+    PdfToPngOptions,
+    PngCompressionOptions,
+    PngMetadataOptions,
+} from './interfaces/pdf.to.png.options.js';
+import type { PdfToTiffOptions } from './interfaces/pdf.to.tiff.options.js';
+import {
+    normalizePdfToPngOptions,
+    normalizePdfToTiffOptions,
+    type NormalizedPdfToPngOptions,
+    type NormalizedPdfToTiffOptions,
+} from './normalizePdfToPngOptions.js';
 
 /**
  * Help text shown for `--help` and on invalid usage.
@@ -16,16 +30,42 @@ export const HELP_TEXT = `Usage: pdf-to-png-converter <pdf-file-path> [options]
 Options:
   --output-folder <dir>             Folder path where PNG files will be written (required unless --return-metadata-only)
   --viewport-scale <number>         Scale factor applied to each page viewport
+  --dpi <number>                    Output resolution in dots per inch (alternative to --viewport-scale)
+  --page-box <box>                  Page area to render: MediaBox, CropBox, BleedBox, TrimBox or ArtBox (default: CropBox)
+  --clip <x,y,width,height>         Render only this rectangle of each page, from its top-left corner
+  --clip-units <points|fraction>    Units of --clip: PDF points or fractions of the page (default: points)
+  --background <colour>             Page background: white, transparent or a CSS colour (default: white)
+  --annotations <mode>              Annotations drawn: disable, enable, enable-forms or enable-storage (default: enable)
+  --form-values <json>              Form-field values as a JSON object, e.g. '{"name":"Ada","agree":true}'
+  --render-intent <display|print>   Render pages as shown on screen or as printed (default: display)
+  --show-layers <names>             Comma-separated PDF layer names or ids to show
+  --hide-layers <names>             Comma-separated PDF layer names or ids to hide
+  --tile-size <pixels>              Render pages in square tiles written as <name>_r<row>_c<col> files
   --use-system-fonts                Attempt to use fonts installed on the host system
   --disable-font-face <true|false>  Do not load embedded fonts (true/false)
   --enable-xfa <true|false>         Process XFA form data (true/false)
   --pdf-file-password <pwd>         Password for encrypted PDFs
-  --pages-to-process <n,m,...>      Comma-separated list of 1-based page numbers
+  --range-loading                   Read only the parts of the PDF file the pages need, not the whole file
+  --pages-to-process <pages>        Pages to convert: numbers and ranges, e.g. 1-5,8,10- or -3--1 (the last
+                                    three), last, odd, even
   --verbosity-level <number>        pdfjs verbosity level (0=errors, 1=warnings, 5=infos)
   --return-metadata-only            Return page metadata without rendering images
   --process-pages-in-parallel       Process pages concurrently
   --concurrency-limit <number>      Max concurrent pages (parallel) / worker-pool size (worker threads)
   --render-in-worker-threads        Rasterize pages in a pool of worker threads (multi-core)
+  --output-format <format>          Image encoding for rendered pages: png, jpeg or webp (default: png),
+                                    or tiff for one multi-page <pdf name>.tiff in --output-folder
+  --jpeg-quality <0-100>            Encoder quality for --output-format jpeg (default: 92)
+  --webp-quality <0-100>            Encoder quality for --output-format webp (default: 80)
+  --color-mode <mode>               PNG pixel format: rgba, rgb, gray or bilevel (default: rgba)
+  --bilevel-threshold <0-255>       Luma at which --color-mode bilevel pixels turn white (default: 128)
+  --dither                          Floyd-Steinberg dither --color-mode bilevel output
+  --png-compression-level <0-9>     zlib level of PNG output: 1 fastest, 9 smallest (default: 6)
+  --png-filter <filter>             PNG scanline filter: none, sub, up, average, paeth or adaptive (default: adaptive)
+  --png-resolution <true|false>     Record the render DPI in each PNG (pHYs chunk) (default: false)
+  --png-provenance                  Record source file, page number, PDF title and producer in each PNG
+  --png-text <json>                 Extra PNG text chunks as a JSON object, e.g. '{"Author":"Ada"}'
+  --tiff-compression <method>       TIFF page compression: none, lzw, deflate or g4 (default: g4 for bilevel, else lzw)
   --silent                          Suppress output unless there is an error
   --version                         Show version
   --help                            Show this help message`;
@@ -38,10 +78,22 @@ Options:
 const CLI_OPTIONS = {
     'output-folder': { type: 'string' },
     'viewport-scale': { type: 'string' },
+    dpi: { type: 'string' },
+    'page-box': { type: 'string' },
+    clip: { type: 'string' },
+    'clip-units': { type: 'string' },
+    background: { type: 'string' },
+    annotations: { type: 'string' },
+    'form-values': { type: 'string' },
+    'render-intent': { type: 'string' },
+    'show-layers': { type: 'string' },
+    'hide-layers': { type: 'string' },
+    'tile-size': { type: 'string' },
     'use-system-fonts': { type: 'boolean' },
     'disable-font-face': { type: 'string' },
     'enable-xfa': { type: 'string' },
     'pdf-file-password': { type: 'string' },
+    'range-loading': { type: 'boolean' },
     'pages-to-process': { type: 'string' },
     'verbosity-level': { type: 'string' },
     'return-metadata-only': { type: 'boolean' },
@@ -49,6 +101,18 @@ const CLI_OPTIONS = {
     'process-pages-in-parallel': { type: 'boolean' },
     'concurrency-limit': { type: 'string' },
     'render-in-worker-threads': { type: 'boolean' },
+    'output-format': { type: 'string' },
+    'jpeg-quality': { type: 'string' },
+    'webp-quality': { type: 'string' },
+    'color-mode': { type: 'string' },
+    'bilevel-threshold': { type: 'string' },
+    dither: { type: 'boolean' },
+    'png-compression-level': { type: 'string' },
+    'png-filter': { type: 'string' },
+    'png-resolution': { type: 'string' },
+    'png-provenance': { type: 'boolean' },
+    'png-text': { type: 'string' },
+    'tiff-compression': { type: 'string' },
     silent: { type: 'boolean' },
     version: { type: 'boolean' },
     help: { type: 'boolean' },
@@ -57,10 +121,22 @@ const CLI_OPTIONS = {
 type ParsedValues = {
     'output-folder'?: string;
     'viewport-scale'?: string;
+    dpi?: string;
+    'page-box'?: string;
+    clip?: string;
+    'clip-units'?: string;
+    background?: string;
+    annotations?: string;
+    'form-values'?: string;
+    'render-intent'?: string;
+    'show-layers'?: string;
+    'hide-layers'?: string;
+    'tile-size'?: string;
     'use-system-fonts'?: boolean;
     'disable-font-face'?: string;
     'enable-xfa'?: string;
     'pdf-file-password'?: string;
+    'range-loading'?: boolean;
     'pages-to-process'?: string;
     'verbosity-level'?: string;
     'return-metadata-only'?: boolean;
@@ -68,6 +144,18 @@ type ParsedValues = {
     'process-pages-in-parallel'?: boolean;
     'concurrency-limit'?: string;
     'render-in-worker-threads'?: boolean;
+    'output-format'?: string;
+    'jpeg-quality'?: string;
+    'webp-quality'?: string;
+    'color-mode'?: string;
+    'bilevel-threshold'?: string;
+    dither?: boolean;
+    'png-compression-level'?: string;
+    'png-filter'?: string;
+    'png-resolution'?: string;
+    'png-provenance'?: boolean;
+    'png-text'?: string;
+    'tiff-compression'?: string;
     silent?: boolean;
     version?: boolean;
     help?: boolean;
@@ -91,24 +179,6 @@ export function parseBoolean(val: string | undefined): boolean | undefined {
     throw new Error(`Invalid boolean value: "${val}". Expected true|false|1|0.`);
 }
 
-/**
- * Parses a comma-separated string of integers into a `number[]`.
- *
- * Returns `undefined` when `val` is `undefined` (flag not provided).
- *
- * @throws {Error} When any token in the list is not a valid integer.
- */
-export function parseNumberList(val: string | undefined): number[] | undefined {
-    if (val === undefined) return undefined;
-    return val.split(',').map((token) => {
-        const trimmed = token.trim();
-        if (trimmed === '') throw new Error('Invalid integer in list: empty value.');
-        const parsed = Number(trimmed);
-        if (!Number.isInteger(parsed)) throw new Error(`Invalid integer in list: "${trimmed}".`);
-        return parsed;
-    });
-}
-
 function parseNumericOption(value: string | undefined, errorMessage: string): number | undefined {
     if (value === undefined) {
         return undefined;
@@ -141,9 +211,198 @@ function parseIntegerOption(value: string | undefined, errorMessage: string): nu
     return parsed;
 }
 
+/**
+ * Parses `--clip x,y,width,height` (with `--clip-units`) into a `PageClip`.
+ *
+ * Returns `undefined` when `--clip` is not provided; the values themselves are validated by
+ * `normalizePdfToPngOptions`.
+ *
+ * @throws {Error} When `--clip` is not four comma-separated numbers, or `--clip-units` is given without `--clip`.
+ */
+function parseClipOption(value: string | undefined, units: string | undefined): PageClip | undefined {
+    if (value === undefined) {
+        if (units !== undefined) throw new Error('--clip-units requires --clip.');
+        return undefined;
+    }
+    const numbers = value.split(',').map((token) => (token.trim() === '' ? Number.NaN : Number(token)));
+    if (numbers.length !== 4 || !numbers.every(Number.isFinite)) {
+        throw new Error('--clip must be four comma-separated numbers: x,y,width,height.');
+    }
+    const [x, y, width, height] = numbers;
+    // units passed through unchecked: normalizePdfToPngOptions rejects unknown units.
+    return { x, y, width, height, units: units as PageClip['units'] };
+}
+
+/**
+ * Parses `--annotations` and `--form-values` into `AnnotationRenderOptions`.
+ *
+ * Returns `undefined` when neither flag is provided; the mode and the shape of the values are
+ * validated by `normalizePdfToPngOptions`.
+ *
+ * @throws {Error} When `--form-values` is not valid JSON.
+ */
+function parseAnnotationsOption(mode: string | undefined, formValues: string | undefined): AnnotationRenderOptions | undefined {
+    if (mode === undefined && formValues === undefined) {
+        return undefined;
+    }
+    let parsedValues: AnnotationRenderOptions['formValues'];
+    if (formValues !== undefined) {
+        try {
+            parsedValues = JSON.parse(formValues) as AnnotationRenderOptions['formValues'];
+        } catch {
+            throw new Error('--form-values must be a JSON object of field names and values.');
+        }
+    }
+    return { mode: mode as AnnotationRenderOptions['mode'], formValues: parsedValues };
+}
+
+/**
+ * Parses `--show-layers` and `--hide-layers` into an `optionalContent` map.
+ *
+ * Returns `undefined` when neither flag is provided; whether the layers exist is checked once the
+ * PDF is loaded.
+ *
+ * @throws {Error} When a list holds an empty name, or a layer is both shown and hidden.
+ */
+function parseLayerOptions(show: string | undefined, hide: string | undefined): Record<string, LayerVisibility> | undefined {
+    if (show === undefined && hide === undefined) {
+        return undefined;
+    }
+    const optionalContent: Record<string, LayerVisibility> = {};
+    for (const [list, visibility, flag] of [
+        [show, 'visible', '--show-layers'],
+        [hide, 'hidden', '--hide-layers'],
+    ] as const) {
+        for (const layer of list?.split(',').map((token) => token.trim()) ?? []) {
+            if (layer === '') throw new Error(`${flag} must be a comma-separated list of layer names or ids.`);
+            if (Object.hasOwn(optionalContent, layer)) throw new Error(`Layer "${layer}" cannot be both shown and hidden.`);
+            optionalContent[layer] = visibility;
+        }
+    }
+    return optionalContent;
+}
+
+/**
+ * Parses `--png-compression-level` and `--png-filter` into a `pngCompression` object.
+ *
+ * Returns `undefined` when neither flag is provided, leaving PNG encoding to the canvas; the level
+ * range and the filter name are checked by `normalizePdfToPngOptions`.
+ *
+ * @throws {Error} When the level is not an integer.
+ */
+function parsePngCompressionOption(level: string | undefined, filter: string | undefined): PngCompressionOptions | undefined {
+    if (level === undefined && filter === undefined) {
+        return undefined;
+    }
+    return {
+        level: parseIntegerOption(level, '--png-compression-level must be a valid integer.'),
+        filter: filter as PngCompressionOptions['filter'],
+    };
+}
+
+/**
+ * Parses `--png-resolution`, `--png-provenance` and `--png-text` into a `pngMetadata` object.
+ *
+ * Returns `undefined` when none of the flags is provided, leaving the defaults in place.
+ *
+ * @throws {Error} When `--png-resolution` is not a boolean or `--png-text` is not valid JSON.
+ */
+function parsePngMetadataOption(
+    resolution: string | undefined,
+    provenance: boolean | undefined,
+    text: string | undefined,
+): PngMetadataOptions | undefined {
+    if (resolution === undefined && provenance === undefined && text === undefined) {
+        return undefined;
+    }
+    let parsedText: PngMetadataOptions['text'];
+    if (text !== undefined) {
+        try {
+            parsedText = JSON.parse(text) as PngMetadataOptions['text'];
+        } catch {
+            throw new Error('--png-text must be a JSON object of keywords and values.');
+        }
+    }
+    return { resolution: parseBoolean(resolution), provenance, text: parsedText };
+}
+
+/**
+ * Parses the flags image and TIFF conversions share: how pages are loaded, picked, scheduled and
+ * rendered. The values are validated by `normalizePdfToPngOptions`.
+ */
+function parseRenderFlags(values: ParsedValues): Omit<PdfToTiffOptions, 'outputFolder' | 'outputFileName' | 'tiffCompression'> {
+    return {
+        viewportScale: parseNumericOption(values['viewport-scale'], '--viewport-scale must be a valid number.'),
+        dpi: parseNumericOption(values.dpi, '--dpi must be a valid number.'),
+        // Passed through unchecked: normalizePdfToPngOptions rejects unknown boxes with the list of valid ones.
+        pageBox: values['page-box'] as PdfToPngOptions['pageBox'],
+        clip: parseClipOption(values.clip, values['clip-units']),
+        background: values.background,
+        annotations: parseAnnotationsOption(values.annotations, values['form-values']),
+        optionalContent: parseLayerOptions(values['show-layers'], values['hide-layers']),
+        // Passed through unchecked: normalizePdfToPngOptions rejects unknown intents.
+        renderIntent: values['render-intent'] as PdfToPngOptions['renderIntent'],
+        useSystemFonts: values['use-system-fonts'],
+        disableFontFace: parseBoolean(values['disable-font-face']),
+        enableXfa: parseBoolean(values['enable-xfa']),
+        pdfFilePassword: values['pdf-file-password'],
+        rangeLoading: values['range-loading'],
+        // Passed through as an expression: normalizePdfToPngOptions parses it and points at a bad term.
+        pagesToProcess: values['pages-to-process'],
+        verbosityLevel: parseIntegerOption(values['verbosity-level'], '--verbosity-level must be a valid integer.'),
+        processPagesInParallel: values['process-pages-in-parallel'],
+        concurrencyLimit: parseIntegerOption(values['concurrency-limit'], '--concurrency-limit must be a valid integer.'),
+        renderInWorkerThreads: values['render-in-worker-threads'],
+        // Passed through unchecked: normalizePdfToPngOptions rejects unknown modes with the list of valid ones.
+        colorMode: values['color-mode'] as PdfToPngOptions['colorMode'],
+        bilevelThreshold: parseIntegerOption(values['bilevel-threshold'], '--bilevel-threshold must be a valid integer.'),
+        dither: values.dither,
+    };
+}
+
+/** Flags of image conversion that mean nothing for `--output-format tiff`. */
+const IMAGE_ONLY_FLAGS = [
+    'tile-size',
+    'return-metadata-only',
+    'return-page-content',
+    'jpeg-quality',
+    'webp-quality',
+    'png-compression-level',
+    'png-filter',
+    'png-resolution',
+    'png-provenance',
+    'png-text',
+] as const;
+
+/**
+ * `parseArgs` rejects a `--flag value` whose value starts with a dash as ambiguous, and a page
+ * range counted from the end (`-3--1`, `-1`) always does. Such a value after `--pages-to-process`
+ * is joined to the flag as `--pages-to-process=-3--1`, the form `parseArgs` accepts.
+ */
+function joinPageRangeValues(args: string[]): string[] {
+    const joined: string[] = [];
+    for (let index = 0; index < args.length; index += 1) {
+        const next = args[index + 1];
+        if (args[index] === '--') {
+            return [...joined, ...args.slice(index)];
+        }
+        if (args[index] === '--pages-to-process' && next !== undefined && /^-\d/u.test(next)) {
+            joined.push(`--pages-to-process=${next}`);
+            index += 1;
+        } else {
+            joined.push(args[index]);
+        }
+    }
+    return joined;
+}
+
 function safeParseArgs(): CliParseResult | null {
     try {
-        return parseArgs({ options: CLI_OPTIONS, allowPositionals: true }) as CliParseResult;
+        return parseArgs({
+            args: joinPageRangeValues(process.argv.slice(2)),
+            options: CLI_OPTIONS,
+            allowPositionals: true,
+        }) as CliParseResult;
     } catch (err: unknown) {
         /* v8 ignore next */
         console.error(err instanceof Error ? err.message : String(err));
@@ -171,20 +430,22 @@ export function buildPdfToPngOptions(
         throw new Error('<pdf-file-path> is required.');
     }
 
+    if (values['tiff-compression'] !== undefined) {
+        throw new Error('--tiff-compression requires --output-format tiff.');
+    }
+
     const rawOptions: PdfToPngOptions = {
+        ...parseRenderFlags(values),
         outputFolder: values['output-folder'],
-        viewportScale: parseNumericOption(values['viewport-scale'], '--viewport-scale must be a valid number.'),
-        useSystemFonts: values['use-system-fonts'],
-        disableFontFace: parseBoolean(values['disable-font-face']),
-        enableXfa: parseBoolean(values['enable-xfa']),
-        pdfFilePassword: values['pdf-file-password'],
-        pagesToProcess: parseNumberList(values['pages-to-process']),
-        verbosityLevel: parseIntegerOption(values['verbosity-level'], '--verbosity-level must be a valid integer.'),
+        tileSize: parseIntegerOption(values['tile-size'], '--tile-size must be a valid integer.'),
         returnMetadataOnly: values['return-metadata-only'],
         returnPageContent: values['return-page-content'] ?? false,
-        processPagesInParallel: values['process-pages-in-parallel'],
-        concurrencyLimit: parseIntegerOption(values['concurrency-limit'], '--concurrency-limit must be a valid integer.'),
-        renderInWorkerThreads: values['render-in-worker-threads'],
+        // Passed through unchecked: normalizePdfToPngOptions rejects unknown formats with the list of valid ones.
+        outputFormat: values['output-format'] as PdfToPngOptions['outputFormat'],
+        jpegQuality: parseIntegerOption(values['jpeg-quality'], '--jpeg-quality must be a valid integer.'),
+        webpQuality: parseIntegerOption(values['webp-quality'], '--webp-quality must be a valid integer.'),
+        pngCompression: parsePngCompressionOption(values['png-compression-level'], values['png-filter']),
+        pngMetadata: parsePngMetadataOption(values['png-resolution'], values['png-provenance'], values['png-text']),
     };
 
     const options = normalizePdfToPngOptions(rawOptions);
@@ -202,6 +463,53 @@ export function buildPdfToPngOptions(
     return { pdfFilePath, options };
 }
 
+/**
+ * Parses raw CLI flags for `--output-format tiff` into validated `NormalizedPdfToTiffOptions`
+ * plus the positional `pdfFilePath`; {@link executeTiffConversion} passes them straight to
+ * {@link pdfToTiffCore}. The file is named after the PDF.
+ */
+export function buildPdfToTiffOptions(
+    values: ParsedValues,
+    positionals: string[],
+): { pdfFilePath: string; options: NormalizedPdfToTiffOptions } {
+    const pdfFilePath = positionals[0];
+    if (!pdfFilePath) {
+        throw new Error('<pdf-file-path> is required.');
+    }
+
+    const imageOnlyFlag = IMAGE_ONLY_FLAGS.find((flag) => values[flag] !== undefined);
+    if (imageOnlyFlag !== undefined) {
+        throw new Error(`--${imageOnlyFlag} does not apply to --output-format tiff.`);
+    }
+    const outputFolder = values['output-folder'];
+    if (outputFolder === undefined) {
+        throw new Error('The CLI requires --output-folder for --output-format tiff.');
+    }
+
+    const options = normalizePdfToTiffOptions({
+        ...parseRenderFlags(values),
+        outputFolder,
+        // Passed through unchecked: normalizePdfToTiffOptions rejects unknown methods with the list of valid ones.
+        tiffCompression: values['tiff-compression'] as PdfToTiffOptions['tiffCompression'],
+    });
+    return { pdfFilePath, options };
+}
+
+export async function executeTiffConversion(
+    pdfFilePath: string,
+    options: NormalizedPdfToTiffOptions,
+    logInfo: (...msgs: unknown[]) => void,
+): Promise<void> {
+    try {
+        const output = await pdfToTiffCore(pdfFilePath, options);
+        logInfo(`Successfully wrote ${output.pages.length} page(s) to ${output.path}.`);
+    } catch (err: unknown) {
+        throw new Error(err instanceof Error ? err.message : String(err), {
+            cause: err,
+        });
+    }
+}
+
 export async function executeConversion(
     pdfFilePath: string,
     options: NormalizedPdfToPngOptions,
@@ -266,7 +574,8 @@ export function getVersion(): string {
  *
  * Parses `process.argv`, validates all options up-front through
  * {@link normalizePdfToPngOptions} via {@link buildPdfToPngOptions}, and delegates to
- * {@link pdfToPngCore}. Exported so it can be unit-tested without spawning a child process.
+ * {@link pdfToPngCore} — or, for `--output-format tiff`, through {@link buildPdfToTiffOptions}
+ * to {@link pdfToTiffCore}. Exported so it can be unit-tested without spawning a child process.
  */
 export async function run(): Promise<void> {
     const parseResult = safeParseArgs();
@@ -292,8 +601,16 @@ export async function run(): Promise<void> {
     }
 
     try {
-        const { pdfFilePath, options } = buildPdfToPngOptions(values, positionals);
         const logInfo = createLogger(values.silent);
+        if (values['output-format'] === 'tiff') {
+            const { pdfFilePath, options } = buildPdfToTiffOptions(values, positionals);
+            logInfo(`Processing PDF: ${pdfFilePath}`);
+            logInfo(`Output folder: ${options.outputFolder}`);
+            await executeTiffConversion(pdfFilePath, options, logInfo);
+            return;
+        }
+
+        const { pdfFilePath, options } = buildPdfToPngOptions(values, positionals);
         if (!options.returnMetadataOnly) {
             logInfo(`Processing PDF: ${pdfFilePath}`);
             if (options.outputFolder) {
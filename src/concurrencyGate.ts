@@ -0,0 +1,31 @@
+/**
+ * Caps how many tasks run at once across independent schedulers. `pdfToPngBatch` shares one
+ * between the documents it converts, so that `pageConcurrency` bounds the pages rendering in the
+ * whole batch however many documents' windows are open. Waiting tasks start in arrival order.
+ */
+export class ConcurrencyGate {
+    private running = 0;
+    private readonly waiting: (() => void)[] = [];
+
+    constructor(private readonly limit: number) {}
+
+    /** Runs `task` once fewer than `limit` tasks are running, and resolves or rejects with it. */
+    public async run<T>(task: () => Promise<T>): Promise<T> {
+        if (this.running < this.limit) {
+            this.running += 1;
+        } else {
+            // The task that finishes hands its slot straight over, so `running` stays put.
+            await new Promise<void>((resolve) => this.waiting.push(resolve));
+        }
+        try {
+            return await task();
+        } finally {
+            const next = this.waiting.shift();
+            if (next === undefined) {
+                this.running -= 1;
+            } else {
+                next();
+            }
+        }
+    }
+}
@@ -1,4 +1,17 @@
 import type { DocumentInitParameters } from 'pdfjs-dist/types/src/display/api';
+import type {
+    AnnotationRenderMode,
+    ColorMode,
+    OutputFormat,
+    PageBox,
+    PdfBatchOutputLayout,
+    PdfDownloadOptions,
+    PngCompressionOptions,
+    PngFilter,
+    PngMetadataOptions,
+    RenderIntent,
+    TiffCompression,
+} from './interfaces/index.js';
 
 /**
  * Maximum allowed value for `viewportScale`. Values above this limit would produce canvases
@@ -7,6 +20,9 @@ import type { DocumentInitParameters } from 'pdfjs-dist/types/src/display/api';
  */
 export const MAX_VIEWPORT_SCALE = 100;
 
+/** PDF user-space units per inch: page sizes are in points, so `dpi` maps to `viewportScale = dpi / 72`. */
+export const PDF_POINTS_PER_INCH = 72;
+
 /**
  * Maximum canvas area in pixels. At 4 bytes per pixel, 100 MP ≈ 400 MB of raw bitmap memory.
  * Any page whose rendered (floored) canvas area exceeds this limit is rejected before canvas
@@ -15,6 +31,12 @@ export const MAX_VIEWPORT_SCALE = 100;
  */
 export const MAX_CANVAS_PIXELS = 100_000_000;
 
+/**
+ * Maximum `tileSize`: a square tile of this edge is exactly `MAX_CANVAS_PIXELS`, so every tile
+ * canvas stays within the same pixel limit a whole page is held to.
+ */
+export const MAX_TILE_SIZE = 10_000;
+
 /**
  * Default upper bound on input PDF size in bytes. 256 MiB is a generous ceiling for legitimate
  * PDFs while keeping a single conversion well below typical service container memory limits.
@@ -45,12 +67,79 @@ export const MAX_CONCURRENCY_LIMIT = 16;
  */
 export const SEQUENTIAL_PIPELINE_WINDOW = 3;
 
+/**
+ * Filename extension (without the dot) used by default page names for each output format.
+ * JPEG uses the conventional three-letter `jpg` rather than the format name.
+ */
+export const OUTPUT_FORMAT_EXTENSIONS: Readonly<Record<OutputFormat, string>> = {
+    png: 'png',
+    jpeg: 'jpg',
+    webp: 'webp',
+};
+
+/**
+ * pdf.js's `AnnotationMode` value for each `AnnotationRenderMode`. pdf.js is loaded lazily, so its
+ * enum is mirrored here rather than imported.
+ */
+export const PDFJS_ANNOTATION_MODES: Readonly<Record<AnnotationRenderMode, number>> = {
+    disable: 0,
+    enable: 1,
+    'enable-forms': 2,
+    'enable-storage': 3,
+};
+
+/** Every `ColorMode`, in the order validation errors list them. */
+export const COLOR_MODES: readonly ColorMode[] = ['rgba', 'rgb', 'gray', 'bilevel'];
+
+/** Every `PngFilter`, in the order validation errors list them. */
+export const PNG_FILTERS: readonly PngFilter[] = ['none', 'sub', 'up', 'average', 'paeth', 'adaptive'];
+
+/**
+ * Compression used by this package's PNG encoder when `pngCompression` leaves a field unset, and
+ * for reduced `colorMode`s when it is not set at all. Level 6 is zlib's own default.
+ */
+export const PNG_COMPRESSION_DEFAULTS: Readonly<Required<PngCompressionOptions>> = {
+    level: 6,
+    filter: 'adaptive',
+};
+
+/** What `pngMetadata` writes for the fields it leaves unset; when it is unset, PNGs carry no metadata. */
+export const PNG_METADATA_DEFAULTS: Readonly<Required<PngMetadataOptions>> = {
+    resolution: false,
+    provenance: false,
+    text: {},
+};
+
+/** How a `URL` input is downloaded when `download` is unset, or for the fields it leaves unset. */
+export const PDF_DOWNLOAD_DEFAULTS: Readonly<Required<PdfDownloadOptions>> = {
+    timeoutMs: 30_000,
+    maxRedirects: 5,
+    headers: {},
+    allowedContentTypes: ['application/pdf'],
+};
+
+/** What `pdfToPngBatch` uses for the batch options left unset. */
+export const PDF_TO_PNG_BATCH_DEFAULTS = {
+    documentConcurrency: 2,
+    pageConcurrency: 4,
+    outputLayout: 'subfolders' as PdfBatchOutputLayout,
+};
+
+/** Every `TiffCompression`, in the order validation errors list them. */
+export const TIFF_COMPRESSIONS: readonly TiffCompression[] = ['none', 'lzw', 'deflate', 'g4'];
+
+/** Every `PageBox`, in the order validation errors list them. */
+export const PAGE_BOXES: readonly PageBox[] = ['MediaBox', 'CropBox', 'BleedBox', 'TrimBox', 'ArtBox'];
+
 /**
  * Default values applied to `PdfToPngOptions` fields that are not explicitly set by the caller.
  * These are also used as the source of truth for documented defaults in JSDoc comments on the type.
  */
 export const PDF_TO_PNG_OPTIONS_DEFAULTS = {
     viewportScale: 1,
+    pageBox: 'CropBox' as PageBox,
+    background: 'white',
+    renderIntent: 'display' as RenderIntent,
     disableFontFace: true,
     useSystemFonts: false,
     enableXfa: true,
@@ -59,6 +148,21 @@ export const PDF_TO_PNG_OPTIONS_DEFAULTS = {
     pdfFilePassword: undefined,
     concurrencyLimit: 4,
     maxInputBytes: MAX_INPUT_BYTES,
+    rangeLoading: false,
+    outputFormat: 'png' as OutputFormat,
+    /** Matches the Skia JPEG encoder's own default. */
+    jpegQuality: 92,
+    /** Matches the Skia WebP encoder's own default. */
+    webpQuality: 80,
+    colorMode: 'rgba' as ColorMode,
+    bilevelThreshold: 128,
+    dither: false,
+};
+
+/** Default values for `PdfRenderPoolOptions` fields that are not explicitly set by the caller. */
+export const PDF_RENDER_POOL_DEFAULTS = {
+    size: 4,
+    maxCachedDocuments: 4,
 };
 
 /**
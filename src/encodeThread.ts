@@ -0,0 +1,93 @@
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { Worker } from 'node:worker_threads';
+import type { EncodeRequest, EncodeResponse } from './interfaces/worker.protocol.js';
+
+/** `Omit` applied to each member of a union, so that every request kind keeps its own fields. */
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/** A request without its `id`, which the thread assigns. */
+type EncodeJob = DistributiveOmit<EncodeRequest, 'id'>;
+
+/**
+ * Locates the compiled encode worker entry, next to this file or, when this module runs from
+ * `src/` under vitest, in the repo's `out/` build — as `resolveWorkerEntryPath` does for the
+ * render worker.
+ */
+function resolveEncodeWorkerPath(): string {
+    const compiled = join(__dirname, 'encodeWorker.js');
+    if (existsSync(compiled)) {
+        return compiled;
+    }
+    return join(__dirname, '..', 'out', 'encodeWorker.js');
+}
+
+interface PendingEncode {
+    resolve: (encoded: Buffer) => void;
+    reject: (error: unknown) => void;
+}
+
+/**
+ * One worker thread, shared by every conversion in the process, that runs the per-byte image
+ * encoding the canvas cannot do natively (PNG filtering for `colorMode` and `pngCompression`, and
+ * the LZW and Group 4 strips of `pdfToTiff`), so that a large page does not block the main thread
+ * for the length of its encode. Requests are encoded one at a time, in arrival order.
+ *
+ * The worker starts on first use and is referenced only while encodes are pending, so an idle
+ * worker never keeps the process alive. If it dies, the pending encodes reject with its error and
+ * the next request starts a new one.
+ */
+class EncodeThread {
+    private worker: Worker | undefined;
+    private nextId = 0;
+    private readonly pending = new Map<number, PendingEncode>();
+
+    public encode(job: EncodeJob): Promise<Buffer> {
+        const worker = this.worker ?? this.start();
+        const id = this.nextId;
+        this.nextId += 1;
+        return new Promise<Buffer>((resolve, reject) => {
+            this.pending.set(id, { resolve, reject });
+            worker.ref();
+            worker.postMessage({ ...job, id } satisfies EncodeRequest);
+        });
+    }
+
+    private start(): Worker {
+        const worker = new Worker(resolveEncodeWorkerPath());
+        worker.on('message', (response: EncodeResponse) => {
+            const pending = this.pending.get(response.id);
+            this.pending.delete(response.id);
+            if (this.pending.size === 0) {
+                worker.unref();
+            }
+            if ('error' in response) {
+                pending?.reject(response.error);
+            } else {
+                const { encoded } = response;
+                pending?.resolve(Buffer.from(encoded.buffer, encoded.byteOffset, encoded.byteLength));
+            }
+        });
+        const fail = (error: unknown): void => {
+            if (this.worker === worker) {
+                this.worker = undefined;
+            }
+            for (const pending of this.pending.values()) {
+                pending.reject(error);
+            }
+            this.pending.clear();
+        };
+        worker.on('error', fail);
+        worker.on('exit', (code) => fail(new Error(`The encode worker exited unexpectedly with code ${code}`)));
+        worker.unref();
+        this.worker = worker;
+        return worker;
+    }
+}
+
+const encodeThread = new EncodeThread();
+
+/** Runs `job` on the shared encode worker and resolves with the encoded bytes. */
+export function encodeOnWorkerThread(job: EncodeJob): Promise<Buffer> {
+    return encodeThread.encode(job);
+}
@@ -0,0 +1,39 @@
+import { parentPort } from 'node:worker_threads';
+import type { EncodeRequest, EncodeResponse } from './interfaces/worker.protocol.js';
+import { encodePngSync } from './pngEncoder.js';
+import { compressTiffStripSync } from './tiffEncoder.js';
+
+/**
+ * Worker-thread entry of the shared encode worker; see `src/encodeThread.ts`. Encodes each request
+ * synchronously — this thread has nothing else to do — and answers with the bytes or the error.
+ *
+ * Runs only as a compiled artifact (`out/encodeWorker.js`), like `src/pageRenderWorker.ts`.
+ */
+
+if (parentPort === null) {
+    throw new Error('encodeWorker must be started as a worker thread.');
+}
+const port = parentPort;
+
+function encode(request: EncodeRequest): Buffer {
+    switch (request.kind) {
+        case 'png':
+            return encodePngSync(request.image, request.colorMode, request.options);
+        case 'tiff': {
+            // The structured clone delivers the pixels as a plain Uint8Array.
+            const { pixels } = request.image;
+            const image = { ...request.image, pixels: Buffer.from(pixels.buffer, pixels.byteOffset, pixels.byteLength) };
+            return compressTiffStripSync(image, request.compression);
+        }
+    }
+}
+
+port.on('message', (request: EncodeRequest) => {
+    let response: EncodeResponse;
+    try {
+        response = { id: request.id, encoded: encode(request) };
+    } catch (error: unknown) {
+        response = { id: request.id, error };
+    }
+    port.postMessage(response);
+});
@@ -0,0 +1,67 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { FormFieldValue } from './interfaces/index.js';
+
+/** The parts of a pdf.js field object (one per widget of a field) the form filler reads. */
+interface FieldWidget {
+    id: string;
+    type: string;
+    /** The widget's "on" appearance name; set only for checkboxes and radio buttons. */
+    exportValues?: string;
+}
+
+/** Resolves the value pdf.js stores for one widget, or throws when `value` does not fit the field. */
+function storageValueFor(name: string, widget: FieldWidget, value: FormFieldValue): string | boolean | string[] {
+    switch (widget.type) {
+        case 'text':
+            if (typeof value === 'string') {
+                return value;
+            }
+            break;
+        case 'checkbox':
+            if (typeof value === 'boolean') {
+                return value;
+            }
+            if (typeof value === 'string') {
+                return value === widget.exportValues;
+            }
+            break;
+        case 'radiobutton':
+            if (typeof value === 'string') {
+                return value === widget.exportValues;
+            }
+            break;
+        case 'combobox':
+        case 'listbox':
+            if (typeof value !== 'boolean') {
+                return value;
+            }
+            break;
+        default:
+            throw new Error(`Form field "${name}" (${widget.type}) cannot be given a value.`);
+    }
+    throw new Error(`Form field "${name}" (${widget.type}) cannot take the value ${JSON.stringify(value)}.`);
+}
+
+/**
+ * Writes `formValues` into the document's annotation storage, where pdf.js's `enable-storage`
+ * annotation mode reads them back when it draws each field's appearance.
+ *
+ * Checkboxes take a boolean (or the name of the state to turn on), radio buttons the name of the
+ * button to select, text fields a string and choice fields a string or, for multi-select list
+ * boxes, an array of strings. A name the form does not contain is an error rather than a no-op,
+ * so a misspelt field does not silently render blank.
+ */
+export async function fillFormFields(pdf: PDFDocumentProxy, formValues: Record<string, FormFieldValue>): Promise<void> {
+    const fields = ((await pdf.getFieldObjects()) ?? {}) as Record<string, FieldWidget[]>;
+    for (const [name, value] of Object.entries(formValues)) {
+        const widgets = Object.hasOwn(fields, name) ? fields[name] : undefined;
+        if (widgets === undefined) {
+            throw new Error(`Form field "${name}" does not exist in this PDF.`);
+        }
+        // A field with several widgets (a radio group, a checkbox placed twice) also lists its
+        // parent, typed '', which has no appearance of its own.
+        for (const widget of widgets.filter(({ type }) => type !== '')) {
+            pdf.annotationStorage.setValue(widget.id, { value: storageValueFor(name, widget, value) });
+        }
+    }
+}
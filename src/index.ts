@@ -1,3 +1,47 @@
+export { openPdf } from './openPdf.js';
+export { PdfRenderPool } from './pdfRenderPool.js';
 export { pdfToPng } from './pdfToPng.js';
-export type { PngPageOutput, PdfToPngOptions } from './interfaces/index.js';
+export { pdfToPngBatch } from './pdfToPngBatch.js';
+export { pdfToPngIterator } from './pdfToPngIterator.js';
+export { pdfToTiff } from './pdfToTiff.js';
+export type {
+    AnnotationRenderMode,
+    AnnotationRenderOptions,
+    ColorMode,
+    FormFieldValue,
+    ImageColorType,
+    LayerVisibility,
+    OpenPdfOptions,
+    OutputFormat,
+    PageBox,
+    PageClip,
+    PageSizingOptions,
+    PdfBatchConverted,
+    PdfBatchFailed,
+    PdfBatchInput,
+    PdfBatchOutputLayout,
+    PdfBatchResult,
+    PdfDocumentHandle,
+    PdfDownloadOptions,
+    PdfFileInput,
+    PdfLayer,
+    PdfRectangle,
+    PngPageOutput,
+    PngPageTile,
+    PdfRenderPoolOptions,
+    PdfStreamInput,
+    PdfToPngBatchOptions,
+    PdfToPngOptions,
+    PdfToPngProgress,
+    PdfToPngProgressStage,
+    PdfToTiffOptions,
+    PdfToTiffOutput,
+    PngCompressionOptions,
+    PngFilter,
+    PngMetadataOptions,
+    RenderIntent,
+    RenderPageOptions,
+    TiffCompression,
+    TiffPageOutput,
+} from './interfaces/index.js';
 export { VerbosityLevel } from './types/index.js';
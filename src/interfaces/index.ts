@@ -1,3 +1,42 @@
 export type { CanvasAndContext } from './canvas.and.context.js';
-export type { PdfToPngOptions } from './pdf.to.png.options.js';
-export type { FilePngPageOutput, InMemoryPngPageOutput, MetadataPngPageOutput, PageRotation, PngPageOutput } from './png.page.output.js';
+export type { PdfFileInput, PdfStreamInput } from './pdf.file.input.js';
+export type { OpenPdfOptions, PageSizingOptions, PdfDocumentHandle, PdfLayer, RenderPageOptions } from './pdf.document.handle.js';
+export type { PdfRenderPoolOptions } from './pdf.render.pool.options.js';
+export type {
+    PdfBatchConverted,
+    PdfBatchFailed,
+    PdfBatchInput,
+    PdfBatchOutputLayout,
+    PdfBatchResult,
+    PdfToPngBatchOptions,
+} from './pdf.to.png.batch.options.js';
+export type {
+    AnnotationRenderMode,
+    AnnotationRenderOptions,
+    ColorMode,
+    FormFieldValue,
+    LayerVisibility,
+    PageBox,
+    PageClip,
+    PdfDownloadOptions,
+    PdfToPngOptions,
+    PngCompressionOptions,
+    PngFilter,
+    PngMetadataOptions,
+    RenderIntent,
+} from './pdf.to.png.options.js';
+export type { PdfToPngProgress, PdfToPngProgressStage } from './pdf.to.png.progress.js';
+export type { PdfToTiffOptions, PdfToTiffOutput, TiffCompression, TiffPageOutput } from './pdf.to.tiff.options.js';
+export type {
+    FilePngPageOutput,
+    ImageColorType,
+    InMemoryPngPageOutput,
+    MetadataPngPageOutput,
+    OutputFormat,
+    PageRotation,
+    PdfRectangle,
+    PngPageOutput,
+    PngPageTile,
+    RawPixelsPngPageOutput,
+    TiledPngPageOutput,
+} from './png.page.output.js';
@@ -0,0 +1,88 @@
+import type { LayerVisibility, PdfToPngOptions } from './pdf.to.png.options.js';
+import type { InMemoryPngPageOutput, MetadataPngPageOutput } from './png.page.output.js';
+
+/**
+ * How a page is sized: a scale (`viewportScale` or `dpi`), or fitted to `targetWidth`,
+ * `targetHeight` and/or `maxDimension`, with the rules of `PdfToPngOptions`.
+ * @since 4.3.0
+ */
+export type PageSizingOptions = Pick<PdfToPngOptions, 'viewportScale' | 'dpi' | 'targetWidth' | 'targetHeight' | 'maxDimension'>;
+
+/**
+ * Options for `openPdf`: how the document is loaded, plus the rendering defaults its handle
+ * applies to every page. Each field has the meaning and default it has in `PdfToPngOptions`.
+ */
+export type OpenPdfOptions = PageSizingOptions &
+    Pick<
+        PdfToPngOptions,
+        | 'disableFontFace'
+        | 'useSystemFonts'
+        | 'enableXfa'
+        | 'pdfFilePassword'
+        | 'verbosityLevel'
+        | 'maxInputBytes'
+        | 'rangeLoading'
+        | 'download'
+        | 'pageBox'
+        | 'clip'
+        | 'background'
+        | 'annotations'
+        | 'optionalContent'
+        | 'renderIntent'
+        | 'outputFormat'
+        | 'jpegQuality'
+        | 'webpQuality'
+        | 'colorMode'
+        | 'bilevelThreshold'
+        | 'dither'
+        | 'pngCompression'
+        | 'pngMetadata'
+    >;
+
+/**
+ * Per-call overrides for `PdfDocumentHandle.renderPage` / `getPageMetadata`; unset fields fall back
+ * to the handle's `OpenPdfOptions`. Sizing is replaced as a whole: a call that sets any of the
+ * {@link PageSizingOptions} ignores the handle's.
+ */
+export type RenderPageOptions = PageSizingOptions & Pick<PdfToPngOptions, 'clip'>;
+
+/** A layer (optional content group) of a PDF, as listed by `PdfDocumentHandle.listLayers()`. @since 4.3.0 */
+export interface PdfLayer {
+    /** The layer's id (its object reference, e.g. `'12R'`), unique within the document. */
+    id: string;
+    /** The layer's display name; several layers may share one. */
+    name: string;
+    /** Whether the PDF shows the layer when no `optionalContent` option overrides it. */
+    defaultVisibility: LayerVisibility;
+}
+
+/**
+ * A PDF document loaded once by `openPdf`, from which pages can be rendered any number of
+ * times, at any scale, without re-reading or re-parsing the file.
+ *
+ * Calls may overlap. `close()` waits for calls already in progress, then destroys the pdf.js
+ * document; later calls reject. The handle implements `Symbol.asyncDispose`, so
+ * `await using doc = await openPdf(...)` closes it automatically.
+ */
+export interface PdfDocumentHandle {
+    /** Number of pages in the document. */
+    readonly numPages: number;
+
+    /**
+     * Returns the pixel dimensions and rotation page `pageNumber` (1-indexed) would render at,
+     * without rendering it — the same result `pdfToPng` gives with `returnMetadataOnly: true`.
+     */
+    getPageMetadata(pageNumber: number, options?: RenderPageOptions): Promise<MetadataPngPageOutput>;
+
+    /** Lists the document's layers in document order; empty when it has none. */
+    listLayers(): Promise<PdfLayer[]>;
+
+    /** Renders and encodes page `pageNumber` (1-indexed); `content` always holds the encoded image. */
+    renderPage(pageNumber: number, options?: RenderPageOptions): Promise<InMemoryPngPageOutput>;
+
+    /** Releases the document. Idempotent: every call returns the same promise. */
+    close(): Promise<void>;
+
+    /** Same as `close()`; called by `await using` when the handle goes out of scope. */
+    [Symbol.asyncDispose](): Promise<void>;
+}
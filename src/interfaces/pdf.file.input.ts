@@ -0,0 +1,21 @@
+import type { Readable } from 'node:stream';
+import type { ReadableStream } from 'node:stream/web';
+import type { URL } from 'node:url';
+
+/**
+ * A PDF delivered as a stream of bytes: a Node `Readable`, a web `ReadableStream` (such as a
+ * `fetch()` response body) or any async iterable of byte chunks. The stream is read to its end
+ * before the document is parsed, and destroyed if reading fails or the input turns out to exceed
+ * `maxInputBytes`. Chunks are kept until the end of the stream and copied once, so an async
+ * iterable must not reuse a chunk's memory after yielding it.
+ * @since 4.3.0
+ */
+export type PdfStreamInput = Readable | ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>;
+
+/**
+ * Every input shape the conversion functions accept: a path to a PDF file, its bytes, a stream of
+ * its bytes, or a `URL` — `file:` URLs are read as paths, `http:` and `https:` URLs are downloaded
+ * as `PdfToPngOptions.download` describes. A URL given as a string is a path, as before.
+ * @since 4.3.0
+ */
+export type PdfFileInput = string | URL | ArrayBufferLike | Uint8Array | PdfStreamInput;
@@ -0,0 +1,22 @@
+/** Options for constructing a `PdfRenderPool`. */
+export interface PdfRenderPoolOptions {
+    /**
+     * Maximum number of worker threads. Workers start on demand and then stay alive until
+     * `destroy()`; idle workers do not keep the process alive. Must be an integer between `1` and
+     * `16` (inclusive).
+     * Default: `4`.
+     * @since 4.3.0
+     */
+    size?: number;
+
+    /**
+     * How many loaded documents each worker keeps at once. A worker loads a conversion's document
+     * the first time it renders one of its pages and reuses it for the conversion's later pages;
+     * when conversions interleave on one worker, loading one document too many evicts the least
+     * recently used, which is reloaded if needed. Each cached document costs one copy of the PDF
+     * plus its parsed pdf.js state. Must be a positive integer.
+     * Default: `4`.
+     * @since 4.3.0
+     */
+    maxCachedDocuments?: number;
+}
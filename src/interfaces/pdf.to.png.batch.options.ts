@@ -0,0 +1,71 @@
+import type { PdfFileInput } from './pdf.file.input.js';
+import type { PdfToPngOptions } from './pdf.to.png.options.js';
+import type { PngPageOutput } from './png.page.output.js';
+
+/**
+ * One input of `pdfToPngBatch`: a PDF as `pdfToPng` takes it, or one with the name its output is
+ * filed under. The name must be a flat file name; by default it is the file name without its
+ * extension for path and `file:` URL inputs, and `buffer_<position>` (1-based) for the others.
+ * @since 4.3.0
+ */
+export type PdfBatchInput = PdfFileInput | { pdfFile: PdfFileInput; name?: string };
+
+/**
+ * Where a batch writes the pages of each input when `outputFolder` is set: `'subfolders'` writes
+ * them into `<outputFolder>/<name>/`, `'prefixed'` into `outputFolder` itself, with every page file
+ * name starting with `<name>_`.
+ * @since 4.3.0
+ */
+export type PdfBatchOutputLayout = 'subfolders' | 'prefixed';
+
+/**
+ * Options for `pdfToPngBatch`. Every input is converted with the `PdfToPngOptions` fields, which
+ * keep their meaning and defaults; page names default to `<name>_page_<n>.<ext>`. `concurrencyLimit`
+ * and `processPagesInParallel` shape each document's own window of pages, while `pageConcurrency`
+ * caps the pages rendering across the whole batch. `renderInWorkerThreads`, which would start a
+ * worker pool per document, is not available: share a `renderPool` between the documents instead.
+ * `onProgress` is not available either, since page counts are per document.
+ * @since 4.3.0
+ */
+export interface PdfToPngBatchOptions extends Omit<PdfToPngOptions, 'renderInWorkerThreads' | 'onProgress'> {
+    /** Number of documents converted at once, from 1 to `MAX_CONCURRENCY_LIMIT`. Default: `2`. */
+    documentConcurrency?: number;
+
+    /**
+     * Number of pages rendered at once across all documents of the batch, from 1 to
+     * `MAX_CONCURRENCY_LIMIT`. Cannot be combined with `renderPool`, whose size bounds the pages
+     * of every document sharing it. Default: `4`.
+     */
+    pageConcurrency?: number;
+
+    /** Where each input's pages are written when `outputFolder` is set. Default: `'subfolders'`. */
+    outputLayout?: PdfBatchOutputLayout;
+}
+
+/**
+ * An input of the batch that converted. `pages` are as `pdfToPng` returns them.
+ * @since 4.3.0
+ */
+export interface PdfBatchConverted {
+    kind: 'converted';
+    name: string;
+    /** Absolute folder the pages were written to; `undefined` without `outputFolder`. */
+    outputFolder: string | undefined;
+    pages: PngPageOutput[];
+}
+
+/**
+ * An input of the batch that failed, with the error `pdfToPng` would have rejected with. Pages
+ * written before the error stay on disk.
+ * @since 4.3.0
+ */
+export interface PdfBatchFailed {
+    kind: 'failed';
+    name: string;
+    /** Absolute folder the pages were to be written to; `undefined` without `outputFolder`. */
+    outputFolder: string | undefined;
+    error: Error;
+}
+
+/** The report on one input of `pdfToPngBatch`, discriminated by `kind`. @since 4.3.0 */
+export type PdfBatchResult = PdfBatchConverted | PdfBatchFailed;
@@ -1,4 +1,143 @@
+import type { PdfRenderPool } from '../pdfRenderPool.js';
 import type { VerbosityLevel } from '../types/index.js';
+import type { PdfToPngProgress } from './pdf.to.png.progress.js';
+import type { OutputFormat } from './png.page.output.js';
+
+/**
+ * A PDF page boundary (ISO 32000-1 §14.11.2). The CropBox is what viewers show; print-production
+ * files add a BleedBox (the trimmed page plus bleed), a TrimBox (the finished page) and an ArtBox
+ * (the meaningful content), all within the MediaBox (the whole sheet, crop marks included).
+ * @since 4.3.0
+ */
+export type PageBox = 'MediaBox' | 'CropBox' | 'BleedBox' | 'TrimBox' | 'ArtBox';
+
+/**
+ * A rectangle of each page to render instead of the whole page, measured from the top-left corner
+ * of the page as displayed: on the selected `pageBox`, with the page rotation applied.
+ * @since 4.3.0
+ */
+export interface PageClip {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /**
+     * `'points'`: PDF points (1/72 inch), independent of the render scale. `'fraction'`: fractions
+     * `0..1` of the page's width and height. Default: `'points'`.
+     */
+    units?: 'points' | 'fraction';
+}
+
+/**
+ * Which annotations are drawn onto the page image (pdf.js `AnnotationMode`):
+ * - `'disable'`: none.
+ * - `'enable'`: every annotation with an appearance, form fields as saved in the PDF.
+ * - `'enable-forms'`: for images shown under an interactive form layer; text and choice fields are
+ *   left blank for the layer to draw.
+ * - `'enable-storage'`: as `'enable'`, with form fields showing the `formValues` supplied.
+ * @since 4.3.0
+ */
+export type AnnotationRenderMode = 'disable' | 'enable' | 'enable-forms' | 'enable-storage';
+
+/**
+ * A value to show in a form field: a string for a text field, a radio group (the export value of
+ * the button to select) or a choice field; `true` / `false` to check or clear a checkbox (or a
+ * string to check the box with that export value); several strings for a multi-select list box.
+ * @since 4.3.0
+ */
+export type FormFieldValue = string | boolean | string[];
+
+/** How annotations and form fields are rendered. @since 4.3.0 */
+export interface AnnotationRenderOptions {
+    /** Default: `'enable-storage'` when `formValues` is set, `'enable'` otherwise. */
+    mode?: AnnotationRenderMode;
+    /**
+     * Form-field values to render instead of those saved in the PDF, keyed by fully qualified field
+     * name (e.g. `'applicant.name'`). The PDF itself is not changed. Requires the
+     * `'enable-storage'` mode; naming a field the PDF does not have throws.
+     */
+    formValues?: Record<string, FormFieldValue>;
+}
+
+/**
+ * What the page is rendered for: `'display'` shows it as a PDF viewer does on screen, `'print'` as
+ * a printer receives it. The two differ where the PDF says so — annotations flagged print-only or
+ * screen-only, and layers whose usage shows them only in print (a "COPY" watermark) or only on
+ * screen.
+ * @since 4.3.0
+ */
+export type RenderIntent = 'display' | 'print';
+
+/**
+ * The pixel format of PNG output:
+ * - `'rgba'`: 8-bit colour with an alpha channel, as rendered.
+ * - `'rgb'`: 8-bit colour without alpha.
+ * - `'gray'`: 8-bit grayscale.
+ * - `'bilevel'`: 1-bit black and white, cut at `bilevelThreshold` or dithered (`dither`).
+ * @since 4.3.0
+ */
+export type ColorMode = 'rgba' | 'rgb' | 'gray' | 'bilevel';
+
+/**
+ * The PNG filter applied to each scanline before compression (ISO/IEC 15948 §9): `'none'`,
+ * `'sub'`, `'up'`, `'average'` and `'paeth'` use that filter on every row; `'adaptive'` picks, row
+ * by row, the filter leaving the smallest sum of absolute differences, as libpng does.
+ * @since 4.3.0
+ */
+export type PngFilter = 'none' | 'sub' | 'up' | 'average' | 'paeth' | 'adaptive';
+
+/** How PNG output is compressed. @since 4.3.0 */
+export interface PngCompressionOptions {
+    /** zlib compression level, an integer from `0` (store only, fastest) to `9` (smallest). Default: `6`. */
+    level?: number;
+    /** Scanline filter. Default: `'adaptive'`. */
+    filter?: PngFilter;
+}
+
+/** What is written into each PNG besides the pixels. @since 4.3.0 */
+export interface PngMetadataOptions {
+    /**
+     * Write a `pHYs` chunk with the DPI the page was rendered at (`viewportScale × 72`), so DTP and
+     * GIS tools open the image at the page's physical size. Default: `false`.
+     */
+    resolution?: boolean;
+    /**
+     * Write text chunks recording where the image came from: `Source` (the input file name, for
+     * path inputs), `Title` and `Producer` (from the PDF's document information, when set) and
+     * `Page` (the page number). Default: `false`.
+     */
+    provenance?: boolean;
+    /**
+     * Further text chunks, keyword → value, written after the provenance. Keywords are 1–79
+     * Latin-1 characters without leading, trailing or repeated spaces. Values that are not
+     * Latin-1 are written as UTF-8 `iTXt` chunks, the others as `tEXt`.
+     */
+    text?: Record<string, string>;
+}
+
+/** How a `URL` input is downloaded. @since 4.3.0 */
+export interface PdfDownloadOptions {
+    /**
+     * Milliseconds the whole download — redirects included — may take before it is aborted.
+     * Default: `30000`.
+     */
+    timeoutMs?: number;
+    /** Redirects followed before the download fails; `0` follows none. Default: `5`. */
+    maxRedirects?: number;
+    /**
+     * Request headers, e.g. `authorization`. They are sent to the origin of the input URL only,
+     * and dropped once a redirect leads elsewhere. Default: none.
+     */
+    headers?: Record<string, string>;
+    /**
+     * Media types the response may have; any other `content-type`, or none, fails the download.
+     * Compared case-insensitively, without parameters. Default: `['application/pdf']`.
+     */
+    allowedContentTypes?: string[];
+}
+
+/** Whether a PDF layer (optional content group) is drawn. @since 4.3.0 */
+export type LayerVisibility = 'visible' | 'hidden';
 
 /**
  * Options for the `pdfToPng` conversion function.
@@ -16,6 +155,111 @@ export interface PdfToPngOptions {
      */
     viewportScale?: number;
 
+    /**
+     * Output resolution in dots per inch, an alternative to `viewportScale`: PDF page sizes are
+     * in points (72 per inch), so the page is rendered at `viewportScale = dpi / 72` — `72` is
+     * the default size, `300` renders an A4 page at about 2480×3508 px. Must be a finite positive
+     * number; the derived scale is bounded by the same maximum as `viewportScale` (`100`, i.e.
+     * `7200` dpi). Setting both `dpi` and `viewportScale` throws.
+     * @since 4.3.0
+     */
+    dpi?: number;
+
+    /**
+     * Scales each page, individually, to this width in pixels, keeping its aspect ratio — so a
+     * document mixing page sizes yields images of one width. Combine with `targetHeight` to fit
+     * pages inside a box, and/or with `maxDimension`; the most restrictive limit sets the page's
+     * scale. Measured on the page as displayed (rotation applied). Must be a positive integer;
+     * cannot be combined with `viewportScale` or `dpi`. A page whose fitted scale would exceed
+     * `100` throws. The scale used is reported as `viewportScale` on each `PngPageOutput`.
+     * @since 4.3.0
+     */
+    targetWidth?: number;
+
+    /**
+     * Scales each page, individually, to this height in pixels, keeping its aspect ratio. See
+     * `targetWidth` for how the limits combine. Must be a positive integer.
+     * @since 4.3.0
+     */
+    targetHeight?: number;
+
+    /**
+     * Scales each page, individually, so its longer edge is this many pixels, keeping its aspect
+     * ratio — uniform thumbnails for portrait and landscape pages alike. See `targetWidth` for
+     * how the limits combine. Must be a positive integer.
+     * @since 4.3.0
+     */
+    maxDimension?: number;
+
+    /**
+     * The page boundary that defines the rendered area. A box the page does not define falls back
+     * as the PDF specification says — the MediaBox to US Letter, the CropBox to the MediaBox, the
+     * others to the CropBox — and every box is clipped to the MediaBox. Fit-to-box sizing measures
+     * the selected box. Each `PngPageOutput` reports the rendered rectangle as `renderedRect`.
+     * Default: `'CropBox'`, the area PDF viewers display.
+     * @since 4.3.0
+     */
+    pageBox?: PageBox;
+
+    /**
+     * Renders only this rectangle of each page: the canvas is sized to the clip at the requested
+     * scale, so a small region can be rendered at a scale whose whole page would exceed the
+     * 100-megapixel canvas limit — the limit bounds the clip instead. The part of the clip beyond
+     * the page is cut off; a clip entirely outside a page throws. Fit-to-box sizing measures the
+     * clip, and `renderedRect` reports it in PDF user space. `x` and `y` must be at least `0`,
+     * `width` and `height` greater than `0`; a `'fraction'` clip must lie within `0..1`.
+     * @since 4.3.0
+     */
+    clip?: PageClip;
+
+    /**
+     * The colour the page is painted on before its content: `'white'`, `'transparent'` for a real
+     * alpha channel (to composite logos and stamps over other images), or any CSS colour, such as
+     * an off-white paper tone (`'#f8f5ee'`). JPEG has no alpha channel, so a background that is not
+     * fully opaque cannot be combined with `outputFormat: 'jpeg'`. Default: `'white'`.
+     * @since 4.3.0
+     */
+    background?: string;
+
+    /**
+     * Controls which annotations and form fields are drawn, and can fill in form fields for a
+     * filled-in preview of a form — `{ formValues: { name: 'Jane Doe', agree: true } }` — without
+     * changing the PDF. Default: every annotation with an appearance, form fields as saved.
+     * @since 4.3.0
+     */
+    annotations?: AnnotationRenderOptions;
+
+    /**
+     * Shows or hides PDF layers (optional content groups), such as the dimensions layer of a CAD
+     * drawing: `{ Dimensions: 'hidden' }`. Keys are layer names or ids, as listed by
+     * `PdfDocumentHandle.listLayers()`; a name shared by several layers switches all of them.
+     * Layers not listed keep the visibility the PDF gives them, and showing one layer of a
+     * radio-button set hides the others. A key that matches no layer throws.
+     * @since 4.3.0
+     */
+    optionalContent?: Record<string, LayerVisibility>;
+
+    /**
+     * Renders pages for `'print'` instead of `'display'`, so an archived copy matches what a
+     * printer produces: print-only annotations and watermarks appear and screen-only ones do not.
+     * Page dimensions do not depend on the intent. Default: `'display'`.
+     * @since 4.3.0
+     */
+    renderIntent?: RenderIntent;
+
+    /**
+     * Renders each page in square tiles of this many pixels per edge instead of one canvas, so
+     * pages above the 100-megapixel canvas limit (engineering drawings at print resolution) can be
+     * rendered: only one tile canvas per page is alive at a time, whatever the page size. Tiles on
+     * the right and bottom edges are cut to the page. Rendered pages are returned as
+     * `kind: 'tiles'` outputs listing each tile with its grid coordinates; with `outputFolder` set,
+     * each tile is written as `<name>_r<row>_c<column>.<ext>` (rows and columns count from `0`).
+     * Must be an integer between `1` and `10000`; cannot be combined with `renderInWorkerThreads` or
+     * `renderPool`.
+     * @since 4.3.0
+     */
+    tileSize?: number;
+
     /**
      * When `true`, pdfjs will not load embedded fonts and substitutes them with built-in fonts.
      * Speeds up rendering but may affect visual fidelity for PDFs with custom fonts.
@@ -60,11 +304,12 @@ export interface PdfToPngOptions {
     outputFolder?: string;
 
     /**
-     * Custom naming function for output PNG files.
-     * Receives the 1-based page number and must return a full filename string including the `.png` extension
-     * (e.g. `(pageNumber) => \`page_${pageNumber}.png\``).
-     * When omitted, names default to `<pdfBasename>_page_<pageNumber>.png`,
-     * or `buffer_page_<pageNumber>.png` when the PDF is supplied as an `ArrayBufferLike`.
+     * Custom naming function for output image files.
+     * Receives the 1-based page number and must return a full filename string including the extension
+     * (e.g. `(pageNumber) => \`page_${pageNumber}.png\``). The extension is not checked against `outputFormat`.
+     * When omitted, names default to `<pdfBasename>_page_<pageNumber>.<ext>`,
+     * or `buffer_page_<pageNumber>.<ext>` when the PDF is supplied as an `ArrayBufferLike`, where `<ext>`
+     * is `png`, `jpg` or `webp` according to `outputFormat`.
      * @since 3.14.0
      */
     outputFileMaskFunc?: (pageNumber: number) => string;
@@ -73,9 +318,17 @@ export interface PdfToPngOptions {
      * 1-based integer page numbers to convert. Non-integer values and values less than or equal to zero throw immediately.
      * Pages above the document page count are silently ignored.
      * When omitted, all pages in the document are processed.
+     *
+     * Since 4.3.0 it may also be a range expression, resolved against the page count: comma-separated
+     * pages (`8`), pages counted back from the end (`-2`, `last`), ranges (`1-5`, `-3--1`, and `10-`
+     * to the last page), and `odd` or `even`. `"1-5,8,10-"` converts pages 1 to 5, 8 and 10 to the
+     * end; `"1--3"` all but the last two. Pages are converted in the order the terms list them, and
+     * ranges are cut to the pages the document has. An invalid term throws immediately, naming the
+     * term and its position; so does a range that runs backwards (`9-3`), or from a page counted
+     * from the end to one counted from the start (`last-1`).
      * @since 3.3.0
      */
-    pagesToProcess?: number[];
+    pagesToProcess?: number[] | string;
 
     /**
      * pdfjs verbosity level. Use the `VerbosityLevel` const for readable values:
@@ -108,6 +361,20 @@ export interface PdfToPngOptions {
      */
     returnMetadataOnly?: boolean;
 
+    /**
+     * When `true`, pages are returned as `kind: 'pixels'` outputs holding the rendered pixels
+     * unencoded — `pixels`, `stride`, `width` and `height` — instead of an encoded image, for
+     * consumers that would only decode it again. `colorMode` picks the layout: `'rgba'` (the
+     * default), `'rgb'` or `'gray'`, 8 bits per channel, or `'bilevel'`, eight pixels per byte.
+     * In worker-thread modes the pixels are transferred to the main thread rather than copied.
+     * Cannot be combined with `returnMetadataOnly`, `returnPageContent: false`, `outputFolder`,
+     * `tileSize`, or the encoding options `pngCompression`, `pngMetadata` and an `outputFormat`
+     * other than `'png'`.
+     * Default: `false`.
+     * @since 4.3.0
+     */
+    returnRawPixels?: boolean;
+
     /**
      * When `true`, selected pages are rendered concurrently through a sliding-window scheduler
      * that keeps up to `concurrencyLimit` pages active. When `false`, pages are processed in
@@ -154,14 +421,145 @@ export interface PdfToPngOptions {
      */
     renderInWorkerThreads?: boolean;
 
+    /**
+     * Renders pages in this long-lived `PdfRenderPool` instead of a pool started (and torn down)
+     * for this conversion alone, so many conversions share warm worker threads and skip the
+     * per-conversion startup cost. Implies worker-thread rendering, with the same output,
+     * ordering and write guarantees as `renderInWorkerThreads`; `concurrencyLimit` caps how many
+     * of this conversion's pages occupy the pool's workers at once. Ignored when
+     * `returnMetadataOnly` is `true`. The pool is not destroyed when the conversion ends.
+     * @since 4.3.0
+     */
+    renderPool?: PdfRenderPool;
+
     /**
      * Maximum allowed input PDF size in bytes. Inputs larger than this throw immediately,
      * before any rendering work is started. Applies to both the file path branch (validated via
      * `fs.stat()`) and the buffer / `Uint8Array` branch (validated via `byteLength`). The path
      * branch additionally rejects non-regular files (FIFOs, sockets, character devices such as
-     * `/dev/zero`) to prevent unbounded reads. Must be a positive integer.
+     * `/dev/zero`) to prevent unbounded reads. Must be a positive integer. Stream inputs are
+     * checked as they are read. With `rangeLoading`, the file may be any size and the limit caps
+     * each range read from it instead.
      * Default: `256 * 1024 * 1024` (256 MiB).
      * @since 4.1.0
      */
     maxInputBytes?: number;
+
+    /**
+     * Reads a file path input on demand through pdf.js's range transport instead of loading the
+     * whole file first: only the byte ranges pdf.js asks for — the cross-reference data, the
+     * document catalog and the objects of the pages rendered — are read, so the first page of a
+     * multi-gigabyte scanned archive can be rendered without holding the archive in memory.
+     * `maxInputBytes` then caps each read rather than the file. Requires a file path input and the
+     * default `pageBox`, whose box data pdf.js provides (other boxes are read from the whole
+     * document), and cannot be combined with `renderInWorkerThreads` or `renderPool`, which hand
+     * each worker the document's bytes.
+     * Default: `false`.
+     * @since 4.3.0
+     */
+    rangeLoading?: boolean;
+
+    /**
+     * How a `URL` input with an `http:` or `https:` scheme is downloaded: the time limit, the
+     * redirects followed, request headers and the accepted content types. The body is read as a
+     * stream input is, so `maxInputBytes` fails the download as soon as it is exceeded — or before
+     * it starts, when the response declares a larger `content-length`. Error messages name the
+     * URL without its query string, which often carries a presigned signature.
+     * Default: `{ timeoutMs: 30000, maxRedirects: 5, allowedContentTypes: ['application/pdf'] }`.
+     * @since 4.3.0
+     */
+    download?: PdfDownloadOptions;
+
+    /**
+     * Image encoding for rendered pages: `'png'` (lossless), `'jpeg'` or `'webp'` (lossy).
+     * Lossy formats are typically several times smaller than PNG for scanned or photographic
+     * content; quality is set per format with `jpegQuality` / `webpQuality`. JPEG has no alpha
+     * channel. Each rendered `PngPageOutput` reports the encoding in its `format` field, and
+     * default filenames use the matching extension.
+     * Default: `'png'`.
+     * @since 4.3.0
+     */
+    outputFormat?: OutputFormat;
+
+    /**
+     * Encoder quality for `outputFormat: 'jpeg'`, an integer from `0` (smallest) to `100` (best).
+     * Ignored for other formats.
+     * Default: `92`.
+     * @since 4.3.0
+     */
+    jpegQuality?: number;
+
+    /**
+     * Encoder quality for `outputFormat: 'webp'`, an integer from `0` (smallest) to `100` (best).
+     * Ignored for other formats.
+     * Default: `80`.
+     * @since 4.3.0
+     */
+    webpQuality?: number;
+
+    /**
+     * Pixel format of PNG output. `'rgb'`, `'gray'` and `'bilevel'` reduce the rendered RGBA
+     * pixels before encoding — grayscale for OCR, 1-bit for fax — making text pages several times
+     * smaller. Each rendered `PngPageOutput` reports the resulting `bitDepth` and `colorType`.
+     * Modes other than `'rgba'` require `outputFormat: 'png'` and an opaque `background`.
+     * Default: `'rgba'`.
+     * @since 4.3.0
+     */
+    colorMode?: ColorMode;
+
+    /**
+     * For `colorMode: 'bilevel'`, the luma (`0..255`) from which a pixel becomes white; darker
+     * pixels become black. Must be an integer between `0` and `255`. Default: `128`.
+     * @since 4.3.0
+     */
+    bilevelThreshold?: number;
+
+    /**
+     * For `colorMode: 'bilevel'`, diffuses each pixel's rounding error to its neighbours
+     * (Floyd–Steinberg) so greys and images keep their tone as dot patterns, instead of cutting
+     * hard at `bilevelThreshold`. Default: `false`.
+     * @since 4.3.0
+     */
+    dither?: boolean;
+
+    /**
+     * Compression of PNG output: the zlib `level` and the scanline `filter`. Level `1` encodes
+     * several times faster for throughput-bound jobs; level `9` produces the smallest files for
+     * archival. When set, pages are encoded by this package's PNG encoder instead of the canvas's
+     * built-in one, which has a fixed level. Requires `outputFormat: 'png'`. Default: unset.
+     * @since 4.3.0
+     */
+    pngCompression?: PngCompressionOptions;
+
+    /**
+     * Metadata chunks written into each PNG: the render DPI (`pHYs`), provenance text and custom
+     * text, each opt-in. The page `content` and the file written to `outputFolder` hold the same
+     * bytes. Setting it requires `outputFormat: 'png'`. Default: unset, so PNGs carry no metadata.
+     * @since 4.3.0
+     */
+    pngMetadata?: PngMetadataOptions;
+
+    /**
+     * Cancels the conversion when aborted. No further pages are dispatched, in-flight pdf.js
+     * renders are cancelled, worker threads (in `renderInWorkerThreads` mode) are terminated and
+     * the pdf.js document is destroyed; the returned promise then rejects with an `Error` whose
+     * `name` is `'AbortError'` and whose `cause` is the signal's abort reason. A signal that is
+     * already aborted rejects before the input is read. Pages already written to disk are left
+     * in place.
+     * @since 4.3.0
+     */
+    signal?: AbortSignal;
+
+    /**
+     * Called on the main thread as each page finishes a stage — `'rendered'`, then `'encoded'`
+     * (when the encoded bytes are needed), then `'written'` (file output only) — with the page
+     * number, how many pages have completed, the total and the elapsed time. Fires in every
+     * rendering mode; in `renderInWorkerThreads` mode the workers relay each stage to the main
+     * thread as it happens. With parallel or worker rendering, events for different pages
+     * interleave and arrive in completion order, not page order; `completed` always counts up by
+     * one. Not called for `returnMetadataOnly` conversions, which render nothing. An exception
+     * thrown by the callback fails the page it was reporting on.
+     * @since 4.3.0
+     */
+    onProgress?: (progress: PdfToPngProgress) => void;
 }
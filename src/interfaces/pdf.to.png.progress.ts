@@ -0,0 +1,26 @@
+/**
+ * A step in a page's lifecycle, reported through `PdfToPngOptions.onProgress`:
+ * - `'rendered'` — the page has been rasterized onto its canvas.
+ * - `'encoded'` — the canvas has been encoded to the output format (skipped when the encoded
+ *   bytes are not needed: in-memory conversions with `returnPageContent: false`, and
+ *   `returnRawPixels`, which returns the pixels unencoded).
+ * - `'written'` — the encoded file has been written to `outputFolder` (file output only).
+ */
+export type PdfToPngProgressStage = 'rendered' | 'encoded' | 'written';
+
+/** One progress event, passed to `PdfToPngOptions.onProgress`. */
+export interface PdfToPngProgress {
+    /** Which step of the page's lifecycle just finished. */
+    stage: PdfToPngProgressStage;
+    /** 1-indexed page number the event is about. */
+    pageNumber: number;
+    /**
+     * Pages that have finished every stage that applies to the conversion, including this one
+     * when `stage` is its last. Increases by exactly one per page, reaching `total`.
+     */
+    completed: number;
+    /** Number of pages selected for the conversion (after `pagesToProcess` filtering). */
+    total: number;
+    /** Milliseconds since the conversion started, including loading the document. */
+    elapsedMs: number;
+}
@@ -0,0 +1,98 @@
+import type { PdfToPngOptions } from './pdf.to.png.options.js';
+import type { ImageColorType, PageRotation, PdfRectangle } from './png.page.output.js';
+
+/**
+ * Compression of each page of a multi-page TIFF: `'none'`, `'lzw'` (TIFF 6.0 LZW), `'deflate'`
+ * (zlib, "Adobe Deflate") or `'g4'` (CCITT Group 4 fax coding, bilevel pages only).
+ * @since 4.3.0
+ */
+export type TiffCompression = 'none' | 'lzw' | 'deflate' | 'g4';
+
+/**
+ * Options for `pdfToTiff`. The rendering, loading and scheduling fields have the meaning and
+ * default they have in `PdfToPngOptions`; `colorMode` picks the pixel format of every page.
+ * `onProgress` reports each page's `'rendered'` stage only: pages are appended to the file in
+ * page order as the rendering allows, and the file is complete when `pdfToTiff` resolves.
+ * @since 4.3.0
+ */
+export interface PdfToTiffOptions extends Pick<
+    PdfToPngOptions,
+    | 'viewportScale'
+    | 'dpi'
+    | 'targetWidth'
+    | 'targetHeight'
+    | 'maxDimension'
+    | 'pageBox'
+    | 'clip'
+    | 'background'
+    | 'annotations'
+    | 'optionalContent'
+    | 'renderIntent'
+    | 'disableFontFace'
+    | 'useSystemFonts'
+    | 'enableXfa'
+    | 'pdfFilePassword'
+    | 'pagesToProcess'
+    | 'verbosityLevel'
+    | 'processPagesInParallel'
+    | 'concurrencyLimit'
+    | 'renderInWorkerThreads'
+    | 'renderPool'
+    | 'maxInputBytes'
+    | 'rangeLoading'
+    | 'download'
+    | 'colorMode'
+    | 'bilevelThreshold'
+    | 'dither'
+    | 'signal'
+    | 'onProgress'
+> {
+    /**
+     * Folder the TIFF file is written to, created if missing. Required.
+     */
+    outputFolder: string;
+
+    /**
+     * Name of the TIFF file inside `outputFolder`: a flat filename, including its extension. The
+     * file is created exclusively, so an existing file of that name is never overwritten.
+     * Default: the PDF's file name with a `.tiff` extension, or `buffer.tiff` for buffer and stream inputs.
+     */
+    outputFileName?: string;
+
+    /**
+     * Compression of every page. `'g4'` requires `colorMode: 'bilevel'`.
+     * Default: `'g4'` for `colorMode: 'bilevel'`, `'lzw'` otherwise.
+     */
+    tiffCompression?: TiffCompression;
+}
+
+/**
+ * One page of a TIFF written by `pdfToTiff`, in the order the pages appear in the file.
+ * @since 4.3.0
+ */
+export interface TiffPageOutput {
+    pageNumber: number;
+    /** Image width in pixels. */
+    width: number;
+    /** Image height in pixels. */
+    height: number;
+    rotation: PageRotation;
+    /** The render scale, as on `PngPageOutput`; the page's resolution tags record `viewportScale` × 72 DPI. */
+    viewportScale: number;
+    /** The region of the page the image shows, as on `PngPageOutput`. */
+    renderedRect: PdfRectangle;
+    /** Bits per channel: `8`, or `1` for `colorMode: 'bilevel'`. */
+    bitDepth: 1 | 8;
+    colorType: ImageColorType;
+}
+
+/**
+ * The TIFF file `pdfToTiff` wrote.
+ * @since 4.3.0
+ */
+export interface PdfToTiffOutput {
+    /** Absolute path of the written file. */
+    path: string;
+    compression: TiffCompression;
+    pages: TiffPageOutput[];
+}
@@ -1,5 +1,30 @@
 export type PageRotation = 0 | 90 | 180 | 270;
 
+/**
+ * A rectangle in PDF user space, in points: `[x1, y1, x2, y2]` with `x1 < x2` and `y1 < y2`,
+ * measured on the unrotated page.
+ * @since 4.3.0
+ */
+export type PdfRectangle = [number, number, number, number];
+
+/** Image encoding of a rendered page. `png` is lossless; `jpeg` and `webp` are lossy and honour a quality setting. */
+export type OutputFormat = 'png' | 'jpeg' | 'webp';
+
+/**
+ * Colour type of an encoded page image: colour with alpha, colour, or grayscale (which, at a
+ * `bitDepth` of `1`, is black and white).
+ * @since 4.3.0
+ */
+export type ImageColorType = 'rgba' | 'rgb' | 'gray';
+
+/** Pixel format of an encoded page image. @since 4.3.0 */
+interface EncodedPixelFormat {
+    /** Bits per channel: `8`, or `1` for `colorMode: 'bilevel'`. */
+    bitDepth: 1 | 8;
+    /** `'rgb'` for JPEG, `'rgba'` for WebP and by `colorMode` for PNG. */
+    colorType: ImageColorType;
+}
+
 interface BasePngPageOutput {
     pageNumber: number;
     name: string;
@@ -8,6 +33,18 @@ interface BasePngPageOutput {
     /** Image height in pixels. Always an integer: a fractional viewport (scale × page height) is floored to match the rendered bitmap. */
     height: number;
     rotation: PageRotation;
+    /**
+     * The scale the page was rendered (or, for metadata, measured) at: `viewportScale`,
+     * `dpi / 72`, or the per-page scale fitted to `targetWidth` / `targetHeight` / `maxDimension`.
+     * @since 4.3.0
+     */
+    viewportScale: number;
+    /**
+     * The area of the page that was rendered (or, for metadata, measured): the rectangle of the
+     * selected `pageBox`, or of the `clip` within it.
+     * @since 4.3.0
+     */
+    renderedRect: PdfRectangle;
 }
 
 export interface MetadataPngPageOutput extends BasePngPageOutput {
@@ -16,16 +53,80 @@ export interface MetadataPngPageOutput extends BasePngPageOutput {
     path: '';
 }
 
-export interface InMemoryPngPageOutput extends BasePngPageOutput {
+export interface InMemoryPngPageOutput extends BasePngPageOutput, EncodedPixelFormat {
     kind: 'content';
+    /** Encoding of `content` (and of the written file, in file mode). */
+    format: OutputFormat;
     content: Buffer | undefined;
     path: '';
 }
 
-export interface FilePngPageOutput extends BasePngPageOutput {
+export interface FilePngPageOutput extends BasePngPageOutput, EncodedPixelFormat {
     kind: 'file';
+    /** Encoding of `content` (and of the written file, in file mode). */
+    format: OutputFormat;
+    content: Buffer | undefined;
+    path: string;
+}
+
+/**
+ * One tile of a page rendered with `tileSize`. `row` and `column` place it in the page's tile grid
+ * (counting from `0`); `x` and `y` are the pixel offset of its top-left corner in the page image.
+ * @since 4.3.0
+ */
+export interface PngPageTile {
+    row: number;
+    column: number;
+    x: number;
+    y: number;
+    /** Tile width in pixels: `tileSize`, or less for the last column. */
+    width: number;
+    /** Tile height in pixels: `tileSize`, or less for the last row. */
+    height: number;
+    /** `<page name>_r<row>_c<column>.<ext>`; the filename the tile is written under. */
+    name: string;
     content: Buffer | undefined;
+    /** Absolute path of the written tile, or `''` when no `outputFolder` is set. */
     path: string;
 }
 
-export type PngPageOutput = MetadataPngPageOutput | InMemoryPngPageOutput | FilePngPageOutput;
+/**
+ * A page rendered in tiles (`tileSize`). `width` and `height` are those of the whole page image;
+ * the image itself is split across `tiles`, in row-major order.
+ * @since 4.3.0
+ */
+export interface TiledPngPageOutput extends BasePngPageOutput, EncodedPixelFormat {
+    kind: 'tiles';
+    /** Encoding of every tile. */
+    format: OutputFormat;
+    content: undefined;
+    path: '';
+    /** Number of tile rows. */
+    rows: number;
+    /** Number of tile columns. */
+    columns: number;
+    tiles: PngPageTile[];
+}
+
+/**
+ * A page rendered with `returnRawPixels`: the canvas pixels as they are, without any encoding.
+ * @since 4.3.0
+ */
+export interface RawPixelsPngPageOutput extends BasePngPageOutput {
+    kind: 'pixels';
+    /** Bits per channel: `8`, or `1` for `colorMode: 'bilevel'`. */
+    bitDepth: 1 | 8;
+    /** Channels of each pixel in `pixels`: `'rgba'`, `'rgb'` or `'gray'` (also for `'bilevel'`), by `colorMode`. */
+    colorType: ImageColorType;
+    /**
+     * Pixels in row-major order from the top-left corner; colour is not premultiplied by alpha.
+     * Bilevel rows pack eight pixels per byte, most significant bit first, with `1` for white.
+     */
+    pixels: Buffer;
+    /** Bytes per row of `pixels`, with no padding: `width` × the bytes per pixel, or `ceil(width / 8)` when bilevel. */
+    stride: number;
+    content: undefined;
+    path: '';
+}
+
+export type PngPageOutput = MetadataPngPageOutput | InMemoryPngPageOutput | FilePngPageOutput | TiledPngPageOutput | RawPixelsPngPageOutput;
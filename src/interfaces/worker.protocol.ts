@@ -1,7 +1,23 @@
-import type { PageRotation } from './index.js';
+import type {
+    AnnotationRenderOptions,
+    ColorMode,
+    ImageColorType,
+    LayerVisibility,
+    OutputFormat,
+    PageBox,
+    PageClip,
+    PageRotation,
+    PdfRectangle,
+    PdfToPngProgressStage,
+    PngCompressionOptions,
+    PngMetadataOptions,
+    RenderIntent,
+} from './index.js';
+import type { PngEncodeOptions, RgbaImage } from '../pngEncoder.js';
+import type { TiffPageImage, TiffWorkerCompression } from '../tiffEncoder.js';
 
 /**
- * Message protocol between the worker-thread page pool (`src/workerPool.ts`, main thread) and
+ * Message protocol between the worker-thread page pool (`src/pdfRenderPool.ts`, main thread) and
  * the render worker entry (`src/pageRenderWorker.ts`, worker thread).
  *
  * Internal to the library — not exported from `src/index.ts`. All shapes must remain
@@ -17,40 +33,126 @@ import type { PageRotation } from './index.js';
  */
 export interface WorkerDocumentOptions {
     viewportScale?: number;
+    targetWidth?: number;
+    targetHeight?: number;
+    maxDimension?: number;
+    pageBox?: PageBox;
+    clip?: PageClip;
+    background?: string;
+    annotations?: AnnotationRenderOptions;
+    optionalContent?: Record<string, LayerVisibility>;
+    renderIntent?: RenderIntent;
     disableFontFace?: boolean;
     useSystemFonts?: boolean;
     enableXfa?: boolean;
     pdfFilePassword?: string;
     verbosityLevel?: number;
+    outputFormat?: OutputFormat;
+    jpegQuality?: number;
+    webpQuality?: number;
+    colorMode?: ColorMode;
+    bilevelThreshold?: number;
+    dither?: boolean;
+    pngCompression?: PngCompressionOptions;
+    pngMetadata?: PngMetadataOptions;
+    returnRawPixels?: boolean;
+    /**
+     * Not a `PdfToPngOptions` field: the input's file name, which the worker cannot know from the
+     * bytes it receives, for `pngMetadata.provenance`. Read by the worker directly.
+     */
+    sourceName?: string;
 }
 
-/** Passed once per worker via `workerData`. `pdfBuffer` is structured-cloned per worker. */
+/**
+ * Passed once per worker via `workerData`. Workers are document-agnostic: documents arrive with
+ * render requests, so one worker can serve many conversions over its lifetime.
+ */
 export interface WorkerInitData {
+    /**
+     * How many loaded documents the worker keeps. Loading one more evicts the least recently
+     * used; the pool mirrors the same LRU to know when a document must be re-sent.
+     */
+    maxCachedDocuments: number;
+}
+
+/** A document and its per-conversion render settings, as shipped to a worker. */
+export interface WorkerDocument {
+    /** The worker's private copy of the PDF; structured-cloned on every send. */
     pdfBuffer: Uint8Array;
     documentOptions: WorkerDocumentOptions;
     /** Whether rendered pages must materialize their PNG Buffer (file mode or returnPageContent). */
     materializeContent: boolean;
+    /** Whether to post a `PageProgressMessage` as each page is rendered and encoded. */
+    reportProgress: boolean;
 }
 
-/** Main → worker: render one page. The only request type; workers are stopped via terminate(). */
+/** Main → worker: render one page of a document. */
 export interface RenderPageRequest {
     type: 'render';
+    /** Pool-unique id of the document (one per conversion); the key of the worker's document cache. */
+    documentId: number;
+    /**
+     * Present exactly when the worker does not hold `documentId` yet (first page of the
+     * conversion on this worker, or after eviction); the worker loads and caches it.
+     */
+    document?: WorkerDocument;
     /** Position in the conversion's task list — results are re-assembled by this index. */
     index: number;
     pageNumber: number;
     pageName: string;
 }
 
-/** Worker → main: one page rendered successfully. `content.buffer` is transferred when safe. */
+/**
+ * Main → worker: the conversion owning `documentId` has finished; drop the document from the
+ * cache (it is destroyed once no render of it is in progress).
+ */
+export interface ReleaseDocumentRequest {
+    type: 'release';
+    documentId: number;
+}
+
+/** Every main → worker message. Workers are stopped via terminate(), never by message. */
+export type WorkerRequest = RenderPageRequest | ReleaseDocumentRequest;
+
+/** The unencoded pixels of a page rendered for `returnRawPixels`, and the bytes per row of `data`. */
+export interface RenderedPixels {
+    data: Uint8Array;
+    stride: number;
+}
+
+/** Worker → main: one page rendered successfully. */
 export interface RenderedPageMessage {
     type: 'result';
+    documentId: number;
     index: number;
     pageNumber: number;
     name: string;
     width: number;
     height: number;
     rotation: PageRotation;
+    viewportScale: number;
+    renderedRect: PdfRectangle;
+    format: OutputFormat;
+    bitDepth: 1 | 8;
+    colorType: ImageColorType;
     content: Uint8Array | undefined;
+    /**
+     * Set, with `content` unset, for `returnRawPixels`. Its `ArrayBuffer` is transferred, not
+     * copied: the worker allocates it itself and has no further use for it.
+     */
+    pixels?: RenderedPixels;
+}
+
+/**
+ * Worker → main: a page finished a stage inside the worker. Always posted before that page's
+ * result message, so the main thread sees the stages in order.
+ */
+export interface PageProgressMessage {
+    type: 'progress';
+    documentId: number;
+    index: number;
+    pageNumber: number;
+    stage: Exclude<PdfToPngProgressStage, 'written'>;
 }
 
 /**
@@ -61,14 +163,49 @@ export interface RenderedPageMessage {
  */
 export interface RenderErrorMessage {
     type: 'render-error';
+    documentId: number;
     index: number;
     error: unknown;
 }
 
-/** Worker → main: the worker cannot serve any page (e.g. document load failed). */
+/**
+ * Worker → main: the worker cannot serve any page of `documentId` (e.g. the document failed to
+ * load). Fatal for that conversion only; the worker keeps serving other documents.
+ */
 export interface FatalErrorMessage {
     type: 'fatal';
+    documentId: number;
     error: unknown;
 }
 
-export type WorkerResponse = RenderedPageMessage | RenderErrorMessage | FatalErrorMessage;
+export type WorkerResponse = RenderedPageMessage | PageProgressMessage | RenderErrorMessage | FatalErrorMessage;
+
+/**
+ * Main → encode worker (`src/encodeThread.ts` → `src/encodeWorker.ts`): one CPU-bound image
+ * encode, moved off the main thread. The pixels are copied by `postMessage`, so the caller may
+ * reuse its buffer.
+ */
+export type EncodeRequest = PngEncodeRequest | TiffStripEncodeRequest;
+
+/** A PNG encode of canvas pixels (`src/pngEncoder.ts`). */
+export interface PngEncodeRequest {
+    id: number;
+    kind: 'png';
+    image: RgbaImage;
+    colorMode: ColorMode;
+    options: PngEncodeOptions;
+}
+
+/** An LZW or Group 4 TIFF strip (`src/tiffEncoder.ts`); Deflate strips go to zlib's own thread pool instead. */
+export interface TiffStripEncodeRequest {
+    id: number;
+    kind: 'tiff';
+    image: TiffPageImage;
+    compression: TiffWorkerCompression;
+}
+
+/**
+ * Encode worker → main: the encoded bytes of request `id` (a `Uint8Array` — a `Buffer` loses its
+ * prototype in the structured clone), or the error it threw.
+ */
+export type EncodeResponse = { id: number; encoded: Uint8Array } | { id: number; error: unknown };
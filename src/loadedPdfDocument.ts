@@ -0,0 +1,126 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { OptionalContentConfig } from 'pdfjs-dist/types/src/display/optional_content_config';
+import type {
+    InMemoryPngPageOutput,
+    MetadataPngPageOutput,
+    OpenPdfOptions,
+    PageSizingOptions,
+    PdfDocumentHandle,
+    PdfLayer,
+    RenderPageOptions,
+} from './interfaces/index.js';
+import type { NormalizedPdfToPngOptions } from './normalizePdfToPngOptions.js';
+import { normalizePdfToPngOptions } from './normalizePdfToPngOptions.js';
+import { listLayers } from './optionalContent.js';
+import { resolvePageName } from './pageOrchestrator.js';
+import { getPageMetadata, renderPdfPage, resolvePageEncoding, resolvePageScaling } from './pageRenderer.js';
+import type { PngMetadata } from './pngMetadata.js';
+
+/**
+ * The `PdfDocumentHandle` returned by `openPdf`. Owns one pdf.js document for its whole life and
+ * renders pages through the same `renderPdfPage` / `getPageMetadata` calls as `pdfToPng`, so a
+ * page rendered here is byte-identical to the same page converted by `pdfToPng`.
+ */
+export class LoadedPdfDocument implements PdfDocumentHandle {
+    private readonly inFlight = new Set<Promise<unknown>>();
+    private closePromise: Promise<void> | undefined;
+
+    /**
+     * @param options - The caller's `openPdf` options, already validated once by `openPdf`. They
+     *   are re-normalized per call together with that call's overrides, keeping
+     *   `normalizePdfToPngOptions` the single validation boundary.
+     * @param defaultMask - Base of the page names, as in `pdfToPng` (the input file name, or the
+     *   default mask for buffer inputs).
+     * @param optionalContent - The layer visibility resolved from `options.optionalContent` when
+     *   the document was opened; `undefined` renders the document's default layers.
+     * @param pngMetadata - The metadata chunks resolved from `options.pngMetadata` when the document
+     *   was opened; `undefined` for `jpeg` and `webp` output.
+     */
+    constructor(
+        private readonly pdfDocument: PDFDocumentProxy,
+        private readonly options: OpenPdfOptions,
+        private readonly defaultMask: string,
+        private readonly optionalContent: OptionalContentConfig | undefined,
+        private readonly pngMetadata: PngMetadata | undefined,
+    ) {}
+
+    public get numPages(): number {
+        return this.pdfDocument.numPages;
+    }
+
+    public async getPageMetadata(pageNumber: number, options?: RenderPageOptions): Promise<MetadataPngPageOutput> {
+        return await this.track(async () => {
+            const normalizedOptions = this.normalizeFor(pageNumber, options);
+            return await getPageMetadata(this.pdfDocument, this.pageName(pageNumber, normalizedOptions), pageNumber, {
+                scaling: resolvePageScaling(normalizedOptions),
+                pageBox: normalizedOptions.pageBox,
+                clip: normalizedOptions.clip,
+            });
+        });
+    }
+
+    public async listLayers(): Promise<PdfLayer[]> {
+        return await this.track(async () => await listLayers(this.pdfDocument));
+    }
+
+    public async renderPage(pageNumber: number, options?: RenderPageOptions): Promise<InMemoryPngPageOutput> {
+        return await this.track(async () => {
+            const normalizedOptions = this.normalizeFor(pageNumber, options);
+            return await renderPdfPage(this.pdfDocument, this.pageName(pageNumber, normalizedOptions), pageNumber, true, {
+                scaling: resolvePageScaling(normalizedOptions),
+                pageBox: normalizedOptions.pageBox,
+                clip: normalizedOptions.clip,
+                background: normalizedOptions.background,
+                annotationMode: normalizedOptions.annotationMode,
+                optionalContent: this.optionalContent,
+                renderIntent: normalizedOptions.renderIntent,
+                encoding: resolvePageEncoding(normalizedOptions),
+                pngMetadata: this.pngMetadata,
+            });
+        });
+    }
+
+    public close(): Promise<void> {
+        this.closePromise ??= (async (): Promise<void> => {
+            await Promise.allSettled([...this.inFlight]);
+            await this.pdfDocument.loadingTask.destroy();
+        })();
+        return this.closePromise;
+    }
+
+    public async [Symbol.asyncDispose](): Promise<void> {
+        await this.close();
+    }
+
+    /** Runs one page operation, rejecting once the handle is closing and letting `close()` wait for it. */
+    private async track<T>(operation: () => Promise<T>): Promise<T> {
+        if (this.closePromise !== undefined) {
+            throw new Error('The PDF document handle is closed.');
+        }
+        const pending = operation();
+        this.inFlight.add(pending);
+        try {
+            return await pending;
+        } finally {
+            this.inFlight.delete(pending);
+        }
+    }
+
+    private normalizeFor(pageNumber: number, options: RenderPageOptions | undefined): NormalizedPdfToPngOptions {
+        if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > this.numPages) {
+            throw new Error(`pageNumber must be an integer between 1 and ${this.numPages}, received: ${pageNumber}`);
+        }
+        const { viewportScale, dpi, targetWidth, targetHeight, maxDimension } = options ?? {};
+        const sizing: PageSizingOptions = { viewportScale, dpi, targetWidth, targetHeight, maxDimension };
+        const sizedPerCall = Object.values(sizing).some((value) => value !== undefined);
+        return normalizePdfToPngOptions({
+            ...this.options,
+            ...(sizedPerCall ? sizing : {}),
+            clip: options?.clip ?? this.options.clip,
+        });
+    }
+
+    private pageName(pageNumber: number, normalizedOptions: NormalizedPdfToPngOptions): string {
+        return resolvePageName(pageNumber, this.defaultMask, undefined, normalizedOptions.outputFormat);
+    }
+}
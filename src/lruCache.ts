@@ -0,0 +1,50 @@
+/**
+ * A minimal least-recently-used map with a fixed capacity, built on `Map`'s insertion order.
+ *
+ * Used on both sides of the render-worker protocol: each worker caches its loaded documents in
+ * one, and `PdfRenderPool` keeps an identical mirror per worker (keys only). Both sides apply the
+ * same operations in the same message order, so the pool always knows — without a round trip —
+ * whether a worker still holds a document or needs its bytes again.
+ */
+export class LruCache<K, V> {
+    private readonly entries = new Map<K, V>();
+
+    constructor(private readonly capacity: number) {}
+
+    /** Returns the entry and marks it most recently used. */
+    public get(key: K): V | undefined {
+        const value = this.entries.get(key);
+        if (value !== undefined) {
+            this.entries.delete(key);
+            this.entries.set(key, value);
+        }
+        return value;
+    }
+
+    /** Whether the key is present, without marking it used. */
+    public has(key: K): boolean {
+        return this.entries.has(key);
+    }
+
+    /** Inserts (or replaces) an entry as most recently used; returns the entries evicted to make room. */
+    public set(key: K, value: V): V[] {
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        const evicted: V[] = [];
+        for (const [oldestKey, oldestValue] of this.entries) {
+            if (this.entries.size <= this.capacity) {
+                break;
+            }
+            this.entries.delete(oldestKey);
+            evicted.push(oldestValue);
+        }
+        return evicted;
+    }
+
+    /** Removes an entry without touching the others; returns it, if it was present. */
+    public delete(key: K): V | undefined {
+        const value = this.entries.get(key);
+        this.entries.delete(key);
+        return value;
+    }
+}
@@ -1,32 +1,390 @@
-import { MAX_CONCURRENCY_LIMIT, MAX_VIEWPORT_SCALE, PDF_TO_PNG_OPTIONS_DEFAULTS } from './const.js';
+import { createCanvas, type SKRSContext2D } from '@napi-rs/canvas';
+import {
+    COLOR_MODES,
+    MAX_CONCURRENCY_LIMIT,
+    MAX_TILE_SIZE,
+    MAX_VIEWPORT_SCALE,
+    OUTPUT_FORMAT_EXTENSIONS,
+    PAGE_BOXES,
+    PDF_DOWNLOAD_DEFAULTS,
+    PDF_POINTS_PER_INCH,
+    PDF_TO_PNG_BATCH_DEFAULTS,
+    PDF_TO_PNG_OPTIONS_DEFAULTS,
+    PDFJS_ANNOTATION_MODES,
+    PNG_COMPRESSION_DEFAULTS,
+    PNG_FILTERS,
+    PNG_METADATA_DEFAULTS,
+    TIFF_COMPRESSIONS,
+} from './const.js';
+import { containsPathSeparator, SEPARATOR_DESCRIPTION } from './flatFilename.js';
+import type {
+    AnnotationRenderMode,
+    AnnotationRenderOptions,
+    ColorMode,
+    FormFieldValue,
+    LayerVisibility,
+    OutputFormat,
+    PageBox,
+    PageClip,
+    PdfBatchOutputLayout,
+    PdfDownloadOptions,
+    PdfToPngProgress,
+    PngCompressionOptions,
+    PngFilter,
+    PngMetadataOptions,
+    RenderIntent,
+    TiffCompression,
+} from './interfaces/index.js';
+import type { PdfToPngBatchOptions } from './interfaces/pdf.to.png.batch.options.js';
 import type { PdfToPngOptions } from './interfaces/pdf.to.png.options.js';
+import type { PdfToTiffOptions } from './interfaces/pdf.to.tiff.options.js';
+import type { PageRangeExpression } from './pageRanges.js';
+import { parsePageRanges } from './pageRanges.js';
+import { PdfRenderPool } from './pdfRenderPool.js';
 import { VerbosityLevel } from './types/verbosity.level.js';
 
 export interface NormalizedPdfToPngOptions {
     viewportScale: number;
+    targetWidth: number | undefined;
+    targetHeight: number | undefined;
+    maxDimension: number | undefined;
+    pageBox: PageBox;
+    clip: Required<PageClip> | undefined;
+    background: string;
+    annotationMode: AnnotationRenderMode;
+    formValues: Record<string, FormFieldValue> | undefined;
+    optionalContent: Record<string, LayerVisibility> | undefined;
+    renderIntent: RenderIntent;
+    tileSize: number | undefined;
     disableFontFace: boolean;
     useSystemFonts: boolean;
     enableXfa: boolean;
     pdfFilePassword: string | undefined;
     outputFolder: string | undefined;
     outputFileMaskFunc: ((pageNumber: number) => string) | undefined;
-    pagesToProcess: number[] | undefined;
+    pagesToProcess: number[] | PageRangeExpression | undefined;
     verbosityLevel: VerbosityLevel;
     returnPageContent: boolean;
     returnMetadataOnly: boolean;
+    returnRawPixels: boolean;
     processPagesInParallel: boolean;
     renderInWorkerThreads: boolean;
+    renderPool: PdfRenderPool | undefined;
     concurrencyLimit: number;
     maxInputBytes: number;
+    rangeLoading: boolean;
+    download: Required<PdfDownloadOptions>;
+    outputFormat: OutputFormat;
+    jpegQuality: number;
+    webpQuality: number;
+    colorMode: ColorMode;
+    bilevelThreshold: number;
+    dither: boolean;
+    pngCompression: Required<PngCompressionOptions> | undefined;
+    /** Unset for `jpeg` and `webp` output, which carry no PNG chunks, and for `returnRawPixels`. */
+    pngMetadata: Required<PngMetadataOptions> | undefined;
+    signal: AbortSignal | undefined;
+    onProgress: ((progress: PdfToPngProgress) => void) | undefined;
 }
 
-export function normalizePdfToPngOptions(props: PdfToPngOptions | undefined): NormalizedPdfToPngOptions {
-    const viewportScale: number = props?.viewportScale ?? PDF_TO_PNG_OPTIONS_DEFAULTS.viewportScale;
-    if (typeof viewportScale !== 'number' || !Number.isFinite(viewportScale) || viewportScale <= 0 || viewportScale > MAX_VIEWPORT_SCALE) {
+function isOutputFormat(value: unknown): value is OutputFormat {
+    return typeof value === 'string' && Object.hasOwn(OUTPUT_FORMAT_EXTENSIONS, value);
+}
+
+function isPageBox(value: unknown): value is PageBox {
+    return PAGE_BOXES.some((box) => box === value);
+}
+
+function isTiffCompression(value: unknown): value is TiffCompression {
+    return TIFF_COMPRESSIONS.includes(value as TiffCompression);
+}
+
+function isColorMode(value: unknown): value is ColorMode {
+    return COLOR_MODES.some((mode) => mode === value);
+}
+
+function validateQuality(name: string, quality: number): number {
+    if (!Number.isInteger(quality) || quality < 0 || quality > 100) {
+        throw new Error(`${name} must be an integer between 0 and 100, received: ${quality}`);
+    }
+    return quality;
+}
+
+/** Resolves the effective viewport scale from `viewportScale` or `dpi` (never both). */
+function resolveViewportScale(props: PdfToPngOptions | undefined): number {
+    const dpi: unknown = props?.dpi;
+    if (dpi === undefined) {
+        const viewportScale: number = props?.viewportScale ?? PDF_TO_PNG_OPTIONS_DEFAULTS.viewportScale;
+        if (
+            typeof viewportScale !== 'number' ||
+            !Number.isFinite(viewportScale) ||
+            viewportScale <= 0 ||
+            viewportScale > MAX_VIEWPORT_SCALE
+        ) {
+            throw new Error(
+                `viewportScale must be a finite number greater than 0 and at most ${MAX_VIEWPORT_SCALE}, received: ${viewportScale}`,
+            );
+        }
+        return viewportScale;
+    }
+
+    if (props?.viewportScale !== undefined) {
+        throw new Error('dpi and viewportScale cannot both be set; use one or the other');
+    }
+    // The derived scale is held to the same MAX_VIEWPORT_SCALE bound as an explicit viewportScale.
+    const maxDpi = MAX_VIEWPORT_SCALE * PDF_POINTS_PER_INCH;
+    if (typeof dpi !== 'number' || !Number.isFinite(dpi) || dpi <= 0 || dpi > maxDpi) {
         throw new Error(
-            `viewportScale must be a finite number greater than 0 and at most ${MAX_VIEWPORT_SCALE}, received: ${viewportScale}`,
+            `dpi must be a finite number greater than 0 and at most ${maxDpi} (viewportScale ${MAX_VIEWPORT_SCALE}), received: ${String(dpi)}`,
         );
     }
+    return dpi / PDF_POINTS_PER_INCH;
+}
+
+let colourProbe: SKRSContext2D | undefined;
+
+/**
+ * Whether `value` is a CSS colour the canvas accepts. A canvas ignores an invalid `fillStyle`, so
+ * a colour is valid when assigning it over two different colours yields the same style both times.
+ */
+function isCssColour(value: unknown): value is string {
+    if (typeof value !== 'string') {
+        return false;
+    }
+    colourProbe ??= createCanvas(1, 1).getContext('2d');
+    colourProbe.fillStyle = '#000000';
+    colourProbe.fillStyle = value;
+    const overBlack = colourProbe.fillStyle;
+    colourProbe.fillStyle = '#ffffff';
+    colourProbe.fillStyle = value;
+    return colourProbe.fillStyle === overBlack;
+}
+
+/**
+ * Whether a valid CSS `colour` is fully opaque. The canvas keeps `fillStyle` as written, so the
+ * alpha is read back from a pixel painted with it: `'TRANSPARENT'`, `'#0000'` and
+ * `'rgba(255,255,255,0.5)'` are all caught, not just the `'transparent'` keyword.
+ */
+function isOpaqueColour(colour: string): boolean {
+    colourProbe ??= createCanvas(1, 1).getContext('2d');
+    colourProbe.clearRect(0, 0, 1, 1);
+    colourProbe.fillStyle = colour;
+    colourProbe.fillRect(0, 0, 1, 1);
+    return colourProbe.getImageData(0, 0, 1, 1).data[3] === 255;
+}
+
+function validateClip(clip: PageClip | undefined): Required<PageClip> | undefined {
+    if (clip === undefined) {
+        return undefined;
+    }
+    if (typeof clip !== 'object' || clip === null) {
+        throw new Error('clip must be an object with x, y, width and height');
+    }
+    const units: unknown = clip.units ?? 'points';
+    if (units !== 'points' && units !== 'fraction') {
+        throw new Error(`clip.units must be 'points' or 'fraction', received: ${String(units)}`);
+    }
+    const { x, y, width, height } = clip;
+    for (const [name, value] of [
+        ['x', x],
+        ['y', y],
+        ['width', width],
+        ['height', height],
+    ] as const) {
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            throw new Error(`clip.${name} must be a finite number, received: ${String(value)}`);
+        }
+    }
+    if (x < 0 || y < 0 || width <= 0 || height <= 0) {
+        throw new Error(`clip must have x and y of at least 0 and a positive width and height, received: ${x}, ${y}, ${width}, ${height}`);
+    }
+    if (units === 'fraction' && (x + width > 1 || y + height > 1)) {
+        throw new Error(`A fraction clip must lie within 0..1 of the page, received: ${x}, ${y}, ${width}, ${height}`);
+    }
+    return { x, y, width, height, units };
+}
+
+function isFormFieldValue(value: unknown): value is FormFieldValue {
+    return (
+        typeof value === 'string' ||
+        typeof value === 'boolean' ||
+        (Array.isArray(value) && value.every((item: unknown) => typeof item === 'string'))
+    );
+}
+
+function validateAnnotations(
+    annotations: AnnotationRenderOptions | undefined,
+): Pick<NormalizedPdfToPngOptions, 'annotationMode' | 'formValues'> {
+    const formValues: unknown = annotations?.formValues;
+    const mode: unknown = annotations?.mode ?? (formValues === undefined ? 'enable' : 'enable-storage');
+    if (typeof mode !== 'string' || !Object.hasOwn(PDFJS_ANNOTATION_MODES, mode)) {
+        throw new Error(`annotations.mode must be one of ${Object.keys(PDFJS_ANNOTATION_MODES).join(', ')}, received: ${String(mode)}`);
+    }
+    if (formValues === undefined) {
+        return { annotationMode: mode as AnnotationRenderMode, formValues: undefined };
+    }
+    if (typeof formValues !== 'object' || formValues === null || Array.isArray(formValues)) {
+        throw new Error('annotations.formValues must be an object mapping field names to values');
+    }
+    for (const [name, value] of Object.entries(formValues)) {
+        if (!isFormFieldValue(value)) {
+            throw new Error(`annotations.formValues["${name}"] must be a string, a boolean or an array of strings`);
+        }
+    }
+    if (mode !== 'enable-storage') {
+        throw new Error(`annotations.formValues are only rendered in the 'enable-storage' mode, received mode: ${mode}`);
+    }
+    return { annotationMode: mode, formValues: formValues as Record<string, FormFieldValue> };
+}
+
+function validateOptionalContent(optionalContent: unknown): Record<string, LayerVisibility> | undefined {
+    if (optionalContent === undefined) {
+        return undefined;
+    }
+    if (typeof optionalContent !== 'object' || optionalContent === null || Array.isArray(optionalContent)) {
+        throw new Error('optionalContent must be an object mapping layer names or ids to visibility');
+    }
+    for (const [layer, visibility] of Object.entries(optionalContent)) {
+        if (visibility !== 'visible' && visibility !== 'hidden') {
+            throw new Error(`optionalContent["${layer}"] must be 'visible' or 'hidden', received: ${String(visibility)}`);
+        }
+    }
+    return optionalContent as Record<string, LayerVisibility>;
+}
+
+function validatePngCompression(pngCompression: unknown, outputFormat: OutputFormat): Required<PngCompressionOptions> | undefined {
+    if (pngCompression === undefined) {
+        return undefined;
+    }
+    if (typeof pngCompression !== 'object' || pngCompression === null || Array.isArray(pngCompression)) {
+        throw new Error('pngCompression must be an object with optional level and filter fields');
+    }
+    const { level = PNG_COMPRESSION_DEFAULTS.level, filter = PNG_COMPRESSION_DEFAULTS.filter } = pngCompression as PngCompressionOptions;
+    if (!Number.isInteger(level) || level < 0 || level > 9) {
+        throw new Error(`pngCompression.level must be an integer between 0 and 9, received: ${level}`);
+    }
+    if (!PNG_FILTERS.some((known) => known === filter)) {
+        throw new Error(`pngCompression.filter must be one of ${PNG_FILTERS.join(', ')}, received: ${String(filter)}`);
+    }
+    if (outputFormat !== 'png') {
+        throw new Error(`pngCompression requires outputFormat 'png', received: ${outputFormat}`);
+    }
+    return { level, filter: filter as PngFilter };
+}
+
+/** Whether `keyword` is a valid PNG text keyword: 1–79 printable Latin-1 characters, spaces only singly and inside. */
+function isPngKeyword(keyword: string): boolean {
+    return keyword.length <= 79 && /^[\x21-\x7e\xa1-\xff]( ?[\x21-\x7e\xa1-\xff])*$/u.test(keyword);
+}
+
+function validatePngMetadata(pngMetadata: unknown, outputFormat: OutputFormat): Required<PngMetadataOptions> | undefined {
+    if (pngMetadata === undefined) {
+        return undefined;
+    }
+    if (typeof pngMetadata !== 'object' || pngMetadata === null || Array.isArray(pngMetadata)) {
+        throw new Error('pngMetadata must be an object with optional resolution, provenance and text fields');
+    }
+    const {
+        resolution = PNG_METADATA_DEFAULTS.resolution,
+        provenance = PNG_METADATA_DEFAULTS.provenance,
+        text = PNG_METADATA_DEFAULTS.text,
+    } = pngMetadata as PngMetadataOptions;
+    if (typeof resolution !== 'boolean' || typeof provenance !== 'boolean') {
+        throw new Error('pngMetadata.resolution and pngMetadata.provenance must be booleans');
+    }
+    if (typeof text !== 'object' || text === null || Array.isArray(text)) {
+        throw new Error('pngMetadata.text must be an object mapping keywords to strings');
+    }
+    for (const [keyword, value] of Object.entries(text)) {
+        if (!isPngKeyword(keyword)) {
+            throw new Error(
+                `pngMetadata.text keyword "${keyword}" must be 1 to 79 Latin-1 characters without leading, trailing or repeated spaces`,
+            );
+        }
+        if (typeof value !== 'string') {
+            throw new Error(`pngMetadata.text["${keyword}"] must be a string`);
+        }
+    }
+    if (outputFormat !== 'png') {
+        throw new Error(`pngMetadata requires outputFormat 'png', received: ${outputFormat}`);
+    }
+    return { resolution, provenance, text };
+}
+
+function validateDownload(download: unknown): Required<PdfDownloadOptions> {
+    if (download === undefined) {
+        return PDF_DOWNLOAD_DEFAULTS;
+    }
+    if (typeof download !== 'object' || download === null || Array.isArray(download)) {
+        throw new Error('download must be an object with optional timeoutMs, maxRedirects, headers and allowedContentTypes fields');
+    }
+    const {
+        timeoutMs = PDF_DOWNLOAD_DEFAULTS.timeoutMs,
+        maxRedirects = PDF_DOWNLOAD_DEFAULTS.maxRedirects,
+        headers = PDF_DOWNLOAD_DEFAULTS.headers,
+        allowedContentTypes = PDF_DOWNLOAD_DEFAULTS.allowedContentTypes,
+    } = download as PdfDownloadOptions;
+    // setTimeout's ceiling: longer delays fire immediately.
+    if (!Number.isInteger(timeoutMs) || timeoutMs <= 0 || timeoutMs > 0x7fff_ffff) {
+        throw new Error(`download.timeoutMs must be a positive integer of at most 2147483647, received: ${timeoutMs}`);
+    }
+    if (!Number.isInteger(maxRedirects) || maxRedirects < 0) {
+        throw new Error(`download.maxRedirects must be a non-negative integer, received: ${maxRedirects}`);
+    }
+    if (typeof headers !== 'object' || headers === null || Array.isArray(headers)) {
+        throw new Error('download.headers must be an object mapping header names to strings');
+    }
+    for (const [name, value] of Object.entries(headers)) {
+        if (typeof value !== 'string') {
+            throw new Error(`download.headers["${name}"] must be a string`);
+        }
+    }
+    if (
+        !Array.isArray(allowedContentTypes) ||
+        allowedContentTypes.length === 0 ||
+        !allowedContentTypes.every((type) => typeof type === 'string' && type.trim() !== '')
+    ) {
+        throw new Error('download.allowedContentTypes must be a non-empty array of media types');
+    }
+    return {
+        timeoutMs,
+        maxRedirects,
+        headers: { ...headers },
+        allowedContentTypes: allowedContentTypes.map((type) => type.trim().toLowerCase()),
+    };
+}
+
+function validateFitLimit(name: string, limit: number | undefined): number | undefined {
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+        throw new Error(`${name} must be a positive integer, received: ${limit}`);
+    }
+    return limit;
+}
+
+export function normalizePdfToPngOptions(props: PdfToPngOptions | undefined): NormalizedPdfToPngOptions {
+    const viewportScale = resolveViewportScale(props);
+    const targetWidth = validateFitLimit('targetWidth', props?.targetWidth);
+    const targetHeight = validateFitLimit('targetHeight', props?.targetHeight);
+    const maxDimension = validateFitLimit('maxDimension', props?.maxDimension);
+    const fitsToBox = targetWidth !== undefined || targetHeight !== undefined || maxDimension !== undefined;
+    if (fitsToBox && (props?.viewportScale !== undefined || props?.dpi !== undefined)) {
+        throw new Error('targetWidth, targetHeight and maxDimension cannot be combined with viewportScale or dpi');
+    }
+    const pageBox: unknown = props?.pageBox ?? PDF_TO_PNG_OPTIONS_DEFAULTS.pageBox;
+    if (!isPageBox(pageBox)) {
+        throw new Error(`pageBox must be one of ${PAGE_BOXES.join(', ')}, received: ${String(pageBox)}`);
+    }
+    const clip = validateClip(props?.clip);
+    const { annotationMode, formValues } = validateAnnotations(props?.annotations);
+    const optionalContent = validateOptionalContent(props?.optionalContent);
+    const renderIntent: unknown = props?.renderIntent ?? PDF_TO_PNG_OPTIONS_DEFAULTS.renderIntent;
+    if (renderIntent !== 'display' && renderIntent !== 'print') {
+        throw new Error(`renderIntent must be 'display' or 'print', received: ${String(renderIntent)}`);
+    }
+    const tileSize = props?.tileSize;
+    if (tileSize !== undefined && (!Number.isInteger(tileSize) || tileSize < 1 || tileSize > MAX_TILE_SIZE)) {
+        throw new Error(`tileSize must be an integer between 1 and ${MAX_TILE_SIZE}, received: ${tileSize}`);
+    }
 
     const outputFolder = props?.outputFolder;
     if (outputFolder?.trim() === '') {
@@ -38,18 +396,26 @@ export function normalizePdfToPngOptions(props: PdfToPngOptions | undefined): No
         throw new Error('verbosityLevel must be 0, 1, or 5');
     }
 
-    const pagesToProcess = props?.pagesToProcess?.map((pageNumber) => {
-        if (!Number.isInteger(pageNumber) || pageNumber <= 0) {
-            throw new Error(`pagesToProcess contains invalid page number: ${pageNumber}`);
-        }
-        return pageNumber;
-    });
+    const pagesToProcess =
+        typeof props?.pagesToProcess === 'string'
+            ? parsePageRanges(props.pagesToProcess)
+            : props?.pagesToProcess?.map((pageNumber) => {
+                  if (!Number.isInteger(pageNumber) || pageNumber <= 0) {
+                      throw new Error(`pagesToProcess contains invalid page number: ${pageNumber}`);
+                  }
+                  return pageNumber;
+              });
 
     const processPagesInParallel = props?.processPagesInParallel ?? false;
     const renderInWorkerThreads = props?.renderInWorkerThreads ?? false;
+    const renderPool: unknown = props?.renderPool;
+    if (renderPool !== undefined && !(renderPool instanceof PdfRenderPool)) {
+        throw new Error('renderPool must be a PdfRenderPool');
+    }
     const concurrencyLimit: number = props?.concurrencyLimit ?? PDF_TO_PNG_OPTIONS_DEFAULTS.concurrencyLimit;
-    // concurrencyLimit doubles as the worker-pool size, so worker mode validates it too.
-    if (processPagesInParallel || renderInWorkerThreads) {
+    // concurrencyLimit doubles as the worker-pool size (or a shared pool's per-conversion cap),
+    // so worker mode validates it too.
+    if (processPagesInParallel || renderInWorkerThreads || renderPool !== undefined) {
         if (!Number.isInteger(concurrencyLimit) || concurrencyLimit < 1) {
             throw new Error(`concurrencyLimit must be a positive integer >= 1, received: ${concurrencyLimit}`);
         }
@@ -58,13 +424,102 @@ export function normalizePdfToPngOptions(props: PdfToPngOptions | undefined): No
         }
     }
 
+    // Worker results carry one encoded image per page; tiles are rendered on the main thread only.
+    if (tileSize !== undefined && (renderInWorkerThreads || renderPool !== undefined)) {
+        throw new Error('tileSize cannot be combined with renderInWorkerThreads or renderPool');
+    }
+
     const maxInputBytes: number = props?.maxInputBytes ?? PDF_TO_PNG_OPTIONS_DEFAULTS.maxInputBytes;
     if (!Number.isInteger(maxInputBytes) || maxInputBytes <= 0) {
         throw new Error(`maxInputBytes must be a positive integer, received: ${maxInputBytes}`);
     }
+    // Range loading never holds the whole document, which worker threads and the box reader need.
+    const rangeLoading = props?.rangeLoading ?? PDF_TO_PNG_OPTIONS_DEFAULTS.rangeLoading;
+    if (rangeLoading && (renderInWorkerThreads || renderPool !== undefined)) {
+        throw new Error('rangeLoading cannot be combined with renderInWorkerThreads or renderPool');
+    }
+    if (rangeLoading && pageBox !== 'CropBox') {
+        throw new Error(`rangeLoading requires pageBox 'CropBox', received: ${pageBox}`);
+    }
+
+    const outputFormat: unknown = props?.outputFormat ?? PDF_TO_PNG_OPTIONS_DEFAULTS.outputFormat;
+    if (!isOutputFormat(outputFormat)) {
+        throw new Error(
+            `outputFormat must be one of ${Object.keys(OUTPUT_FORMAT_EXTENSIONS).join(', ')}, received: ${String(outputFormat)}`,
+        );
+    }
+    const background: unknown = props?.background ?? PDF_TO_PNG_OPTIONS_DEFAULTS.background;
+    if (!isCssColour(background)) {
+        throw new Error(`background must be 'white', 'transparent' or a CSS colour, received: ${String(background)}`);
+    }
+    // JPEG and the reduced colour modes drop the alpha channel, which would leave a black background.
+    const opaqueBackground = isOpaqueColour(background);
+    if (!opaqueBackground && outputFormat === 'jpeg') {
+        throw new Error(`background '${background}' cannot be combined with outputFormat 'jpeg', which has no alpha channel`);
+    }
+    const jpegQuality = validateQuality('jpegQuality', props?.jpegQuality ?? PDF_TO_PNG_OPTIONS_DEFAULTS.jpegQuality);
+    const webpQuality = validateQuality('webpQuality', props?.webpQuality ?? PDF_TO_PNG_OPTIONS_DEFAULTS.webpQuality);
+    const colorMode: unknown = props?.colorMode ?? PDF_TO_PNG_OPTIONS_DEFAULTS.colorMode;
+    if (!isColorMode(colorMode)) {
+        throw new Error(`colorMode must be one of ${COLOR_MODES.join(', ')}, received: ${String(colorMode)}`);
+    }
+    if (colorMode !== 'rgba' && outputFormat !== 'png') {
+        throw new Error(`colorMode '${colorMode}' requires outputFormat 'png', received: ${outputFormat}`);
+    }
+    if (colorMode !== 'rgba' && !opaqueBackground) {
+        throw new Error(`background '${background}' cannot be combined with colorMode '${colorMode}', which has no alpha channel`);
+    }
+    if ((props?.bilevelThreshold !== undefined || props?.dither !== undefined) && colorMode !== 'bilevel') {
+        throw new Error("bilevelThreshold and dither only apply to colorMode 'bilevel'");
+    }
+    const bilevelThreshold = props?.bilevelThreshold ?? PDF_TO_PNG_OPTIONS_DEFAULTS.bilevelThreshold;
+    if (!Number.isInteger(bilevelThreshold) || bilevelThreshold < 0 || bilevelThreshold > 255) {
+        throw new Error(`bilevelThreshold must be an integer between 0 and 255, received: ${bilevelThreshold}`);
+    }
+
+    // Raw pixels skip encoding, and with it every option about the encoded image and where it goes.
+    const returnRawPixels = props?.returnRawPixels ?? false;
+    if (returnRawPixels) {
+        if (
+            props?.returnMetadataOnly === true ||
+            props?.returnPageContent === false ||
+            outputFolder !== undefined ||
+            tileSize !== undefined
+        ) {
+            throw new Error(
+                'returnRawPixels cannot be combined with returnMetadataOnly, returnPageContent: false, outputFolder or tileSize',
+            );
+        }
+        if (outputFormat !== 'png' || props?.pngCompression !== undefined || props?.pngMetadata !== undefined) {
+            throw new Error(
+                "returnRawPixels returns unencoded pixels, so it cannot be combined with pngCompression, pngMetadata or an outputFormat other than 'png'",
+            );
+        }
+    }
+
+    const signal: unknown = props?.signal;
+    if (signal !== undefined && !(signal instanceof AbortSignal)) {
+        throw new Error('signal must be an AbortSignal');
+    }
+
+    const onProgress: unknown = props?.onProgress;
+    if (onProgress !== undefined && typeof onProgress !== 'function') {
+        throw new Error('onProgress must be a function');
+    }
 
     return {
         viewportScale,
+        targetWidth,
+        targetHeight,
+        maxDimension,
+        pageBox,
+        clip,
+        background,
+        annotationMode,
+        formValues,
+        optionalContent,
+        renderIntent,
+        tileSize,
         disableFontFace: props?.disableFontFace ?? PDF_TO_PNG_OPTIONS_DEFAULTS.disableFontFace,
         useSystemFonts: props?.useSystemFonts ?? PDF_TO_PNG_OPTIONS_DEFAULTS.useSystemFonts,
         enableXfa: props?.enableXfa ?? PDF_TO_PNG_OPTIONS_DEFAULTS.enableXfa,
@@ -75,9 +530,104 @@ export function normalizePdfToPngOptions(props: PdfToPngOptions | undefined): No
         verbosityLevel,
         returnPageContent: props?.returnPageContent ?? true,
         returnMetadataOnly: props?.returnMetadataOnly ?? false,
+        returnRawPixels,
         processPagesInParallel,
         renderInWorkerThreads,
+        renderPool,
         concurrencyLimit,
         maxInputBytes,
+        rangeLoading,
+        download: validateDownload(props?.download),
+        outputFormat,
+        jpegQuality,
+        webpQuality,
+        colorMode,
+        bilevelThreshold,
+        dither: props?.dither ?? PDF_TO_PNG_OPTIONS_DEFAULTS.dither,
+        pngCompression: validatePngCompression(props?.pngCompression, outputFormat),
+        pngMetadata: returnRawPixels ? undefined : validatePngMetadata(props?.pngMetadata, outputFormat),
+        signal,
+        onProgress: props?.onProgress,
+    };
+}
+
+export interface NormalizedPdfToTiffOptions {
+    /** The page options: the caller's rendering options, with `returnRawPixels` on. */
+    pageOptions: NormalizedPdfToPngOptions;
+    outputFolder: string;
+    /** Unset: named after the input when the conversion starts. */
+    outputFileName: string | undefined;
+    compression: TiffCompression;
+}
+
+export function normalizePdfToTiffOptions(props: PdfToTiffOptions): NormalizedPdfToTiffOptions {
+    const { outputFolder, outputFileName, tiffCompression, ...pageProps } = props;
+    if (typeof outputFolder !== 'string' || outputFolder.trim() === '') {
+        throw new Error('outputFolder is required and must not be empty');
+    }
+    if (outputFileName !== undefined && (typeof outputFileName !== 'string' || outputFileName === '')) {
+        throw new Error('outputFileName must be a non-empty string');
+    }
+    if (outputFileName !== undefined && containsPathSeparator(outputFileName)) {
+        throw new Error(`outputFileName must be a flat filename without ${SEPARATOR_DESCRIPTION} path separators: ${outputFileName}`);
+    }
+
+    const pageOptions = normalizePdfToPngOptions({ ...pageProps, returnRawPixels: true });
+    const compression: unknown = tiffCompression ?? (pageOptions.colorMode === 'bilevel' ? 'g4' : 'lzw');
+    if (!isTiffCompression(compression)) {
+        throw new Error(`tiffCompression must be one of ${TIFF_COMPRESSIONS.join(', ')}, received: ${String(compression)}`);
+    }
+    if (compression === 'g4' && pageOptions.colorMode !== 'bilevel') {
+        throw new Error(`tiffCompression 'g4' requires colorMode 'bilevel', received: ${pageOptions.colorMode}`);
+    }
+
+    return { pageOptions, outputFolder, outputFileName, compression };
+}
+
+export interface NormalizedPdfToPngBatchOptions {
+    /** The options every document of the batch is converted with. */
+    documentOptions: NormalizedPdfToPngOptions;
+    documentConcurrency: number;
+    /** Unset with a `renderPool`, whose size bounds the pages instead. */
+    pageConcurrency: number | undefined;
+    outputLayout: PdfBatchOutputLayout;
+}
+
+function validateBatchConcurrency(name: string, value: number): number {
+    if (!Number.isInteger(value) || value < 1 || value > MAX_CONCURRENCY_LIMIT) {
+        throw new Error(`${name} must be an integer between 1 and ${MAX_CONCURRENCY_LIMIT}, received: ${value}`);
+    }
+    return value;
+}
+
+export function normalizePdfToPngBatchOptions(props: PdfToPngBatchOptions | undefined): NormalizedPdfToPngBatchOptions {
+    const { documentConcurrency, pageConcurrency, outputLayout, ...documentProps } = props ?? {};
+    // Not in the batch's option type, but JavaScript callers may still pass them.
+    const { renderInWorkerThreads, onProgress } = documentProps as PdfToPngOptions;
+    if (renderInWorkerThreads !== undefined || onProgress !== undefined) {
+        throw new Error(
+            'pdfToPngBatch does not take renderInWorkerThreads or onProgress; share a renderPool between the documents instead',
+        );
+    }
+    const documentOptions = normalizePdfToPngOptions(documentProps);
+    if (pageConcurrency !== undefined && documentOptions.renderPool !== undefined) {
+        throw new Error('pageConcurrency cannot be combined with renderPool, whose size bounds the pages of every document sharing it');
+    }
+    const layout: unknown = outputLayout ?? PDF_TO_PNG_BATCH_DEFAULTS.outputLayout;
+    if (layout !== 'subfolders' && layout !== 'prefixed') {
+        throw new Error(`outputLayout must be one of subfolders, prefixed, received: ${String(layout)}`);
+    }
+
+    return {
+        documentOptions,
+        documentConcurrency: validateBatchConcurrency(
+            'documentConcurrency',
+            documentConcurrency ?? PDF_TO_PNG_BATCH_DEFAULTS.documentConcurrency,
+        ),
+        pageConcurrency:
+            documentOptions.renderPool === undefined
+                ? validateBatchConcurrency('pageConcurrency', pageConcurrency ?? PDF_TO_PNG_BATCH_DEFAULTS.pageConcurrency)
+                : undefined,
+        outputLayout: layout,
     };
 }
@@ -0,0 +1,48 @@
+import { parse } from 'node:path';
+import type { OptionalContentConfig } from 'pdfjs-dist/types/src/display/optional_content_config';
+import { PDF_TO_PNG_OPTIONS_DEFAULTS } from './const.js';
+import type { OpenPdfOptions, PdfDocumentHandle, PdfFileInput } from './interfaces/index.js';
+import { LoadedPdfDocument } from './loadedPdfDocument.js';
+import { normalizePdfToPngOptions } from './normalizePdfToPngOptions.js';
+import { resolveOptionalContent } from './optionalContent.js';
+import { getPdfSource, pdfFilePath } from './pdfInput.js';
+import { getPdfDocument, throwIfRangeReadFailed } from './pdfjsLoader.js';
+import type { PngMetadata } from './pngMetadata.js';
+import { resolvePngMetadata } from './pngMetadata.js';
+
+/**
+ * Loads a PDF once and returns a handle that renders its pages on demand.
+ *
+ * Where `pdfToPng` reads, parses and releases the whole document on every call, a handle keeps
+ * the parsed document open: a viewer can render a thumbnail pass at a small `viewportScale` and
+ * then individual pages at full resolution from the same load. Rendering goes through the same
+ * code path as `pdfToPng`, with the same pixel-limit guards and byte-identical output.
+ *
+ * The caller owns the handle and must release it with `close()` — or declare it with
+ * `await using`, which calls `Symbol.asyncDispose` on scope exit.
+ *
+ * @param pdfFile - Path to a PDF file, its bytes (`ArrayBufferLike` / `Uint8Array` / `Buffer`,
+ *   copied as in `pdfToPng`), a stream of its bytes, or a `URL` to read or download.
+ * @param options - Loading options and the rendering defaults for every page; validated here,
+ *   before the input is read.
+ * @returns A handle to the loaded document.
+ * @since 4.3.0
+ */
+export async function openPdf(pdfFile: PdfFileInput, options?: OpenPdfOptions): Promise<PdfDocumentHandle> {
+    const normalizedOptions = normalizePdfToPngOptions(options);
+    const pdfDocument = await getPdfDocument(await getPdfSource(pdfFile, normalizedOptions), normalizedOptions);
+    let optionalContent: OptionalContentConfig | undefined;
+    let pngMetadata: PngMetadata | undefined;
+    const inputPath = pdfFilePath(pdfFile);
+    try {
+        optionalContent = await resolveOptionalContent(pdfDocument, normalizedOptions.optionalContent, normalizedOptions.renderIntent);
+        const sourceName = inputPath === undefined ? undefined : parse(inputPath).base;
+        pngMetadata = normalizedOptions.pngMetadata && (await resolvePngMetadata(pdfDocument, normalizedOptions.pngMetadata, sourceName));
+    } catch (error: unknown) {
+        await pdfDocument.loadingTask.destroy();
+        throwIfRangeReadFailed(pdfDocument);
+        throw error;
+    }
+    const defaultMask: string = inputPath === undefined ? PDF_TO_PNG_OPTIONS_DEFAULTS.outputFileMask : parse(inputPath).name;
+    return new LoadedPdfDocument(pdfDocument, { ...options }, defaultMask, optionalContent, pngMetadata);
+}
@@ -0,0 +1,55 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { OptionalContentConfig } from 'pdfjs-dist/types/src/display/optional_content_config';
+import type { LayerVisibility, PdfLayer, RenderIntent } from './interfaces/index.js';
+
+/** The parts of a pdf.js optional content group the layer helpers read. */
+interface OptionalContentGroup {
+    name: string | null;
+    visible: boolean;
+}
+
+function groupsOf(config: OptionalContentConfig): [string, OptionalContentGroup][] {
+    return [...config] as [string, OptionalContentGroup][];
+}
+
+/** Lists the document's layers, with the visibility its default configuration gives them. */
+export async function listLayers(pdf: PDFDocumentProxy): Promise<PdfLayer[]> {
+    const config = await pdf.getOptionalContentConfig();
+    return groupsOf(config).map(([id, group]) => ({
+        id,
+        name: group.name ?? '',
+        defaultVisibility: group.visible ? 'visible' : 'hidden',
+    }));
+}
+
+/**
+ * Builds the optional content configuration pages are rendered with: the document's default for
+ * `renderIntent` (pdf.js rejects a configuration built for another intent), with each layer named
+ * in `optionalContent` (by id, else by name) switched on or off. Radio-button sets are honoured,
+ * so showing one layer of a set hides the rest.
+ *
+ * Returns `undefined` when `optionalContent` is unset, leaving pdf.js to use the default.
+ *
+ * @throws {Error} When a key matches no layer of the document.
+ */
+export async function resolveOptionalContent(
+    pdf: PDFDocumentProxy,
+    optionalContent: Record<string, LayerVisibility> | undefined,
+    renderIntent: RenderIntent,
+): Promise<OptionalContentConfig | undefined> {
+    if (optionalContent === undefined) {
+        return undefined;
+    }
+    const config = await pdf.getOptionalContentConfig({ intent: renderIntent });
+    const groups = groupsOf(config);
+    for (const [layer, visibility] of Object.entries(optionalContent)) {
+        const ids = config.getGroup(layer) !== null ? [layer] : groups.filter(([, group]) => group.name === layer).map(([id]) => id);
+        if (ids.length === 0) {
+            throw new Error(`Layer "${layer}" does not exist in this PDF.`);
+        }
+        for (const id of ids) {
+            config.setVisibility(id, visibility === 'visible');
+        }
+    }
+    return config;
+}
@@ -0,0 +1,102 @@
+/**
+ * Hands pages from a conversion's scheduler to a streaming consumer in page order, with
+ * back-pressure.
+ *
+ * Producers (the sliding-window scheduler or the worker pool) call {@link reserve} before a
+ * page's output is materialized and {@link deliver} once it is; the consumer calls
+ * {@link take} for one page at a time, strictly in index order. `reserve` blocks while the
+ * page is `capacity` or more positions ahead of the consumer, so at most `capacity` finished
+ * pages are ever held for a slow consumer — a 500-page conversion does not accumulate 500 PNG
+ * buffers before the first one is read.
+ *
+ * Two ways out besides normal completion:
+ * - {@link halt} — a page failed. Reservations stop blocking so the scheduler can drain its
+ *   in-flight pages and settle with its own (deterministic) error; blocking here instead could
+ *   deadlock, because the page the consumer waits for will never arrive.
+ * - {@link cancel} — the consumer went away (e.g. `break` out of `for await`). Reservations
+ *   reject so the scheduler stops dispatching, and delivered pages are dropped.
+ */
+export class OrderedPageBuffer<T> {
+    private readonly pages = new Map<number, T>();
+    private readonly waiters = new Set<() => void>();
+    private nextIndex = 0;
+    private state: 'running' | 'halted' | 'cancelled' = 'running';
+    private outcome: { error: unknown } | 'done' | undefined;
+
+    constructor(private readonly capacity: number) {}
+
+    /** Resolves once page `index` may be produced without exceeding the buffer's capacity. */
+    public async reserve(index: number): Promise<void> {
+        for (;;) {
+            if (this.state === 'cancelled') {
+                throw new Error('Page iteration was cancelled by the consumer.');
+            }
+            if (this.state === 'halted' || index < this.nextIndex + this.capacity) {
+                return;
+            }
+            await this.nextChange();
+        }
+    }
+
+    public deliver(index: number, page: T): void {
+        if (this.state === 'cancelled') {
+            return;
+        }
+        this.pages.set(index, page);
+        this.notify();
+    }
+
+    public halt(): void {
+        if (this.state === 'running') {
+            this.state = 'halted';
+            this.notify();
+        }
+    }
+
+    public cancel(): void {
+        this.state = 'cancelled';
+        this.pages.clear();
+        this.notify();
+    }
+
+    /** Records how the producing scheduler settled; `take` uses it once no further page can arrive. */
+    public settle(outcome: { error: unknown } | 'done'): void {
+        this.outcome = outcome;
+        this.notify();
+    }
+
+    /**
+     * Returns the next page in index order, waiting for it if necessary. Pages delivered before a
+     * failure are still returned; once the scheduler has settled with an error and the next page
+     * is missing, that error is thrown.
+     */
+    public async take(): Promise<T> {
+        for (;;) {
+            if (this.pages.has(this.nextIndex)) {
+                const page = this.pages.get(this.nextIndex) as T;
+                this.pages.delete(this.nextIndex);
+                this.nextIndex += 1;
+                this.notify();
+                return page;
+            }
+            if (this.outcome !== undefined) {
+                throw this.outcome === 'done' ? new Error(`Page ${this.nextIndex} was never delivered.`) : this.outcome.error;
+            }
+            await this.nextChange();
+        }
+    }
+
+    private nextChange(): Promise<void> {
+        return new Promise<void>((resolve) => {
+            this.waiters.add(resolve);
+        });
+    }
+
+    private notify(): void {
+        const waiters = [...this.waiters];
+        this.waiters.clear();
+        for (const wake of waiters) {
+            wake();
+        }
+    }
+}
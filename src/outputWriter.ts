@@ -1,4 +1,5 @@
 import { promises as fsPromises } from 'node:fs';
+import type { FileHandle } from 'node:fs/promises';
 import { isAbsolute, join, relative, resolve, sep } from 'node:path';
 import { containsPathSeparator, SEPARATOR_DESCRIPTION } from './flatFilename.js';
 
@@ -62,8 +63,33 @@ export async function prepareOutputFolder(resolvedOutputFolder: string): Promise
  * mutated; callers receive the resolved path from the return value.
  */
 export async function savePNGfile(name: string, content: Buffer, folder: OutputFolderHandle): Promise<string> {
-    const { resolvedOutputFolder, realOutputFolder } = folder;
+    const resolvedFilePath = resolveOutputFilePath(name, folder.resolvedOutputFolder);
+
+    if (!Buffer.isBuffer(content)) {
+        throw new Error(`Cannot write PNG file "${resolvedFilePath}" because content is not a Buffer.`);
+    }
+
+    const fd = await openOutputFile(resolvedFilePath, folder);
+    try {
+        await fd.writeFile(content);
+    } finally {
+        await fd.close();
+    }
+
+    return resolvedFilePath;
+}
+
+/**
+ * Creates the file `name` in the output folder for writing piece by piece, under the same guards
+ * as `savePNGfile`, and returns its path with the open handle; the caller closes the handle.
+ */
+export async function createOutputFile(name: string, folder: OutputFolderHandle): Promise<{ path: string; handle: FileHandle }> {
+    const path = resolveOutputFilePath(name, folder.resolvedOutputFolder);
+    return { path, handle: await openOutputFile(path, folder) };
+}
 
+/** The path of `name` in the output folder, once `name` is known to be a flat filename that stays inside it. */
+function resolveOutputFilePath(name: string, resolvedOutputFolder: string): string {
     if (containsPathSeparator(name)) {
         throw new Error(`Output file name must be a flat filename without ${SEPARATOR_DESCRIPTION} path separators: ${name}`);
     }
@@ -84,22 +110,16 @@ export async function savePNGfile(name: string, content: Buffer, folder: OutputF
     if (isEscapingRelativePath(relative(resolvedOutputFolder, resolvedFilePath))) {
         throw new Error(`Output file name escapes the output folder: ${name}`);
     }
+    return resolvedFilePath;
+}
 
-    if (!Buffer.isBuffer(content)) {
-        throw new Error(`Cannot write PNG file "${resolvedFilePath}" because content is not a Buffer.`);
-    }
-
+/** Re-reads the output folder's realpath against the baseline, then creates the file exclusively (`'wx'`). */
+async function openOutputFile(resolvedFilePath: string, folder: OutputFolderHandle): Promise<FileHandle> {
+    const { resolvedOutputFolder, realOutputFolder } = folder;
     const realOutputFolderFinal = await fsPromises.realpath(resolvedOutputFolder);
     if (realOutputFolderFinal !== realOutputFolder) {
         throw new Error(`Output folder was modified during write: ${resolvedOutputFolder}`);
     }
 
-    const fd = await fsPromises.open(resolvedFilePath, 'wx');
-    try {
-        await fd.writeFile(content);
-    } finally {
-        await fd.close();
-    }
-
-    return resolvedFilePath;
+    return fsPromises.open(resolvedFilePath, 'wx');
 }
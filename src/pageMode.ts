@@ -12,11 +12,13 @@ import type { NormalizedPdfToPngOptions } from './normalizePdfToPngOptions.js';
  * - `content`  — render in memory; `returnContent` decides whether the Buffer is kept on the result.
  * - `file`     — render and write through `sink`; `returnContent` decides whether the Buffer is also
  *   returned on the result (it is always rendered so it can be written).
+ * - `pixels`   — render in memory and return the canvas pixels unencoded (`returnRawPixels`).
  */
 export type PageMode =
     | { readonly kind: 'metadata' }
     | { readonly kind: 'content'; readonly returnContent: boolean }
-    | { readonly kind: 'file'; readonly sink: OutputSink; readonly returnContent: boolean };
+    | { readonly kind: 'file'; readonly sink: OutputSink; readonly returnContent: boolean }
+    | { readonly kind: 'pixels' };
 
 /**
  * Pure mapping from normalized options (+ the resolved output sink, if writing to disk) to a
@@ -28,6 +30,9 @@ export function optionsToPageMode(opts: NormalizedPdfToPngOptions, sink: OutputS
     if (opts.returnMetadataOnly) {
         return { kind: 'metadata' };
     }
+    if (opts.returnRawPixels) {
+        return { kind: 'pixels' };
+    }
     if (sink !== undefined) {
         return { kind: 'file', sink, returnContent: opts.returnPageContent };
     }
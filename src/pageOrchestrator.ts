@@ -1,10 +1,13 @@
 import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { OUTPUT_FORMAT_EXTENSIONS, PDF_TO_PNG_OPTIONS_DEFAULTS } from './const.js';
 import { containsPathSeparator, SEPARATOR_DESCRIPTION } from './flatFilename.js';
-import type { FilePngPageOutput, InMemoryPngPageOutput, PngPageOutput } from './interfaces/index.js';
+import type { FilePngPageOutput, InMemoryPngPageOutput, OutputFormat, PngPageOutput, TiledPngPageOutput } from './interfaces/index.js';
 import type { PageMode } from './pageMode.js';
-import { getPageMetadata, renderPdfPage } from './pageRenderer.js';
+import type { PageRenderOptions, PageTileHandler } from './pageRenderer.js';
+import { getPageMetadata, renderPdfPage, renderPdfPagePixels, renderPdfPageTiles } from './pageRenderer.js';
+import type { PageStageListener } from './progressReporter.js';
 
-/** The two `PageMode`s that involve an actual render (everything except `metadata`). */
+/** The `PageMode`s that involve an actual render (everything except `metadata`). */
 export type RenderedPageMode = Exclude<PageMode, { kind: 'metadata' }>;
 
 function assertFlatFilename(name: string, pageNumber: number): void {
@@ -19,20 +22,22 @@ export function resolvePageName(
     pageNumber: number,
     defaultMask: string,
     outputFileMaskFunc: ((page: number) => string) | undefined,
+    outputFormat: OutputFormat = PDF_TO_PNG_OPTIONS_DEFAULTS.outputFormat,
 ): string {
+    const extension = OUTPUT_FORMAT_EXTENSIONS[outputFormat];
     if (outputFileMaskFunc === undefined) {
-        return `${defaultMask}_page_${pageNumber}.png`;
+        return `${defaultMask}_page_${pageNumber}.${extension}`;
     }
 
     const name: unknown = outputFileMaskFunc(pageNumber);
     if (typeof name !== 'string') {
         throw new Error(
-            `outputFileMaskFunc returned a non-string filename for page ${pageNumber}. Provide a string including the .png extension.`,
+            `outputFileMaskFunc returned a non-string filename for page ${pageNumber}. Provide a string including the .${extension} extension.`,
         );
     }
     if (!name) {
         throw new Error(
-            `outputFileMaskFunc returned an empty filename for page ${pageNumber}. Provide a non-empty string including the .png extension.`,
+            `outputFileMaskFunc returned an empty filename for page ${pageNumber}. Provide a non-empty string including the .${extension} extension.`,
         );
     }
 
@@ -41,15 +46,29 @@ export function resolvePageName(
     return name;
 }
 
+/**
+ * Names a tile of page `pageName`: `<stem>_r<row>_c<column>.<ext>`, where `<stem>` is the page
+ * name without its trailing `.<ext>` (kept whole when the name has none).
+ */
+export function resolveTileName(pageName: string, row: number, column: number, outputFormat: OutputFormat): string {
+    const suffix = `.${OUTPUT_FORMAT_EXTENSIONS[outputFormat]}`;
+    const stem = pageName.toLowerCase().endsWith(suffix) ? pageName.slice(0, -suffix.length) : pageName;
+    return `${stem}_r${row}_c${column}${suffix}`;
+}
+
 /**
  * Applies the output half of a page's lifecycle to an already-rendered page: pass-through for
- * in-memory mode, or sink write + content trimming for file mode. Split out from
+ * the in-memory modes, or sink write + content trimming for file mode. Split out from
  * `processAndSavePage` so worker-thread conversions — where rendering happens off-thread but
  * output must stay on the main thread (path-security guards live here) — reuse the exact same
- * output logic.
+ * output logic. `onPageStage` is told once the file has been written.
  */
-export async function finalizePageOutput(pageOutput: InMemoryPngPageOutput, mode: RenderedPageMode): Promise<PngPageOutput> {
-    if (mode.kind === 'content') {
+export async function finalizePageOutput(
+    pageOutput: InMemoryPngPageOutput,
+    mode: RenderedPageMode,
+    onPageStage?: PageStageListener,
+): Promise<PngPageOutput> {
+    if (mode.kind !== 'file') {
         return pageOutput;
     }
 
@@ -57,6 +76,7 @@ export async function finalizePageOutput(pageOutput: InMemoryPngPageOutput, mode
         throw new Error(`Cannot write PNG file "${pageOutput.name}" because content is undefined.`);
     }
     const resolvedPath = await mode.sink.write(pageOutput.name, pageOutput.content);
+    onPageStage?.(pageOutput.pageNumber, 'written');
     const filePageOutput: FilePngPageOutput = {
         ...pageOutput,
         kind: 'file',
@@ -67,25 +87,73 @@ export async function finalizePageOutput(pageOutput: InMemoryPngPageOutput, mode
 }
 
 /**
- * Returns whether a rendered page must materialize its PNG Buffer. `file` mode always does (the
- * bytes are needed for the write); `content` mode only when the caller asked to keep it.
+ * Returns whether a rendered page must materialize its PNG Buffer (or, in `pixels` mode, its
+ * pixels). `file` and `pixels` mode always do (the bytes are needed for the write, or are the
+ * result); `content` mode only when the caller asked to keep it.
  */
 export function shouldMaterializeContent(mode: RenderedPageMode): boolean {
-    return mode.kind === 'file' ? true : mode.returnContent;
+    return mode.kind === 'content' ? mode.returnContent : true;
+}
+
+/**
+ * Renders a page in tiles, applying the output half to each tile as it is produced — so in file
+ * mode a tile is on disk before the next tile's canvas exists. `onPageStage` is told `'written'`
+ * once the last tile has been written.
+ */
+async function renderAndSaveTiledPage(
+    pdfDocument: PDFDocumentProxy,
+    pageName: string,
+    pageNumber: number,
+    tileSize: number,
+    renderOptions: PageRenderOptions,
+    mode: RenderedPageMode,
+): Promise<TiledPngPageOutput> {
+    const { format } = renderOptions.encoding;
+    const finishTile: PageTileHandler = async (tile) => {
+        const name = resolveTileName(pageName, tile.row, tile.column, format);
+        if (mode.kind !== 'file') {
+            return { ...tile, name, path: '' };
+        }
+        if (tile.content === undefined) {
+            throw new Error(`Cannot write tile file "${name}" because content is undefined.`);
+        }
+        const path = await mode.sink.write(name, tile.content);
+        return { ...tile, name, path, content: mode.returnContent ? tile.content : undefined };
+    };
+
+    const pageOutput = await renderPdfPageTiles(
+        pdfDocument,
+        pageName,
+        pageNumber,
+        tileSize,
+        shouldMaterializeContent(mode),
+        renderOptions,
+        finishTile,
+    );
+    if (mode.kind === 'file') {
+        renderOptions.onPageStage?.(pageNumber, 'written');
+    }
+    return pageOutput;
 }
 
 export async function processAndSavePage(
     pdfDocument: PDFDocumentProxy,
     pageName: string,
     pageNumber: number,
-    pageViewportScale: number,
+    renderOptions: PageRenderOptions,
     mode: PageMode,
 ): Promise<PngPageOutput> {
     if (mode.kind === 'metadata') {
-        return await getPageMetadata(pdfDocument, pageName, pageNumber, pageViewportScale);
+        return await getPageMetadata(pdfDocument, pageName, pageNumber, renderOptions);
+    }
+    if (mode.kind === 'pixels') {
+        return await renderPdfPagePixels(pdfDocument, pageName, pageNumber, renderOptions);
+    }
+    if (renderOptions.tileSize !== undefined) {
+        return await renderAndSaveTiledPage(pdfDocument, pageName, pageNumber, renderOptions.tileSize, renderOptions, mode);
     }
 
-    const pageOutput = await renderPdfPage(pdfDocument, pageName, pageNumber, pageViewportScale, shouldMaterializeContent(mode));
+    const pageOutput = await renderPdfPage(pdfDocument, pageName, pageNumber, shouldMaterializeContent(mode), renderOptions);
 
-    return await finalizePageOutput(pageOutput, mode);
+    return await finalizePageOutput(pageOutput, mode, renderOptions.onPageStage);
 }
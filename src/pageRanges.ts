@@ -0,0 +1,137 @@
+/**
+ * A page of a range expression: positive numbers count from the first page (`1`), negative ones
+ * back from the last (`-1`, written `last`). Resolved only once the page count is known.
+ */
+type PageReference = number;
+
+/** One comma-separated term of a `pagesToProcess` range expression. */
+export type PageRangeTerm =
+    | { kind: 'page'; page: PageReference }
+    /** `to` is unset for an open range (`10-`), which runs to the last page. */
+    | { kind: 'range'; from: PageReference; to: PageReference | undefined }
+    | { kind: 'odd' }
+    | { kind: 'even' };
+
+/** A `pagesToProcess` string, parsed by `normalizePdfToPngOptions`. */
+export interface PageRangeExpression {
+    expression: string;
+    terms: PageRangeTerm[];
+}
+
+/** A reference, optionally followed by `-` and an optional second reference, spaces allowed around the `-`. */
+const RANGE_TERM = /^(-?\d+|last)(?:\s*(-)\s*(-?\d+|last)?)?$/u;
+
+function invalidTerm(expression: string, term: string, offset: number, problem: string): Error {
+    return new Error(`pagesToProcess term "${term}" at character ${offset + 1} of "${expression}" ${problem}`);
+}
+
+/**
+ * Parses a range expression such as `"1-5,8,10-"`, `"last"`, `"-3--1"`, `"odd"` or `"even"`.
+ * Throws on the first term that is not one, naming it and its position in the expression, so a
+ * typo is reported before any input is read rather than as an empty conversion.
+ */
+export function parsePageRanges(expression: string): PageRangeExpression {
+    const terms: PageRangeTerm[] = [];
+    let offset = 0;
+    for (const rawTerm of expression.split(',')) {
+        const termOffset = offset + (rawTerm.length - rawTerm.trimStart().length);
+        offset += rawTerm.length + 1;
+        const term = rawTerm.trim();
+        const keyword = term.toLowerCase();
+        if (term === '') {
+            throw invalidTerm(expression, term, termOffset, 'is empty');
+        }
+        if (keyword === 'odd' || keyword === 'even') {
+            terms.push({ kind: keyword });
+            continue;
+        }
+
+        const match = RANGE_TERM.exec(keyword);
+        if (match === null) {
+            throw invalidTerm(expression, term, termOffset, 'is not a page, a range, odd or even (e.g. 3, -2, last, 1-5, 10-, -3--1)');
+        }
+        const [, fromText, hyphen, toText] = match;
+        const references = [fromText, toText].map((text): PageReference | undefined => {
+            if (text === undefined) {
+                return undefined;
+            }
+            const reference = text === 'last' ? -1 : Number(text);
+            if (reference === 0) {
+                throw invalidTerm(expression, term, termOffset, 'refers to page 0; pages count from 1, or from -1 back from the last');
+            }
+            if (!Number.isSafeInteger(reference)) {
+                throw invalidTerm(expression, term, termOffset, `refers to page ${text}, which is too large`);
+            }
+            return reference;
+        });
+        const [from, to] = references as [PageReference, PageReference | undefined];
+        if (hyphen === undefined) {
+            terms.push({ kind: 'page', page: from });
+            continue;
+        }
+        // Only references counted from the same end can be ordered before the page count is known.
+        if (to !== undefined && Math.sign(from) === Math.sign(to) && from > to) {
+            throw invalidTerm(expression, term, termOffset, 'ends before it starts');
+        }
+        // From the end back to the start (`last-1`, `-3-2`) runs backwards in all but the shortest documents.
+        if (to !== undefined && from < 0 && to > 0) {
+            throw invalidTerm(
+                expression,
+                term,
+                termOffset,
+                'starts at a page counted from the end and ends at one counted from the start; ranges run forward (e.g. 1-last, or -2--1 for the last two pages)',
+            );
+        }
+        terms.push({ kind: 'range', from, to });
+    }
+    return { expression, terms };
+}
+
+/** The 1-based page `reference` refers to in a document of `numPages` pages; out of range for pages it does not have. */
+function absolutePage(reference: PageReference, numPages: number): number {
+    return reference > 0 ? reference : numPages + 1 + reference;
+}
+
+/** Pages `from` to `to`, both inclusive, clamped to the document. */
+function pageSpan(from: number, to: number, numPages: number, step = 1): number[] {
+    const pages: number[] = [];
+    for (let page = Math.max(from, 1); page <= Math.min(to, numPages); page += step) {
+        pages.push(page);
+    }
+    return pages;
+}
+
+/**
+ * The pages a conversion processes, in `pagesToProcess` order: every page when it is unset, the
+ * listed pages that exist for a number array, and each term's pages in turn for an expression.
+ * Pages the document does not have are left out, as page numbers above the page count always
+ * were; a range is cut to the pages that exist. Terms may overlap (`1,odd`, `1-3,last`): a page an
+ * earlier term selected is not selected again, so that each page is converted, and named, once.
+ */
+export function resolvePagesToProcess(pagesToProcess: number[] | PageRangeExpression | undefined, numPages: number): number[] {
+    if (pagesToProcess === undefined) {
+        return pageSpan(1, numPages, numPages);
+    }
+    if (Array.isArray(pagesToProcess)) {
+        return pagesToProcess.filter((pageNumber) => pageNumber <= numPages && pageNumber >= 1);
+    }
+    const pages = pagesToProcess.terms.flatMap((term) => {
+        switch (term.kind) {
+            case 'odd':
+                return pageSpan(1, numPages, numPages, 2);
+            case 'even':
+                return pageSpan(2, numPages, numPages, 2);
+            case 'page': {
+                const page = absolutePage(term.page, numPages);
+                return page >= 1 && page <= numPages ? [page] : [];
+            }
+            case 'range':
+                return pageSpan(
+                    absolutePage(term.from, numPages),
+                    term.to === undefined ? numPages : absolutePage(term.to, numPages),
+                    numPages,
+                );
+        }
+    });
+    return [...new Set(pages)];
+}
@@ -1,20 +1,29 @@
 import { parentPort, workerData } from 'node:worker_threads';
 import type { PDFDocumentProxy } from 'pdfjs-dist';
-import type { RenderPageRequest, WorkerInitData, WorkerResponse } from './interfaces/worker.protocol.js';
+import type { OptionalContentConfig } from 'pdfjs-dist/types/src/display/optional_content_config';
+import type { PdfToPngProgressStage } from './interfaces/index.js';
+import type { RenderPageRequest, WorkerDocument, WorkerInitData, WorkerRequest, WorkerResponse } from './interfaces/worker.protocol.js';
+import { LruCache } from './lruCache.js';
 import { normalizePdfToPngOptions } from './normalizePdfToPngOptions.js';
-import { renderPdfPage } from './pageRenderer.js';
+import { resolveOptionalContent } from './optionalContent.js';
+import type { PageRenderOptions } from './pageRenderer.js';
+import { renderPdfPage, renderPdfPagePixels, resolvePageEncoding, resolvePageScaling } from './pageRenderer.js';
 import { getPdfDocument } from './pdfjsLoader.js';
+import type { PngMetadata } from './pngMetadata.js';
+import { resolvePngMetadata } from './pngMetadata.js';
 
 /**
- * Worker-thread entry point for `renderInWorkerThreads` mode.
+ * Worker-thread entry point for `renderInWorkerThreads` mode and for `PdfRenderPool`.
  *
- * Each worker loads its OWN copy of the PDF document (pdf.js documents are not transferable
- * across threads) and renders the pages the pool assigns to it, end-to-end: getPage → render →
- * PNG encode. Disk writes stay on the main thread so the SEC-001/002/003 path guards run in
- * exactly one place. Workers never exit on their own — the pool terminates them.
+ * Workers are document-agnostic and long-lived: documents arrive with render requests, each
+ * loaded into the worker's OWN pdf.js instance (pdf.js documents are not transferable across
+ * threads) and kept in a small LRU cache, so one worker can serve many conversions. Pages are
+ * rendered end-to-end: getPage → render → image encode. Disk writes stay on the main thread so
+ * the SEC-001/002/003 path guards run in exactly one place. Workers never exit on their own —
+ * the pool terminates them.
  *
  * Runs only as a compiled artifact (`out/pageRenderWorker.js`); see `resolveWorkerEntryPath`
- * in `src/workerPool.ts` for how the pool locates it.
+ * in `src/pdfRenderPool.ts` for how the pool locates it.
  */
 
 if (parentPort === null) {
@@ -22,12 +31,75 @@ if (parentPort === null) {
 }
 const port = parentPort;
 const init = workerData as WorkerInitData;
-// Re-normalize inside the worker: pure, keeps NormalizedPdfToPngOptions the single validation
-// boundary on both sides of the thread hop, and reconstructs defaulted fields dropped from the
-// serializable subset.
-const normalizedOptions = normalizePdfToPngOptions(init.documentOptions);
 
-let documentPromise: Promise<PDFDocumentProxy> | undefined;
+interface LoadedDocument {
+    pdfDocument: PDFDocumentProxy;
+    renderOptions: PageRenderOptions;
+    returnRawPixels: boolean;
+}
+
+interface CachedDocument {
+    /** Rejects (and stays rejected) when the document cannot be loaded. */
+    ready: Promise<LoadedDocument>;
+    materializeContent: boolean;
+    reportProgress: boolean;
+    activeRenders: number;
+    /** Evicted or released; destroyed as soon as no render of it is in progress. */
+    released: boolean;
+}
+
+const documents = new LruCache<number, CachedDocument>(init.maxCachedDocuments);
+
+async function loadDocument(document: WorkerDocument): Promise<LoadedDocument> {
+    // Re-normalize inside the worker: pure, keeps NormalizedPdfToPngOptions the single validation
+    // boundary on both sides of the thread hop, and reconstructs defaulted fields dropped from the
+    // serializable subset.
+    const normalizedOptions = normalizePdfToPngOptions(document.documentOptions);
+    // getPdfDocument transfers (detaches) this worker's private copy of the buffer, which is
+    // fine — each copy is loaded exactly once.
+    const pdfDocument = await getPdfDocument(document.pdfBuffer, normalizedOptions);
+    let optionalContent: OptionalContentConfig | undefined;
+    let pngMetadata: PngMetadata | undefined;
+    try {
+        optionalContent = await resolveOptionalContent(pdfDocument, normalizedOptions.optionalContent, normalizedOptions.renderIntent);
+        pngMetadata =
+            normalizedOptions.pngMetadata &&
+            (await resolvePngMetadata(pdfDocument, normalizedOptions.pngMetadata, document.documentOptions.sourceName));
+    } catch (error: unknown) {
+        await pdfDocument.loadingTask.destroy();
+        throw error;
+    }
+    return {
+        pdfDocument,
+        renderOptions: {
+            scaling: resolvePageScaling(normalizedOptions),
+            pageBox: normalizedOptions.pageBox,
+            clip: normalizedOptions.clip,
+            background: normalizedOptions.background,
+            annotationMode: normalizedOptions.annotationMode,
+            optionalContent,
+            renderIntent: normalizedOptions.renderIntent,
+            encoding: resolvePageEncoding(normalizedOptions),
+            pngMetadata,
+        },
+        returnRawPixels: normalizedOptions.returnRawPixels,
+    };
+}
+
+function destroyIfIdle(entry: CachedDocument): void {
+    if (entry.released && entry.activeRenders === 0) {
+        // A document that failed to load has nothing to destroy (getPdfDocument already did).
+        void entry.ready.then(
+            ({ pdfDocument }) => pdfDocument.loadingTask.destroy(),
+            () => undefined,
+        );
+    }
+}
+
+function release(entry: CachedDocument): void {
+    entry.released = true;
+    destroyIfIdle(entry);
+}
 
 /**
  * Posts a response that carries a thrown value. Error instances structured-clone with
@@ -42,47 +114,111 @@ function postErrorResponse(build: (error: unknown) => WorkerResponse, error: unk
     }
 }
 
+/** Returns the cached entry for the request, loading (and caching) the document it carries. */
+function resolveDocument(request: RenderPageRequest): CachedDocument | undefined {
+    if (request.document === undefined) {
+        return documents.get(request.documentId);
+    }
+    const entry: CachedDocument = {
+        ready: loadDocument(request.document),
+        materializeContent: request.document.materializeContent,
+        reportProgress: request.document.reportProgress,
+        activeRenders: 0,
+        released: false,
+    };
+    // Handled where it is awaited; this keeps a failed load that is never awaited (evicted
+    // first) from surfacing as an unhandled rejection.
+    entry.ready.catch(() => undefined);
+    for (const evicted of documents.set(request.documentId, entry)) {
+        release(evicted);
+    }
+    return entry;
+}
+
 async function handleRender(request: RenderPageRequest): Promise<void> {
-    let pdfDocument: PDFDocumentProxy;
-    try {
-        // Loaded lazily once per worker; getPdfDocument transfers (detaches) this worker's
-        // private copy of the buffer, which is fine — it is loaded exactly once.
-        documentPromise ??= getPdfDocument(init.pdfBuffer, normalizedOptions);
-        pdfDocument = await documentPromise;
-    } catch (error: unknown) {
-        postErrorResponse((cause) => ({ type: 'fatal', error: cause }), error);
+    const { documentId, index } = request;
+    const entry = resolveDocument(request);
+    if (entry === undefined) {
+        // The pool mirrors this cache, so this indicates a protocol bug rather than a bad page.
+        postErrorResponse(
+            (cause) => ({ type: 'render-error', documentId, index, error: cause }),
+            new Error(`Document ${documentId} is not loaded in this render worker.`),
+        );
         return;
     }
 
+    entry.activeRenders += 1;
     try {
-        const page = await renderPdfPage(
-            pdfDocument,
-            request.pageName,
-            request.pageNumber,
-            normalizedOptions.viewportScale,
-            init.materializeContent,
-        );
-        const response: WorkerResponse = {
-            type: 'result',
-            index: request.index,
-            pageNumber: page.pageNumber,
-            name: page.name,
-            width: page.width,
-            height: page.height,
-            rotation: page.rotation,
-            content: page.content,
+        let loaded: LoadedDocument;
+        try {
+            loaded = await entry.ready;
+        } catch (error: unknown) {
+            postErrorResponse((cause) => ({ type: 'fatal', documentId, error: cause }), error);
+            return;
+        }
+
+        // Stages are relayed to the main thread, which owns the user's onProgress callback.
+        const onPageStage = (pageNumber: number, stage: PdfToPngProgressStage): void => {
+            if (stage !== 'written') {
+                port.postMessage({ type: 'progress', documentId, index, pageNumber, stage } satisfies WorkerResponse);
+            }
         };
-        // The PNG bytes are structured-clone COPIED across the thread boundary, not
-        // transferred: @napi-rs/canvas allocates encode() output as a napi-external
-        // ArrayBuffer, which Node.js cannot transfer ("Cannot transfer object of
-        // unsupported type"). One copy per page (typically well under 1 MB) is negligible
-        // next to the render work this mode parallelizes.
-        port.postMessage(response);
-    } catch (error: unknown) {
-        postErrorResponse((cause) => ({ type: 'render-error', index: request.index, error: cause }), error);
+
+        try {
+            const { pdfDocument, returnRawPixels } = loaded;
+            const renderOptions: PageRenderOptions = {
+                ...loaded.renderOptions,
+                onPageStage: entry.reportProgress ? onPageStage : undefined,
+            };
+            const page = returnRawPixels
+                ? await renderPdfPagePixels(pdfDocument, request.pageName, request.pageNumber, renderOptions)
+                : await renderPdfPage(pdfDocument, request.pageName, request.pageNumber, entry.materializeContent, renderOptions);
+            const response: WorkerResponse = {
+                type: 'result',
+                documentId,
+                index,
+                pageNumber: page.pageNumber,
+                name: page.name,
+                width: page.width,
+                height: page.height,
+                rotation: page.rotation,
+                viewportScale: page.viewportScale,
+                renderedRect: page.renderedRect,
+                // `format` is not consulted for raw pixels.
+                ...(page.kind === 'pixels'
+                    ? {
+                          format: 'png',
+                          bitDepth: page.bitDepth,
+                          colorType: page.colorType,
+                          content: undefined,
+                          pixels: { data: page.pixels, stride: page.stride },
+                      }
+                    : { format: page.format, bitDepth: page.bitDepth, colorType: page.colorType, content: page.content }),
+            };
+            // The encoded bytes are structured-clone COPIED across the thread boundary, not
+            // transferred: @napi-rs/canvas allocates encode() output as a napi-external
+            // ArrayBuffer, which Node.js cannot transfer ("Cannot transfer object of
+            // unsupported type"). One copy per page (typically well under 1 MB) is negligible
+            // next to the render work this mode parallelizes. Raw pixels are many times larger
+            // and live in an ordinary ArrayBuffer of their own (`packPixels`), so they are
+            // transferred instead.
+            port.postMessage(response, page.kind === 'pixels' ? [page.pixels.buffer as ArrayBuffer] : []);
+        } catch (error: unknown) {
+            postErrorResponse((cause) => ({ type: 'render-error', documentId, index, error: cause }), error);
+        }
+    } finally {
+        entry.activeRenders -= 1;
+        destroyIfIdle(entry);
     }
 }
 
-port.on('message', (request: RenderPageRequest) => {
+port.on('message', (request: WorkerRequest) => {
+    if (request.type === 'release') {
+        const entry = documents.delete(request.documentId);
+        if (entry !== undefined) {
+            release(entry);
+        }
+        return;
+    }
     void handleRender(request);
 });
@@ -1,6 +1,33 @@
-import type { PDFDocumentProxy } from 'pdfjs-dist';
-import { MAX_CANVAS_PIXELS } from './const.js';
-import type { CanvasAndContext, InMemoryPngPageOutput, MetadataPngPageOutput, PageRotation } from './interfaces/index.js';
+import type { Canvas } from '@napi-rs/canvas';
+import type { PageViewport, PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import type { OptionalContentConfig } from 'pdfjs-dist/types/src/display/optional_content_config';
+import { throwIfAborted } from './abortSignal.js';
+import { MAX_CANVAS_PIXELS, MAX_VIEWPORT_SCALE, PDFJS_ANNOTATION_MODES, PNG_COMPRESSION_DEFAULTS } from './const.js';
+import type {
+    AnnotationRenderMode,
+    CanvasAndContext,
+    ColorMode,
+    InMemoryPngPageOutput,
+    MetadataPngPageOutput,
+    OutputFormat,
+    PageBox,
+    PageClip,
+    PageRotation,
+    PdfRectangle,
+    PngCompressionOptions,
+    PngPageTile,
+    RawPixelsPngPageOutput,
+    RenderIntent,
+    TiledPngPageOutput,
+} from './interfaces/index.js';
+import type { NormalizedPdfToPngOptions } from './normalizePdfToPngOptions.js';
+import { getPageBoxRectangle } from './pdfPageBoxes.js';
+import { throwIfRangeReadFailed } from './pdfjsLoader.js';
+import type { BilevelOptions } from './pngEncoder.js';
+import { encodePng, insertPngChunks, packPixels } from './pngEncoder.js';
+import type { PngMetadata } from './pngMetadata.js';
+import { pngMetadataChunks } from './pngMetadata.js';
+import type { PageStageListener } from './progressReporter.js';
 
 /**
  * Minimal structural contract for the canvas factory pdf.js installs on each document.
@@ -9,8 +36,8 @@ import type { CanvasAndContext, InMemoryPngPageOutput, MetadataPngPageOutput, Pa
  * `create` / `destroy` slice we use. At runtime this is pdf.js's built-in Node canvas factory,
  * which is backed by `@napi-rs/canvas` (pdf.js's own optional dependency, kept as a direct
  * dependency of this package so it is always present). The produced `Canvas` therefore exposes
- * the native Skia PNG encoders: the async `encode('png')` used by the render path and its
- * synchronous twin `toBuffer('image/png')`.
+ * the native Skia encoders: the async `encode()` used by the render path (PNG, JPEG, WebP) and
+ * its synchronous twin `toBuffer()`.
  */
 interface CanvasFactory {
     create(width: number, height: number): CanvasAndContext;
@@ -87,6 +114,244 @@ export function canvasPixelLimitError(canvasWidth: number, canvasHeight: number)
     );
 }
 
+/** How a rendered canvas is encoded: the target format and, for the lossy formats, its quality. */
+export interface PageEncoding {
+    format: OutputFormat;
+    /** Encoder quality `0..100`; only consulted for `jpeg` and `webp`. */
+    quality: number;
+    /** Pixel format of `png` output; always `'rgba'` for the other formats. */
+    colorMode: ColorMode;
+    /** Only consulted for `colorMode: 'bilevel'`. */
+    bilevel: BilevelOptions;
+    /** Compression of `png` output; unset leaves RGBA pages to the canvas's own encoder. */
+    compression: Required<PngCompressionOptions> | undefined;
+}
+
+/** Picks the encoding for a conversion out of the normalized options (the quality of the selected format). */
+export function resolvePageEncoding(
+    opts: Pick<
+        NormalizedPdfToPngOptions,
+        'outputFormat' | 'jpegQuality' | 'webpQuality' | 'colorMode' | 'bilevelThreshold' | 'dither' | 'pngCompression'
+    >,
+): PageEncoding {
+    const bilevel: BilevelOptions = { threshold: opts.bilevelThreshold, dither: opts.dither };
+    switch (opts.outputFormat) {
+        case 'jpeg':
+            return { format: 'jpeg', quality: opts.jpegQuality, colorMode: 'rgba', bilevel, compression: undefined };
+        case 'webp':
+            return { format: 'webp', quality: opts.webpQuality, colorMode: 'rgba', bilevel, compression: undefined };
+        case 'png':
+            return { format: 'png', quality: 100, colorMode: opts.colorMode, bilevel, compression: opts.pngCompression };
+    }
+}
+
+/** The bit depth and colour type of the images `encoding` produces, as reported on each rendered page. */
+export function encodedPixelFormat(encoding: PageEncoding): Pick<InMemoryPngPageOutput, 'bitDepth' | 'colorType'> {
+    switch (encoding.format) {
+        case 'jpeg':
+            return { bitDepth: 8, colorType: 'rgb' };
+        case 'webp':
+            return { bitDepth: 8, colorType: 'rgba' };
+        case 'png':
+            return encoding.colorMode === 'bilevel' ? { bitDepth: 1, colorType: 'gray' } : { bitDepth: 8, colorType: encoding.colorMode };
+    }
+}
+
+/** A pixel box each page is scaled to fit, keeping its aspect ratio; unset limits do not constrain. */
+export interface PageFitBox {
+    targetWidth: number | undefined;
+    targetHeight: number | undefined;
+    /** Limit on the longer edge. */
+    maxDimension: number | undefined;
+}
+
+/** How each page's viewport scale is chosen: one scale for every page, or per page to fit a box. */
+export type PageScaling = { kind: 'fixed'; viewportScale: number } | { kind: 'fit'; box: PageFitBox };
+
+/** Picks the page scaling for a conversion out of the normalized options. */
+export function resolvePageScaling(
+    opts: Pick<NormalizedPdfToPngOptions, 'viewportScale' | 'targetWidth' | 'targetHeight' | 'maxDimension'>,
+): PageScaling {
+    const { targetWidth, targetHeight, maxDimension } = opts;
+    if (targetWidth === undefined && targetHeight === undefined && maxDimension === undefined) {
+        return { kind: 'fixed', viewportScale: opts.viewportScale };
+    }
+    return { kind: 'fit', box: { targetWidth, targetHeight, maxDimension } };
+}
+
+/**
+ * Where the rendered area lies in a page viewport, in viewport pixels (not yet floored): the whole
+ * viewport for the unclipped CropBox — pdf.js's own view — and the mapped box or clip rectangle
+ * otherwise.
+ */
+interface ViewportArea {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Maps `rect` (PDF user space) into `viewport`; `undefined` stands for the viewport's own view box. */
+function areaInViewport(viewport: PageViewport, rect: PdfRectangle | undefined): ViewportArea {
+    if (rect === undefined) {
+        return { x: 0, y: 0, width: viewport.width, height: viewport.height };
+    }
+    // Apply the viewport transform to two opposite corners; rotation may swap or mirror them.
+    const [a, b, c, d, e, f] = viewport.transform;
+    const [llx, lly, urx, ury] = rect;
+    const x1 = a * llx + c * lly + e;
+    const y1 = b * llx + d * lly + f;
+    const x2 = a * urx + c * ury + e;
+    const y2 = b * urx + d * ury + f;
+    return { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) };
+}
+
+/** Maps a viewport point back to PDF user space: the inverse of the viewport transform. */
+function toPdfPoint(viewport: PageViewport, x: number, y: number): [number, number] {
+    const [a, b, c, d, e, f] = viewport.transform;
+    const determinant = a * d - b * c;
+    return [(d * (x - e) - c * (y - f)) / determinant, (a * (y - f) - b * (x - e)) / determinant];
+}
+
+/**
+ * Maps `clip` — measured from the top-left corner of `box` as displayed — to PDF user space, cut
+ * to `box`. Throws when nothing of the clip is left on the page.
+ */
+function clipRectangle(page: PDFPageProxy, pageNumber: number, box: PdfRectangle, clip: Required<PageClip>): PdfRectangle {
+    const viewport = page.getViewport({ scale: 1 });
+    const area = areaInViewport(viewport, box);
+    const unitWidth = clip.units === 'fraction' ? area.width : 1;
+    const unitHeight = clip.units === 'fraction' ? area.height : 1;
+    const left = area.x + clip.x * unitWidth;
+    const top = area.y + clip.y * unitHeight;
+    const right = Math.min(left + clip.width * unitWidth, area.x + area.width);
+    const bottom = Math.min(top + clip.height * unitHeight, area.y + area.height);
+    if (right <= left || bottom <= top) {
+        throw new Error(`The clip lies outside page ${pageNumber}, which measures ${area.width}×${area.height} pt.`);
+    }
+    const [x1, y1] = toPdfPoint(viewport, left, top);
+    const [x2, y2] = toPdfPoint(viewport, right, bottom);
+    return [Math.min(x1, x2), Math.min(y1, y2), Math.max(x1, x2), Math.max(y1, y2)];
+}
+
+/** A page's viewport, the scale that produced it and the rendered area within it. */
+interface ScaledViewport {
+    viewport: PageViewport;
+    viewportScale: number;
+    area: ViewportArea;
+}
+
+/**
+ * Computes the page's viewport under `scaling`. A fitted scale is the largest that keeps every
+ * set limit, measured on the rendered area as displayed (rotation applied), and is held to the
+ * same `MAX_VIEWPORT_SCALE` bound as an explicit `viewportScale`.
+ */
+function scalePageViewport(page: PDFPageProxy, pageNumber: number, scaling: PageScaling, rect: PdfRectangle | undefined): ScaledViewport {
+    if (scaling.kind === 'fixed') {
+        const viewport = page.getViewport({ scale: scaling.viewportScale });
+        return { viewport, viewportScale: scaling.viewportScale, area: areaInViewport(viewport, rect) };
+    }
+
+    const unscaled = areaInViewport(page.getViewport({ scale: 1 }), rect);
+    const { targetWidth, targetHeight, maxDimension } = scaling.box;
+    const limits: Array<{ limit: number; edge: (area: ViewportArea) => number }> = [];
+    if (targetWidth !== undefined) {
+        limits.push({ limit: targetWidth, edge: (area) => area.width });
+    }
+    if (targetHeight !== undefined) {
+        limits.push({ limit: targetHeight, edge: (area) => area.height });
+    }
+    if (maxDimension !== undefined) {
+        limits.push({ limit: maxDimension, edge: (area) => Math.max(area.width, area.height) });
+    }
+    let binding = limits[0];
+    for (const candidate of limits) {
+        if (candidate.limit / candidate.edge(unscaled) < binding.limit / binding.edge(unscaled)) {
+            binding = candidate;
+        }
+    }
+
+    let viewportScale = binding.limit / binding.edge(unscaled);
+    if (!(viewportScale <= MAX_VIEWPORT_SCALE)) {
+        throw new Error(
+            `Page ${pageNumber} needs viewportScale ${viewportScale} to fit the requested size, above the maximum of ${MAX_VIEWPORT_SCALE}.`,
+        );
+    }
+    let viewport = page.getViewport({ scale: viewportScale });
+    let area = areaInViewport(viewport, rect);
+    // limit / edge × edge can land a hair below the limit in floating point, which the pixel floor
+    // would turn into one pixel short. Each step moves the scale up by at least one ulp.
+    while (toPixelDimension(binding.edge(area)) < binding.limit) {
+        viewportScale *= 1 + Number.EPSILON;
+        viewport = page.getViewport({ scale: viewportScale });
+        area = areaInViewport(viewport, rect);
+    }
+    return { viewport, viewportScale, area };
+}
+
+/**
+ * The per-conversion settings shared by every page render. Built once per conversion (and once
+ * per render worker) and passed down as one object, so the scheduler and the worker entry do
+ * not need to know which of them the renderer consults.
+ */
+export interface PageRenderOptions {
+    scaling: PageScaling;
+    /** The page boundary that defines the rendered area. */
+    pageBox: PageBox;
+    /** The rectangle of the page box to render; unset renders the whole box. */
+    clip?: Required<PageClip>;
+    /** The CSS colour the canvas is filled with before the page is drawn (`'transparent'` leaves it clear). */
+    background: string;
+    /** Which annotations and form fields are drawn over the page. */
+    annotationMode: AnnotationRenderMode;
+    /** The layer visibility pages are drawn with (`resolveOptionalContent`); unset uses the document's default. */
+    optionalContent?: OptionalContentConfig;
+    /** Whether pages are drawn as on screen or as printed. */
+    renderIntent: RenderIntent;
+    encoding: PageEncoding;
+    /** The metadata chunks written into PNG output (`resolvePngMetadata`); unset writes none. */
+    pngMetadata?: PngMetadata;
+    /** Edge of the square tiles pages are rendered in (`renderPdfPageTiles`); unset renders each page on one canvas. */
+    tileSize?: number;
+    /**
+     * Cancels the in-flight pdf.js render task when aborted. Main-thread only: an `AbortSignal`
+     * cannot cross a worker boundary, so worker-mode renders are stopped by terminating the worker.
+     */
+    signal?: AbortSignal;
+    /** Told when a page has been rendered and when it has been encoded; drives `onProgress`. */
+    onPageStage?: PageStageListener;
+}
+
+/**
+ * Async `encode()` runs on the libuv threadpool (byte-identical to the synchronous `toBuffer` —
+ * same native Skia encoder) so the JS thread is free to render another page while this one
+ * compresses. The PNG encoder takes no quality argument and has a fixed compression level, so PNG
+ * in a reduced `colorMode` or with `pngCompression` is read back off the canvas (on this thread)
+ * and written by `encodePng`, which packs, filters and deflates on the shared encode worker.
+ * `pngChunks` (metadata) are spliced into PNG output after encoding, whichever encoder wrote it.
+ */
+async function encodeCanvas(canvas: Canvas, encoding: PageEncoding, pngChunks: Buffer[]): Promise<Buffer> {
+    switch (encoding.format) {
+        case 'png': {
+            let encoded: Buffer;
+            if (encoding.colorMode !== 'rgba' || encoding.compression !== undefined) {
+                const image = canvas.getContext('2d').getImageData(0, 0, canvas.width, canvas.height);
+                encoded = await encodePng(image, encoding.colorMode, {
+                    bilevel: encoding.bilevel,
+                    compression: encoding.compression ?? PNG_COMPRESSION_DEFAULTS,
+                });
+            } else {
+                encoded = await canvas.encode('png');
+            }
+            return insertPngChunks(encoded, pngChunks);
+        }
+        case 'jpeg':
+            return await canvas.encode('jpeg', encoding.quality);
+        case 'webp':
+            return await canvas.encode('webp', encoding.quality);
+    }
+}
+
 export function normalizeRotation(raw: number): PageRotation {
     const normalized = ((raw % 360) + 360) % 360;
     switch (normalized) {
@@ -103,26 +368,80 @@ export function normalizeRotation(raw: number): PageRotation {
     }
 }
 
+/**
+ * Throws when the page image is not renderable: a side that floors to `0` px, or — unless the page
+ * is rendered in tiles, which holds each canvas to the tile size instead — an area above
+ * `MAX_CANVAS_PIXELS`.
+ */
+function assertRenderableDimensions(width: number, height: number, tiled: boolean): void {
+    // Bound the canvas that is actually allocated — the floored bitmap — not the fractional
+    // viewport area, so a page whose floored dimensions fit the limit is not wrongly rejected.
+    if (!tiled && width * height > MAX_CANVAS_PIXELS) {
+        throw canvasPixelLimitError(width, height);
+    }
+    if (width <= 0 || height <= 0) {
+        throw nonRenderableDimensionsError(width, height);
+    }
+}
+
+/** A page measured for rendering: its viewport, the rendered area and that area's pixel size. */
+interface PageMeasurement extends ScaledViewport {
+    renderedRect: PdfRectangle;
+    width: number;
+    height: number;
+}
+
+/**
+ * Measures `page` as `options` render it. `tiled` lifts the whole-page canvas limit, as tiling
+ * does for the render itself.
+ */
+async function measurePage(
+    pdf: PDFDocumentProxy,
+    page: PDFPageProxy,
+    pageNumber: number,
+    options: Pick<PageRenderOptions, 'scaling' | 'pageBox' | 'clip'>,
+    tiled: boolean,
+): Promise<PageMeasurement> {
+    const box = await getPageBoxRectangle(pdf, page, options.pageBox);
+    const renderedRect = options.clip === undefined ? box : clipRectangle(page, pageNumber, box, options.clip);
+    // The whole CropBox is pdf.js's own view, so it renders through the untouched viewport.
+    const unclippedCropBox = options.pageBox === 'CropBox' && options.clip === undefined;
+    const scaled = scalePageViewport(page, pageNumber, options.scaling, unclippedCropBox ? undefined : renderedRect);
+    const width = toPixelDimension(scaled.area.width);
+    const height = toPixelDimension(scaled.area.height);
+    assertRenderableDimensions(width, height, tiled);
+    return { ...scaled, renderedRect, width, height };
+}
+
+/** `pdf.getPage()`, reporting a failed `rangeLoading` read instead of what pdf.js made of it. */
+async function getPage(pdf: PDFDocumentProxy, pageNumber: number): Promise<PDFPageProxy> {
+    let page: PDFPageProxy;
+    try {
+        page = await pdf.getPage(pageNumber);
+    } catch (error: unknown) {
+        throwIfRangeReadFailed(pdf);
+        throw error;
+    }
+    throwIfRangeReadFailed(pdf);
+    return page;
+}
+
 export async function getPageMetadata(
     pdf: PDFDocumentProxy,
     pageName: string,
     pageNumber: number,
-    pageViewportScale: number,
+    options: Pick<PageRenderOptions, 'scaling' | 'pageBox' | 'clip' | 'tileSize'>,
 ): Promise<MetadataPngPageOutput> {
-    const page = await pdf.getPage(pageNumber);
-    const viewport = page.getViewport({ scale: pageViewportScale });
+    const page = await getPage(pdf, pageNumber);
 
     try {
-        // Bound the canvas that is actually allocated — the floored bitmap — not the fractional
-        // viewport area, so a page whose floored dimensions fit the limit is not wrongly rejected.
-        const width = toPixelDimension(viewport.width);
-        const height = toPixelDimension(viewport.height);
-        if (width * height > MAX_CANVAS_PIXELS) {
-            throw canvasPixelLimitError(width, height);
-        }
-        if (width <= 0 || height <= 0) {
-            throw nonRenderableDimensionsError(width, height);
-        }
+        const { viewportScale, renderedRect, width, height } = await measurePage(
+            pdf,
+            page,
+            pageNumber,
+            options,
+            options.tileSize !== undefined,
+        );
         return {
             kind: 'metadata',
             pageNumber,
@@ -132,72 +451,274 @@ export async function getPageMetadata(
             width,
             height,
             rotation: normalizeRotation(page.rotate),
+            viewportScale,
+            renderedRect,
         };
     } finally {
         page.cleanup();
     }
 }
 
+/** A page fetched and measured for rendering; the caller owns `page.cleanup()`. */
+interface PreparedPage extends PageMeasurement {
+    pdf: PDFDocumentProxy;
+    page: PDFPageProxy;
+    canvasFactory: CanvasFactory;
+    background: string;
+    annotationMode: AnnotationRenderMode;
+    optionalContent: OptionalContentConfig | undefined;
+    renderIntent: RenderIntent;
+}
+
+async function preparePage(pdf: PDFDocumentProxy, pageNumber: number, options: PageRenderOptions, tiled: boolean): Promise<PreparedPage> {
+    throwIfAborted(options.signal);
+    const page = await getPage(pdf, pageNumber);
+    try {
+        const measurement = await measurePage(pdf, page, pageNumber, options, tiled);
+        const canvasFactory = pdf.canvasFactory;
+        if (!isCanvasFactory(canvasFactory)) {
+            throw new Error('pdf.js did not provide a usable canvas factory (missing create/destroy).');
+        }
+        const { background, annotationMode, optionalContent, renderIntent } = options;
+        return { ...measurement, pdf, page, canvasFactory, background, annotationMode, optionalContent, renderIntent };
+    } catch (error: unknown) {
+        page.cleanup();
+        throw error;
+    }
+}
+
+/** A rectangle of the page image, in pixels from its top-left corner: the whole image, or one tile of it. */
+interface PixelRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Renders `region` of the page image onto a canvas of the region's size and hands the canvas to
+ * `use`. A region away from the viewport origin — a tile, a clip, or any box but the CropBox —
+ * shifts the page by its offset (pdf.js's `transform`, applied before the viewport transform), so
+ * the canvas holds exactly that part of the page. The canvas is destroyed once `use` settles, so an
+ * encode awaited inside `use` finishes first.
+ */
+async function renderRegion<T>(
+    prepared: PreparedPage,
+    region: PixelRegion,
+    signal: AbortSignal | undefined,
+    use: (canvas: Canvas) => Promise<T>,
+): Promise<T> {
+    const { pdf, page, viewport, area, canvasFactory, background, annotationMode, optionalContent, renderIntent } = prepared;
+    const canvasAndContext = canvasFactory.create(region.width, region.height);
+    const { canvas, context } = canvasAndContext;
+
+    try {
+        if (!canvas || !context) {
+            throw new Error('pdf.js canvas factory returned a null canvas or context.');
+        }
+        const offsetX = area.x + region.x;
+        const offsetY = area.y + region.y;
+        const transform = offsetX === 0 && offsetY === 0 ? undefined : [1, 0, 0, 1, -offsetX, -offsetY];
+        // Render through the factory's context rather than the canvas: given a canvas, pdf.js opens
+        // its own `alpha: false` context on it, which would paint a transparent background white.
+        const renderParameters = {
+            canvasContext: context,
+            viewport,
+            canvas: null,
+            transform,
+            background,
+            intent: renderIntent,
+            annotationMode: PDFJS_ANNOTATION_MODES[annotationMode],
+            optionalContentConfigPromise: optionalContent === undefined ? undefined : Promise.resolve(optionalContent),
+        };
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore — upstream pdfjs-dist@~6.1.x expects DOM CanvasRenderingContext2D, but @napi-rs/canvas exposes SKRSContext2D here. @ts-ignore (not @ts-expect-error) is required because build:test runs with skipLibCheck:true, which hides this error and would make @ts-expect-error report as unused.
+        const renderTask = page.render(renderParameters);
+        const cancelRender = (): void => renderTask.cancel();
+        // An abort during getPage() fired before the listener existed; cancel right away.
+        if (signal?.aborted === true) {
+            cancelRender();
+        }
+        signal?.addEventListener('abort', cancelRender, { once: true });
+        try {
+            await renderTask.promise;
+        } catch (error: unknown) {
+            // A cancelled render rejects with pdf.js's RenderingCancelledException; report the abort instead.
+            throwIfAborted(signal);
+            throwIfRangeReadFailed(pdf);
+            throw error;
+        } finally {
+            signal?.removeEventListener('abort', cancelRender);
+        }
+        // Skip the encode when the abort landed after the last drawing operation.
+        throwIfAborted(signal);
+        throwIfRangeReadFailed(pdf);
+        return await use(canvas);
+    } finally {
+        // Pass the original object pdf.js handed back so any internal fields it needs for cleanup
+        // survive. Guard on canvas: pdf.js's destroy() asserts a non-null canvas, so skip it when
+        // create() yielded none (the try block has already thrown for that case).
+        if (canvasAndContext.canvas) {
+            canvasFactory.destroy(canvasAndContext);
+        }
+    }
+}
+
 export async function renderPdfPage(
     pdf: PDFDocumentProxy,
     pageName: string,
     pageNumber: number,
-    pageViewportScale: number,
     returnPageContent: boolean,
+    options: PageRenderOptions,
 ): Promise<InMemoryPngPageOutput> {
-    const page = await pdf.getPage(pageNumber);
-    const viewport = page.getViewport({ scale: pageViewportScale });
+    const { encoding, signal, onPageStage } = options;
+    const prepared = await preparePage(pdf, pageNumber, options, false);
+    const { page, viewportScale, renderedRect, width, height } = prepared;
 
-    // Bound the canvas that is actually allocated — the floored bitmap — not the fractional
-    // viewport area, so a page whose floored dimensions fit the limit is not wrongly rejected.
-    const canvasWidth = toPixelDimension(viewport.width);
-    const canvasHeight = toPixelDimension(viewport.height);
-    if (canvasWidth * canvasHeight > MAX_CANVAS_PIXELS) {
-        page.cleanup();
-        throw canvasPixelLimitError(canvasWidth, canvasHeight);
-    }
-    if (canvasWidth <= 0 || canvasHeight <= 0) {
+    try {
+        const content = await renderRegion(prepared, { x: 0, y: 0, width, height }, signal, async (canvas) => {
+            onPageStage?.(pageNumber, 'rendered');
+            if (!returnPageContent) {
+                return undefined;
+            }
+            const encoded = await encodeCanvas(canvas, encoding, pngMetadataChunks(options.pngMetadata, pageNumber, viewportScale));
+            onPageStage?.(pageNumber, 'encoded');
+            return encoded;
+        });
+        return {
+            kind: 'content',
+            pageNumber,
+            name: pageName,
+            format: encoding.format,
+            ...encodedPixelFormat(encoding),
+            content,
+            path: '',
+            width,
+            height,
+            rotation: normalizeRotation(page.rotate),
+            viewportScale,
+            renderedRect,
+        };
+    } finally {
         page.cleanup();
-        throw nonRenderableDimensionsError(canvasWidth, canvasHeight);
     }
+}
 
-    const canvasFactory = pdf.canvasFactory;
-    if (!isCanvasFactory(canvasFactory)) {
+/**
+ * Unencoded twin of {@link renderPdfPage} for `returnRawPixels`: reads the page's pixels off the
+ * canvas in the encoding's `colorMode` instead of encoding them, so `onPageStage` is only told
+ * `'rendered'`.
+ */
+export async function renderPdfPagePixels(
+    pdf: PDFDocumentProxy,
+    pageName: string,
+    pageNumber: number,
+    options: PageRenderOptions,
+): Promise<RawPixelsPngPageOutput> {
+    const { encoding, signal, onPageStage } = options;
+    const prepared = await preparePage(pdf, pageNumber, options, false);
+    const { page, viewportScale, renderedRect, width, height } = prepared;
+
+    try {
+        const pixels = await renderRegion(prepared, { x: 0, y: 0, width, height }, signal, async (canvas) => {
+            onPageStage?.(pageNumber, 'rendered');
+            return packPixels(canvas.getContext('2d').getImageData(0, 0, width, height), encoding.colorMode, encoding.bilevel);
+        });
+        return {
+            kind: 'pixels',
+            pageNumber,
+            name: pageName,
+            ...encodedPixelFormat(encoding),
+            pixels,
+            stride: pixels.length / height,
+            content: undefined,
+            path: '',
+            width,
+            height,
+            rotation: normalizeRotation(page.rotate),
+            viewportScale,
+            renderedRect,
+        };
+    } finally {
         page.cleanup();
-        throw new Error('pdf.js did not provide a usable canvas factory (missing create/destroy).');
     }
+}
 
-    const canvasAndContext = canvasFactory.create(canvasWidth, canvasHeight);
-    const { canvas, context } = canvasAndContext;
+/** A tile as the renderer produces it: placed in the page's tile grid, not yet named or written. */
+export type RenderedPageTile = Omit<PngPageTile, 'name' | 'path'>;
+
+/**
+ * Takes each tile as soon as it is encoded (and its canvas destroyed) and returns it in its final
+ * form — named, and written in file mode. Tiles are finished one at a time, in row-major order.
+ */
+export type PageTileHandler = (tile: RenderedPageTile) => Promise<PngPageTile>;
+
+/**
+ * Tiled twin of {@link renderPdfPage}: renders the page as a grid of `tileSize` × `tileSize`
+ * canvases (cut to the page on the right and bottom edges), one tile at a time, so at most one
+ * tile canvas of the page is alive whatever the page size — the whole-page `MAX_CANVAS_PIXELS`
+ * limit does not apply. Each tile is encoded and passed to `finishTile` before the next tile's
+ * canvas is created. `onPageStage` is told `'rendered'` and `'encoded'` once, with the last tile.
+ */
+export async function renderPdfPageTiles(
+    pdf: PDFDocumentProxy,
+    pageName: string,
+    pageNumber: number,
+    tileSize: number,
+    returnTileContent: boolean,
+    options: PageRenderOptions,
+    finishTile: PageTileHandler,
+): Promise<TiledPngPageOutput> {
+    const { encoding, signal, onPageStage } = options;
+    const prepared = await preparePage(pdf, pageNumber, options, true);
+    const { page, viewportScale, renderedRect, width, height } = prepared;
+    const rows = Math.ceil(height / tileSize);
+    const columns = Math.ceil(width / tileSize);
+    const pngChunks = pngMetadataChunks(options.pngMetadata, pageNumber, viewportScale);
 
     try {
-        if (!canvas || !context) {
-            throw new Error('pdf.js canvas factory returned a null canvas or context.');
+        const tiles: PngPageTile[] = [];
+        for (let row = 0; row < rows; row += 1) {
+            for (let column = 0; column < columns; column += 1) {
+                throwIfAborted(signal);
+                const isLastTile = row === rows - 1 && column === columns - 1;
+                const x = column * tileSize;
+                const y = row * tileSize;
+                const region: PixelRegion = { x, y, width: Math.min(tileSize, width - x), height: Math.min(tileSize, height - y) };
+                const content = await renderRegion(prepared, region, signal, async (canvas) => {
+                    if (isLastTile) {
+                        onPageStage?.(pageNumber, 'rendered');
+                    }
+                    if (!returnTileContent) {
+                        return undefined;
+                    }
+                    const encoded = await encodeCanvas(canvas, encoding, pngChunks);
+                    if (isLastTile) {
+                        onPageStage?.(pageNumber, 'encoded');
+                    }
+                    return encoded;
+                });
+                tiles.push(await finishTile({ row, column, ...region, content }));
+            }
         }
-        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-        // @ts-ignore — upstream pdfjs-dist@~6.1.x expects DOM CanvasRenderingContext2D, but @napi-rs/canvas exposes SKRSContext2D here. @ts-ignore (not @ts-expect-error) is required because build:test runs with skipLibCheck:true, which hides this error and would make @ts-expect-error report as unused.
-        await page.render({ canvasContext: context, viewport, canvas }).promise;
         return {
-            kind: 'content',
+            kind: 'tiles',
             pageNumber,
             name: pageName,
-            // Async encode() runs on the libuv threadpool (byte-identical to the synchronous
-            // toBuffer — same native Skia encoder) so the JS thread is free to render another
-            // page while this one compresses. The await sits inside the try block, so the
-            // finally's canvasFactory.destroy() cannot run until encoding has finished.
-            content: returnPageContent ? await canvas.encode('png') : undefined,
+            format: encoding.format,
+            ...encodedPixelFormat(encoding),
+            content: undefined,
             path: '',
-            width: canvasWidth,
-            height: canvasHeight,
+            width,
+            height,
             rotation: normalizeRotation(page.rotate),
+            viewportScale,
+            renderedRect,
+            rows,
+            columns,
+            tiles,
         };
     } finally {
         page.cleanup();
-        // Pass the original object pdf.js handed back so any internal fields it needs for cleanup
-        // survive. Guard on canvas: pdf.js's destroy() asserts a non-null canvas, so skip it when
-        // create() yielded none (the try block has already thrown for that case).
-        if (canvasAndContext.canvas) {
-            canvasFactory.destroy(canvasAndContext);
-        }
     }
 }
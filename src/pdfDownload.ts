@@ -0,0 +1,105 @@
+import type { IncomingMessage } from 'node:http';
+import { request as httpRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { URL } from 'node:url';
+import { throwIfAborted } from './abortSignal.js';
+import type { PdfDownloadOptions } from './interfaces/index.js';
+
+/** Whether `url` is fetched over the network rather than read as a path. */
+export function isDownloadUrl(url: URL): boolean {
+    return url.protocol === 'http:' || url.protocol === 'https:';
+}
+
+/**
+ * The URL as error messages name it: without credentials and query string, since presigned URLs
+ * carry their signature in the query.
+ */
+function describeUrl(url: URL): string {
+    return `${url.origin}${url.pathname}`;
+}
+
+function get(url: URL, headers: Record<string, string>, signal: AbortSignal): Promise<IncomingMessage> {
+    return new Promise((resolve, reject) => {
+        const request = (url.protocol === 'https:' ? httpsRequest : httpRequest)(url, { headers, signal }, resolve);
+        request.on('error', reject);
+        request.end();
+    });
+}
+
+/**
+ * Requests `url`, following redirects, and checks the final response: status `200`, an allowed
+ * content type and a declared length within `maxInputBytes`. Headers go to the original origin
+ * only, as `fetch()` drops `authorization` on cross-origin redirects.
+ */
+async function openResponse(
+    url: URL,
+    options: Required<PdfDownloadOptions>,
+    maxInputBytes: number,
+    signal: AbortSignal,
+): Promise<IncomingMessage> {
+    let current = url;
+    for (let redirects = 0; ; redirects += 1) {
+        const response = await get(current, current.origin === url.origin ? options.headers : {}, signal);
+        try {
+            const status = response.statusCode ?? 0;
+            const { location } = response.headers;
+            if (status >= 300 && status < 400 && location !== undefined) {
+                if (redirects === options.maxRedirects) {
+                    throw new Error(`PDF download from ${describeUrl(url)} exceeded ${options.maxRedirects} redirects`);
+                }
+                const next = new URL(location, current);
+                if (!isDownloadUrl(next)) {
+                    throw new Error(`PDF download from ${describeUrl(url)} redirected to an unsupported protocol: ${next.protocol}`);
+                }
+                // The redirect's own body is not needed; drop it so the socket is released.
+                response.destroy();
+                current = next;
+                continue;
+            }
+            if (status !== 200) {
+                throw new Error(`PDF download from ${describeUrl(current)} failed with HTTP ${status}`);
+            }
+            const contentType = (response.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+            if (!options.allowedContentTypes.includes(contentType)) {
+                throw new Error(
+                    `PDF download from ${describeUrl(current)} has content type "${contentType}", ` +
+                        `expected one of: ${options.allowedContentTypes.join(', ')}`,
+                );
+            }
+            const contentLength = Number(response.headers['content-length']);
+            if (contentLength > maxInputBytes) {
+                throw new Error(`Input PDF exceeds maxInputBytes (${contentLength} > ${maxInputBytes} bytes)`);
+            }
+            return response;
+        } catch (error: unknown) {
+            response.destroy();
+            throw error;
+        }
+    }
+}
+
+/**
+ * Downloads an `http:` or `https:` URL and hands the response body to `read`, which enforces
+ * `maxInputBytes` as the bytes arrive. `download.timeoutMs` bounds everything — connecting,
+ * redirects and reading the body — and `signal` aborts it all with the usual `AbortError`.
+ */
+export async function downloadPdf<T>(
+    url: URL,
+    options: Required<PdfDownloadOptions>,
+    maxInputBytes: number,
+    signal: AbortSignal | undefined,
+    read: (body: IncomingMessage) => Promise<T>,
+): Promise<T> {
+    throwIfAborted(signal);
+    const timeout = AbortSignal.timeout(options.timeoutMs);
+    const requestSignal = signal === undefined ? timeout : AbortSignal.any([signal, timeout]);
+    try {
+        return await read(await openResponse(url, options, maxInputBytes, requestSignal));
+    } catch (error: unknown) {
+        throwIfAborted(signal);
+        if (timeout.aborted) {
+            throw new Error(`PDF download from ${describeUrl(url)} timed out after ${options.timeoutMs} ms`, { cause: error });
+        }
+        throw error;
+    }
+}
@@ -1,4 +1,9 @@
 import { promises as fsPromises } from 'node:fs';
+import { fileURLToPath, URL } from 'node:url';
+import type { PdfFileInput, PdfStreamInput } from './interfaces/index.js';
+import type { NormalizedPdfToPngOptions } from './normalizePdfToPngOptions.js';
+import { downloadPdf, isDownloadUrl } from './pdfDownload.js';
+import { PdfRangeReader } from './pdfRangeReader.js';
 
 function rejectOversized(byteLength: number, maxInputBytes: number): void {
     if (byteLength > maxInputBytes) {
@@ -11,13 +16,104 @@ function isByteArrayLike(value: unknown): value is ArrayLike<number> {
     return typeof value === 'object' && value !== null && Number.isFinite((value as { length?: unknown }).length);
 }
 
+/**
+ * A stream input: anything async-iterable. Node `Readable`s and web `ReadableStream`s both are;
+ * byte containers and strings are not.
+ */
+function isStreamInput(value: unknown): value is PdfStreamInput {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        typeof (value as Partial<AsyncIterable<unknown>>)[Symbol.asyncIterator] === 'function'
+    );
+}
+
+/**
+ * Reads a stream input to its end into one fresh `Uint8Array`, rejecting as soon as the bytes
+ * read exceed `maxInputBytes` rather than after the whole stream has arrived.
+ *
+ * Leaving the `for await` loop by a throw calls the iterator's `return()`, which destroys a Node
+ * `Readable`, cancels a web `ReadableStream` and finishes a generator — so the source is released
+ * on every error, including an oversized input or a chunk that is not bytes.
+ */
+async function readPdfStream(source: PdfStreamInput, maxInputBytes: number): Promise<Uint8Array> {
+    const chunks: Uint8Array[] = [];
+    let byteLength = 0;
+    for await (const chunk of source as AsyncIterable<unknown>) {
+        // A Readable with an encoding set, or in object mode, yields strings and arbitrary values.
+        if (!ArrayBuffer.isView(chunk)) {
+            throw new Error(`Unsupported stream chunk type: ${Object.prototype.toString.call(chunk)}`);
+        }
+        byteLength += chunk.byteLength;
+        rejectOversized(byteLength, maxInputBytes);
+        // Kept as a view: a stream hands each chunk over to its reader, as Node and web streams do.
+        chunks.push(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength));
+    }
+
+    // The one copy, into a buffer of this function's own, which pdfjs may transfer (detach).
+    const bytes = new Uint8Array(byteLength);
+    let offset = 0;
+    for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return bytes;
+}
+
+/**
+ * The file system path of a path or `file:` URL input, `undefined` for every other input. Default
+ * output names and the `Source` provenance chunk derive from it.
+ */
+export function pdfFilePath(pdfFile: PdfFileInput): string | undefined {
+    if (typeof pdfFile === 'string') {
+        return pdfFile;
+    }
+    return pdfFile instanceof URL && pdfFile.protocol === 'file:' ? fileURLToPath(pdfFile) : undefined;
+}
+
+/**
+ * What the document is loaded from: the input's bytes — downloaded first for an `http:` or
+ * `https:` URL — or with `rangeLoading` a reader serving byte ranges of the input file.
+ */
+export async function getPdfSource(
+    pdfFile: PdfFileInput,
+    options: Pick<NormalizedPdfToPngOptions, 'maxInputBytes' | 'rangeLoading' | 'download' | 'signal'>,
+): Promise<Uint8Array | PdfRangeReader> {
+    const { maxInputBytes } = options;
+    if (pdfFile instanceof URL && pdfFile.protocol !== 'file:') {
+        if (!isDownloadUrl(pdfFile)) {
+            throw new Error(`Unsupported PDF URL protocol: ${pdfFile.protocol} (expected http:, https: or file:)`);
+        }
+        if (!options.rangeLoading) {
+            return downloadPdf(pdfFile, options.download, maxInputBytes, options.signal, (body) => readPdfStream(body, maxInputBytes));
+        }
+    }
+    if (options.rangeLoading) {
+        const path = pdfFilePath(pdfFile);
+        if (path === undefined) {
+            throw new Error('rangeLoading requires a file path input');
+        }
+        return PdfRangeReader.open(path, maxInputBytes);
+    }
+    return getPdfFileBuffer(pdfFile, maxInputBytes);
+}
+
 /**
  * Normalizes every supported input shape to a `Uint8Array` that pdfjs may safely transfer
  * (detach). Closing the return type here means this module is the single owner of "what shape we
  * hand pdfjs" — downstream seams (`getPdfDocument`, the worker dispatch) take a `Uint8Array` and
  * re-derive nothing.
  */
-export async function getPdfFileBuffer(pdfFile: string | ArrayBufferLike | Uint8Array, maxInputBytes: number): Promise<Uint8Array> {
+export async function getPdfFileBuffer(pdfFile: PdfFileInput, maxInputBytes: number): Promise<Uint8Array> {
+    if (pdfFile instanceof URL) {
+        // Only `file:` URLs arrive here; getPdfSource downloads the others.
+        return getPdfFileBuffer(fileURLToPath(pdfFile), maxInputBytes);
+    }
+
+    if (isStreamInput(pdfFile)) {
+        return readPdfStream(pdfFile, maxInputBytes);
+    }
+
     if (typeof pdfFile === 'string') {
         const stats = await fsPromises.stat(pdfFile);
         if (!stats.isFile()) {
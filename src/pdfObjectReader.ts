@@ -0,0 +1,816 @@
+import { constants, inflateSync } from 'node:zlib';
+import { createStreamDecryptor, type StreamDecryptor } from './pdfSecurityHandler.js';
+
+/**
+ * A reader of the objects of a PDF file, for the few things pdf.js's display API does not expose.
+ *
+ * Objects are located as pdf.js locates them: through the cross-reference data that `startxref`
+ * points to — tables, cross-reference streams and hybrid files, following `/Prev` through every
+ * incremental update — and through the object streams those entries point into. Streams are
+ * decrypted with the Standard security handler and decoded with FlateDecode and its PNG and TIFF
+ * predictors; other filters are reported, never guessed at. The file is read through
+ * {@link PdfFileSource}, a window at a time, so that only the objects asked for are parsed.
+ */
+
+export interface PdfRef {
+    kind: 'ref';
+    num: number;
+}
+
+export interface PdfName {
+    kind: 'name';
+    name: string;
+}
+
+export interface PdfString {
+    kind: 'string';
+    bytes: Uint8Array;
+}
+
+/** A PDF object as far as this reader needs it; a stream is its dictionary. */
+export type PdfValue = number | boolean | null | PdfRef | PdfName | PdfString | PdfValue[] | PdfDict;
+export type PdfDict = Map<string, PdfValue>;
+
+/** Random access to the bytes of a PDF file. */
+export interface PdfFileSource {
+    /** The file size in bytes. */
+    length: number;
+    /** Bytes `begin` (inclusive) to `end` (exclusive). */
+    read(begin: number, end: number): Promise<Uint8Array>;
+}
+
+type XrefEntry =
+    { kind: 'free' } | { kind: 'offset'; offset: number; generation: number } | { kind: 'compressed'; stream: number; index: number };
+
+/** One cross-reference section: a table and its trailer, or a cross-reference stream and its dictionary. */
+interface XrefSection {
+    entries: Map<number, XrefEntry>;
+    trailer: PdfDict;
+}
+
+/** An object read at its offset: its value and, for a stream, where the stream data starts. */
+interface IndirectObject {
+    value: PdfValue;
+    streamStart: number | undefined;
+}
+
+/** A decoded object stream: its data and the offset of each object in it, by index. */
+interface ObjectStream {
+    data: Uint8Array;
+    objects: { num: number; offset: number }[];
+}
+
+/** Bytes read from the end of the file to find `startxref`. */
+const TAIL_BYTES = 1024;
+
+/** Bytes read at an object's offset before the window is widened; most page dictionaries fit. */
+const INITIAL_READ_WINDOW = 4096;
+
+/** Upper bound on the decoded size of one stream, so a compression bomb fails instead of exhausting memory. */
+const MAX_DECODED_STREAM_BYTES = 64 * 1024 * 1024;
+
+/** Upper bound on reference chains, so a malformed cyclic file cannot loop. */
+const MAX_RESOLVE_DEPTH = 64;
+
+/** Upper bound on the cross-reference sections followed through `/Prev` and `/XRefStm`. */
+const MAX_XREF_SECTIONS = 1024;
+
+const CHAR_PERCENT = 0x25;
+const CHAR_LEFT_PAREN = 0x28;
+const CHAR_RIGHT_PAREN = 0x29;
+const CHAR_SLASH = 0x2f;
+const CHAR_LESS = 0x3c;
+const CHAR_GREATER = 0x3e;
+const CHAR_LEFT_BRACKET = 0x5b;
+const CHAR_RIGHT_BRACKET = 0x5d;
+const CHAR_BACKSLASH = 0x5c;
+const CHAR_LF = 0x0a;
+const CHAR_CR = 0x0d;
+
+/** The escapes of a literal string that stand for one byte (ISO 32000-1 Table 3). */
+const STRING_ESCAPES = new Map<number, number>([
+    [0x6e, CHAR_LF],
+    [0x72, CHAR_CR],
+    [0x74, 0x09],
+    [0x62, 0x08],
+    [0x66, 0x0c],
+]);
+
+/** Thrown when parsing runs past the bytes read so far; {@link PdfObjectReader} then reads a wider window. */
+class EndOfDataError extends Error {
+    constructor() {
+        super('unexpected end of data');
+    }
+}
+
+function isWhitespace(byte: number): boolean {
+    return byte === 0x00 || byte === 0x09 || byte === CHAR_LF || byte === 0x0c || byte === CHAR_CR || byte === 0x20;
+}
+
+function isDelimiter(byte: number): boolean {
+    return (
+        byte === CHAR_LEFT_PAREN ||
+        byte === CHAR_RIGHT_PAREN ||
+        byte === CHAR_LESS ||
+        byte === CHAR_GREATER ||
+        byte === CHAR_LEFT_BRACKET ||
+        byte === CHAR_RIGHT_BRACKET ||
+        byte === 0x7b ||
+        byte === 0x7d ||
+        byte === CHAR_SLASH ||
+        byte === CHAR_PERCENT
+    );
+}
+
+function isDigit(byte: number): boolean {
+    return byte >= 0x30 && byte <= 0x39;
+}
+
+export function isDict(value: PdfValue): value is PdfDict {
+    return value instanceof Map;
+}
+
+function isKind<K extends (PdfRef | PdfName | PdfString)['kind']>(
+    value: PdfValue,
+    kind: K,
+): value is Extract<PdfRef | PdfName | PdfString, { kind: K }> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !isDict(value) && value.kind === kind;
+}
+
+export function isRef(value: PdfValue): value is PdfRef {
+    return isKind(value, 'ref');
+}
+
+/** Whether `value` is a name — `name` itself, when given. */
+export function isName(value: PdfValue, name?: string): value is PdfName {
+    return isKind(value, 'name') && (name === undefined || value.name === name);
+}
+
+function isString(value: PdfValue): value is PdfString {
+    return isKind(value, 'string');
+}
+
+/**
+ * A cursor over PDF bytes that parses one object at a time. `complete` tells whether the bytes end
+ * where the data ends; when they do not, running out of bytes throws {@link EndOfDataError} even
+ * where a token could end, so that a number cut at the window's edge is never read short.
+ */
+class PdfParser {
+    constructor(
+        private readonly bytes: Uint8Array,
+        public position: number,
+        private readonly complete: boolean,
+    ) {}
+
+    public parseValue(): PdfValue {
+        const byte = this.skipWhitespace();
+        if (byte === CHAR_SLASH) {
+            this.position += 1;
+            // #xx escapes are left encoded: the names this reader looks up contain none.
+            return { kind: 'name', name: this.readToken() };
+        }
+        if (byte === CHAR_LEFT_BRACKET) {
+            this.position += 1;
+            const items: PdfValue[] = [];
+            while (this.skipWhitespace() !== CHAR_RIGHT_BRACKET) {
+                items.push(this.parseValue());
+            }
+            this.position += 1;
+            return items;
+        }
+        if (byte === CHAR_LESS && this.peek(1) === CHAR_LESS) {
+            return this.parseDict();
+        }
+        if (byte === CHAR_LESS) {
+            return this.parseHexString();
+        }
+        if (byte === CHAR_LEFT_PAREN) {
+            return this.parseLiteralString();
+        }
+        if (isDigit(byte) || byte === 0x2b || byte === 0x2d || byte === 0x2e) {
+            return this.parseNumberOrRef();
+        }
+        const keyword = this.readToken();
+        if (keyword === 'true' || keyword === 'false') {
+            return keyword === 'true';
+        }
+        if (keyword === 'null') {
+            return null;
+        }
+        throw new Error(`unexpected "${keyword || String.fromCharCode(byte)}" at byte ${this.position}`);
+    }
+
+    /** Skips whitespace and comments; returns the next byte without consuming it. */
+    public skipWhitespace(): number {
+        for (;;) {
+            const byte = this.peek();
+            if (byte === CHAR_PERCENT) {
+                while (this.peek() !== CHAR_LF && this.peek() !== CHAR_CR) {
+                    this.position += 1;
+                }
+            } else if (isWhitespace(byte)) {
+                this.position += 1;
+            } else {
+                return byte;
+            }
+        }
+    }
+
+    /** Skips whitespace, then reads a bare keyword or number token up to the next whitespace or delimiter. */
+    public readKeyword(): string {
+        this.skipWhitespace();
+        return this.readToken();
+    }
+
+    /** Reads a non-negative integer token. */
+    public readInteger(): number {
+        const token = this.readKeyword();
+        if (!/^\d+$/.test(token)) {
+            throw new Error(`expected an integer, found "${token}" at byte ${this.position}`);
+        }
+        return Number(token);
+    }
+
+    /** After a stream's dictionary: consumes the `stream` keyword and its end of line, and returns where the data starts. */
+    public readStreamStart(): number | undefined {
+        const resume = this.position;
+        try {
+            if (this.readKeyword() !== 'stream') {
+                this.position = resume;
+                return undefined;
+            }
+        } catch (error: unknown) {
+            // A plain object that ends the data has no stream.
+            if (!this.complete) {
+                throw error;
+            }
+            this.position = resume;
+            return undefined;
+        }
+        if (this.peek() === CHAR_CR) {
+            this.position += 1;
+        }
+        if (this.peek() === CHAR_LF) {
+            this.position += 1;
+        }
+        return this.position;
+    }
+
+    private peek(ahead = 0): number {
+        if (this.position + ahead >= this.bytes.length) {
+            throw new EndOfDataError();
+        }
+        return this.bytes[this.position + ahead];
+    }
+
+    private readToken(): string {
+        const start = this.position;
+        while (this.position < this.bytes.length && !isWhitespace(this.bytes[this.position]) && !isDelimiter(this.bytes[this.position])) {
+            this.position += 1;
+        }
+        if (this.position === this.bytes.length && !this.complete) {
+            throw new EndOfDataError();
+        }
+        return Buffer.from(this.bytes.buffer, this.bytes.byteOffset + start, this.position - start).toString('latin1');
+    }
+
+    private parseDict(): PdfDict {
+        this.position += 2;
+        const dict: PdfDict = new Map();
+        while (this.skipWhitespace() !== CHAR_GREATER) {
+            const key = this.parseValue();
+            if (!isName(key)) {
+                throw new Error(`dictionary key is not a name at byte ${this.position}`);
+            }
+            dict.set(key.name, this.parseValue());
+        }
+        this.peek(1);
+        this.position += 2;
+        return dict;
+    }
+
+    /** A number, or — for `N G R` — a reference (the generation is not needed to find an object). */
+    private parseNumberOrRef(): number | PdfRef {
+        const token = this.readToken();
+        const value = Number(token);
+        if (!Number.isFinite(value)) {
+            throw new Error(`malformed number "${token}"`);
+        }
+        if (/^\d+$/.test(token)) {
+            const resume = this.position;
+            try {
+                if (
+                    isDigit(this.skipWhitespace()) &&
+                    /^\d+$/.test(this.readToken()) &&
+                    this.skipWhitespace() === 0x52 &&
+                    this.readToken() === 'R'
+                ) {
+                    return { kind: 'ref', num: value };
+                }
+            } catch (error: unknown) {
+                // At the end of the data, the number stands alone.
+                if (!this.complete) {
+                    throw error;
+                }
+            }
+            this.position = resume;
+        }
+        return value;
+    }
+
+    private parseLiteralString(): PdfString {
+        this.position += 1;
+        const bytes: number[] = [];
+        for (let depth = 1; ;) {
+            const byte = this.peek();
+            this.position += 1;
+            if (byte === CHAR_BACKSLASH) {
+                this.readEscape(bytes);
+                continue;
+            }
+            if (byte === CHAR_LEFT_PAREN) {
+                depth += 1;
+            } else if (byte === CHAR_RIGHT_PAREN) {
+                depth -= 1;
+                if (depth === 0) {
+                    return { kind: 'string', bytes: Uint8Array.from(bytes) };
+                }
+            }
+            bytes.push(byte);
+        }
+    }
+
+    /** Appends the byte a backslash escape stands for, if any; a backslash before an end of line continues the string. */
+    private readEscape(bytes: number[]): void {
+        const byte = this.peek();
+        this.position += 1;
+        if (byte >= 0x30 && byte <= 0x37) {
+            let code = byte - 0x30;
+            for (let digits = 1; digits < 3 && this.peek() >= 0x30 && this.peek() <= 0x37; digits += 1) {
+                code = code * 8 + this.peek() - 0x30;
+                this.position += 1;
+            }
+            bytes.push(code & 0xff);
+        } else if (byte === CHAR_CR) {
+            if (this.peek() === CHAR_LF) {
+                this.position += 1;
+            }
+        } else if (byte !== CHAR_LF) {
+            bytes.push(STRING_ESCAPES.get(byte) ?? byte);
+        }
+    }
+
+    private parseHexString(): PdfString {
+        this.position += 1;
+        let digits = '';
+        for (let byte = this.peek(); byte !== CHAR_GREATER; byte = this.peek()) {
+            if (!isWhitespace(byte)) {
+                digits += String.fromCharCode(byte);
+            }
+            this.position += 1;
+        }
+        this.position += 1;
+        if (!/^[0-9a-fA-F]*$/.test(digits)) {
+            throw new Error(`malformed hex string at byte ${this.position}`);
+        }
+        return { kind: 'string', bytes: Buffer.from(digits.length % 2 === 0 ? digits : `${digits}0`, 'hex') };
+    }
+}
+
+/** Reads the `N G obj` header of the object at the parser's position and the value after it. */
+function parseIndirectObject(parser: PdfParser, num: number): IndirectObject {
+    const headerNum = parser.readInteger();
+    parser.readInteger();
+    if (headerNum !== num || parser.readKeyword() !== 'obj') {
+        throw new Error(`object ${num} is not at its cross-reference offset`);
+    }
+    const value = parser.parseValue();
+    return { value, streamStart: isDict(value) ? parser.readStreamStart() : undefined };
+}
+
+/** Reads a cross-reference table — the parser is past its `xref` keyword — and the trailer after it. */
+function parseXrefTable(parser: PdfParser): XrefSection {
+    const entries = new Map<number, XrefEntry>();
+    for (;;) {
+        const token = parser.readKeyword();
+        if (token === 'trailer') {
+            const trailer = parser.parseValue();
+            if (!isDict(trailer)) {
+                throw new Error('the trailer is not a dictionary');
+            }
+            return { entries, trailer };
+        }
+        if (!/^\d+$/.test(token)) {
+            throw new Error(`malformed cross-reference table at "${token}"`);
+        }
+        const first = Number(token);
+        const count = parser.readInteger();
+        for (let index = 0; index < count; index += 1) {
+            const offset = parser.readInteger();
+            const generation = parser.readInteger();
+            const type = parser.readKeyword();
+            if (type !== 'n' && type !== 'f') {
+                throw new Error(`malformed cross-reference entry "${type}"`);
+            }
+            if (!entries.has(first + index)) {
+                entries.set(first + index, type === 'n' ? { kind: 'offset', offset, generation } : { kind: 'free' });
+            }
+        }
+    }
+}
+
+function integerArray(value: PdfValue, name: string): number[] {
+    if (!Array.isArray(value) || !value.every((item): item is number => Number.isInteger(item) && (item as number) >= 0)) {
+        throw new Error(`${name} is not an array of non-negative integers`);
+    }
+    return value;
+}
+
+/** Reads the entries of a decoded cross-reference stream (ISO 32000-1 §7.5.8.3). */
+function parseXrefStreamEntries(dict: PdfDict, data: Uint8Array): Map<number, XrefEntry> {
+    const widths = integerArray(dict.get('W') ?? null, '/W');
+    const size = dict.get('Size');
+    const index = integerArray(dict.get('Index') ?? [0, typeof size === 'number' ? size : 0], '/Index');
+    if (widths.length !== 3 || index.length % 2 !== 0) {
+        throw new Error('malformed cross-reference stream');
+    }
+    const rowLength = widths[0] + widths[1] + widths[2];
+    const entries = new Map<number, XrefEntry>();
+    let position = 0;
+    const readField = (width: number): number => {
+        let value = 0;
+        for (let byte = 0; byte < width; byte += 1) {
+            value = value * 256 + data[position];
+            position += 1;
+        }
+        return value;
+    };
+    for (let range = 0; range < index.length; range += 2) {
+        for (let num = index[range]; num < index[range] + index[range + 1]; num += 1) {
+            if (position + rowLength > data.length) {
+                throw new Error('the cross-reference stream is truncated');
+            }
+            const type = widths[0] === 0 ? 1 : readField(widths[0]);
+            const second = readField(widths[1]);
+            const third = readField(widths[2]);
+            if (entries.has(num) || type > 2) {
+                continue;
+            }
+            entries.set(
+                num,
+                type === 0
+                    ? { kind: 'free' }
+                    : type === 1
+                      ? { kind: 'offset', offset: second, generation: third }
+                      : { kind: 'compressed', stream: second, index: third },
+            );
+        }
+    }
+    return entries;
+}
+
+/** A decode-parameter number: `fallback` when absent, otherwise a positive integer. */
+function decodeParameter(params: PdfDict | undefined, name: string, fallback: number): number {
+    const value = params?.get(name) ?? fallback;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+        throw new Error(`/${name} ${String(value)} is not a positive integer`);
+    }
+    return value;
+}
+
+/** Undoes the PNG (10 to 15) or TIFF (2) predictor of FlateDecode data (ISO 32000-1 §7.4.4.4). */
+function applyPredictor(data: Uint8Array, params: PdfDict | undefined): Uint8Array {
+    const predictor = decodeParameter(params, 'Predictor', 1);
+    if (predictor === 1) {
+        return data;
+    }
+    const colors = decodeParameter(params, 'Colors', 1);
+    const bitsPerComponent = decodeParameter(params, 'BitsPerComponent', 8);
+    const columns = decodeParameter(params, 'Columns', 1);
+    const pixelBytes = Math.ceil((colors * bitsPerComponent) / 8);
+    const rowLength = Math.ceil((colors * bitsPerComponent * columns) / 8);
+    if (predictor === 2) {
+        if (bitsPerComponent !== 8) {
+            throw new Error(`the TIFF predictor is supported for 8-bit components only, not ${bitsPerComponent}`);
+        }
+        const output = Uint8Array.from(data);
+        for (let rowStart = 0; rowStart < output.length; rowStart += rowLength) {
+            for (let index = rowStart + colors; index < Math.min(rowStart + rowLength, output.length); index += 1) {
+                output[index] += output[index - colors];
+            }
+        }
+        return output;
+    }
+    if (predictor < 10 || predictor > 15) {
+        throw new Error(`unsupported predictor ${predictor}`);
+    }
+    const rows = Math.floor(data.length / (rowLength + 1));
+    const output = new Uint8Array(rows * rowLength);
+    for (let row = 0; row < rows; row += 1) {
+        const filter = data[row * (rowLength + 1)];
+        const input = row * (rowLength + 1) + 1;
+        const start = row * rowLength;
+        for (let index = 0; index < rowLength; index += 1) {
+            const left = index >= pixelBytes ? output[start + index - pixelBytes] : 0;
+            const up = row > 0 ? output[start + index - rowLength] : 0;
+            const upLeft = row > 0 && index >= pixelBytes ? output[start + index - rowLength - pixelBytes] : 0;
+            let prediction: number;
+            switch (filter) {
+                case 0:
+                    prediction = 0;
+                    break;
+                case 1:
+                    prediction = left;
+                    break;
+                case 2:
+                    prediction = up;
+                    break;
+                case 3:
+                    prediction = (left + up) >> 1;
+                    break;
+                case 4: {
+                    const estimate = left + up - upLeft;
+                    const distanceLeft = Math.abs(estimate - left);
+                    const distanceUp = Math.abs(estimate - up);
+                    const distanceUpLeft = Math.abs(estimate - upLeft);
+                    prediction =
+                        distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft ? left : distanceUp <= distanceUpLeft ? up : upLeft;
+                    break;
+                }
+                default:
+                    throw new Error(`unsupported PNG predictor row filter ${filter}`);
+            }
+            output[start + index] = data[input + index] + prediction;
+        }
+    }
+    return output;
+}
+
+/** A `/Filter` or `/DecodeParms` value as a list, one entry per filter. */
+function asList(value: PdfValue): PdfValue[] {
+    return value === null ? [] : Array.isArray(value) ? value : [value];
+}
+
+export class PdfObjectReader {
+    private decryptor: StreamDecryptor | undefined;
+    private readonly objectStreams = new Map<number, Promise<ObjectStream>>();
+
+    private constructor(
+        private readonly source: PdfFileSource,
+        private readonly entries: Map<number, XrefEntry>,
+        /** The trailer of the newest cross-reference section. */
+        public readonly trailer: PdfDict,
+    ) {}
+
+    /**
+     * Reads the cross-reference data of `source` and, for an encrypted document, derives the key
+     * to its streams from `password` — the one the document was opened with.
+     */
+    public static async open(source: PdfFileSource, password: string): Promise<PdfObjectReader> {
+        const { entries, trailer } = await PdfObjectReader.readCrossReference(source);
+        const reader = new PdfObjectReader(source, entries, trailer);
+        const encrypt = await reader.resolve(trailer.get('Encrypt') ?? null);
+        if (isDict(encrypt)) {
+            const id = await reader.resolve(trailer.get('ID') ?? null);
+            const fileId = Array.isArray(id) && isString(id[0]) ? id[0].bytes : new Uint8Array(0);
+            reader.decryptor = await reader.createDecryptor(encrypt, fileId, password);
+        }
+        return reader;
+    }
+
+    /** Reads the sections that `startxref` and their `/XRefStm` and `/Prev` entries lead to; newer entries win. */
+    private static async readCrossReference(source: PdfFileSource): Promise<XrefSection> {
+        const tailStart = Math.max(0, source.length - TAIL_BYTES);
+        const tail = Buffer.from(await source.read(tailStart, source.length));
+        const keyword = tail.lastIndexOf('startxref');
+        if (keyword === -1) {
+            throw new Error('startxref not found');
+        }
+        const startXref = new PdfParser(tail, keyword + 'startxref'.length, true).parseValue();
+        const entries = new Map<number, XrefEntry>();
+        let trailer: PdfDict | undefined;
+        const pending = [startXref];
+        const visited = new Set<number>();
+        while (pending.length > 0) {
+            const offset = pending.shift();
+            if (typeof offset !== 'number' || !Number.isInteger(offset) || offset < 0 || offset >= source.length) {
+                throw new Error(`cross-reference offset ${String(offset)} is outside the file`);
+            }
+            if (visited.has(offset)) {
+                continue;
+            }
+            visited.add(offset);
+            if (visited.size > MAX_XREF_SECTIONS) {
+                throw new Error('too many cross-reference sections');
+            }
+            const section = await PdfObjectReader.readXrefSection(source, offset);
+            for (const [num, entry] of section.entries) {
+                if (!entries.has(num)) {
+                    entries.set(num, entry);
+                }
+            }
+            trailer ??= section.trailer;
+            // A hybrid file's stream entries rank below its table's and above the previous update's.
+            const xrefStm = section.trailer.get('XRefStm');
+            if (xrefStm !== undefined) {
+                pending.unshift(xrefStm);
+            }
+            const prev = section.trailer.get('Prev');
+            if (prev !== undefined) {
+                pending.push(prev);
+            }
+        }
+        return { entries, trailer: trailer ?? new Map() };
+    }
+
+    private static async readXrefSection(source: PdfFileSource, offset: number): Promise<XrefSection> {
+        const section = await parseAt(source, offset, (parser): XrefSection | { stream: IndirectObject; num: number } => {
+            const resume = parser.position;
+            if (parser.readKeyword() === 'xref') {
+                return parseXrefTable(parser);
+            }
+            parser.position = resume;
+            const num = parser.readInteger();
+            parser.position = resume;
+            return { stream: parseIndirectObject(parser, num), num };
+        });
+        if ('entries' in section) {
+            return section;
+        }
+        const { value, streamStart } = section.stream;
+        if (!isDict(value) || !isName(value.get('Type') ?? null, 'XRef') || streamStart === undefined) {
+            throw new Error(`no cross-reference table or stream at byte ${offset}`);
+        }
+        // Cross-reference streams are never encrypted, and their /Length is always direct.
+        const data = await readStreamData(source, value, offset + streamStart, async (item) => item);
+        return { entries: parseXrefStreamEntries(value, data), trailer: value };
+    }
+
+    /** Returns object `num`; a free or missing object is `null`, as the specification has it. */
+    public async getObject(num: number): Promise<PdfValue> {
+        const entry = this.entries.get(num);
+        if (entry === undefined || entry.kind === 'free') {
+            return null;
+        }
+        if (entry.kind === 'offset') {
+            return (await parseAt(this.source, entry.offset, (parser) => parseIndirectObject(parser, num))).value;
+        }
+        const objectStream = await this.getObjectStream(entry.stream);
+        const object = objectStream.objects[entry.index] as ObjectStream['objects'][number] | undefined;
+        if (object?.num !== num) {
+            throw new Error(`object ${num} is not in object stream ${entry.stream}`);
+        }
+        return new PdfParser(objectStream.data, object.offset, true).parseValue();
+    }
+
+    /** Follows references until a direct value is reached. */
+    public async resolve(value: PdfValue): Promise<PdfValue> {
+        let resolved = value;
+        for (let depth = 0; isRef(resolved); depth += 1) {
+            if (depth === MAX_RESOLVE_DEPTH) {
+                throw new Error('reference chain too deep');
+            }
+            resolved = await this.getObject(resolved.num);
+        }
+        return resolved;
+    }
+
+    private getObjectStream(num: number): Promise<ObjectStream> {
+        let objectStream = this.objectStreams.get(num);
+        if (objectStream === undefined) {
+            objectStream = this.readObjectStream(num);
+            this.objectStreams.set(num, objectStream);
+        }
+        return objectStream;
+    }
+
+    private async readObjectStream(num: number): Promise<ObjectStream> {
+        const entry = this.entries.get(num);
+        if (entry?.kind !== 'offset') {
+            throw new Error(`object stream ${num} not found`);
+        }
+        const { value, streamStart } = await parseAt(this.source, entry.offset, (parser) => parseIndirectObject(parser, num));
+        if (!isDict(value) || !isName(value.get('Type') ?? null, 'ObjStm') || streamStart === undefined) {
+            throw new Error(`object ${num} is not an object stream`);
+        }
+        const data = await readStreamData(
+            this.source,
+            value,
+            entry.offset + streamStart,
+            (item) => this.resolve(item),
+            (raw) => (this.decryptor === undefined ? raw : this.decryptor(raw, num, entry.generation)),
+        );
+        const count = await this.resolve(value.get('N') ?? null);
+        const first = await this.resolve(value.get('First') ?? null);
+        if (typeof count !== 'number' || typeof first !== 'number') {
+            throw new Error(`object stream ${num} has no /N or /First`);
+        }
+        const header = new PdfParser(data, 0, true);
+        const objects: ObjectStream['objects'] = [];
+        for (let index = 0; index < count; index += 1) {
+            objects.push({ num: header.readInteger(), offset: first + header.readInteger() });
+        }
+        return { data, objects };
+    }
+
+    /** Builds the decryptor of the Standard security handler from the `/Encrypt` dictionary. */
+    private async createDecryptor(encrypt: PdfDict, fileId: Uint8Array, password: string): Promise<StreamDecryptor | undefined> {
+        const get = (key: string): Promise<PdfValue> => this.resolve(encrypt.get(key) ?? null);
+        const filter = await get('Filter');
+        if (!isName(filter, 'Standard')) {
+            throw new Error(`unsupported security handler ${isName(filter) ? filter.name : String(filter)}`);
+        }
+        const [version, revision, length, permissions, owner, user, ownerKey, userKey, encryptMetadata] = await Promise.all(
+            ['V', 'R', 'Length', 'P', 'O', 'U', 'OE', 'UE', 'EncryptMetadata'].map(get),
+        );
+        if (
+            typeof version !== 'number' ||
+            typeof revision !== 'number' ||
+            typeof permissions !== 'number' ||
+            !isString(owner) ||
+            !isString(user)
+        ) {
+            throw new Error('malformed /Encrypt dictionary');
+        }
+        let keyLength = typeof length === 'number' ? length : 40;
+        let streamMethod: string | undefined;
+        if (version >= 4) {
+            // Version 4 and later name a crypt filter; its /Length (in bytes, or bits) sets the key length, as in pdf.js.
+            const streamFilter = await get('StmF');
+            const cryptFilters = await get('CF');
+            const cryptFilter =
+                isName(streamFilter) && isDict(cryptFilters) ? await this.resolve(cryptFilters.get(streamFilter.name) ?? null) : null;
+            if (isDict(cryptFilter)) {
+                const method = await this.resolve(cryptFilter.get('CFM') ?? null);
+                streamMethod = isName(method) ? method.name : 'None';
+                const filterLength = await this.resolve(cryptFilter.get('Length') ?? null);
+                keyLength = typeof filterLength === 'number' ? (filterLength < 40 ? filterLength * 8 : filterLength) : 128;
+            }
+        }
+        return createStreamDecryptor(
+            {
+                version,
+                revision,
+                keyLength,
+                streamMethod,
+                owner: owner.bytes,
+                user: user.bytes,
+                ownerKey: isString(ownerKey) ? ownerKey.bytes : undefined,
+                userKey: isString(userKey) ? userKey.bytes : undefined,
+                permissions,
+                encryptMetadata: encryptMetadata !== false,
+            },
+            fileId,
+            password,
+        );
+    }
+}
+
+/**
+ * Parses with `parse` from `offset`, reading a wider window of the file whenever parsing runs past
+ * the bytes read so far. Positions seen by `parse` are relative to `offset`.
+ */
+async function parseAt<T>(source: PdfFileSource, offset: number, parse: (parser: PdfParser) => T): Promise<T> {
+    for (let window = INITIAL_READ_WINDOW; ; window *= 4) {
+        const end = Math.min(source.length, offset + window);
+        const complete = end === source.length;
+        try {
+            return parse(new PdfParser(await source.read(offset, end), 0, complete));
+        } catch (error: unknown) {
+            if (!(error instanceof EndOfDataError) || complete) {
+                throw error;
+            }
+        }
+    }
+}
+
+/**
+ * Reads and decodes the data of the stream whose dictionary is `dict` and whose data starts at
+ * `start`: decrypted with `decrypt`, then decoded with each of its filters.
+ */
+async function readStreamData(
+    source: PdfFileSource,
+    dict: PdfDict,
+    start: number,
+    resolve: (value: PdfValue) => Promise<PdfValue>,
+    decrypt: (raw: Uint8Array) => Uint8Array = (raw) => raw,
+): Promise<Uint8Array> {
+    const length = await resolve(dict.get('Length') ?? null);
+    if (typeof length !== 'number' || !Number.isInteger(length) || length < 0 || start + length > source.length) {
+        throw new Error('stream /Length is invalid');
+    }
+    let data = decrypt(await source.read(start, start + length));
+    const filters = asList(await resolve(dict.get('Filter') ?? null));
+    const params = asList(await resolve(dict.get('DecodeParms') ?? null));
+    for (const [index, filter] of filters.entries()) {
+        const resolvedFilter = await resolve(filter);
+        if (!isName(resolvedFilter, 'FlateDecode')) {
+            throw new Error(`unsupported stream filter ${isName(resolvedFilter) ? resolvedFilter.name : String(resolvedFilter)}`);
+        }
+        const filterParams = await resolve(params[index] ?? null);
+        // A stream cut short by its writer inflates as far as it goes, as pdf.js reads it.
+        data = inflateSync(data, { maxOutputLength: MAX_DECODED_STREAM_BYTES, finishFlush: constants.Z_SYNC_FLUSH });
+        data = applyPredictor(data, isDict(filterParams) ? filterParams : undefined);
+    }
+    return data;
+}
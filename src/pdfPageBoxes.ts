@@ -0,0 +1,154 @@
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import type { PageBox, PdfRectangle } from './interfaces/index.js';
+import { isDict, isName, isRef, PdfObjectReader, type PdfValue } from './pdfObjectReader.js';
+import { getDocumentPassword } from './pdfjsLoader.js';
+
+/**
+ * Reads the page boundary boxes (ISO 32000-1 §14.11.2) that pdf.js does not expose.
+ *
+ * pdf.js's display API only reports `page.view` — the CropBox clipped to the MediaBox — so the
+ * MediaBox, BleedBox, TrimBox and ArtBox are read here, from the page tree, with a
+ * {@link PdfObjectReader} over the document's bytes. The tree is walked once per document, the
+ * first time a page asks for a box other than the CropBox; only the rectangles are kept, not the
+ * bytes. The CropBox needs none of this: it is `page.view`.
+ */
+
+/** Default MediaBox when a page has none (US Letter), matching pdf.js. */
+const LETTER_MEDIA_BOX: PdfRectangle = [0, 0, 612, 792];
+
+const PAGE_BOXES: readonly PageBox[] = ['MediaBox', 'CropBox', 'BleedBox', 'TrimBox', 'ArtBox'];
+
+/** The box entries a page tree node passes down to its kids: its own, else its ancestors'. */
+type InheritedBoxes = Partial<Record<PageBox, PdfValue>>;
+
+function toRectangle(value: PdfValue): PdfRectangle | undefined {
+    if (!Array.isArray(value) || value.length !== 4 || !value.every((item) => typeof item === 'number')) {
+        return undefined;
+    }
+    const [x1, y1, x2, y2] = value as number[];
+    const rectangle: PdfRectangle = [Math.min(x1, x2), Math.min(y1, y2), Math.max(x1, x2), Math.max(y1, y2)];
+    return rectangle[2] > rectangle[0] && rectangle[3] > rectangle[1] ? rectangle : undefined;
+}
+
+function intersect(a: PdfRectangle, b: PdfRectangle): PdfRectangle | undefined {
+    const rectangle: PdfRectangle = [Math.max(a[0], b[0]), Math.max(a[1], b[1]), Math.min(a[2], b[2]), Math.min(a[3], b[3])];
+    return rectangle[2] > rectangle[0] && rectangle[3] > rectangle[1] ? rectangle : undefined;
+}
+
+async function readBoxEntry(reader: PdfObjectReader, entry: PdfValue | undefined): Promise<PdfRectangle | undefined> {
+    if (entry === undefined) {
+        return undefined;
+    }
+    const value = await reader.resolve(entry);
+    return toRectangle(Array.isArray(value) ? await Promise.all(value.map((item) => reader.resolve(item))) : value);
+}
+
+/**
+ * The effective rectangle of each box: a missing or invalid box takes its default (MediaBox →
+ * US Letter, CropBox → MediaBox, the other three → CropBox), and every box is clipped to the
+ * MediaBox, as the specification requires. A box that does not overlap the MediaBox falls back
+ * to its default.
+ */
+async function effectiveBoxes(reader: PdfObjectReader, entries: InheritedBoxes): Promise<Record<PageBox, PdfRectangle>> {
+    const mediaBox = (await readBoxEntry(reader, entries.MediaBox)) ?? LETTER_MEDIA_BOX;
+    const cropBox = intersect((await readBoxEntry(reader, entries.CropBox)) ?? mediaBox, mediaBox) ?? mediaBox;
+    const clipped = async (box: PageBox): Promise<PdfRectangle> => {
+        const entry = await readBoxEntry(reader, entries[box]);
+        return (entry !== undefined ? intersect(entry, mediaBox) : undefined) ?? cropBox;
+    };
+    return {
+        MediaBox: mediaBox,
+        CropBox: cropBox,
+        BleedBox: await clipped('BleedBox'),
+        TrimBox: await clipped('TrimBox'),
+        ArtBox: await clipped('ArtBox'),
+    };
+}
+
+/**
+ * Walks the page tree from the catalog and returns the effective boxes of every page, in page
+ * order, keyed by the page's object number. Boxes are inherited from the nearest ancestor that sets them, as pdf.js
+ * inherits them through `/Parent`.
+ */
+export async function readPageBoxes(reader: PdfObjectReader): Promise<Map<number, Record<PageBox, PdfRectangle>>> {
+    const catalog = await reader.resolve(reader.trailer.get('Root') ?? null);
+    const root = isDict(catalog) ? (catalog.get('Pages') ?? null) : null;
+    if (!isRef(root)) {
+        throw new Error('the document has no page tree');
+    }
+    const pages = new Map<number, Record<PageBox, PdfRectangle>>();
+    const visited = new Set<number>();
+    const pending: { num: number; inherited: InheritedBoxes }[] = [{ num: root.num, inherited: {} }];
+    for (let next = pending.pop(); next !== undefined; next = pending.pop()) {
+        if (visited.has(next.num)) {
+            throw new Error(`the page tree visits object ${next.num} twice`);
+        }
+        visited.add(next.num);
+        const node: PdfValue = await reader.getObject(next.num);
+        if (!isDict(node)) {
+            throw new Error(`page tree node ${next.num} is not a dictionary`);
+        }
+        const entries: InheritedBoxes = { ...next.inherited };
+        for (const box of PAGE_BOXES) {
+            const entry = node.get(box);
+            if (entry !== undefined) {
+                entries[box] = entry;
+            }
+        }
+        const kids = await reader.resolve(node.get('Kids') ?? null);
+        if (Array.isArray(kids) && !isName(node.get('Type') ?? null, 'Page')) {
+            // Pushed last kid first, so that pages are reached, and the map filled, in page order.
+            for (const kid of [...kids].reverse()) {
+                if (!isRef(kid)) {
+                    throw new Error(`page tree node ${next.num} has a kid that is not a reference`);
+                }
+                pending.push({ num: kid.num, inherited: entries });
+            }
+        } else {
+            pages.set(next.num, await effectiveBoxes(reader, entries));
+        }
+    }
+    return pages;
+}
+
+/** The boxes of each document's pages, read once per document. */
+const documentPageBoxes = new WeakMap<PDFDocumentProxy, Promise<Map<number, Record<PageBox, PdfRectangle>>>>();
+
+/** Reads the boxes of `pdf`'s pages from one copy of its bytes (`getData()`), released once they are read. */
+async function loadPageBoxes(pdf: PDFDocumentProxy): Promise<Map<number, Record<PageBox, PdfRectangle>>> {
+    const bytes = await pdf.getData();
+    const source = { length: bytes.length, read: (begin: number, end: number) => Promise.resolve(bytes.subarray(begin, end)) };
+    return readPageBoxes(await PdfObjectReader.open(source, getDocumentPassword(pdf)));
+}
+
+/**
+ * Returns the rectangle of `box` on `page`, in PDF user-space points, `[x1, y1, x2, y2]` with
+ * `x1 < x2` and `y1 < y2`. The CropBox comes from pdf.js; the first request for any other box
+ * reads the boxes of every page of the document (see {@link readPageBoxes}).
+ */
+export async function getPageBoxRectangle(pdf: PDFDocumentProxy, page: PDFPageProxy, box: PageBox): Promise<PdfRectangle> {
+    if (box === 'CropBox') {
+        const [x1, y1, x2, y2] = page.view;
+        return [x1, y1, x2, y2];
+    }
+    const pageNumber = page.pageNumber;
+    try {
+        if (page.ref === null) {
+            throw new Error('pdf.js reported no object reference for the page');
+        }
+        let pageBoxes = documentPageBoxes.get(pdf);
+        if (pageBoxes === undefined) {
+            pageBoxes = loadPageBoxes(pdf);
+            documentPageBoxes.set(pdf, pageBoxes);
+        }
+        const boxes = (await pageBoxes).get(page.ref.num);
+        if (boxes === undefined) {
+            throw new Error(`object ${page.ref.num} is not a page of the page tree`);
+        }
+        return boxes[box];
+    } catch (error: unknown) {
+        throw new Error(`Cannot read the ${box} of page ${pageNumber}: ${error instanceof Error ? error.message : String(error)}`, {
+            cause: error,
+        });
+    }
+}
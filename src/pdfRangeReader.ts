@@ -0,0 +1,94 @@
+import { promises as fsPromises } from 'node:fs';
+import type { FileHandle } from 'node:fs/promises';
+
+/**
+ * Reads byte ranges of a PDF file on demand, for `rangeLoading`. pdf.js asks for ranges through
+ * its `PDFDataRangeTransport` (see `getPdfDocument`); this class owns the open file and the
+ * per-read `maxInputBytes` budget.
+ *
+ * The transport has no way to fail a request — pdf.js waits for every range it asks for, and
+ * destroying the document does not release a pending `getPage()`. So {@link read} never rejects:
+ * a read that fails is answered with zeros, never touches the file again, and the error is kept
+ * in {@link failure} for `throwIfRangeReadFailed` to report in place of whatever pdf.js made of
+ * the zeros.
+ */
+export class PdfRangeReader {
+    /** The error of the first failed read, if any; every later read is answered with zeros. */
+    public failure: Error | undefined;
+
+    /** Total bytes read from the file so far. */
+    public bytesRead = 0;
+
+    private closed = false;
+
+    private constructor(
+        private readonly handle: FileHandle,
+        /** File size in bytes, as of opening. */
+        public readonly length: number,
+        private readonly maxReadBytes: number,
+    ) {}
+
+    /**
+     * Opens a PDF file path for range reads. Rejects, as `getPdfFileBuffer` does, non-regular
+     * files — before opening, since opening a FIFO blocks until it has a writer.
+     */
+    public static async open(pdfFile: string, maxReadBytes: number): Promise<PdfRangeReader> {
+        if (!(await fsPromises.stat(pdfFile)).isFile()) {
+            throw new Error(`Input PDF path is not a regular file: ${pdfFile}`);
+        }
+        const handle = await fsPromises.open(pdfFile, 'r');
+        try {
+            // Re-checked on the open descriptor: the path may have been replaced since stat().
+            const stats = await handle.stat();
+            if (!stats.isFile()) {
+                throw new Error(`Input PDF path is not a regular file: ${pdfFile}`);
+            }
+            return new PdfRangeReader(handle, stats.size, maxReadBytes);
+        } catch (error: unknown) {
+            await handle.close();
+            throw error;
+        }
+    }
+
+    public get isClosed(): boolean {
+        return this.closed;
+    }
+
+    /** Bytes `begin` (inclusive) to `end` (exclusive) of the file, or zeros once a read has failed. */
+    public async read(begin: number, end: number): Promise<Uint8Array> {
+        if (this.failure === undefined) {
+            try {
+                return await this.readFully(begin, end);
+            } catch (error: unknown) {
+                this.failure = error instanceof Error ? error : new Error(String(error));
+            }
+        }
+        return new Uint8Array(end - begin);
+    }
+
+    /** Closes the file. Safe to call more than once; reads after closing fail. */
+    public async close(): Promise<void> {
+        if (!this.closed) {
+            this.closed = true;
+            await this.handle.close();
+        }
+    }
+
+    private async readFully(begin: number, end: number): Promise<Uint8Array> {
+        const byteLength = end - begin;
+        if (byteLength > this.maxReadBytes) {
+            throw new Error(`Input PDF range read exceeds maxInputBytes (${byteLength} > ${this.maxReadBytes} bytes)`);
+        }
+        const bytes = new Uint8Array(byteLength);
+        for (let offset = 0; offset < byteLength;) {
+            const { bytesRead } = await this.handle.read(bytes, offset, byteLength - offset, begin + offset);
+            // The file shrank after it was opened: pdf.js would be parsing bytes that no longer exist.
+            if (bytesRead === 0) {
+                throw new Error(`Input PDF ended at byte ${begin + offset}, before the ${this.length} bytes it had when opened`);
+            }
+            offset += bytesRead;
+        }
+        this.bytesRead += byteLength;
+        return bytes;
+    }
+}
@@ -0,0 +1,461 @@
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { Worker } from 'node:worker_threads';
+import { createAbortError, throwIfAborted } from './abortSignal.js';
+import { MAX_CONCURRENCY_LIMIT, PDF_RENDER_POOL_DEFAULTS } from './const.js';
+import type { PdfRenderPoolOptions } from './interfaces/index.js';
+import type {
+    RenderedPageMessage,
+    RenderPageRequest,
+    WorkerDocument,
+    WorkerInitData,
+    WorkerRequest,
+    WorkerResponse,
+} from './interfaces/worker.protocol.js';
+import { LruCache } from './lruCache.js';
+import type { WorkerPageTask, WorkerPoolControl, WorkerRenderedPage } from './workerPool.js';
+
+/**
+ * Locates the compiled worker entry. In the published package (and any `out/` build) it sits
+ * next to this file. When this module runs from `src/` (vitest transforms TypeScript in-place,
+ * so `__dirname` is `src/`), fall back to the repo's `out/` build — the integration tests
+ * compile it first. Workers can only execute plain JavaScript, never `.ts` sources.
+ */
+function resolveWorkerEntryPath(): string {
+    const compiled = join(__dirname, 'pageRenderWorker.js');
+    if (existsSync(compiled)) {
+        return compiled;
+    }
+    return join(__dirname, '..', 'out', 'pageRenderWorker.js');
+}
+
+/** One conversion's pages, scheduled through the pool. */
+interface PoolJob {
+    documentId: number;
+    /** Sent with a page whenever the receiving worker does not hold the document. */
+    document: WorkerDocument;
+    tasks: WorkerPageTask[];
+    /** Most pages of this conversion that may occupy a worker at once. */
+    concurrency: number;
+    nextTask: number;
+    /** Pages sent to a worker whose response has not arrived yet. */
+    inFlight: number;
+    /** `onPageRendered` calls still running. */
+    pendingOutputs: number;
+    hasFatalError: boolean;
+    fatalError: unknown;
+    errorsByIndex: Map<number, unknown>;
+    onPageRendered: (index: number, page: WorkerRenderedPage) => Promise<void>;
+    control: WorkerPoolControl;
+    settled: boolean;
+    resolve: () => void;
+    reject: (error: unknown) => void;
+}
+
+interface PoolWorker {
+    worker: Worker;
+    /** Mirror of the worker's own document cache; see {@link LruCache}. */
+    documents: LruCache<number, true>;
+    /** The page the worker is rendering, if any. */
+    current: { job: PoolJob; task: WorkerPageTask } | undefined;
+    /** Set while `onPageRendered` runs for the worker's last page; it gets no new page meanwhile. */
+    finalizing: boolean;
+    /** Terminated by the pool, crashed, or exited; ignored from then on. */
+    dead: boolean;
+}
+
+/**
+ * A long-lived pool of render worker threads that conversions share.
+ *
+ * `renderInWorkerThreads` starts a pool for each conversion and tears it down afterwards, so
+ * every call pays worker startup (a few hundred milliseconds) — which dominates when converting
+ * many small documents. A `PdfRenderPool` keeps its workers: pass it as the `renderPool` option
+ * to any number of `pdfToPng` / `pdfToPngIterator` calls, sequential or concurrent, and call
+ * `destroy()` when done.
+ *
+ * Workers start on demand, up to `size`, and idle workers do not keep the process alive.
+ * Documents travel with render requests: a worker loads a conversion's document the first time
+ * it renders one of its pages and caches it (up to `maxCachedDocuments`, least recently used
+ * evicted) for that conversion's later pages; the document is released when the conversion
+ * finishes. Idle workers prefer pages of a document they already hold. Each conversion keeps at
+ * most `concurrencyLimit` of its pages in the pool at once, and keeps the error semantics of a
+ * per-conversion pool: the lowest-index page error, or a fatal error (document load failure,
+ * worker crash) with priority. A crashed worker fails only the conversion whose page it was
+ * rendering and is replaced on demand; aborting a conversion terminates and replaces only the
+ * workers rendering its pages.
+ *
+ * @since 4.3.0
+ */
+export class PdfRenderPool {
+    private readonly size: number;
+    private readonly initData: WorkerInitData;
+    private readonly workers: PoolWorker[] = [];
+    /** Conversions in submission order; dispatch is first-come, first-served. */
+    private readonly jobs = new Set<PoolJob>();
+    private nextDocumentId = 0;
+    private destroyPromise: Promise<void> | undefined;
+
+    constructor(options?: PdfRenderPoolOptions) {
+        const size = options?.size ?? PDF_RENDER_POOL_DEFAULTS.size;
+        if (!Number.isInteger(size) || size < 1 || size > MAX_CONCURRENCY_LIMIT) {
+            throw new Error(`size must be an integer between 1 and ${MAX_CONCURRENCY_LIMIT}, received: ${size}`);
+        }
+        const maxCachedDocuments = options?.maxCachedDocuments ?? PDF_RENDER_POOL_DEFAULTS.maxCachedDocuments;
+        if (!Number.isInteger(maxCachedDocuments) || maxCachedDocuments < 1) {
+            throw new Error(`maxCachedDocuments must be a positive integer, received: ${maxCachedDocuments}`);
+        }
+        this.size = size;
+        this.initData = { maxCachedDocuments };
+    }
+
+    /**
+     * Renders one conversion's pages through the pool; see `renderPagesInWorkerPool` for the
+     * contract of `onPageRendered` and `control`, which this method shares.
+     *
+     * @internal Called by the conversion core; not part of the public API.
+     */
+    public async renderDocument(
+        pdfBuffer: Uint8Array,
+        documentOptions: WorkerDocument['documentOptions'],
+        materializeContent: boolean,
+        tasks: WorkerPageTask[],
+        concurrency: number,
+        onPageRendered: (index: number, page: WorkerRenderedPage) => Promise<void>,
+        control: WorkerPoolControl = {},
+    ): Promise<void> {
+        if (this.destroyPromise !== undefined) {
+            throw new Error('The PDF render pool has been destroyed.');
+        }
+        const { signal } = control;
+        throwIfAborted(signal);
+        if (tasks.length === 0) {
+            return;
+        }
+
+        let job: PoolJob | undefined;
+        const onAbort = (): void => {
+            if (job !== undefined) {
+                this.abortJob(job, createAbortError(signal as AbortSignal));
+            }
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        try {
+            await new Promise<void>((resolve, reject) => {
+                job = {
+                    documentId: this.nextDocumentId,
+                    document: { pdfBuffer, documentOptions, materializeContent, reportProgress: control.onPageStage !== undefined },
+                    tasks,
+                    concurrency,
+                    nextTask: 0,
+                    inFlight: 0,
+                    pendingOutputs: 0,
+                    hasFatalError: false,
+                    fatalError: undefined,
+                    errorsByIndex: new Map<number, unknown>(),
+                    onPageRendered,
+                    control,
+                    settled: false,
+                    resolve,
+                    reject,
+                };
+                this.nextDocumentId += 1;
+                this.jobs.add(job);
+                this.pump();
+            });
+        } finally {
+            signal?.removeEventListener('abort', onAbort);
+        }
+    }
+
+    /**
+     * Terminates every worker and rejects conversions still running in the pool. Idempotent:
+     * every call returns the same promise, which resolves once all workers have exited. The pool
+     * cannot be used afterwards.
+     */
+    public destroy(): Promise<void> {
+        this.destroyPromise ??= (async (): Promise<void> => {
+            const terminations = [...this.workers].map((poolWorker) => {
+                if (poolWorker.current !== undefined) {
+                    this.completeTask(poolWorker, poolWorker.current.job);
+                }
+                return this.kill(poolWorker);
+            });
+            for (const job of [...this.jobs]) {
+                this.recordFatal(job, new Error('The PDF render pool has been destroyed.'));
+                this.maybeSettle(job);
+            }
+            await Promise.all(terminations);
+        })();
+        return this.destroyPromise;
+    }
+
+    /** Same as `destroy()`; called by `await using` when the pool goes out of scope. */
+    public async [Symbol.asyncDispose](): Promise<void> {
+        await this.destroy();
+    }
+
+    /** Hands pages to idle workers, starting new workers (up to `size`) while pages are waiting. */
+    private pump(): void {
+        if (this.destroyPromise !== undefined) {
+            return;
+        }
+        for (const poolWorker of this.workers) {
+            if (poolWorker.current === undefined && !poolWorker.finalizing) {
+                const job = this.nextJob(poolWorker);
+                if (job === undefined) {
+                    // Idle workers must not keep the process alive between conversions.
+                    poolWorker.worker.unref();
+                } else {
+                    this.dispatch(poolWorker, job);
+                }
+            }
+        }
+        while (this.workers.length < this.size) {
+            const job = this.nextJob(undefined);
+            if (job === undefined) {
+                break;
+            }
+            const poolWorker = this.spawn(job);
+            if (poolWorker !== undefined) {
+                this.dispatch(poolWorker, job);
+            }
+        }
+    }
+
+    /** The next conversion with a page to hand out, preferring one whose document `poolWorker` already holds. */
+    private nextJob(poolWorker: PoolWorker | undefined): PoolJob | undefined {
+        let firstReady: PoolJob | undefined;
+        for (const job of this.jobs) {
+            const ready = !this.isStopped(job) && job.nextTask < job.tasks.length && job.inFlight + job.pendingOutputs < job.concurrency;
+            if (!ready) {
+                continue;
+            }
+            if (poolWorker?.documents.has(job.documentId) === true) {
+                return job;
+            }
+            firstReady ??= job;
+        }
+        return firstReady;
+    }
+
+    private spawn(job: PoolJob): PoolWorker | undefined {
+        let worker: Worker;
+        try {
+            worker = new Worker(resolveWorkerEntryPath(), { workerData: this.initData });
+        } catch (error: unknown) {
+            // A synchronous spawn failure fails the conversion that needed the worker.
+            this.recordFatal(job, error);
+            this.maybeSettle(job);
+            return undefined;
+        }
+        const poolWorker: PoolWorker = {
+            worker,
+            documents: new LruCache<number, true>(this.initData.maxCachedDocuments),
+            current: undefined,
+            finalizing: false,
+            dead: false,
+        };
+        this.workers.push(poolWorker);
+        worker.on('message', (response: WorkerResponse) => {
+            this.handleResponse(poolWorker, response);
+        });
+        worker.on('error', (error: unknown) => {
+            // Any worker 'error' is a worker-level failure (crash, startup failure such as a
+            // missing entry file) — fatal for the conversion whose page it was rendering, never
+            // attributed to that page.
+            this.handleWorkerDeath(poolWorker, error);
+        });
+        worker.on('exit', () => {
+            // kill() marks the worker dead before terminating it; an exit seen while alive is a crash.
+            this.handleWorkerDeath(poolWorker, new Error('Render worker exited unexpectedly.'));
+        });
+        return poolWorker;
+    }
+
+    private dispatch(poolWorker: PoolWorker, job: PoolJob): void {
+        const task = job.tasks[job.nextTask];
+        job.nextTask += 1;
+        job.inFlight += 1;
+        poolWorker.current = { job, task };
+        // Same operation the worker applies to its own cache when it receives this request.
+        const cached = poolWorker.documents.get(job.documentId) !== undefined;
+        if (!cached) {
+            poolWorker.documents.set(job.documentId, true);
+        }
+        const request: RenderPageRequest = {
+            type: 'render',
+            documentId: job.documentId,
+            document: cached ? undefined : job.document,
+            index: task.index,
+            pageNumber: task.pageNumber,
+            pageName: task.pageName,
+        };
+        poolWorker.worker.ref();
+        poolWorker.worker.postMessage(request);
+    }
+
+    private handleResponse(poolWorker: PoolWorker, response: WorkerResponse): void {
+        const current = poolWorker.dead ? undefined : poolWorker.current;
+        // Stale messages (after termination, or for a page the pool no longer waits on) are ignored.
+        if (current?.job.documentId !== response.documentId) {
+            return;
+        }
+        const { job } = current;
+        switch (response.type) {
+            case 'progress':
+                try {
+                    job.control.onPageStage?.(response.pageNumber, response.stage);
+                } catch (error: unknown) {
+                    this.recordPageError(job, response.index, error);
+                }
+                return;
+            case 'render-error':
+                this.recordPageError(job, response.index, response.error);
+                this.completeTask(poolWorker, job);
+                break;
+            case 'fatal':
+                this.recordFatal(job, response.error);
+                this.completeTask(poolWorker, job);
+                break;
+            case 'result':
+                this.completeTask(poolWorker, job);
+                // A page whose progress callback threw has already failed; its output is dropped.
+                if (!job.errorsByIndex.has(response.index)) {
+                    void this.finalize(poolWorker, job, response);
+                    return;
+                }
+                break;
+        }
+        this.maybeSettle(job);
+        this.pump();
+    }
+
+    /**
+     * Runs `onPageRendered` for a finished page. The worker gets no new page until it returns,
+     * so a caller that blocks there (the streaming iterator's back-pressure) holds back its own
+     * conversion, and the pool never settles a conversion while one of its outputs is pending.
+     */
+    private async finalize(poolWorker: PoolWorker, job: PoolJob, response: RenderedPageMessage): Promise<void> {
+        poolWorker.finalizing = true;
+        job.pendingOutputs += 1;
+        // Re-wrap the structured-cloned (or transferred) bytes as a Buffer without copying.
+        const content =
+            response.content !== undefined
+                ? Buffer.from(response.content.buffer, response.content.byteOffset, response.content.byteLength)
+                : undefined;
+        const pixels =
+            response.pixels !== undefined
+                ? {
+                      data: Buffer.from(response.pixels.data.buffer, response.pixels.data.byteOffset, response.pixels.data.byteLength),
+                      stride: response.pixels.stride,
+                  }
+                : undefined;
+        try {
+            await job.onPageRendered(response.index, {
+                pageNumber: response.pageNumber,
+                name: response.name,
+                width: response.width,
+                height: response.height,
+                rotation: response.rotation,
+                viewportScale: response.viewportScale,
+                renderedRect: response.renderedRect,
+                format: response.format,
+                bitDepth: response.bitDepth,
+                colorType: response.colorType,
+                content,
+                pixels,
+            });
+        } catch (error: unknown) {
+            this.recordPageError(job, response.index, error);
+        } finally {
+            poolWorker.finalizing = false;
+            job.pendingOutputs -= 1;
+        }
+        this.maybeSettle(job);
+        this.pump();
+    }
+
+    private handleWorkerDeath(poolWorker: PoolWorker, error: unknown): void {
+        if (poolWorker.dead) {
+            return;
+        }
+        poolWorker.dead = true;
+        this.workers.splice(this.workers.indexOf(poolWorker), 1);
+        const current = poolWorker.current;
+        if (current !== undefined) {
+            this.recordFatal(current.job, error);
+            this.completeTask(poolWorker, current.job);
+            this.maybeSettle(current.job);
+        }
+        this.pump();
+    }
+
+    /** Stops the conversion and terminates the workers rendering its pages — the only way to stop a render on another thread. */
+    private abortJob(job: PoolJob, error: unknown): void {
+        this.recordFatal(job, error);
+        for (const poolWorker of [...this.workers]) {
+            if (poolWorker.current?.job === job) {
+                this.completeTask(poolWorker, job);
+                void this.kill(poolWorker);
+            }
+        }
+        this.maybeSettle(job);
+        this.pump();
+    }
+
+    private kill(poolWorker: PoolWorker): Promise<number> {
+        poolWorker.dead = true;
+        const position = this.workers.indexOf(poolWorker);
+        if (position !== -1) {
+            this.workers.splice(position, 1);
+        }
+        return poolWorker.worker.terminate();
+    }
+
+    private completeTask(poolWorker: PoolWorker, job: PoolJob): void {
+        poolWorker.current = undefined;
+        job.inFlight -= 1;
+    }
+
+    private isStopped(job: PoolJob): boolean {
+        return job.hasFatalError || job.errorsByIndex.size > 0;
+    }
+
+    private recordFatal(job: PoolJob, error: unknown): void {
+        if (!job.hasFatalError) {
+            job.hasFatalError = true;
+            job.fatalError = error;
+        }
+        job.control.onError?.(error);
+    }
+
+    private recordPageError(job: PoolJob, index: number, error: unknown): void {
+        job.errorsByIndex.set(index, error);
+        job.control.onError?.(error);
+    }
+
+    /** Settles the conversion once nothing of it is in flight and nothing more will be dispatched. */
+    private maybeSettle(job: PoolJob): void {
+        if (job.settled || job.inFlight > 0 || job.pendingOutputs > 0) {
+            return;
+        }
+        if (!this.isStopped(job) && job.nextTask < job.tasks.length) {
+            return;
+        }
+        job.settled = true;
+        this.jobs.delete(job);
+        for (const poolWorker of this.workers) {
+            if (poolWorker.documents.delete(job.documentId) !== undefined) {
+                const release: WorkerRequest = { type: 'release', documentId: job.documentId };
+                poolWorker.worker.postMessage(release);
+            }
+        }
+        if (job.hasFatalError) {
+            job.reject(job.fatalError);
+        } else if (job.errorsByIndex.size > 0) {
+            job.reject(job.errorsByIndex.get(Math.min(...job.errorsByIndex.keys())));
+        } else {
+            job.resolve();
+        }
+    }
+}
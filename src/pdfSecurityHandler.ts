@@ -0,0 +1,229 @@
+import { createCipheriv, createDecipheriv, createHash } from 'node:crypto';
+
+/**
+ * Decryption of the streams of a document encrypted with the Standard security handler
+ * (ISO 32000-2 §7.6.4), for the readers of the file that pdf.js does not expose.
+ *
+ * Covers the revisions pdf.js opens: RC4 (revisions 2 to 4), AES-128 (revision 4) and AES-256
+ * (revisions 5 and 6), with the user or the owner password. Only streams are decrypted: the
+ * objects these readers need are numbers, names and references, which are never encrypted,
+ * except inside an object stream.
+ */
+
+/** The parts of the `/Encrypt` dictionary the Standard security handler reads. */
+export interface StandardEncryption {
+    /** `/V`: the algorithm version. */
+    version: number;
+    /** `/R`: the handler revision. */
+    revision: number;
+    /** `/Length`, in bits; `40` when absent. */
+    keyLength: number;
+    /** `/CFM` of the crypt filter named by `/StmF` (version 4 and later), else `undefined`. */
+    streamMethod: string | undefined;
+    owner: Uint8Array;
+    user: Uint8Array;
+    ownerKey: Uint8Array | undefined;
+    userKey: Uint8Array | undefined;
+    permissions: number;
+    encryptMetadata: boolean;
+}
+
+/** Decrypts the data of the stream in object `num`, generation `generation`. */
+export type StreamDecryptor = (data: Uint8Array, num: number, generation: number) => Uint8Array;
+
+/** The 32-byte string passwords are padded with (Algorithm 2, step a). */
+const PASSWORD_PADDING = Buffer.from('28bf4e5e4e758a4164004e56fffa01082e2e00b6d0683e802f0ca9fe6453697a', 'hex');
+
+const AES_BLOCK_BYTES = 16;
+
+function md5(...parts: Uint8Array[]): Buffer {
+    const hash = createHash('md5');
+    for (const part of parts) {
+        hash.update(part);
+    }
+    return hash.digest();
+}
+
+function rc4(key: Uint8Array, data: Uint8Array): Buffer {
+    const state = new Uint8Array(256).map((_, index) => index);
+    for (let i = 0, j = 0; i < 256; i += 1) {
+        j = (j + state[i] + key[i % key.length]) & 0xff;
+        [state[i], state[j]] = [state[j], state[i]];
+    }
+    const output = Buffer.alloc(data.length);
+    for (let index = 0, i = 0, j = 0; index < data.length; index += 1) {
+        i = (i + 1) & 0xff;
+        j = (j + state[i]) & 0xff;
+        [state[i], state[j]] = [state[j], state[i]];
+        output[index] = data[index] ^ state[(state[i] + state[j]) & 0xff];
+    }
+    return output;
+}
+
+/** RC4 with `key` XORed with each of `rounds`, in order — the 20-round loops of Algorithms 5 and 7. */
+function rc4Rounds(key: Uint8Array, data: Uint8Array, rounds: number[]): Buffer {
+    let output: Buffer = Buffer.from(data);
+    for (const round of rounds) {
+        output = rc4(
+            key.map((byte) => byte ^ round),
+            output,
+        );
+    }
+    return output;
+}
+
+function aesCbc(mode: 'encrypt' | 'decrypt', key: Uint8Array, iv: Uint8Array, data: Uint8Array): Buffer {
+    const algorithm = `aes-${key.length * 8}-cbc`;
+    const cipher = mode === 'encrypt' ? createCipheriv(algorithm, key, iv) : createDecipheriv(algorithm, key, iv);
+    cipher.setAutoPadding(false);
+    return Buffer.concat([cipher.update(data), cipher.final()]);
+}
+
+/** Decrypts AES-CBC stream data: a 16-byte IV, then the ciphertext with PKCS #5 padding. */
+function decryptAes(key: Uint8Array, data: Uint8Array): Buffer {
+    const blocks = Math.floor(data.length / AES_BLOCK_BYTES) * AES_BLOCK_BYTES;
+    if (blocks < 2 * AES_BLOCK_BYTES) {
+        return Buffer.alloc(0);
+    }
+    const decrypted = aesCbc('decrypt', key, data.subarray(0, AES_BLOCK_BYTES), data.subarray(AES_BLOCK_BYTES, blocks));
+    const padding = decrypted[decrypted.length - 1];
+    return padding >= 1 && padding <= AES_BLOCK_BYTES ? decrypted.subarray(0, decrypted.length - padding) : decrypted;
+}
+
+/** The password as revisions 2 to 4 use it: its first 32 bytes, padded with {@link PASSWORD_PADDING}. */
+function padPassword(password: string): Buffer {
+    const bytes = Buffer.from(password, 'latin1').subarray(0, 32);
+    return Buffer.concat([bytes, PASSWORD_PADDING.subarray(0, 32 - bytes.length)]);
+}
+
+/** Algorithm 2: the file key of revisions 2 to 4, from a padded user password. */
+function computeRc4FileKey(encryption: StandardEncryption, paddedPassword: Uint8Array, fileId: Uint8Array): Buffer {
+    const keyBytes = encryption.revision === 2 ? 5 : encryption.keyLength / 8;
+    const permissions = Buffer.alloc(4);
+    permissions.writeInt32LE(encryption.permissions | 0);
+    const metadata = encryption.revision >= 4 && !encryption.encryptMetadata ? [Buffer.from([0xff, 0xff, 0xff, 0xff])] : [];
+    let key = md5(paddedPassword, encryption.owner.subarray(0, 32), permissions, fileId, ...metadata).subarray(0, keyBytes);
+    if (encryption.revision >= 3) {
+        for (let round = 0; round < 50; round += 1) {
+            key = md5(key).subarray(0, keyBytes);
+        }
+    }
+    return key;
+}
+
+const ROUNDS_UP = Array.from({ length: 20 }, (_, index) => index);
+const ROUNDS_DOWN = [...ROUNDS_UP].reverse();
+
+/** Algorithms 4 to 6: whether `key` is the file key that produced the `/U` entry. */
+function isUserKey(encryption: StandardEncryption, key: Uint8Array, fileId: Uint8Array): boolean {
+    if (encryption.revision === 2) {
+        return rc4(key, PASSWORD_PADDING).equals(encryption.user.subarray(0, 32));
+    }
+    const check = rc4Rounds(key, md5(PASSWORD_PADDING, fileId), ROUNDS_UP);
+    return check.equals(encryption.user.subarray(0, 16));
+}
+
+/** Algorithm 7: the padded user password recovered from `/O` with the owner password. */
+function recoverUserPassword(encryption: StandardEncryption, password: string): Buffer {
+    const keyBytes = encryption.revision === 2 ? 5 : encryption.keyLength / 8;
+    let key = md5(padPassword(password));
+    if (encryption.revision >= 3) {
+        for (let round = 0; round < 50; round += 1) {
+            key = md5(key);
+        }
+    }
+    key = key.subarray(0, keyBytes);
+    const owner = encryption.owner.subarray(0, 32);
+    return encryption.revision === 2 ? rc4(key, owner) : rc4Rounds(key, owner, ROUNDS_DOWN);
+}
+
+/** Algorithm 2.B: the hash of revision 6 (revision 5 uses a single SHA-256). */
+function hashAes256Password(revision: number, password: Uint8Array, salt: Uint8Array, userData: Uint8Array): Buffer {
+    let key = createHash('sha256').update(password).update(salt).update(userData).digest();
+    if (revision === 5) {
+        return key;
+    }
+    for (let round = 0; ; round += 1) {
+        const block = Buffer.concat([password, key, userData]);
+        const encrypted = aesCbc('encrypt', key.subarray(0, 16), key.subarray(16, 32), Buffer.concat(Array<Buffer>(64).fill(block)));
+        let sum = 0;
+        for (let index = 0; index < 16; index += 1) {
+            sum += encrypted[index];
+        }
+        key = createHash(['sha256', 'sha384', 'sha512'][sum % 3])
+            .update(encrypted)
+            .digest();
+        if (round >= 63 && encrypted[encrypted.length - 1] <= round - 31) {
+            return key.subarray(0, 32);
+        }
+    }
+}
+
+/** Algorithms 2.A, 11 and 12: the file key of revisions 5 and 6, from the user or the owner password. */
+function computeAes256FileKey(encryption: StandardEncryption, password: string): Buffer | undefined {
+    const { revision, owner, user, ownerKey, userKey } = encryption;
+    if (ownerKey === undefined || userKey === undefined) {
+        throw new Error('the /Encrypt dictionary has no /OE or /UE');
+    }
+    const bytes = Buffer.from(password, 'utf8').subarray(0, 127);
+    const zeroIv = Buffer.alloc(AES_BLOCK_BYTES);
+    const userHash = user.subarray(0, 48);
+    if (hashAes256Password(revision, bytes, owner.subarray(32, 40), userHash).equals(owner.subarray(0, 32))) {
+        return aesCbc('decrypt', hashAes256Password(revision, bytes, owner.subarray(40, 48), userHash), zeroIv, ownerKey.subarray(0, 32));
+    }
+    const empty = new Uint8Array(0);
+    if (hashAes256Password(revision, bytes, user.subarray(32, 40), empty).equals(user.subarray(0, 32))) {
+        return aesCbc('decrypt', hashAes256Password(revision, bytes, user.subarray(40, 48), empty), zeroIv, userKey.subarray(0, 32));
+    }
+    return undefined;
+}
+
+/** The file key for `password`, tried as the user password and then as the owner password, as pdf.js does. */
+function computeFileKey(encryption: StandardEncryption, password: string, fileId: Uint8Array): Buffer {
+    let key: Buffer | undefined;
+    if (encryption.revision >= 5) {
+        key = computeAes256FileKey(encryption, password);
+    } else {
+        for (const padded of [padPassword(password), recoverUserPassword(encryption, password)]) {
+            const candidate = computeRc4FileKey(encryption, padded, fileId);
+            if (isUserKey(encryption, candidate, fileId)) {
+                key = candidate;
+                break;
+            }
+        }
+    }
+    if (key === undefined) {
+        throw new Error('the password does not decrypt the document');
+    }
+    return key;
+}
+
+/**
+ * Returns the decryptor for the streams of a document encrypted with `encryption`, or
+ * `undefined` when its streams are not encrypted (crypt filter `/Identity` or `/None`).
+ * @param fileId - The first string of the trailer's `/ID`, empty when there is none.
+ * @param password - The password the document was opened with, empty for none.
+ */
+export function createStreamDecryptor(encryption: StandardEncryption, fileId: Uint8Array, password: string): StreamDecryptor | undefined {
+    const { version, revision, streamMethod } = encryption;
+    let method: 'rc4' | 'aes';
+    if (version === 1 || version === 2 || (version === 4 && streamMethod === 'V2')) {
+        method = 'rc4';
+    } else if ((version === 4 && streamMethod === 'AESV2') || (version === 5 && streamMethod === 'AESV3')) {
+        method = 'aes';
+    } else if (version >= 4 && (streamMethod === undefined || streamMethod === 'None')) {
+        return undefined;
+    } else {
+        throw new Error(`unsupported encryption (version ${version}, revision ${revision}, method ${streamMethod ?? 'none'})`);
+    }
+    const fileKey = computeFileKey(encryption, password, fileId);
+    if (version === 5) {
+        return (data) => decryptAes(fileKey, data);
+    }
+    return (data, num, generation) => {
+        const salt = method === 'aes' ? [Buffer.from('sAlT', 'latin1')] : [];
+        const objectId = Buffer.from([num, num >> 8, num >> 16, generation, generation >> 8]);
+        const key = md5(fileKey, objectId, ...salt).subarray(0, Math.min(fileKey.length + 5, 16));
+        return method === 'aes' ? decryptAes(key, data) : rc4(key, data);
+    };
+}
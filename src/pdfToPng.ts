@@ -1,18 +1,19 @@
-import type { PdfToPngOptions, PngPageOutput } from './interfaces/index.js';
+import type { PdfFileInput, PdfToPngOptions, PngPageOutput } from './interfaces/index.js';
 import { normalizePdfToPngOptions } from './normalizePdfToPngOptions.js';
 import { pdfToPngCore } from './pdfToPngCore.js';
 
 /**
  * Convert PDF pages to PNG buffers and/or files.
  *
- * Sole public entry point. Validates and defaults `props` via `normalizePdfToPngOptions`,
- * then delegates to the internal `pdfToPngCore`. The CLI calls `pdfToPngCore` directly
- * with its own already-normalized options to avoid double validation.
+ * Validates and defaults `props` via `normalizePdfToPngOptions`, then delegates to the
+ * internal `pdfToPngCore`. The CLI calls `pdfToPngCore` directly with its own
+ * already-normalized options to avoid double validation. Resolves once every page is done;
+ * use `pdfToPngIterator` to consume pages as they finish.
  *
- * @param pdfFile - PDF file path (string), `ArrayBufferLike`, or `Uint8Array`.
+ * @param pdfFile - PDF file path (string), `ArrayBufferLike`, `Uint8Array`, a stream of its bytes, or a `URL` to read or download.
  * @param props - Optional caller-facing options; see {@link PdfToPngOptions}.
  * @returns One `PngPageOutput` per processed page.
  */
-export async function pdfToPng(pdfFile: string | ArrayBufferLike | Uint8Array, props?: PdfToPngOptions): Promise<PngPageOutput[]> {
+export async function pdfToPng(pdfFile: PdfFileInput, props?: PdfToPngOptions): Promise<PngPageOutput[]> {
     return pdfToPngCore(pdfFile, normalizePdfToPngOptions(props));
 }
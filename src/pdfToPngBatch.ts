@@ -0,0 +1,125 @@
+import { join, parse } from 'node:path';
+import { URL } from 'node:url';
+import { ConcurrencyGate } from './concurrencyGate.js';
+import { PDF_TO_PNG_OPTIONS_DEFAULTS } from './const.js';
+import { containsPathSeparator, SEPARATOR_DESCRIPTION } from './flatFilename.js';
+import type { PdfBatchInput, PdfBatchResult, PdfFileInput, PdfToPngBatchOptions } from './interfaces/index.js';
+import { normalizePdfToPngBatchOptions } from './normalizePdfToPngOptions.js';
+import { resolveOutputFolder } from './outputWriter.js';
+import { pdfFilePath } from './pdfInput.js';
+import { pdfToPngCore, processWithSlidingWindow } from './pdfToPngCore.js';
+
+interface NamedBatchInput {
+    pdfFile: PdfFileInput;
+    name: string;
+}
+
+function isNamedInput(input: PdfBatchInput): input is { pdfFile: PdfFileInput; name?: string } {
+    return typeof input === 'object' && input !== null && !(input instanceof URL) && 'pdfFile' in input;
+}
+
+/**
+ * Names every input and rejects the batch, before anything is read, when a name is not a flat
+ * file name or two inputs share one — their pages would land in the same folder or collide.
+ * Names are compared case-insensitively, as page names are in `pdfToPngCore`: on macOS and Windows
+ * `Report` and `report` are the same folder.
+ */
+function nameBatchInputs(inputs: PdfBatchInput[]): NamedBatchInput[] {
+    if (!Array.isArray(inputs)) {
+        throw new Error('inputs must be an array of PDF inputs');
+    }
+    const positionsByKey = new Map<string, number>();
+    return inputs.map((input, index) => {
+        const { pdfFile, name } = isNamedInput(input) ? input : { pdfFile: input, name: undefined };
+        const path = pdfFilePath(pdfFile);
+        const resolvedName: unknown =
+            name ?? (path === undefined ? `${PDF_TO_PNG_OPTIONS_DEFAULTS.outputFileMask}_${index + 1}` : parse(path).name);
+        if (
+            typeof resolvedName !== 'string' ||
+            resolvedName === '' ||
+            resolvedName === '.' ||
+            resolvedName === '..' ||
+            containsPathSeparator(resolvedName)
+        ) {
+            throw new Error(
+                `The name of batch input ${index + 1} must be a flat file name without ${SEPARATOR_DESCRIPTION} path separators, received: ${String(resolvedName)}`,
+            );
+        }
+        const key = resolvedName.toLowerCase();
+        const first = positionsByKey.get(key);
+        if (first !== undefined) {
+            throw new Error(`Batch inputs ${first + 1} and ${index + 1} are both named "${resolvedName}"; give each input a distinct name`);
+        }
+        positionsByKey.set(key, index);
+        return { pdfFile, name: resolvedName };
+    });
+}
+
+/** `outputFileMaskFunc` for the `'prefixed'` layout. Anything but a name is passed on for `resolvePageName` to reject. */
+function prefixMask(name: string, outputFileMaskFunc: (pageNumber: number) => string): (pageNumber: number) => string {
+    return (pageNumber) => {
+        const pageName: unknown = outputFileMaskFunc(pageNumber);
+        return typeof pageName === 'string' && pageName !== '' ? `${name}_${pageName}` : (pageName as string);
+    };
+}
+
+/**
+ * Convert many PDFs under one concurrency budget.
+ *
+ * Documents are converted `documentConcurrency` at a time through the same sliding window that
+ * schedules the pages of one document, and every page of every document renders while holding one
+ * of `pageConcurrency` shared slots — so a batch of 300 files keeps the memory of a few
+ * conversions, where `Promise.all` over `pdfToPng` would multiply `concurrencyLimit` by 300.
+ *
+ * A document that fails does not stop the batch: its result reports the error and the other
+ * documents go on. Option errors and unusable input names reject the batch before any input is
+ * read, and aborting `signal` rejects it with the `AbortError` once the documents in progress
+ * have settled.
+ *
+ * @param inputs - The PDFs, each as `pdfToPng` takes it or as `{ pdfFile, name }`; see {@link PdfBatchInput}.
+ * @param options - Conversion options for every document plus the batch limits; see {@link PdfToPngBatchOptions}.
+ * @returns One result per input, in input order.
+ * @since 4.3.0
+ */
+export async function pdfToPngBatch(inputs: PdfBatchInput[], options?: PdfToPngBatchOptions): Promise<PdfBatchResult[]> {
+    const { documentOptions, documentConcurrency, pageConcurrency, outputLayout } = normalizePdfToPngBatchOptions(options);
+    const namedInputs = nameBatchInputs(inputs);
+    // Resolved once, against the CWD at batch start, as pdfToPng resolves its outputFolder.
+    const outputFolder =
+        documentOptions.outputFolder === undefined || documentOptions.returnMetadataOnly
+            ? undefined
+            : resolveOutputFolder(documentOptions.outputFolder);
+    const pageGate = pageConcurrency === undefined ? undefined : new ConcurrencyGate(pageConcurrency);
+    const { outputFileMaskFunc } = documentOptions;
+
+    return processWithSlidingWindow(
+        namedInputs.map((_, index) => index),
+        documentConcurrency,
+        async (index): Promise<PdfBatchResult> => {
+            const { pdfFile, name } = namedInputs[index];
+            const prefixed = outputLayout === 'prefixed';
+            const documentFolder = outputFolder === undefined || prefixed ? outputFolder : join(outputFolder, name);
+            try {
+                const pages = await pdfToPngCore(
+                    pdfFile,
+                    {
+                        ...documentOptions,
+                        outputFolder: documentFolder,
+                        outputFileMaskFunc:
+                            prefixed && outputFileMaskFunc !== undefined ? prefixMask(name, outputFileMaskFunc) : outputFileMaskFunc,
+                    },
+                    { defaultMask: name, pageGate },
+                );
+                return { kind: 'converted', name, outputFolder: documentFolder, pages };
+            } catch (error: unknown) {
+                return {
+                    kind: 'failed',
+                    name,
+                    outputFolder: documentFolder,
+                    error: error instanceof Error ? error : new Error(String(error)),
+                };
+            }
+        },
+        documentOptions.signal,
+    );
+}
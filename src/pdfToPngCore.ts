@@ -1,47 +1,70 @@
 import { parse } from 'node:path';
+import { performance } from 'node:perf_hooks';
 import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { throwIfAborted } from './abortSignal.js';
+import type { ConcurrencyGate } from './concurrencyGate.js';
 import { PDF_TO_PNG_OPTIONS_DEFAULTS, SEQUENTIAL_PIPELINE_WINDOW } from './const.js';
 import { FilesystemSink } from './filesystemSink.js';
-import type { InMemoryPngPageOutput, PngPageOutput } from './interfaces/index.js';
+import type { InMemoryPngPageOutput, PdfFileInput, PngPageOutput, RawPixelsPngPageOutput } from './interfaces/index.js';
 import type { OutputSink } from './interfaces/output.sink.js';
 import type { WorkerDocumentOptions } from './interfaces/worker.protocol.js';
 import type { NormalizedPdfToPngOptions } from './normalizePdfToPngOptions.js';
+import { resolveOptionalContent } from './optionalContent.js';
+import { resolvePngMetadata } from './pngMetadata.js';
+import { OrderedPageBuffer } from './orderedPageBuffer.js';
 import { prepareOutputFolder, resolveOutputFolder } from './outputWriter.js';
+import type { PageMode } from './pageMode.js';
 import { optionsToPageMode } from './pageMode.js';
-import { finalizePageOutput, processAndSavePage, resolvePageName, shouldMaterializeContent } from './pageOrchestrator.js';
-import { getPdfFileBuffer } from './pdfInput.js';
-import { getPdfDocument } from './pdfjsLoader.js';
-import type { WorkerPageTask } from './workerPool.js';
+import type { RenderedPageMode } from './pageOrchestrator.js';
+import { finalizePageOutput, processAndSavePage, resolvePageName, resolveTileName, shouldMaterializeContent } from './pageOrchestrator.js';
+import type { PageRenderOptions } from './pageRenderer.js';
+import { resolvePagesToProcess } from './pageRanges.js';
+import { resolvePageEncoding, resolvePageScaling } from './pageRenderer.js';
+import { getPdfSource, pdfFilePath } from './pdfInput.js';
+import { getPdfDocument, throwIfRangeReadFailed } from './pdfjsLoader.js';
+import { createProgressReporter, finalProgressStage } from './progressReporter.js';
+import type { WorkerPageTask, WorkerRenderedPage } from './workerPool.js';
 import { renderPagesInWorkerPool } from './workerPool.js';
 
-async function processPagesWithSlidingWindow<T>(
-    pageNumbers: number[],
+/**
+ * Runs `processItem` over `items` with at most `concurrencyLimit` in flight, collecting the
+ * results in item order. The items are page numbers, except in `pdfToPngBatch`, which schedules
+ * its documents through this same window.
+ *
+ * Once `signal` is aborted no further item is dispatched; items already in flight settle (their
+ * renders are cancelled through the same signal) and the window rejects with the `AbortError`,
+ * which takes priority over any item error — including the cancellation errors of those renders.
+ */
+export async function processWithSlidingWindow<T>(
+    items: number[],
     concurrencyLimit: number,
-    processPage: (pageNumber: number, index: number) => Promise<T>,
+    processItem: (item: number, index: number) => Promise<T>,
+    signal?: AbortSignal,
 ): Promise<T[]> {
-    const results = new Array<T>(pageNumbers.length);
+    const results = new Array<T>(items.length);
     let nextIndex = 0;
-    // Errors keyed by page index. Several in-flight pages can fail before the window drains;
-    // the error thrown afterwards is always the failing page with the LOWEST index, so the
-    // surfaced error is deterministic and matches what a strict page-order loop would report,
+    // Errors keyed by item index. Several in-flight items can fail before the window drains;
+    // the error thrown afterwards is always the failing item with the LOWEST index, so the
+    // surfaced error is deterministic and matches what a strict in-order loop would report,
     // regardless of which rejection happened to settle first.
     const errorsByIndex = new Map<number, unknown>();
 
     async function runWorker(): Promise<void> {
-        while (errorsByIndex.size === 0 && nextIndex < pageNumbers.length) {
+        while (errorsByIndex.size === 0 && signal?.aborted !== true && nextIndex < items.length) {
             const currentIndex = nextIndex;
             nextIndex += 1;
             try {
-                results[currentIndex] = await processPage(pageNumbers[currentIndex], currentIndex);
+                results[currentIndex] = await processItem(items[currentIndex], currentIndex);
             } catch (error: unknown) {
                 errorsByIndex.set(currentIndex, error);
             }
         }
     }
 
-    const workerCount = Math.min(concurrencyLimit, pageNumbers.length);
+    const workerCount = Math.min(concurrencyLimit, items.length);
     await Promise.allSettled(Array.from({ length: workerCount }, () => runWorker()));
 
+    throwIfAborted(signal);
     if (errorsByIndex.size > 0) {
         throw errorsByIndex.get(Math.min(...errorsByIndex.keys()));
     }
@@ -87,36 +110,64 @@ function findDuplicateOutputName(names: string[], pageNumbers: number[]): { name
 }
 
 /**
- * Internal conversion entry point that bypasses the public-API normalization step.
- *
- * Callers — currently the public `pdfToPng()` wrapper and the CLI — are responsible for
- * producing a fully-validated `NormalizedPdfToPngOptions` (via `normalizePdfToPngOptions`)
- * before invoking this function. The single-normalize contract is what makes
- * `NormalizedPdfToPngOptions` the sole validation boundary of the library.
- *
- * This module is NOT re-exported from `src/index.ts`; it is an internal seam.
+ * A loaded document plus everything resolved about the conversion before the first page is
+ * rendered: the selected pages, their validated output names, the page mode and the render options.
+ * Shared by the collecting ({@link pdfToPngCore}) and streaming ({@link pdfToPngCoreIterator})
+ * entry points so both run the exact same validation and setup.
  */
-export async function pdfToPngCore(
-    pdfFile: string | ArrayBufferLike | Uint8Array,
+interface PreparedConversion {
+    pdfDocument: PDFDocumentProxy;
+    pageNumbers: number[];
+    names: string[];
+    pageMode: PageMode;
+    renderOptions: PageRenderOptions;
+    /** A private copy of the input for the render workers; defined exactly when worker mode applies. */
+    workerPdfBytes: Uint8Array | undefined;
+    /** The input's file name, recorded by `pngMetadata.provenance`; `undefined` for buffer and stream inputs. */
+    sourceName: string | undefined;
+}
+
+/** What `pdfToPngBatch` sets for each of its documents, beyond the conversion options. */
+export interface BatchDocumentContext {
+    /** Used for default page names in place of the one derived from the input. */
+    defaultMask: string;
+    /** Shared by the documents of the batch: every page is processed while holding one of its slots. */
+    pageGate: ConcurrencyGate | undefined;
+}
+
+/**
+ * Loads the document and performs all pre-render setup. On any setup failure the document is
+ * destroyed before the error propagates; on success the caller owns
+ * `pdfDocument.loadingTask.destroy()`.
+ */
+async function prepareConversion(
+    pdfFile: PdfFileInput,
     normalizedProps: NormalizedPdfToPngOptions,
-): Promise<PngPageOutput[]> {
-    const pageViewportScale = normalizedProps.viewportScale;
-    const pdfFileBuffer: Uint8Array = await getPdfFileBuffer(pdfFile, normalizedProps.maxInputBytes);
+    batch?: BatchDocumentContext,
+): Promise<PreparedConversion> {
+    const startedAt = performance.now();
+    throwIfAborted(normalizedProps.signal);
+    const pdfSource = await getPdfSource(pdfFile, normalizedProps);
 
     // Worker mode needs the raw bytes AFTER the main-thread document load, but getPdfDocument
     // transfers (detaches) the buffer it is given — so copy first. Worker-mode-only cost: one
     // extra copy of the input; each worker then receives its own structured-clone of this copy.
-    const useWorkerThreads = normalizedProps.renderInWorkerThreads === true && !normalizedProps.returnMetadataOnly;
-    const workerPdfBytes: Uint8Array | undefined = useWorkerThreads ? Uint8Array.from(pdfFileBuffer) : undefined;
+    // Normalization rules out worker mode with rangeLoading, so the source is bytes here.
+    const useWorkerThreads =
+        (normalizedProps.renderInWorkerThreads || normalizedProps.renderPool !== undefined) && !normalizedProps.returnMetadataOnly;
+    const workerPdfBytes: Uint8Array | undefined =
+        useWorkerThreads && pdfSource instanceof Uint8Array ? Uint8Array.from(pdfSource) : undefined;
 
-    const pdfDocument: PDFDocumentProxy = await getPdfDocument(pdfFileBuffer, normalizedProps);
+    const pdfDocument: PDFDocumentProxy = await getPdfDocument(pdfSource, normalizedProps);
 
-    // Wrap ALL post-load work in this try so the worker is destroyed even if setup steps
+    // Wrap ALL post-load setup in this try so the worker is destroyed even if setup steps
     // (path resolution, mkdir, realpath, sink construction) throw — not just render-time errors.
     try {
-        const pagesToProcess: number[] =
-            normalizedProps.pagesToProcess ?? Array.from({ length: pdfDocument.numPages }, (_, index) => index + 1);
-        const validPagesToProcess: number[] = pagesToProcess.filter((pageNumber) => pageNumber <= pdfDocument.numPages && pageNumber >= 1);
+        const optionalContent = await resolveOptionalContent(pdfDocument, normalizedProps.optionalContent, normalizedProps.renderIntent);
+        const inputPath = pdfFilePath(pdfFile);
+        const sourceName = inputPath === undefined ? undefined : parse(inputPath).base;
+        const pngMetadata = normalizedProps.pngMetadata && (await resolvePngMetadata(pdfDocument, normalizedProps.pngMetadata, sourceName));
+        const validPagesToProcess: number[] = resolvePagesToProcess(normalizedProps.pagesToProcess, pdfDocument.numPages);
         const returnMetadataOnly = normalizedProps.returnMetadataOnly;
         // Metadata-only conversions render nothing and write nothing, so they never prepare a folder.
         // The path is resolved HERE, before any user-supplied outputFileMaskFunc runs below, so a
@@ -127,19 +178,25 @@ export async function pdfToPngCore(
                 ? undefined
                 : resolveOutputFolder(normalizedProps.outputFolder);
 
-        const defaultMask: string = typeof pdfFile === 'string' ? parse(pdfFile).name : PDF_TO_PNG_OPTIONS_DEFAULTS.outputFileMask;
+        const defaultMask: string =
+            batch?.defaultMask ?? (inputPath === undefined ? PDF_TO_PNG_OPTIONS_DEFAULTS.outputFileMask : parse(inputPath).name);
 
         // Resolve every page name up front. resolvePageName also enforces the non-empty and
         // flat-filename rules, so that validation continues to fire for in-memory conversions too.
         const resolvedNames: string[] = validPagesToProcess.map((pageNumber) =>
-            resolvePageName(pageNumber, defaultMask, normalizedProps.outputFileMaskFunc),
+            resolvePageName(pageNumber, defaultMask, normalizedProps.outputFileMaskFunc, normalizedProps.outputFormat),
         );
 
         // Collisions only corrupt output when pages are written to disk; in-memory / metadata-only
         // conversions may legitimately repeat a name. Reject duplicates before any output I/O
         // (before mkdir/realpath/write) so nothing is created and no partial output is left behind.
         if (resolvedOutputFolder !== undefined) {
-            const duplicate = findDuplicateOutputName(resolvedNames, validPagesToProcess);
+            // Tiled pages write tiles, not the page name itself. Two pages' tiles collide exactly
+            // when their first tiles do, since every tile name shares the page's stem.
+            const { tileSize, outputFormat } = normalizedProps;
+            const writtenNames =
+                tileSize === undefined ? resolvedNames : resolvedNames.map((name) => resolveTileName(name, 0, 0, outputFormat));
+            const duplicate = findDuplicateOutputName(writtenNames, validPagesToProcess);
             if (duplicate !== undefined) {
                 throw new Error(
                     `Duplicate output filename "${duplicate.name}" for pages ${duplicate.pages.join(', ')}. ` +
@@ -152,64 +209,283 @@ export async function pdfToPngCore(
         // output I/O of the conversion, so it must follow the duplicate check.
         const outputSink: OutputSink | undefined =
             resolvedOutputFolder !== undefined ? new FilesystemSink(await prepareOutputFolder(resolvedOutputFolder)) : undefined;
+        throwIfAborted(normalizedProps.signal);
+
         const pageMode = optionsToPageMode(normalizedProps, outputSink);
+        const { onProgress } = normalizedProps;
+        return {
+            pdfDocument,
+            pageNumbers: validPagesToProcess,
+            names: resolvedNames,
+            pageMode,
+            renderOptions: {
+                scaling: resolvePageScaling(normalizedProps),
+                pageBox: normalizedProps.pageBox,
+                clip: normalizedProps.clip,
+                background: normalizedProps.background,
+                annotationMode: normalizedProps.annotationMode,
+                optionalContent,
+                renderIntent: normalizedProps.renderIntent,
+                encoding: resolvePageEncoding(normalizedProps),
+                pngMetadata,
+                tileSize: normalizedProps.tileSize,
+                signal: normalizedProps.signal,
+                // Metadata-only conversions render nothing, so they report no progress.
+                onPageStage:
+                    onProgress !== undefined && pageMode.kind !== 'metadata'
+                        ? createProgressReporter(onProgress, validPagesToProcess.length, finalProgressStage(pageMode), startedAt)
+                        : undefined,
+            },
+            workerPdfBytes,
+            sourceName,
+        };
+    } catch (error: unknown) {
+        await pdfDocument.loadingTask.destroy();
+        throwIfRangeReadFailed(pdfDocument);
+        throw error;
+    }
+}
 
-        // Worker-thread mode: pages rasterize + encode inside a pool of worker threads (true
-        // multi-core parallelism — the main-thread modes below share one JS thread for all
-        // rendering). The main thread keeps everything else: page filtering, name resolution,
-        // duplicate detection (all above), and per-page output finalization — file writes go
-        // through the same sink and path-security guards as every other mode.
-        if (useWorkerThreads && pageMode.kind !== 'metadata' && workerPdfBytes !== undefined) {
-            const workerResults = new Array<PngPageOutput>(validPagesToProcess.length);
-            const tasks: WorkerPageTask[] = validPagesToProcess.map((pageNumber, index) => ({
-                index,
-                pageNumber,
-                pageName: resolvedNames[index],
-            }));
-            const documentOptions: WorkerDocumentOptions = {
-                viewportScale: normalizedProps.viewportScale,
-                disableFontFace: normalizedProps.disableFontFace,
-                useSystemFonts: normalizedProps.useSystemFonts,
-                enableXfa: normalizedProps.enableXfa,
-                pdfFilePassword: normalizedProps.pdfFilePassword,
-                verbosityLevel: normalizedProps.verbosityLevel,
+/**
+ * Worker-thread mode: pages rasterize + encode inside a pool of worker threads (true multi-core
+ * parallelism — the main-thread modes share one JS thread for all rendering). The main thread
+ * keeps everything else: page filtering, name resolution, duplicate detection (all in
+ * `prepareConversion`), and per-page output finalization — file writes go through the same sink
+ * and path-security guards as every other mode. `onPage` receives each finalized page by task
+ * index, in completion order. The conversion's `signal` is forwarded to the pool, which terminates
+ * its workers on abort. With a `renderPool` the pages go to that shared pool; otherwise a pool is
+ * started for this conversion and torn down when it ends.
+ */
+async function renderConversionInWorkerPool(
+    conversion: PreparedConversion,
+    workerPdfBytes: Uint8Array,
+    pageMode: RenderedPageMode,
+    normalizedProps: NormalizedPdfToPngOptions,
+    onPage: (index: number, page: PngPageOutput) => Promise<void> | void,
+    onError?: (error: unknown) => void,
+): Promise<void> {
+    const { onPageStage, scaling } = conversion.renderOptions;
+    const tasks: WorkerPageTask[] = conversion.pageNumbers.map((pageNumber, index) => ({
+        index,
+        pageNumber,
+        pageName: conversion.names[index],
+    }));
+    const documentOptions: WorkerDocumentOptions = {
+        // Either the fixed scale or the fit box, never both: the worker re-normalizes these.
+        ...(scaling.kind === 'fixed' ? { viewportScale: scaling.viewportScale } : scaling.box),
+        pageBox: normalizedProps.pageBox,
+        clip: normalizedProps.clip,
+        background: normalizedProps.background,
+        annotations: { mode: normalizedProps.annotationMode, formValues: normalizedProps.formValues },
+        optionalContent: normalizedProps.optionalContent,
+        renderIntent: normalizedProps.renderIntent,
+        disableFontFace: normalizedProps.disableFontFace,
+        useSystemFonts: normalizedProps.useSystemFonts,
+        enableXfa: normalizedProps.enableXfa,
+        pdfFilePassword: normalizedProps.pdfFilePassword,
+        verbosityLevel: normalizedProps.verbosityLevel,
+        outputFormat: normalizedProps.outputFormat,
+        jpegQuality: normalizedProps.jpegQuality,
+        webpQuality: normalizedProps.webpQuality,
+        colorMode: normalizedProps.colorMode,
+        // Only sent for bilevel output, the one mode the worker's normalization accepts them with.
+        ...(normalizedProps.colorMode === 'bilevel' && {
+            bilevelThreshold: normalizedProps.bilevelThreshold,
+            dither: normalizedProps.dither,
+        }),
+        pngCompression: normalizedProps.pngCompression,
+        pngMetadata: normalizedProps.pngMetadata,
+        returnRawPixels: normalizedProps.returnRawPixels,
+        sourceName: conversion.sourceName,
+    };
+    const onPageRendered = async (index: number, page: WorkerRenderedPage): Promise<void> => {
+        if (page.pixels !== undefined) {
+            const pixels: RawPixelsPngPageOutput = {
+                kind: 'pixels',
+                pageNumber: page.pageNumber,
+                name: page.name,
+                bitDepth: page.bitDepth,
+                colorType: page.colorType,
+                pixels: page.pixels.data,
+                stride: page.pixels.stride,
+                content: undefined,
+                path: '',
+                width: page.width,
+                height: page.height,
+                rotation: page.rotation,
+                viewportScale: page.viewportScale,
+                renderedRect: page.renderedRect,
             };
-            await renderPagesInWorkerPool(
-                workerPdfBytes,
-                documentOptions,
-                shouldMaterializeContent(pageMode),
-                tasks,
-                normalizedProps.concurrencyLimit,
-                async (index, page) => {
-                    const rendered: InMemoryPngPageOutput = {
-                        kind: 'content',
-                        pageNumber: page.pageNumber,
-                        name: page.name,
-                        content: page.content,
-                        path: '',
-                        width: page.width,
-                        height: page.height,
-                        rotation: page.rotation,
-                    };
-                    workerResults[index] = await finalizePageOutput(rendered, pageMode);
-                },
-            );
+            await onPage(index, pixels);
+            return;
+        }
+        const rendered: InMemoryPngPageOutput = {
+            kind: 'content',
+            pageNumber: page.pageNumber,
+            name: page.name,
+            format: page.format,
+            bitDepth: page.bitDepth,
+            colorType: page.colorType,
+            content: page.content,
+            path: '',
+            width: page.width,
+            height: page.height,
+            rotation: page.rotation,
+            viewportScale: page.viewportScale,
+            renderedRect: page.renderedRect,
+        };
+        await onPage(index, await finalizePageOutput(rendered, pageMode, onPageStage));
+    };
+    const control = { onError, signal: normalizedProps.signal, onPageStage };
+    const materializeContent = shouldMaterializeContent(pageMode);
+    if (normalizedProps.renderPool !== undefined) {
+        await normalizedProps.renderPool.renderDocument(
+            workerPdfBytes,
+            documentOptions,
+            materializeContent,
+            tasks,
+            normalizedProps.concurrencyLimit,
+            onPageRendered,
+            control,
+        );
+        return;
+    }
+    await renderPagesInWorkerPool(
+        workerPdfBytes,
+        documentOptions,
+        materializeContent,
+        tasks,
+        normalizedProps.concurrencyLimit,
+        onPageRendered,
+        control,
+    );
+}
+
+/**
+ * Sequential mode also runs through the sliding window, with a fixed window of
+ * SEQUENTIAL_PIPELINE_WINDOW (3): the PNG encodes (libuv threadpool) and disk writes of finished
+ * pages overlap the next page's render on the JS thread. Result order and rendered pixels are
+ * identical to a strict one-at-a-time loop; side effects (disk writes) may complete out of page
+ * order, and up to three canvases are alive at a time.
+ */
+function slidingWindowSize(normalizedProps: NormalizedPdfToPngOptions): number {
+    return normalizedProps.processPagesInParallel === true ? normalizedProps.concurrencyLimit : SEQUENTIAL_PIPELINE_WINDOW;
+}
+
+/**
+ * Internal conversion entry point that bypasses the public-API normalization step.
+ *
+ * Callers — currently the public `pdfToPng()` wrapper and the CLI — are responsible for
+ * producing a fully-validated `NormalizedPdfToPngOptions` (via `normalizePdfToPngOptions`)
+ * before invoking this function. The single-normalize contract is what makes
+ * `NormalizedPdfToPngOptions` the sole validation boundary of the library.
+ *
+ * This module is NOT re-exported from `src/index.ts`; it is an internal seam. `pdfToPngBatch`
+ * passes `batch` for each of its documents.
+ */
+export async function pdfToPngCore(
+    pdfFile: PdfFileInput,
+    normalizedProps: NormalizedPdfToPngOptions,
+    batch?: BatchDocumentContext,
+): Promise<PngPageOutput[]> {
+    const conversion = await prepareConversion(pdfFile, normalizedProps, batch);
+    const { pdfDocument, pageNumbers, names, pageMode, renderOptions, workerPdfBytes } = conversion;
+
+    try {
+        if (workerPdfBytes !== undefined && pageMode.kind !== 'metadata') {
+            const workerResults = new Array<PngPageOutput>(pageNumbers.length);
+            await renderConversionInWorkerPool(conversion, workerPdfBytes, pageMode, normalizedProps, (index, page) => {
+                workerResults[index] = page;
+            });
             return workerResults;
         }
 
-        const processPage = async (pageNumber: number, index: number): Promise<PngPageOutput> =>
-            await processAndSavePage(pdfDocument, resolvedNames[index], pageNumber, pageViewportScale, pageMode);
+        const processPage = async (pageNumber: number, index: number): Promise<PngPageOutput> => {
+            const process = (): Promise<PngPageOutput> =>
+                processAndSavePage(pdfDocument, names[index], pageNumber, renderOptions, pageMode);
+            return await (batch?.pageGate === undefined ? process() : batch.pageGate.run(process));
+        };
 
-        // Sequential mode also runs through the sliding window, with a fixed window of
-        // SEQUENTIAL_PIPELINE_WINDOW (3): the PNG encodes (libuv threadpool) and disk writes of
-        // finished pages overlap the next page's render on the JS thread. Result order and
-        // rendered pixels are identical to a strict one-at-a-time loop; side effects (disk
-        // writes) may complete out of page order, and up to three canvases are alive at a time.
-        const windowSize = normalizedProps.processPagesInParallel === true ? normalizedProps.concurrencyLimit : SEQUENTIAL_PIPELINE_WINDOW;
         // Returned directly (not spread into push(...)) — spreading a huge result array into one
         // call exceeds V8's argument-count cap and crashes on very large page counts.
-        return await processPagesWithSlidingWindow(validPagesToProcess, windowSize, processPage);
+        return await processWithSlidingWindow(pageNumbers, slidingWindowSize(normalizedProps), processPage, normalizedProps.signal);
+    } finally {
+        await pdfDocument.loadingTask.destroy();
+    }
+}
+
+/**
+ * Streaming twin of {@link pdfToPngCore}: yields each page in page order as soon as it and every
+ * page before it have finished, instead of resolving one array at the end.
+ *
+ * Pages are produced by the same scheduler as the collecting path (the sliding window, or the
+ * worker pool in worker mode) through an {@link OrderedPageBuffer} sized to that scheduler's
+ * window, so production runs at most one window ahead of the consumer and a slow consumer
+ * never accumulates more than a window of finished pages. Errors surface at the position of
+ * the failing page, after every earlier page has been yielded; the error thrown is the one the
+ * collecting path would throw. Aborting `signal` stops the iteration at the next page with the
+ * same `AbortError` the collecting path rejects with. When the consumer stops early (`break`, `return`, or a throw in
+ * the loop body), no further pages are dispatched, in-flight pages settle, and the pdf.js
+ * document and any worker pool are torn down before the consumer's loop exits.
+ */
+export async function* pdfToPngCoreIterator(
+    pdfFile: PdfFileInput,
+    normalizedProps: NormalizedPdfToPngOptions,
+): AsyncGenerator<PngPageOutput, void, undefined> {
+    const conversion = await prepareConversion(pdfFile, normalizedProps);
+    const { pdfDocument, pageNumbers, names, pageMode, renderOptions, workerPdfBytes } = conversion;
+    const useWorkerPool = workerPdfBytes !== undefined && pageMode.kind !== 'metadata';
+    const buffer = new OrderedPageBuffer<PngPageOutput>(
+        useWorkerPool ? normalizedProps.concurrencyLimit : slidingWindowSize(normalizedProps),
+    );
+
+    let production: Promise<unknown>;
+    if (workerPdfBytes !== undefined && pageMode.kind !== 'metadata') {
+        // Back-pressure sits in the per-page output callback: a worker that finishes a page too
+        // far ahead of the consumer waits there, and the pool gives it no new page meanwhile.
+        production = renderConversionInWorkerPool(
+            conversion,
+            workerPdfBytes,
+            pageMode,
+            normalizedProps,
+            async (index, page) => {
+                await buffer.reserve(index);
+                buffer.deliver(index, page);
+            },
+            () => buffer.halt(),
+        );
+    } else {
+        // Back-pressure sits before the render, so a page too far ahead of the consumer does not
+        // even allocate its canvas until the consumer catches up.
+        production = processWithSlidingWindow(
+            pageNumbers,
+            slidingWindowSize(normalizedProps),
+            async (pageNumber, index) => {
+                await buffer.reserve(index);
+                try {
+                    buffer.deliver(index, await processAndSavePage(pdfDocument, names[index], pageNumber, renderOptions, pageMode));
+                } catch (error: unknown) {
+                    buffer.halt();
+                    throw error;
+                }
+            },
+            normalizedProps.signal,
+        );
+    }
+    production = production.then(
+        () => buffer.settle('done'),
+        (error: unknown) => buffer.settle({ error }),
+    );
+
+    try {
+        for (let index = 0; index < pageNumbers.length; index += 1) {
+            // Pages finished before an abort are not handed out after it.
+            throwIfAborted(normalizedProps.signal);
+            yield await buffer.take();
+        }
     } finally {
+        buffer.cancel();
+        await production;
         await pdfDocument.loadingTask.destroy();
     }
 }
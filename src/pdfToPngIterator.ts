@@ -0,0 +1,25 @@
+import type { PdfFileInput, PdfToPngOptions, PngPageOutput } from './interfaces/index.js';
+import { normalizePdfToPngOptions } from './normalizePdfToPngOptions.js';
+import { pdfToPngCoreIterator } from './pdfToPngCore.js';
+
+/**
+ * Convert PDF pages to PNG buffers and/or files, yielding each page as it finishes.
+ *
+ * Streaming counterpart of `pdfToPng`: accepts the same input and options and produces the same
+ * `PngPageOutput` objects, always in page order, but hands each one over as soon as it (and every
+ * page before it) is done instead of resolving one array at the end. Production runs at most one
+ * window (`concurrencyLimit` in parallel and worker-thread modes, three pages otherwise) ahead of
+ * the consumer, so memory stays bounded however many pages the document has.
+ *
+ * Options are validated when this function is called, so invalid options throw synchronously;
+ * the document is loaded when iteration starts. Breaking out of the loop early stops dispatching
+ * new pages and destroys the pdf.js document and any worker pool before the loop exits.
+ *
+ * @param pdfFile - PDF file path (string), `ArrayBufferLike`, `Uint8Array`, a stream of its bytes, or a `URL` to read or download.
+ * @param props - Optional caller-facing options; see {@link PdfToPngOptions}.
+ * @returns An async iterable of one `PngPageOutput` per processed page, in page order.
+ * @since 4.3.0
+ */
+export function pdfToPngIterator(pdfFile: PdfFileInput, props?: PdfToPngOptions): AsyncIterable<PngPageOutput> {
+    return pdfToPngCoreIterator(pdfFile, normalizePdfToPngOptions(props));
+}
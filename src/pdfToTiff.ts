@@ -0,0 +1,106 @@
+import { promises as fsPromises } from 'node:fs';
+import type { FileHandle } from 'node:fs/promises';
+import { parse } from 'node:path';
+import { PDF_TO_PNG_OPTIONS_DEFAULTS } from './const.js';
+import type { PdfFileInput, PdfToTiffOptions, PdfToTiffOutput, TiffPageOutput } from './interfaces/index.js';
+import type { NormalizedPdfToTiffOptions } from './normalizePdfToPngOptions.js';
+import { normalizePdfToTiffOptions } from './normalizePdfToPngOptions.js';
+import { createOutputFile, prepareOutputFolder, resolveOutputFolder } from './outputWriter.js';
+import { pdfFilePath } from './pdfInput.js';
+import { pdfToPngCoreIterator } from './pdfToPngCore.js';
+import { compressTiffStrip, encodeTiffDirectory, TIFF_HEADER } from './tiffEncoder.js';
+
+/** TIFF offsets are 32-bit, which caps the file at 4 GiB. */
+const MAX_TIFF_BYTES = 0xffff_ffff;
+
+/**
+ * Convert PDF pages into one multi-page TIFF file.
+ *
+ * Pages are rendered as by `pdfToPngIterator` — by the same sliding window, worker threads or
+ * render pool — and appended to the file in page order as they arrive, so at most one window of
+ * rendered pages is held in memory whatever the length of the document. Each page is one image
+ * of the file, compressed with `tiffCompression`, with its resolution recorded from the render
+ * scale.
+ *
+ * The file is created exclusively (`'wx'`) when the first page is ready. If the conversion fails
+ * or is aborted after that, the partial file is removed before the returned promise rejects.
+ *
+ * @param pdfFile - PDF file path (string), `ArrayBufferLike`, `Uint8Array`, a stream of its bytes, or a `URL` to read or download.
+ * @param props - Where to write the file and how to render its pages; see {@link PdfToTiffOptions}.
+ * @returns The written file and its pages, in order.
+ * @since 4.3.0
+ */
+export async function pdfToTiff(pdfFile: PdfFileInput, props: PdfToTiffOptions): Promise<PdfToTiffOutput> {
+    return pdfToTiffCore(pdfFile, normalizePdfToTiffOptions(props));
+}
+
+/**
+ * `pdfToTiff` on already-normalized options; the CLI calls it directly, as it calls
+ * `pdfToPngCore`.
+ */
+export async function pdfToTiffCore(pdfFile: PdfFileInput, normalizedProps: NormalizedPdfToTiffOptions): Promise<PdfToTiffOutput> {
+    const { pageOptions, compression } = normalizedProps;
+    // Resolved against the CWD at conversion start, as pdfToPng resolves its outputFolder.
+    const resolvedOutputFolder = resolveOutputFolder(normalizedProps.outputFolder);
+    const inputPath = pdfFilePath(pdfFile);
+    const fileName =
+        normalizedProps.outputFileName ??
+        `${inputPath === undefined ? PDF_TO_PNG_OPTIONS_DEFAULTS.outputFileMask : parse(inputPath).name}.tiff`;
+
+    const pages: TiffPageOutput[] = [];
+    let file: { path: string; handle: FileHandle } | undefined;
+    try {
+        let offset = TIFF_HEADER.length;
+        let previousPointer: number | undefined;
+        for await (const page of pdfToPngCoreIterator(pdfFile, pageOptions)) {
+            // pageOptions has returnRawPixels set, so no other output kind arrives.
+            if (page.kind !== 'pixels') {
+                throw new Error(`Expected the raw pixels of page ${page.pageNumber}, received a ${page.kind} output`);
+            }
+            if (file === undefined) {
+                file = await createOutputFile(fileName, await prepareOutputFolder(resolvedOutputFolder));
+                await file.handle.write(TIFF_HEADER, 0, TIFF_HEADER.length, 0);
+            }
+
+            const strip = await compressTiffStrip(page, compression);
+            const directory = encodeTiffDirectory(page, compression, strip.length, offset);
+            const end = offset + directory.bytes.length + strip.length;
+            if (end > MAX_TIFF_BYTES) {
+                throw new Error(`The TIFF file would exceed 4 GiB at page ${page.pageNumber}`);
+            }
+            await file.handle.write(directory.bytes, 0, directory.bytes.length, offset);
+            await file.handle.write(strip, 0, strip.length, offset + directory.bytes.length);
+            // Link the page in only once it is written. The header already points at the first one.
+            if (previousPointer !== undefined) {
+                const pointer = Buffer.alloc(4);
+                pointer.writeUInt32LE(offset);
+                await file.handle.write(pointer, 0, 4, previousPointer);
+            }
+            previousPointer = directory.nextDirectoryPointer;
+            // Directories start on a word boundary; the skipped byte reads as zero.
+            offset = end + (end % 2);
+
+            pages.push({
+                pageNumber: page.pageNumber,
+                width: page.width,
+                height: page.height,
+                rotation: page.rotation,
+                viewportScale: page.viewportScale,
+                renderedRect: page.renderedRect,
+                bitDepth: page.bitDepth,
+                colorType: page.colorType,
+            });
+        }
+        if (file === undefined) {
+            throw new Error('No pages to write: pagesToProcess selects none of the pages of the document');
+        }
+        await file.handle.close();
+        return { path: file.path, compression, pages };
+    } catch (error: unknown) {
+        if (file !== undefined) {
+            await file.handle.close().catch(() => undefined);
+            await fsPromises.rm(file.path, { force: true });
+        }
+        throw error;
+    }
+}
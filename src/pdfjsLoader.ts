@@ -1,23 +1,102 @@
 import type { PDFDocumentLoadingTask, PDFDocumentProxy } from 'pdfjs-dist';
 import type * as PdfjsModule from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type * as pdfApiTypes from 'pdfjs-dist/types/src/display/api';
+import { throwIfAborted } from './abortSignal.js';
+import { fillFormFields } from './formFieldValues.js';
 import type { NormalizedPdfToPngOptions } from './normalizePdfToPngOptions.js';
+import { PdfRangeReader } from './pdfRangeReader.js';
 import { propsToPdfDocInitParams } from './propsToPdfDocInitParams.js';
 
 let pdfjsLib: typeof PdfjsModule | undefined;
 
-export async function getPdfDocument(pdfFileBuffer: Uint8Array, opts: NormalizedPdfToPngOptions): Promise<PDFDocumentProxy> {
+/** The range reader of each document loaded with `rangeLoading`, for {@link throwIfRangeReadFailed}. */
+const rangeReaders = new WeakMap<PDFDocumentProxy, PdfRangeReader>();
+
+/** The password each document was opened with, for {@link getDocumentPassword}. */
+const documentPasswords = new WeakMap<PDFDocumentProxy, string>();
+
+/**
+ * Throws the error of a failed range read of `pdf`'s file, if there was one. pdf.js parses the
+ * zeros such a read is answered with (see `PdfRangeReader`), so whatever it returned or threw since
+ * is not to be trusted; callers check after each pdf.js call that may have read.
+ */
+export function throwIfRangeReadFailed(pdf: PDFDocumentProxy): void {
+    const failure = rangeReaders.get(pdf)?.failure;
+    if (failure !== undefined) {
+        throw failure;
+    }
+}
+
+/** The password `pdf` was opened with, empty for none — for the readers of what pdf.js does not expose (`src/pdfPageBoxes.ts`). */
+export function getDocumentPassword(pdf: PDFDocumentProxy): string {
+    return documentPasswords.get(pdf) ?? '';
+}
+
+/**
+ * A pdf.js range transport serving `reader`'s file. pdf.js asks for whole chunks; the stream-only
+ * alternatives are turned off so that nothing but the requested ranges is read.
+ */
+function rangeDocumentSource(lib: typeof PdfjsModule, reader: PdfRangeReader): pdfApiTypes.DocumentInitParameters {
+    const transport = new lib.PDFDataRangeTransport(reader.length, null);
+    transport.requestDataRange = (begin: number, end: number): void => {
+        void reader.read(begin, end).then((chunk) => {
+            // Once the document is destroyed, pdf.js no longer knows the request.
+            if (!reader.isClosed) {
+                transport.onDataRange(begin, chunk);
+            }
+        });
+    };
+    // Called when the document is destroyed.
+    transport.abort = (): void => void reader.close();
+    return { range: transport, disableAutoFetch: true, disableStream: true };
+}
+
+/**
+ * Loads a document from its bytes, or with `rangeLoading` from a {@link PdfRangeReader}, which the
+ * document then owns: it is closed when the document is destroyed, or here if loading fails.
+ */
+export async function getPdfDocument(pdfSource: Uint8Array | PdfRangeReader, opts: NormalizedPdfToPngOptions): Promise<PDFDocumentProxy> {
     pdfjsLib ??= await import('pdfjs-dist/legacy/build/pdf.mjs');
     const { getDocument } = pdfjsLib;
     const documentInitParameters = propsToPdfDocInitParams(opts);
     const task: PDFDocumentLoadingTask = getDocument({
         ...documentInitParameters,
-        data: pdfFileBuffer,
+        ...(pdfSource instanceof PdfRangeReader ? rangeDocumentSource(pdfjsLib, pdfSource) : { data: pdfSource }),
     });
 
+    // Aborting mid-load destroys the task, which rejects task.promise; the rejection is then
+    // reported as the AbortError rather than pdf.js's own "Loading aborted" error.
+    const abortLoad = (): void => void task.destroy();
+    opts.signal?.addEventListener('abort', abortLoad, { once: true });
     try {
-        return await task.promise;
+        const pdfDocument = await task.promise;
+        if (opts.pdfFilePassword !== undefined) {
+            documentPasswords.set(pdfDocument, opts.pdfFilePassword);
+        }
+        if (pdfSource instanceof PdfRangeReader) {
+            rangeReaders.set(pdfDocument, pdfSource);
+            throwIfRangeReadFailed(pdfDocument);
+        }
+        if (opts.formValues !== undefined) {
+            await fillFormFields(pdfDocument, opts.formValues);
+            throwIfRangeReadFailed(pdfDocument);
+        }
+        return pdfDocument;
     } catch (error) {
         await task.destroy();
+        await closeRangeReader(pdfSource);
+        throwIfAborted(opts.signal);
+        if (pdfSource instanceof PdfRangeReader && pdfSource.failure !== undefined) {
+            throw pdfSource.failure;
+        }
         throw error;
+    } finally {
+        opts.signal?.removeEventListener('abort', abortLoad);
+    }
+}
+
+async function closeRangeReader(pdfSource: Uint8Array | PdfRangeReader): Promise<void> {
+    if (pdfSource instanceof PdfRangeReader) {
+        await pdfSource.close();
     }
 }
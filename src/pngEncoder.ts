@@ -0,0 +1,276 @@
+import { isMainThread } from 'node:worker_threads';
+import { crc32, deflateSync } from 'node:zlib';
+import { encodeOnWorkerThread } from './encodeThread.js';
+import type { ColorMode, PngCompressionOptions, PngFilter } from './interfaces/index.js';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** PNG colour type codes (ISO/IEC 15948 §11.2.2). */
+const PNG_COLOR_TYPE = { gray: 0, rgb: 2, rgba: 6 } as const;
+
+/** Bytes per complete pixel of each colour mode, rounded up to one for 1-bit pixels, as filters count them. */
+const BYTES_PER_PIXEL: Readonly<Record<ColorMode, number>> = { rgba: 4, rgb: 3, gray: 1, bilevel: 1 };
+
+/** Unpremultiplied RGBA pixels, four bytes per pixel in row-major order (a canvas `ImageData`). */
+export interface RgbaImage {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+/** How `'bilevel'` output picks black or white for each pixel. */
+export interface BilevelOptions {
+    /** Pixels whose luma is at least this (`0..255`) become white; the rest black. */
+    threshold: number;
+    /** Diffuse each pixel's rounding error to its neighbours (Floyd–Steinberg) instead of cutting hard at `threshold`. */
+    dither: boolean;
+}
+
+/** Everything `encodePng` needs besides the pixels. */
+export interface PngEncodeOptions {
+    /** Only consulted for `'bilevel'`. */
+    bilevel: BilevelOptions;
+    compression: Required<PngCompressionOptions>;
+}
+
+/** Builds a PNG chunk: the data's length, the chunk type, the data and the CRC of type and data. */
+export function createChunk(type: string, data: Buffer): Buffer {
+    const chunk = Buffer.alloc(data.length + 12);
+    chunk.writeUInt32BE(data.length, 0);
+    chunk.write(type, 4, 'latin1');
+    data.copy(chunk, 8);
+    chunk.writeUInt32BE(crc32(chunk.subarray(4, data.length + 8)), data.length + 8);
+    return chunk;
+}
+
+/** Rec. 601 luma, the weighting fax and OCR pipelines expect, rounded to an integer `0..255`. */
+function luma(data: Uint8ClampedArray, offset: number): number {
+    return Math.round(0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2]);
+}
+
+/** The colour modes with whole bytes per pixel: every mode but `'bilevel'`. */
+type ByteColorMode = Exclude<ColorMode, 'bilevel'>;
+
+/**
+ * Packs the image's pixels in `colorMode` row after row, with `rowPrefix` zero bytes in front of
+ * each row: one for PNG scanlines (filter type 0, None), none for raw pixels.
+ */
+function packRows(image: RgbaImage, colorMode: ByteColorMode, rowPrefix: number): Buffer {
+    const { data, width, height } = image;
+    const bytesPerPixel = BYTES_PER_PIXEL[colorMode];
+    const stride = width * bytesPerPixel + rowPrefix;
+    const rows = Buffer.alloc(stride * height);
+    if (colorMode === 'rgba') {
+        for (let y = 0; y < height; y += 1) {
+            rows.set(data.subarray(y * width * 4, (y + 1) * width * 4), y * stride + rowPrefix);
+        }
+        return rows;
+    }
+    let write: (target: number, source: number) => void;
+    switch (colorMode) {
+        case 'rgb':
+            write = (target, source) => {
+                rows[target] = data[source];
+                rows[target + 1] = data[source + 1];
+                rows[target + 2] = data[source + 2];
+            };
+            break;
+        case 'gray':
+            write = (target, source) => {
+                rows[target] = luma(data, source);
+            };
+            break;
+    }
+    for (let y = 0; y < height; y += 1) {
+        for (let x = 0; x < width; x += 1) {
+            write(y * stride + rowPrefix + x * bytesPerPixel, (y * width + x) * 4);
+        }
+    }
+    return rows;
+}
+
+/**
+ * The image's pixels in `colorMode`, rows packed back to back, for `returnRawPixels`: whole bytes
+ * per pixel, or for `'bilevel'` eight pixels per byte with each row starting on a byte boundary.
+ * The buffer is allocated afresh (never from Node's pool), so it spans its whole `ArrayBuffer` and
+ * can be transferred to another thread.
+ */
+export function packPixels(image: RgbaImage, colorMode: ColorMode, bilevel: BilevelOptions): Buffer {
+    return colorMode === 'bilevel' ? packBilevelRows(image, bilevel, 0) : packRows(image, colorMode, 0);
+}
+
+/**
+ * Packs the image into 1-bit rows, most significant bit first, `1` being white, with `rowPrefix`
+ * zero bytes in front of each row as {@link packRows} does.
+ */
+function packBilevelRows(image: RgbaImage, { threshold, dither }: BilevelOptions, rowPrefix: number): Buffer {
+    const { data, width, height } = image;
+    const stride = Math.ceil(width / 8) + rowPrefix;
+    const rows = Buffer.alloc(stride * height);
+    // The error carried into this row and the next, padded by one pixel each side.
+    let errors = new Float32Array(width + 2);
+    let nextErrors = new Float32Array(width + 2);
+    for (let y = 0; y < height; y += 1) {
+        for (let x = 0; x < width; x += 1) {
+            const value = luma(data, (y * width + x) * 4) + errors[x + 1];
+            const white = value >= threshold;
+            if (white) {
+                rows[y * stride + rowPrefix + (x >> 3)] |= 0x80 >> (x & 7);
+            }
+            if (dither) {
+                const error = value - (white ? 255 : 0);
+                errors[x + 2] += (error * 7) / 16;
+                nextErrors[x] += (error * 3) / 16;
+                nextErrors[x + 1] += (error * 5) / 16;
+                nextErrors[x + 2] += error / 16;
+            }
+        }
+        [errors, nextErrors] = [nextErrors, errors];
+        nextErrors.fill(0);
+    }
+    return rows;
+}
+
+/** PNG filter type codes (ISO/IEC 15948 §9.2). */
+const PNG_FILTER_TYPE = { none: 0, sub: 1, up: 2, average: 3, paeth: 4 } as const;
+const PNG_FILTER_TYPES = Object.values(PNG_FILTER_TYPE);
+
+/**
+ * Writes `row` filtered with `type` into `target`; `previous` is the unfiltered row above (zeros
+ * for the first). One loop per filter type, bytes without a left neighbour peeled off the front,
+ * keeps the per-byte work to the prediction itself.
+ */
+function filterRow(type: number, row: Buffer, previous: Buffer, bytesPerPixel: number, target: Buffer): void {
+    const length = row.length;
+    const leading = Math.min(bytesPerPixel, length);
+    switch (type) {
+        case PNG_FILTER_TYPE.sub:
+            target.set(row.subarray(0, leading));
+            for (let index = leading; index < length; index += 1) {
+                target[index] = row[index] - row[index - bytesPerPixel];
+            }
+            return;
+        case PNG_FILTER_TYPE.up:
+            for (let index = 0; index < length; index += 1) {
+                target[index] = row[index] - previous[index];
+            }
+            return;
+        case PNG_FILTER_TYPE.average:
+            for (let index = 0; index < leading; index += 1) {
+                target[index] = row[index] - (previous[index] >> 1);
+            }
+            for (let index = leading; index < length; index += 1) {
+                target[index] = row[index] - ((row[index - bytesPerPixel] + previous[index]) >> 1);
+            }
+            return;
+        case PNG_FILTER_TYPE.paeth:
+            // With no left neighbour, Paeth predicts the byte above.
+            for (let index = 0; index < leading; index += 1) {
+                target[index] = row[index] - previous[index];
+            }
+            for (let index = leading; index < length; index += 1) {
+                const left = row[index - bytesPerPixel];
+                const up = previous[index];
+                const upLeft = previous[index - bytesPerPixel];
+                const toLeft = Math.abs(up - upLeft);
+                const toUp = Math.abs(left - upLeft);
+                const toUpLeft = Math.abs(left + up - 2 * upLeft);
+                const prediction = toLeft <= toUp && toLeft <= toUpLeft ? left : toUp <= toUpLeft ? up : upLeft;
+                target[index] = row[index] - prediction;
+            }
+            return;
+        default:
+            target.set(row);
+    }
+}
+
+/** libpng's heuristic for `'adaptive'`: the sum of the filtered bytes read as signed values. */
+function filterCost(filtered: Buffer): number {
+    let cost = 0;
+    for (let index = 0; index < filtered.length; index += 1) {
+        const value = filtered[index];
+        cost += value < 128 ? value : 256 - value;
+    }
+    return cost;
+}
+
+/** Applies `filter` to scanlines packed with a zero filter-type byte in front of each row. */
+function filterScanlines(scanlines: Buffer, height: number, bytesPerPixel: number, filter: PngFilter): Buffer {
+    if (filter === 'none') {
+        return scanlines;
+    }
+    const stride = scanlines.length / height;
+    const filtered = Buffer.alloc(scanlines.length);
+    const candidates = PNG_FILTER_TYPES.map(() => Buffer.alloc(stride - 1));
+    let previous: Buffer = Buffer.alloc(stride - 1);
+    for (let y = 0; y < height; y += 1) {
+        const row = scanlines.subarray(y * stride + 1, (y + 1) * stride);
+        const target = filtered.subarray(y * stride + 1, (y + 1) * stride);
+        let type: number = PNG_FILTER_TYPE[filter as Exclude<PngFilter, 'adaptive'>];
+        if (filter === 'adaptive') {
+            let lowestCost = Infinity;
+            for (const candidate of PNG_FILTER_TYPES) {
+                filterRow(candidate, row, previous, bytesPerPixel, candidates[candidate]);
+                const cost = filterCost(candidates[candidate]);
+                if (cost < lowestCost) {
+                    [type, lowestCost] = [candidate, cost];
+                }
+            }
+            candidates[type].copy(target);
+        } else {
+            filterRow(type, row, previous, bytesPerPixel, target);
+        }
+        filtered[y * stride] = type;
+        previous = row;
+    }
+    return filtered;
+}
+
+/**
+ * Encodes an RGBA image as a PNG in `colorMode`: RGBA as is, or RGB, 8-bit grayscale or 1-bit
+ * black and white with the alpha channel dropped (callers guarantee an opaque image). Packing,
+ * filtering and deflate all run on the calling thread; see {@link encodePng}.
+ */
+export function encodePngSync(image: RgbaImage, colorMode: ColorMode, options: PngEncodeOptions): Buffer {
+    const scanlines = colorMode === 'bilevel' ? packBilevelRows(image, options.bilevel, 1) : packRows(image, colorMode, 1);
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(image.width, 0);
+    header.writeUInt32BE(image.height, 4);
+    header[8] = colorMode === 'bilevel' ? 1 : 8;
+    header[9] = PNG_COLOR_TYPE[colorMode === 'bilevel' ? 'gray' : colorMode];
+    // Bytes 10..12: deflate compression, adaptive filtering, no interlace — the only values PNG defines.
+    const { level, filter } = options.compression;
+    const filtered = filterScanlines(scanlines, image.height, BYTES_PER_PIXEL[colorMode], filter);
+    return Buffer.concat([
+        PNG_SIGNATURE,
+        createChunk('IHDR', header),
+        createChunk('IDAT', deflateSync(filtered, { level })),
+        createChunk('IEND', Buffer.alloc(0)),
+    ]);
+}
+
+/**
+ * {@link encodePngSync}, kept off the main thread: packing and filtering touch every byte of the
+ * page, so on the main thread the encode runs on the shared encode worker (`src/encodeThread.ts`).
+ * A render worker is already off the main thread and encodes in place.
+ */
+export async function encodePng(image: RgbaImage, colorMode: ColorMode, options: PngEncodeOptions): Promise<Buffer> {
+    if (!isMainThread) {
+        return encodePngSync(image, colorMode, options);
+    }
+    const { data, width, height } = image;
+    return encodeOnWorkerThread({ kind: 'png', image: { data, width, height }, colorMode, options });
+}
+
+/**
+ * Inserts `chunks` into an encoded PNG right after its IHDR chunk, the place for chunks that must
+ * precede the image data (such as `pHYs`). Every PNG encoder writes IHDR first, at a fixed size.
+ */
+export function insertPngChunks(png: Buffer, chunks: Buffer[]): Buffer {
+    if (chunks.length === 0) {
+        return png;
+    }
+    const headerEnd = PNG_SIGNATURE.length + 12 + 13;
+    return Buffer.concat([png.subarray(0, headerEnd), ...chunks, png.subarray(headerEnd)]);
+}
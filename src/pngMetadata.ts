@@ -0,0 +1,86 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { PDF_POINTS_PER_INCH } from './const.js';
+import type { PngMetadataOptions } from './interfaces/index.js';
+import { createChunk } from './pngEncoder.js';
+
+/** `pHYs` measures resolution in pixels per metre. */
+const METRES_PER_INCH = 0.0254;
+
+/** A PNG text chunk's keyword and value. */
+type PngTextEntry = [keyword: string, value: string];
+
+/** The metadata chunks of a document's pages, resolved once when the document is loaded. */
+export interface PngMetadata {
+    /** Whether each PNG gets a `pHYs` chunk with the DPI it was rendered at. */
+    resolution: boolean;
+    /**
+     * The document's provenance entries (`Source`, `Title`, `Producer`), followed on each page by
+     * its `Page` entry; `undefined` when provenance is off.
+     */
+    provenance: PngTextEntry[] | undefined;
+    /** The caller's own entries, written after the provenance. */
+    text: PngTextEntry[];
+}
+
+/** The document information entries provenance reads; pdf.js types `info` as `Object`. */
+interface DocumentInfo {
+    Title?: unknown;
+    Producer?: unknown;
+}
+
+/**
+ * Resolves `pngMetadata` against a loaded document: reads its title and producer when provenance
+ * is on. `sourceName` is the input's file name, `undefined` for buffer inputs.
+ */
+export async function resolvePngMetadata(
+    pdf: PDFDocumentProxy,
+    options: Required<PngMetadataOptions>,
+    sourceName: string | undefined,
+): Promise<PngMetadata> {
+    let provenance: PngTextEntry[] | undefined;
+    if (options.provenance) {
+        const info = (await pdf.getMetadata()).info as DocumentInfo;
+        provenance = [];
+        for (const [keyword, value] of [
+            ['Source', sourceName],
+            ['Title', info.Title],
+            ['Producer', info.Producer],
+        ] as const) {
+            if (typeof value === 'string' && value !== '') {
+                provenance.push([keyword, value]);
+            }
+        }
+    }
+    return { resolution: options.resolution, provenance, text: Object.entries(options.text) };
+}
+
+/** A `tEXt` chunk for Latin-1 values, an uncompressed UTF-8 `iTXt` chunk (no language tag) for the rest. */
+function createTextChunk([keyword, value]: PngTextEntry): Buffer {
+    const latin1 = Buffer.from(value, 'latin1');
+    if (latin1.toString('latin1') === value && !latin1.includes(0)) {
+        return createChunk('tEXt', Buffer.concat([Buffer.from(keyword, 'latin1'), Buffer.from([0]), latin1]));
+    }
+    // Keyword, then the compression flag and method, and the empty language tag and translated keyword.
+    return createChunk('iTXt', Buffer.concat([Buffer.from(keyword, 'latin1'), Buffer.from([0, 0, 0, 0, 0]), Buffer.from(value, 'utf8')]));
+}
+
+/** The metadata chunks of one PNG: the page rendered at `viewportScale`, or one of its tiles. */
+export function pngMetadataChunks(metadata: PngMetadata | undefined, pageNumber: number, viewportScale: number): Buffer[] {
+    if (metadata === undefined) {
+        return [];
+    }
+    const chunks: Buffer[] = [];
+    if (metadata.resolution) {
+        const pixelsPerMetre = Math.round((viewportScale * PDF_POINTS_PER_INCH) / METRES_PER_INCH);
+        const data = Buffer.alloc(9);
+        data.writeUInt32BE(pixelsPerMetre, 0);
+        data.writeUInt32BE(pixelsPerMetre, 4);
+        data[8] = 1; // Unit: the metre.
+        chunks.push(createChunk('pHYs', data));
+    }
+    const provenance: PngTextEntry[] = metadata.provenance === undefined ? [] : [...metadata.provenance, ['Page', String(pageNumber)]];
+    for (const entry of [...provenance, ...metadata.text]) {
+        chunks.push(createTextChunk(entry));
+    }
+    return chunks;
+}
@@ -0,0 +1,39 @@
+import { performance } from 'node:perf_hooks';
+import type { PdfToPngProgress, PdfToPngProgressStage } from './interfaces/index.js';
+import type { RenderedPageMode } from './pageOrchestrator.js';
+
+/** Notified by the render path each time a page finishes a stage. */
+export type PageStageListener = (pageNumber: number, stage: PdfToPngProgressStage) => void;
+
+/** The stage after which a page has nothing left to do in the given mode. */
+export function finalProgressStage(mode: RenderedPageMode): PdfToPngProgressStage {
+    if (mode.kind === 'file') {
+        return 'written';
+    }
+    if (mode.kind === 'pixels') {
+        return 'rendered';
+    }
+    return mode.returnContent ? 'encoded' : 'rendered';
+}
+
+/**
+ * Turns the render path's bare stage notifications into the public `PdfToPngProgress` events.
+ * One reporter serves a whole conversion: it owns the `completed` counter, which advances when a
+ * page reaches `finalStage`, so the count is correct however pages interleave across the sliding
+ * window or the worker pool. Every caller runs on the main thread, so no synchronization is
+ * needed.
+ */
+export function createProgressReporter(
+    onProgress: (progress: PdfToPngProgress) => void,
+    total: number,
+    finalStage: PdfToPngProgressStage,
+    startedAt: number,
+): PageStageListener {
+    let completed = 0;
+    return (pageNumber: number, stage: PdfToPngProgressStage): void => {
+        if (stage === finalStage) {
+            completed += 1;
+        }
+        onProgress({ stage, pageNumber, completed, total, elapsedMs: performance.now() - startedAt });
+    };
+}
@@ -0,0 +1,344 @@
+import { promisify } from 'node:util';
+import { isMainThread } from 'node:worker_threads';
+import { deflate } from 'node:zlib';
+import { PDF_POINTS_PER_INCH } from './const.js';
+import { encodeOnWorkerThread } from './encodeThread.js';
+import type { RawPixelsPngPageOutput, TiffCompression } from './interfaces/index.js';
+
+const deflateAsync = promisify(deflate);
+
+/** A page as `pdfToTiff` receives it: the raw pixels of `returnRawPixels`. */
+export type TiffPageImage = Pick<
+    RawPixelsPngPageOutput,
+    'width' | 'height' | 'bitDepth' | 'colorType' | 'pixels' | 'stride' | 'viewportScale'
+>;
+
+/** The compressions coded here, pixel by pixel, and so run on the encode worker. */
+export type TiffWorkerCompression = Extract<TiffCompression, 'lzw' | 'g4'>;
+
+/** Little-endian byte order, the version number `42`, and the first directory right after this header. */
+export const TIFF_HEADER = Buffer.from([0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00]);
+
+/** `Compression` tag values (TIFF 6.0 §3, §9, §13; Deflate from TIFF Technical Note 2). */
+const TIFF_COMPRESSION_CODE: Readonly<Record<TiffCompression, number>> = { none: 1, g4: 4, lzw: 5, deflate: 8 };
+
+/** Samples per pixel of each colour type. */
+const SAMPLES_PER_PIXEL = { rgba: 4, rgb: 3, gray: 1 } as const;
+
+/** Collects codes of up to 16 bits, most significant bit first, into bytes. */
+class BitWriter {
+    private bytes = Buffer.alloc(65_536);
+    private length = 0;
+    private pending = 0;
+    private pendingBits = 0;
+
+    public write(code: number, bits: number): void {
+        this.pending = (this.pending << bits) | code;
+        this.pendingBits += bits;
+        while (this.pendingBits >= 8) {
+            this.pendingBits -= 8;
+            this.push((this.pending >>> this.pendingBits) & 0xff);
+        }
+        this.pending &= (1 << this.pendingBits) - 1;
+    }
+
+    /** Pads the last byte with zero bits and returns everything written. */
+    public finish(): Buffer {
+        if (this.pendingBits > 0) {
+            this.push((this.pending << (8 - this.pendingBits)) & 0xff);
+            this.pendingBits = 0;
+        }
+        return Buffer.from(this.bytes.subarray(0, this.length));
+    }
+
+    private push(byte: number): void {
+        if (this.length === this.bytes.length) {
+            const grown = Buffer.alloc(this.bytes.length * 2);
+            this.bytes.copy(grown);
+            this.bytes = grown;
+        }
+        this.bytes[this.length] = byte;
+        this.length += 1;
+    }
+}
+
+const LZW_CLEAR = 256;
+const LZW_END_OF_INFORMATION = 257;
+const LZW_FIRST_CODE = 258;
+/** The encoder clears the table before it reaches the last 12-bit code, as TIFF 6.0 §13 requires. */
+const LZW_TABLE_FULL = 4094;
+
+/**
+ * TIFF LZW (TIFF 6.0 §13), as libtiff writes it: a clear code first, codes from 9 to 12 bits that
+ * widen one code early, and the table cleared before it fills.
+ */
+function compressLzw(data: Uint8Array): Buffer {
+    const writer = new BitWriter();
+    // Strings are keyed by the code of their prefix and their last byte.
+    const table = new Map<number, number>();
+    let nextCode = LZW_FIRST_CODE;
+    let codeBits = 9;
+    const addedCode = (): void => {
+        nextCode += 1;
+        if (nextCode === LZW_TABLE_FULL) {
+            writer.write(LZW_CLEAR, codeBits);
+            table.clear();
+            nextCode = LZW_FIRST_CODE;
+            codeBits = 9;
+        } else if (nextCode > (1 << codeBits) - 1) {
+            codeBits += 1;
+        }
+    };
+
+    writer.write(LZW_CLEAR, codeBits);
+    let prefix = data[0];
+    for (let offset = 1; offset < data.length; offset += 1) {
+        const byte = data[offset];
+        const key = (prefix << 8) | byte;
+        const code = table.get(key);
+        if (code !== undefined) {
+            prefix = code;
+            continue;
+        }
+        writer.write(prefix, codeBits);
+        table.set(key, nextCode);
+        addedCode();
+        prefix = byte;
+    }
+    writer.write(prefix, codeBits);
+    // The decoder adds one more entry on reading the last code; the end code follows at its width.
+    addedCode();
+    writer.write(LZW_END_OF_INFORMATION, codeBits);
+    return writer.finish();
+}
+
+/** A fax code: its bits, right-aligned, and how many there are. */
+type FaxCode = readonly [code: number, bits: number];
+
+/** Fax codes from their bit strings, separated by spaces. */
+function runCodes(bitStrings: string): FaxCode[] {
+    return bitStrings.split(' ').map((bits) => [parseInt(bits, 2), bits.length]);
+}
+
+/** White run lengths `0..63`, then the make-up codes for `64..1728` and the extended ones shared with black runs. */
+const WHITE_RUN_CODES = runCodes(
+    '00110101 000111 0111 1000 1011 1100 1110 1111 10011 10100 00111 01000 001000 000011 110100 110101 101010 ' +
+        '101011 0100111 0001100 0001000 0010111 0000011 0000100 0101000 0101011 0010011 0100100 0011000 00000010 ' +
+        '00000011 00011010 00011011 00010010 00010011 00010100 00010101 00010110 00010111 00101000 00101001 00101010 ' +
+        '00101011 00101100 00101101 00000100 00000101 00001010 00001011 01010010 01010011 01010100 01010101 00100100 ' +
+        '00100101 01011000 01011001 01011010 01011011 01001010 01001011 00110010 00110011 00110100 11011 10010 010111 ' +
+        '0110111 00110110 00110111 01100100 01100101 01101000 01100111 011001100 011001101 011010010 011010011 ' +
+        '011010100 011010101 011010110 011010111 011011000 011011001 011011010 011011011 010011000 010011001 010011010 ' +
+        '011000 010011011 00000001000 00000001100 00000001101 000000010010 000000010011 000000010100 000000010101 ' +
+        '000000010110 000000010111 000000011100 000000011101 000000011110 000000011111',
+);
+
+/** Black run lengths `0..63`, then the make-up codes for `64..1728` and the extended ones shared with white runs. */
+const BLACK_RUN_CODES = runCodes(
+    '0000110111 010 11 10 011 0011 0010 00011 000101 000100 0000100 0000101 0000111 00000100 00000111 000011000 ' +
+        '0000010111 0000011000 0000001000 00001100111 00001101000 00001101100 00000110111 00000101000 00000010111 ' +
+        '00000011000 000011001010 000011001011 000011001100 000011001101 000001101000 000001101001 000001101010 ' +
+        '000001101011 000011010010 000011010011 000011010100 000011010101 000011010110 000011010111 000001101100 ' +
+        '000001101101 000011011010 000011011011 000001010100 000001010101 000001010110 000001010111 000001100100 ' +
+        '000001100101 000001010010 000001010011 000000100100 000000110111 000000111000 000000100111 000000101000 ' +
+        '000001011000 000001011001 000000101011 000000101100 000001011010 000001100110 000001100111 0000001111 ' +
+        '000011001000 000011001001 000001011011 000000110011 000000110100 000000110101 0000001101100 0000001101101 ' +
+        '0000001001010 0000001001011 0000001001100 0000001001101 0000001110010 0000001110011 0000001110100 ' +
+        '0000001110101 0000001110110 0000001110111 0000001010010 0000001010011 0000001010100 0000001010101 ' +
+        '0000001011010 0000001011011 0000001100100 0000001100101 00000001000 00000001100 00000001101 000000010010 ' +
+        '000000010011 000000010100 000000010101 000000010110 000000010111 000000011100 000000011101 000000011110 ' +
+        '000000011111',
+);
+
+/** Pass mode, horizontal mode, and the vertical modes by `b1 - a1` + 3 (ITU-T T.4 table 4). */
+const PASS_CODE: FaxCode = [0b0001, 4];
+const HORIZONTAL_CODE: FaxCode = [0b001, 3];
+const VERTICAL_CODES: readonly FaxCode[] = runCodes('0000011 000011 011 1 010 000010 0000010');
+/** Ends a Group 4 image (end of facsimile block): two end-of-line codes. */
+const END_OF_LINE_CODE: FaxCode = [1, 12];
+
+/**
+ * Writes a run in one colour: as many of the longest make-up code as needed, one shorter make-up
+ * code, then the terminating code for what is left.
+ */
+function writeRun(writer: BitWriter, run: number, codes: FaxCode[]): void {
+    while (run >= 2560 + 64) {
+        writer.write(...codes[63 + 2560 / 64]);
+        run -= 2560;
+    }
+    if (run >= 64) {
+        writer.write(...codes[63 + (run >> 6)]);
+        run &= 63;
+    }
+    writer.write(...codes[run]);
+}
+
+/**
+ * CCITT Group 4 (ITU-T T.6) coding of bilevel pixels, each row coded against the one above it,
+ * the first against an imaginary white row. The changing-element search follows libtiff's
+ * `Fax3Encode2DRow`.
+ */
+function compressG4({ width, height, pixels, stride }: TiffPageImage): Buffer {
+    const writer = new BitWriter();
+    // Raw bilevel pixels are 1 for white; fax coding counts 1 as black. Row -1 is the imaginary row.
+    const black = (row: number, x: number): number => (row < 0 ? 0 : ((pixels[row * stride + (x >> 3)] >> (7 - (x & 7))) & 1) ^ 1);
+    /** The first pixel at or after `x` in `row` that is not `color`, or `width`. */
+    const findChange = (row: number, x: number, color: number): number => {
+        while (x < width && black(row, x) === color) {
+            x += 1;
+        }
+        return x;
+    };
+
+    for (let row = 0; row < height; row += 1) {
+        const reference = row - 1;
+        let a0 = 0;
+        let a1 = black(row, 0) === 1 ? 0 : findChange(row, 0, 0);
+        let b1 = black(reference, 0) === 1 ? 0 : findChange(reference, 0, 0);
+        for (;;) {
+            const b2 = b1 < width ? findChange(reference, b1, black(reference, b1)) : width;
+            if (b2 < a1) {
+                writer.write(...PASS_CODE);
+                a0 = b2;
+            } else if (Math.abs(b1 - a1) <= 3) {
+                writer.write(...VERTICAL_CODES[b1 - a1 + 3]);
+                a0 = a1;
+            } else {
+                const a2 = a1 < width ? findChange(row, a1, black(row, a1)) : width;
+                writer.write(...HORIZONTAL_CODE);
+                // At the start of the row a0 stands in for the white pixel before it.
+                const whiteFirst = a0 + a1 === 0 || black(row, a0) === 0;
+                writeRun(writer, a1 - a0, whiteFirst ? WHITE_RUN_CODES : BLACK_RUN_CODES);
+                writeRun(writer, a2 - a1, whiteFirst ? BLACK_RUN_CODES : WHITE_RUN_CODES);
+                a0 = a2;
+            }
+            if (a0 >= width) {
+                break;
+            }
+            const color = black(row, a0);
+            a1 = findChange(row, a0, color);
+            b1 = findChange(reference, findChange(reference, a0, 1 - color), color);
+        }
+    }
+    writer.write(...END_OF_LINE_CODE);
+    writer.write(...END_OF_LINE_CODE);
+    return writer.finish();
+}
+
+/** Codes an LZW or Group 4 strip on the calling thread; the encode worker's entry point. */
+export function compressTiffStripSync(image: TiffPageImage, compression: TiffWorkerCompression): Buffer {
+    return compression === 'lzw' ? compressLzw(image.pixels) : compressG4(image);
+}
+
+/**
+ * Compresses a page's pixels into the single strip `encodeTiffDirectory` describes. Deflate runs
+ * on zlib's thread pool; LZW and Group 4, coded here, run on the shared encode worker (see
+ * `src/encodeThread.ts`), or inline when already off the main thread.
+ */
+export async function compressTiffStrip(image: TiffPageImage, compression: TiffCompression): Promise<Buffer> {
+    switch (compression) {
+        case 'none':
+            return image.pixels;
+        case 'deflate':
+            return deflateAsync(image.pixels);
+        case 'lzw':
+        case 'g4': {
+            if (!isMainThread) {
+                return compressTiffStripSync(image, compression);
+            }
+            const { width, height, bitDepth, colorType, pixels, stride, viewportScale } = image;
+            return encodeOnWorkerThread({
+                kind: 'tiff',
+                image: { width, height, bitDepth, colorType, pixels, stride, viewportScale },
+                compression,
+            });
+        }
+    }
+}
+
+/** TIFF field types (TIFF 6.0 §2). */
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+
+/** A directory entry: its tag, field type and values. */
+type TiffField = [tag: number, type: typeof SHORT | typeof LONG | typeof RATIONAL, values: number[]];
+
+/** A page's directory, ready to write. */
+export interface TiffDirectory {
+    /** The directory, followed by the values too long to fit in its entries. */
+    bytes: Buffer;
+    /** Offset, from the start of the file, of the directory's pointer to the next one. */
+    nextDirectoryPointer: number;
+}
+
+/**
+ * Builds the image file directory of one page, to be written at `offset` (an even number) with
+ * the page's strip of `stripLength` bytes right after it. Bilevel pages are `BlackIsZero`, as
+ * their raw pixels are, except Group 4 pages, which fax coding makes `WhiteIsZero`.
+ */
+export function encodeTiffDirectory(
+    image: TiffPageImage,
+    compression: TiffCompression,
+    stripLength: number,
+    offset: number,
+): TiffDirectory {
+    const { width, height, bitDepth, colorType, viewportScale } = image;
+    const samples = SAMPLES_PER_PIXEL[colorType];
+    // The resolution in dots per inch, as a fraction with four decimal places.
+    const resolution = [Math.round(viewportScale * PDF_POINTS_PER_INCH * 10_000), 10_000];
+    // Filled in once the directory's length is known.
+    const stripOffsets: TiffField = [273, LONG, [0]];
+    const fields: TiffField[] = [
+        [254, LONG, [2]], // NewSubfileType: one page of a multi-page document.
+        [256, LONG, [width]], // ImageWidth
+        [257, LONG, [height]], // ImageLength
+        [258, SHORT, new Array<number>(samples).fill(bitDepth)], // BitsPerSample
+        [259, SHORT, [TIFF_COMPRESSION_CODE[compression]]], // Compression
+        [262, SHORT, [compression === 'g4' ? 0 : colorType === 'gray' ? 1 : 2]], // PhotometricInterpretation
+        stripOffsets,
+        [277, SHORT, [samples]], // SamplesPerPixel
+        [278, LONG, [height]], // RowsPerStrip: the whole page is one strip.
+        [279, LONG, [stripLength]], // StripByteCounts
+        [282, RATIONAL, resolution], // XResolution
+        [283, RATIONAL, resolution], // YResolution
+        [284, SHORT, [1]], // PlanarConfiguration: samples interleaved.
+        ...(compression === 'g4' ? [[293, LONG, [0]] as TiffField] : []), // T6Options
+        [296, SHORT, [2]], // ResolutionUnit: the inch.
+        ...(colorType === 'rgba' ? [[338, SHORT, [2]] as TiffField] : []), // ExtraSamples: unassociated alpha.
+    ];
+
+    const entriesLength = 2 + fields.length * 12 + 4;
+    const valueLength = (type: TiffField[1], count: number): number => (type === SHORT ? 2 : 4) * count;
+    const externalLength = fields.reduce((total, [, type, values]) => {
+        const length = valueLength(type, values.length);
+        return length > 4 ? total + length : total;
+    }, 0);
+    const bytes = Buffer.alloc(entriesLength + externalLength);
+    stripOffsets[2][0] = offset + bytes.length;
+
+    bytes.writeUInt16LE(fields.length, 0);
+    let external = entriesLength;
+    fields.forEach(([tag, type, values], index) => {
+        const entry = 2 + index * 12;
+        bytes.writeUInt16LE(tag, entry);
+        bytes.writeUInt16LE(type, entry + 2);
+        bytes.writeUInt32LE(type === RATIONAL ? values.length / 2 : values.length, entry + 4);
+        const inline = valueLength(type, values.length) <= 4;
+        let target = inline ? entry + 8 : external;
+        if (!inline) {
+            bytes.writeUInt32LE(offset + external, entry + 8);
+            external += valueLength(type, values.length);
+        }
+        for (const value of values) {
+            if (type === SHORT) {
+                bytes.writeUInt16LE(value, target);
+                target += 2;
+            } else {
+                bytes.writeUInt32LE(value, target);
+                target += 4;
+            }
+        }
+    });
+    return { bytes, nextDirectoryPointer: offset + entriesLength - 4 };
+}
@@ -1,8 +1,8 @@
-import { existsSync } from 'node:fs';
-import { join } from 'node:path';
-import { Worker } from 'node:worker_threads';
-import type { PageRotation } from './interfaces/index.js';
-import type { RenderPageRequest, WorkerInitData, WorkerDocumentOptions, WorkerResponse } from './interfaces/worker.protocol.js';
+import { throwIfAborted } from './abortSignal.js';
+import type { ImageColorType, OutputFormat, PageRotation, PdfRectangle } from './interfaces/index.js';
+import type { WorkerDocumentOptions } from './interfaces/worker.protocol.js';
+import { PdfRenderPool } from './pdfRenderPool.js';
+import type { PageStageListener } from './progressReporter.js';
 
 /** One page-render assignment; `index` is the position in the conversion's ordered task list. */
 export interface WorkerPageTask {
@@ -18,25 +18,32 @@ export interface WorkerRenderedPage {
     width: number;
     height: number;
     rotation: PageRotation;
+    viewportScale: number;
+    renderedRect: PdfRectangle;
+    format: OutputFormat;
+    bitDepth: 1 | 8;
+    colorType: ImageColorType;
     content: Buffer | undefined;
+    /** Set, with `content` unset, for `returnRawPixels`. */
+    pixels?: { data: Buffer; stride: number };
 }
 
-/**
- * Locates the compiled worker entry. In the published package (and any `out/` build) it sits
- * next to this file. When this module runs from `src/` (vitest transforms TypeScript in-place,
- * so `__dirname` is `src/`), fall back to the repo's `out/` build — the integration tests
- * compile it first. Workers can only execute plain JavaScript, never `.ts` sources.
- */
-function resolveWorkerEntryPath(): string {
-    const compiled = join(__dirname, 'pageRenderWorker.js');
-    if (existsSync(compiled)) {
-        return compiled;
-    }
-    return join(__dirname, '..', 'out', 'pageRenderWorker.js');
+/** Optional hooks for observing and cancelling a {@link renderPagesInWorkerPool} (or `PdfRenderPool`) run. */
+export interface WorkerPoolControl {
+    /** Told about every failure as it is recorded, before the pool settles. */
+    onError?: (error: unknown) => void;
+    /** Aborting stops dispatch, terminates the workers rendering this conversion's pages and rejects with an `AbortError`. */
+    signal?: AbortSignal;
+    /**
+     * Told, on the main thread, as each page is rendered and encoded inside its worker. An error
+     * it throws fails that page, exactly as in the main-thread render path.
+     */
+    onPageStage?: PageStageListener;
 }
 
 /**
- * Renders pages across a pool of worker threads.
+ * Renders pages across a pool of worker threads started for this call alone — a transient
+ * {@link PdfRenderPool} sized to the work, destroyed before this function settles.
  *
  * Each worker receives its own structured-clone copy of `pdfBuffer` (pdf.js documents cannot be
  * shared across threads) and loads the document once. Tasks are dispatched dynamically — a worker
@@ -49,10 +56,17 @@ function resolveWorkerEntryPath(): string {
  * Failure semantics: after the first error no new pages are dispatched and in-flight pages
  * settle. Per-page failures (a page that fails to render, or whose output write fails) are
  * collected by index and the LOWEST-index one is thrown — mirroring
- * `processPagesWithSlidingWindow`. Worker-level failures (document load failure, worker crash,
+ * `processWithSlidingWindow`. Worker-level failures (document load failure, worker crash,
  * startup failure, unexpected exit) are FATAL: the first one is thrown with priority over any
- * per-page error, regardless of what the crashed worker was doing at the time. Workers are
- * always terminated before this function settles.
+ * per-page error. Workers are always terminated before this function settles. `control.onError`,
+ * when given, is told about every failure as it is recorded — before the pool settles — so a
+ * caller blocking inside `onPageRendered` (the streaming iterator's back-pressure) can stop
+ * waiting for pages that will never arrive.
+ *
+ * Aborting `control.signal` is treated as a fatal failure: the `AbortError` is recorded (and
+ * reported to `onError`) and every worker rendering a page is terminated immediately, mid-render —
+ * the only way to stop a pdf.js render on another thread. An `onPageRendered` call already in
+ * progress still completes before the pool settles.
  */
 export async function renderPagesInWorkerPool(
     pdfBuffer: Uint8Array,
@@ -61,132 +75,16 @@ export async function renderPagesInWorkerPool(
     tasks: WorkerPageTask[],
     poolSize: number,
     onPageRendered: (index: number, page: WorkerRenderedPage) => Promise<void>,
+    control: WorkerPoolControl = {},
 ): Promise<void> {
+    throwIfAborted(control.signal);
     if (tasks.length === 0) {
         return;
     }
-
-    const workerEntryPath = resolveWorkerEntryPath();
-    const workerCount = Math.min(poolSize, tasks.length);
-    const initData: WorkerInitData = { pdfBuffer, documentOptions, materializeContent };
-
-    let nextTaskIndex = 0;
-    let fatalError: unknown;
-    let hasFatalError = false;
-    const errorsByIndex = new Map<number, unknown>();
-
-    const recordFatal = (error: unknown): void => {
-        if (!hasFatalError) {
-            hasFatalError = true;
-            fatalError = error;
-        }
-    };
-
-    const shouldStop = (): boolean => hasFatalError || errorsByIndex.size > 0;
-
-    const runWorker = (): Promise<void> =>
-        new Promise<void>((resolveWorker) => {
-            let worker: Worker;
-            try {
-                worker = new Worker(workerEntryPath, { workerData: initData });
-            } catch (error: unknown) {
-                // A synchronous spawn failure is fatal; recording it flips shouldStop() so the
-                // sibling workers stop dispatching and wind down through their normal path.
-                recordFatal(error);
-                resolveWorker();
-                return;
-            }
-            let settled = false;
-            // Serializes this worker's response handling; finish() awaits it so a pending
-            // onPageRendered (e.g. a file write) can never outlive the pool.
-            let pendingWork: Promise<void> = Promise.resolve();
-
-            const finish = (): void => {
-                if (!settled) {
-                    settled = true;
-                    void worker.terminate();
-                    void pendingWork.then(() => resolveWorker());
-                }
-            };
-
-            const dispatchNext = (): void => {
-                if (shouldStop() || nextTaskIndex >= tasks.length) {
-                    finish();
-                    return;
-                }
-                const task = tasks[nextTaskIndex];
-                nextTaskIndex += 1;
-                const request: RenderPageRequest = {
-                    type: 'render',
-                    index: task.index,
-                    pageNumber: task.pageNumber,
-                    pageName: task.pageName,
-                };
-                worker.postMessage(request);
-            };
-
-            const handleResponse = async (response: WorkerResponse): Promise<void> => {
-                if (response.type === 'fatal') {
-                    recordFatal(response.error);
-                    finish();
-                    return;
-                }
-                if (response.type === 'render-error') {
-                    errorsByIndex.set(response.index, response.error);
-                    dispatchNext();
-                    return;
-                }
-                // Re-wrap the structured-cloned bytes as a Buffer without copying.
-                const content =
-                    response.content !== undefined
-                        ? Buffer.from(response.content.buffer, response.content.byteOffset, response.content.byteLength)
-                        : undefined;
-                try {
-                    await onPageRendered(response.index, {
-                        pageNumber: response.pageNumber,
-                        name: response.name,
-                        width: response.width,
-                        height: response.height,
-                        rotation: response.rotation,
-                        content,
-                    });
-                } catch (error: unknown) {
-                    errorsByIndex.set(response.index, error);
-                }
-                dispatchNext();
-            };
-
-            worker.on('message', (response: WorkerResponse) => {
-                if (settled) {
-                    return;
-                }
-                pendingWork = pendingWork.then(() => handleResponse(response)).catch(recordFatal);
-            });
-            worker.on('error', (error: unknown) => {
-                // Any worker 'error' is a worker-level failure (crash, startup failure such as a
-                // missing entry file) — always fatal, never attributed to the page it happened
-                // to be rendering.
-                recordFatal(error);
-                finish();
-            });
-            worker.on('exit', () => {
-                // terminate() sets `settled` before this fires; an exit seen while unsettled is
-                // a crash. Record it as fatal so the pool neither hangs nor blames a page.
-                if (!settled) {
-                    recordFatal(new Error('Render worker exited unexpectedly.'));
-                }
-                finish();
-            });
-
-            dispatchNext();
-        });
-
-    await Promise.all(Array.from({ length: workerCount }, () => runWorker()));
-
-    if (hasFatalError) {
-        throw fatalError;
-    }
-    if (errorsByIndex.size > 0) {
-        throw errorsByIndex.get(Math.min(...errorsByIndex.keys()));
+    const pool = new PdfRenderPool({ size: Math.min(poolSize, tasks.length), maxCachedDocuments: 1 });
+    try {
+        await pool.renderDocument(pdfBuffer, documentOptions, materializeContent, tasks, poolSize, onPageRendered, control);
+    } finally {
+        await pool.destroy();
     }
 }
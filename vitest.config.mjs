@@ -8,7 +8,7 @@ export default defineConfig({
             include: ['src/**/*.ts'],
             // pageRenderWorker runs inside worker threads: the integration tests exercise it,
             // but V8 coverage only instruments the main process, so it would always read 0%.
-            exclude: ['src/types/**/*.ts', 'src/pageRenderWorker.ts'],
+            exclude: ['src/types/**/*.ts', 'src/pageRenderWorker.ts', 'src/encodeWorker.ts'],
             reportsDirectory: './test-results/coverage',
             thresholds: {
                 lines: 90,